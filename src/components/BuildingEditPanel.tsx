@@ -1,11 +1,58 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import * as THREE from 'three';
-import { X, Save, RotateCcw, Layers, ChevronDown, Home, Wrench, Users, Wind, Info } from 'lucide-react';
-import { BuildingData, BuildingConfig } from '../types/building';
+import { X, Save, RotateCcw, Layers, ChevronDown, Home, Wrench, Users, Wind, Info, PenTool, BoxSelect, Move, Copy, Grid3x3, Crosshair, Table } from 'lucide-react';
+import {
+  BalconySettings,
+  BuildingData,
+  BuildingConfig,
+  FacadeShading,
+  FloorSetback,
+  RoofType,
+  ShadingDeviceSettings,
+  WindowLayout,
+  WindowLayoutMode,
+  WindowToWallOverrides
+} from '../types/building';
 import { Tooltip } from './ui/Tooltip';
 import { MaterialCompareDialog } from './dialogs/MaterialCompareDialog';
-import { calculateCentroid, createShapeFromPoints } from '../utils/geometry';
+import { WindowScheduleDialog } from './dialogs/WindowScheduleDialog';
+import {
+  calculateCentroid,
+  calculateFootprintArea,
+  calculateGrossFloorArea,
+  CompassDirection,
+  getCompassDirection,
+  getEdgeAzimuths,
+  getFootprintRings,
+  getMassingTiers
+} from '../utils/geometry';
+import { createTieredMassingGeometry, getRoofOptions, DEFAULT_ROOF_PITCH, MAX_ROOF_PITCH } from '../utils/roofGeometry';
 import { getThemeColorAsHex, addThemeChangeListener } from '../utils/themeColors';
+import { getAchievedWindowToWallRatio, getEffectiveWindowToWallRatio } from '../services/FacadeGlazing';
+import { DEFAULT_FIN_SETTINGS, DEFAULT_LOUVRE_SETTINGS } from '../services/ShadingDevices';
+import { DEFAULT_BALCONY_SETTINGS } from '../services/Balconies';
+import { getWindowSchedule } from '../services/WindowSchedule';
+import {
+  wallOptions,
+  floorOptions,
+  roofOptions,
+  windowOptions,
+  structuralOptions,
+  programOptions,
+  hvacOptions
+} from '../data/constructions';
+
+const roofTypeOptions: { value: RoofType; label: string }[] = [
+  { value: 'flat', label: 'Flat' },
+  { value: 'mono-pitch', label: 'Mono-pitch' },
+  { value: 'gable', label: 'Gable' },
+  { value: 'hip', label: 'Hip' }
+];
+
+const windowLayoutModeOptions: { value: WindowLayoutMode; label: string }[] = [
+  { value: 'punched', label: 'Punched' },
+  { value: 'ribbon', label: 'Ribbon' }
+];
 
 const getColorOptions = () => [
   { name: 'Blue', value: getThemeColorAsHex('--color-building-blue', 0x3b82f6) },
@@ -18,46 +65,21 @@ const getColorOptions = () => [
   { name: 'Gray', value: getThemeColorAsHex('--color-building-gray', 0x6b7280) }
 ];
 
-// Updated options with performance data
-const wallOptions = [
-  { label: "Default Wall – U: 1.6 W/m²K, CO₂: 60 kg/m²", value: "Default Wall" },
-  { label: "Concrete – U: 1.8 W/m²K, CO₂: 80 kg/m²", value: "Concrete" },
-  { label: "Brick – U: 1.2 W/m²K, CO₂: 90 kg/m²", value: "Brick" },
-  { label: "Wood – U: 0.35 W/m²K, CO₂: 45 kg/m²", value: "Wood" },
-  { label: "Steel – U: 2.0 W/m²K, CO₂: 120 kg/m²", value: "Steel" }
-];
-const floorOptions = [
-  { label: "Default Floor – U: 1.5 W/m²K", value: "Default Floor" },
-  { label: "Concrete Slab – U: 1.8 W/m²K", value: "Concrete Slab" },
-  { label: "Raised Floor – U: 1.2 W/m²K", value: "Raised Floor" }
-];
-const roofOptions = [
-  { label: "Default Roof – U: 1.4 W/m²K", value: "Default Roof" },
-  { label: "Flat Roof – U: 1.6 W/m²K", value: "Flat Roof" },
-  { label: "Pitched Roof – U: 1.1 W/m²K", value: "Pitched Roof" }
-];
-const windowOptions = [
-  { label: "Default Window – U: 2.8 W/m²K", value: "Default Window" },
-  { label: "Double Glazed – U: 1.6 W/m²K", value: "Double Glazed" },
-  { label: "Triple Glazed – U: 0.9 W/m²K", value: "Triple Glazed" }
-];
-const programOptions = [
-  'Office', 'Residential', 'Retail', 'School', 'Hospital'
-];
-const hvacOptions = [
-  'Default HVAC', 'VAV', 'CAV', 'Radiant', 'Split System'
-];
-const structuralOptions = [
-  { label: "Concrete – High strength, high embodied carbon", value: "Concrete" },
-  { label: "Timber – Sustainable, lower carbon footprint", value: "Timber" },
-  { label: "Masonry – Durable, good thermal mass", value: "Masonry" }
-];
 
 interface BuildingEditPanelProps {
   building: BuildingData;
   onClose: () => void;
   onSave: (updates: Partial<BuildingData> & { config?: BuildingConfig }) => void;
   onPreview?: (updates: Partial<BuildingData> & { config?: BuildingConfig }) => void;
+  onEditFootprint?: () => void;
+  onTransform?: () => void;
+  onCopy?: () => void;
+  onArray?: () => void;
+  onAddCourtyard?: () => void;
+  onRemoveCourtyard?: (index: number) => void;
+  onExtendSelection?: (event: MouseEvent) => void; // Shift-click on the scene behind the panel
+  onPickFacade?: (onPick: (edge: number) => void) => void; // Starts picking a façade in the viewport
+  isPickingFacade?: boolean; // Lets clicks through to the viewport while a façade is picked
   enableBuildingFocus?: (buildingId: string) => void;
   disableBuildingFocus?: () => void;
 }
@@ -67,6 +89,15 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
   onClose,
   onSave,
   onPreview,
+  onEditFootprint,
+  onTransform,
+  onCopy,
+  onArray,
+  onAddCourtyard,
+  onRemoveCourtyard,
+  onExtendSelection,
+  onPickFacade,
+  isPickingFacade = false,
   enableBuildingFocus,
   disableBuildingFocus
 }) => {  // Collapsible state
@@ -88,8 +119,17 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
     floorHeight: building.floorHeight,
     color: building.color || getThemeColorAsHex('--color-building-blue', 0x3b82f6),
     window_to_wall_ratio: building.window_to_wall_ratio ?? 0.4,
+    window_to_wall_overrides: building.window_to_wall_overrides ?? {},
+    window_layout: building.window_layout ?? {},
+    ground_floor_glazing: building.ground_floor_glazing,
     window_overhang: building.window_overhang ?? false,
     window_overhang_depth: building.window_overhang_depth ?? 0.0,
+    shading_devices: building.shading_devices ?? {},
+    balconies: building.balconies,
+    roof_type: building.roof_type ?? 'flat',
+    roof_pitch: building.roof_pitch ?? DEFAULT_ROOF_PITCH,
+    roof_ridge_direction: building.roof_ridge_direction,
+    setbacks: building.setbacks ?? [],
     wall_construction: building.wall_construction || 'Default Wall',
     floor_construction: building.floor_construction || 'Default Floor',
     roof_construction: building.roof_construction || 'Default Roof',
@@ -100,6 +140,21 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
     natural_ventilation: building.natural_ventilation ?? false
   });
 
+  const editedRef = useRef(edited);
+  editedRef.current = edited;
+
+  // Adding or removing a vertex renumbers the walls; take over the settings moved with them
+  const pointCountRef = useRef(building.points.length);
+  useEffect(() => {
+    if (pointCountRef.current === building.points.length) return;
+    pointCountRef.current = building.points.length;
+    setEdited(prev => ({
+      ...prev,
+      setbacks: building.setbacks ?? [],
+      window_to_wall_overrides: building.window_to_wall_overrides ?? {},
+      balconies: building.balconies
+    }));
+  }, [building.points.length, building.setbacks, building.window_to_wall_overrides, building.balconies]);
   const [hasChanges, setHasChanges] = useState(false);
   const [themeVersion, setThemeVersion] = useState(0);
 
@@ -137,8 +192,17 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
       floorHeight: building.floorHeight,
       color: building.color || "#ffffff",
       window_to_wall_ratio: building.window_to_wall_ratio ?? 0.4,
+      window_to_wall_overrides: building.window_to_wall_overrides ?? {},
+      window_layout: building.window_layout ?? {},
+      ground_floor_glazing: building.ground_floor_glazing,
       window_overhang: building.window_overhang ?? false,
       window_overhang_depth: building.window_overhang_depth ?? 0.0,
+      shading_devices: building.shading_devices ?? {},
+      balconies: building.balconies,
+      roof_type: building.roof_type ?? 'flat',
+      roof_pitch: building.roof_pitch ?? DEFAULT_ROOF_PITCH,
+      roof_ridge_direction: building.roof_ridge_direction,
+      setbacks: building.setbacks ?? [],
       wall_construction: building.wall_construction || 'Default Wall',
       floor_construction: building.floor_construction || 'Default Floor',
       roof_construction: building.roof_construction || 'Default Roof',
@@ -149,29 +213,30 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
       natural_ventilation: building.natural_ventilation ?? false
     };
     setHasChanges(JSON.stringify(orig) !== JSON.stringify(edited));
-  }, [edited, building]);  // Helper function to update building geometry directly
+  }, [edited, building]);
+
+  const roofEdited = edited.roof_type !== (building.roof_type ?? 'flat') ||
+    edited.roof_pitch !== (building.roof_pitch ?? DEFAULT_ROOF_PITCH) ||
+    edited.roof_ridge_direction !== building.roof_ridge_direction;
+  const setbacksEdited = JSON.stringify(edited.setbacks ?? []) !== JSON.stringify(building.setbacks ?? []);
+
+  // Helper function to update building geometry directly
   const updateBuildingGeometry = useCallback(() => {
     if (building.mesh && !building.mesh.userData.isPreview) {      // Only update if there are actual changes
-      if (edited.floors !== building.floors || edited.floorHeight !== building.floorHeight) {
+      if (edited.floors !== building.floors || edited.floorHeight !== building.floorHeight || roofEdited || setbacksEdited) {
         if (building.mesh.geometry) {
           // Create new extruded geometry with updated height
-          const newHeight = edited.floors * edited.floorHeight;
-          
           // Store the original position before updating
           const originalPosition = building.mesh.position.clone();
           
-          // Create shape properly using the centroid
+          // Create the massing properly using the centroid
           const centroid = calculateCentroid(building.points);
-          const shape = createShapeFromPoints(building.points, centroid);
-          
-          const extrudeSettings = {
-            depth: newHeight,
-            bevelEnabled: false,
-            steps: 1
-          };
-          
-          const newGeometry = new THREE.ExtrudeGeometry(shape, extrudeSettings);
-          newGeometry.rotateX(-Math.PI / 2);
+          const tiers = getMassingTiers(building.points, edited.floors, building.holes, edited.setbacks);
+          const newGeometry = createTieredMassingGeometry(tiers, centroid, edited.floorHeight, getRoofOptions({
+            roof_type: edited.roof_type,
+            roof_pitch: edited.roof_pitch,
+            roof_ridge_direction: edited.roof_ridge_direction
+          }));
           
           // Update mesh with new geometry
           building.mesh.geometry.dispose();
@@ -202,34 +267,39 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
             }
             
             // Create new floor lines
-            for (let floor = 1; floor < edited.floors; floor++) {
+            const floorLines = building.floorLines;
+            const floorPlates = getMassingTiers(building.points, edited.floors, building.holes, edited.setbacks)
+              .flatMap(tier => Array.from({ length: tier.floors - 1 }, (_, i) => ({ floor: tier.fromFloor + i + 1, tier })));
+            for (const { floor, tier } of floorPlates) {
               const yPosition = floor * edited.floorHeight;
               
-              // Create line geometry from building footprint points
-              const linePoints: THREE.Vector3[] = [];
-              building.points.forEach(point => {
-                linePoints.push(new THREE.Vector3(point.x, yPosition, point.z));
-              });
-              // Close the line
-              linePoints.push(new THREE.Vector3(building.points[0].x, yPosition, building.points[0].z));
+              getFootprintRings(tier.points, tier.holes).forEach(ring => {
+                // Create line geometry from each footprint ring
+                const linePoints: THREE.Vector3[] = [];
+                ring.forEach(point => {
+                  linePoints.push(new THREE.Vector3(point.x, yPosition, point.z));
+                });
+                // Close the line
+                linePoints.push(new THREE.Vector3(ring[0].x, yPosition, ring[0].z));
               
-              const lineGeometry = new THREE.BufferGeometry().setFromPoints(linePoints);
-              const lineMaterial = new THREE.LineBasicMaterial({ 
-                color: getThemeColorAsHex('--color-floor-lines', 0x888888),
-                transparent: false,
-                opacity: 1,
-                linewidth: 5
-              });
+                const lineGeometry = new THREE.BufferGeometry().setFromPoints(linePoints);
+                const lineMaterial = new THREE.LineBasicMaterial({ 
+                  color: getThemeColorAsHex('--color-floor-lines', 0x888888),
+                  transparent: false,
+                  opacity: 1,
+                  linewidth: 5
+                });
               
-              const floorLine = new THREE.Line(lineGeometry, lineMaterial);
-              floorLine.userData = { buildingId: building.id, isFloorLine: true, floor };
-              building.floorLines.add(floorLine);
+                const floorLine = new THREE.Line(lineGeometry, lineMaterial);
+                floorLine.userData = { buildingId: building.id, isFloorLine: true, floor };
+                floorLines.add(floorLine);
+              });
             }
           }
         }
       }
     }
-  }, [building, edited.floors, edited.floorHeight]);
+  }, [building, edited.floors, edited.floorHeight, edited.roof_type, edited.roof_pitch, edited.roof_ridge_direction, edited.setbacks, roofEdited, setbacksEdited]);
     // Live update for floors and floorHeight
   useEffect(() => {
     updateBuildingGeometry();
@@ -240,7 +310,7 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
       floorHeight: edited.floorHeight,
       newHeight: edited.floors * edited.floorHeight
     });
-  }, [edited.floors, edited.floorHeight, updateBuildingGeometry]);  const updateField = (field: keyof typeof edited, value: any) => {
+  }, [edited.floors, edited.floorHeight, edited.roof_type, edited.roof_pitch, edited.roof_ridge_direction, edited.setbacks, updateBuildingGeometry]);  const updateField = (field: keyof typeof edited, value: any) => {
     setEdited(prev => ({ ...prev, [field]: value }));
     
     // Live update for color
@@ -249,8 +319,9 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
       material.color.setHex(value);
     }
     // Live update for window properties and building geometry that affects windows
-    if (field === 'window_to_wall_ratio' || field === 'window_overhang' || field === 'window_overhang_depth' || 
-        field === 'floors' || field === 'floorHeight') {
+    if (field === 'window_to_wall_ratio' || field === 'window_to_wall_overrides' ||
+        field === 'window_layout' || field === 'ground_floor_glazing' || field === 'window_overhang' || field === 'window_overhang_depth' || field === 'shading_devices' || field === 'balconies' ||
+        field === 'floors' || field === 'floorHeight' || field === 'setbacks') {
       // Create the updated edited state immediately for the config
       const updatedEdited = { ...edited, [field]: value };
       
@@ -277,8 +348,17 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
       floorHeight: edited.floorHeight,
       color: edited.color,
       window_to_wall_ratio: edited.window_to_wall_ratio,
+      window_to_wall_overrides: edited.window_to_wall_overrides,
+      window_layout: edited.window_layout,
+      ground_floor_glazing: edited.ground_floor_glazing,
       window_overhang: edited.window_overhang,
       window_overhang_depth: edited.window_overhang_depth,
+      shading_devices: edited.shading_devices,
+      balconies: edited.balconies,
+      roof_type: edited.roof_type,
+      roof_pitch: edited.roof_pitch,
+      roof_ridge_direction: edited.roof_ridge_direction,
+      setbacks: edited.setbacks,
       wall_construction: edited.wall_construction,
       floor_construction: edited.floor_construction,
       roof_construction: edited.roof_construction,
@@ -299,8 +379,17 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
       floorHeight: building.floorHeight,
       color: building.color || getThemeColorAsHex('--color-building-blue', 0x3b82f6),
       window_to_wall_ratio: building.window_to_wall_ratio ?? 0.4,
+      window_to_wall_overrides: building.window_to_wall_overrides ?? {},
+      window_layout: building.window_layout ?? {},
+      ground_floor_glazing: building.ground_floor_glazing,
       window_overhang: building.window_overhang ?? false,
       window_overhang_depth: building.window_overhang_depth ?? 0.0,
+      shading_devices: building.shading_devices ?? {},
+      balconies: building.balconies,
+      roof_type: building.roof_type ?? 'flat',
+      roof_pitch: building.roof_pitch ?? DEFAULT_ROOF_PITCH,
+      roof_ridge_direction: building.roof_ridge_direction,
+      setbacks: building.setbacks ?? [],
       wall_construction: building.wall_construction || 'Default Wall',
       floor_construction: building.floor_construction || 'Default Floor',
       roof_construction: building.roof_construction || 'Default Roof',
@@ -315,6 +404,191 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
     }
   };
 
+  // Setbacks step floors in from the ones below; façade chips follow the outer edges
+  const setbacks = edited.setbacks ?? [];
+  const steppedFloors = new Set(
+    getMassingTiers(building.points, edited.floors, building.holes, setbacks).map(tier => tier.fromFloor)
+  );
+  const facadeLabels = getEdgeAzimuths(building.points).map((azimuth, edge) => {
+    const start = building.points[edge];
+    const end = building.points[(edge + 1) % building.points.length];
+    return `${getCompassDirection(azimuth)} ${Math.hypot(end.x - start.x, end.z - start.z).toFixed(0)}m`;
+  });
+
+  const updateSetback = (index: number, changes: Partial<FloorSetback>) => {
+    updateField('setbacks', setbacks.map((setback, i) => i === index ? { ...setback, ...changes } : setback));
+  };
+
+  const addSetback = () => {
+    // Recess the top floor first, then step each further setback one floor higher
+    const last = setbacks[setbacks.length - 1];
+    const fromFloor = last ? Math.min(edited.floors - 1, last.fromFloor + 1) : Math.max(1, edited.floors - 1);
+    updateField('setbacks', [...setbacks, { fromFloor, distance: 2 }]);
+  };
+
+  const removeSetback = (index: number) => {
+    updateField('setbacks', setbacks.filter((_, i) => i !== index));
+  };
+
+  const toggleSetbackEdge = (index: number, edge: number) => {
+    const current = setbacks[index].edges ?? building.points.map((_, i) => i);
+    const edges = current.includes(edge) ? current.filter(e => e !== edge) : [...current, edge].sort((a, b) => a - b);
+    updateSetback(index, { edges: edges.length === building.points.length ? undefined : edges });
+  };
+
+  // Glazing overrides: a façade's own ratio wins over its orientation's, which wins over the building's
+  const wwrOverrides: WindowToWallOverrides = edited.window_to_wall_overrides ?? {};
+  const baseWwr = edited.window_to_wall_ratio ?? 0.4;
+
+  const setOrientationWwr = (direction: CompassDirection, value: number | undefined) => {
+    const orientations = { ...wwrOverrides.orientations };
+    if (value === undefined) delete orientations[direction];
+    else orientations[direction] = value;
+    updateField('window_to_wall_overrides', { ...wwrOverrides, orientations });
+  };
+
+  const setFacadeWwr = (edge: number, value: number | undefined) => {
+    const edges = { ...wwrOverrides.edges };
+    if (value === undefined) delete edges[edge];
+    else edges[edge] = value;
+    updateField('window_to_wall_overrides', { ...wwrOverrides, edges });
+  };
+
+  // Both glazing and balconies pick façades; only the button that started the pick shows it
+  const [facadePickTarget, setFacadePickTarget] = useState<'glazing' | 'balconies'>('glazing');
+
+  const pickFacade = () => {
+    // Start a new façade at the ratio it currently resolves to
+    setFacadePickTarget('glazing');
+    onPickFacade?.(edge => {
+      // The pick lands after later renders, so read the latest edits rather than this closure's
+      const current = editedRef.current;
+      const overrides = current.window_to_wall_overrides ?? {};
+      if (overrides.edges?.[edge] !== undefined) return;
+      const azimuth = getEdgeAzimuths(building.points)[edge];
+      const ratio = overrides.orientations?.[getCompassDirection(azimuth)] ?? current.window_to_wall_ratio ?? 0.4;
+      const next = { ...overrides, edges: { ...overrides.edges, [edge]: ratio } };
+      setEdited({ ...current, window_to_wall_overrides: next });
+      debouncedWindowUpdate({ window_to_wall_overrides: next, config: { ...current, window_to_wall_overrides: next } });
+    });
+  };
+
+  // Laid-out glazing against the target, as sill and head heights can cap the window area
+  const glazingRatios = useMemo(() => {
+    const glazing = { ...building, ...edited };
+    return { target: getEffectiveWindowToWallRatio(glazing), achieved: getAchievedWindowToWallRatio(glazing) };
+  }, [building, edited]);
+
+  // Only solved while the schedule is open, from the edits not yet saved
+  const [showWindowSchedule, setShowWindowSchedule] = useState(false);
+  const windowSchedule = useMemo(
+    () => showWindowSchedule ? getWindowSchedule({ ...building, ...edited }) : [],
+    [showWindowSchedule, building, edited]
+  );
+
+  const updateWindowLayout = (changes: Partial<WindowLayout>) => {
+    updateField('window_layout', { ...edited.window_layout, ...changes });
+  };
+
+  const updateGroundFloorGlazing = (changes: Partial<NonNullable<BuildingConfig['ground_floor_glazing']>>) => {
+    updateField('ground_floor_glazing', { ...edited.ground_floor_glazing, ...changes });
+  };
+
+  // Full-height shopfront glazing, leaving a transfer zone below the first floor slab
+  const toggleGroundFloorGlazing = (enabled: boolean) => {
+    updateField('ground_floor_glazing', enabled
+      ? { window_to_wall_ratio: 0.8, mode: 'ribbon', sill_height: 0, head_height: Math.max(0.5, edited.floorHeight - 0.3) }
+      : undefined);
+  };
+
+  const parseHeight = (value: string): number | undefined => {
+    const height = parseFloat(value);
+    return Number.isFinite(height) ? Math.max(0, height) : undefined;
+  };
+
+  const renderWindowLayoutFields = (layout: WindowLayout, onChange: (changes: Partial<WindowLayout>) => void) => (
+    <div className="flex items-center gap-2 text-xs text-gray-400">
+      <select
+        value={layout.mode ?? 'punched'}
+        onChange={e => onChange({ mode: e.target.value as WindowLayoutMode })}
+        className="px-2 py-1 bg-gray-800 border border-gray-600 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {windowLayoutModeOptions.map(opt => (
+          <option key={opt.value} value={opt.value}>
+            {opt.label}
+          </option>
+        ))}
+      </select>
+      <span>sill</span>
+      <input
+        type="number"
+        min="0"
+        step="0.1"
+        placeholder="auto"
+        value={layout.sill_height ?? ''}
+        onChange={e => onChange({ sill_height: parseHeight(e.target.value) })}
+        className="w-16 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <span>head</span>
+      <input
+        type="number"
+        min="0"
+        step="0.1"
+        placeholder="auto"
+        value={layout.head_height ?? ''}
+        onChange={e => onChange({ head_height: parseHeight(e.target.value) })}
+        className="w-16 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <span>m</span>
+    </div>
+  );
+
+  // Fins and louvres are set per orientation; the panel edits one orientation at a time
+  const [shadingDirection, setShadingDirection] = useState<CompassDirection>('S');
+  const facadeShading: FacadeShading = edited.shading_devices?.[shadingDirection] ?? {};
+
+  const updateShadingDevice = (device: keyof FacadeShading, settings: ShadingDeviceSettings | undefined) => {
+    const next: FacadeShading = { ...facadeShading, [device]: settings };
+    if (!settings) delete next[device];
+    const shadingDevices = { ...edited.shading_devices, [shadingDirection]: next };
+    if (!next.fins && !next.louvres) delete shadingDevices[shadingDirection];
+    updateField('shading_devices', shadingDevices);
+  };
+
+  const shadingDeviceFields: { key: keyof ShadingDeviceSettings; label: string; unit: string; step: number }[] = [
+    { key: 'depth', label: 'depth', unit: 'm', step: 0.05 },
+    { key: 'spacing', label: 'spacing', unit: 'm', step: 0.05 },
+    { key: 'angle', label: 'angle', unit: '°', step: 5 }
+  ];
+
+  // Balconies are set per façade, keyed by footprint edge like the glazing overrides
+  const balconyEdges = edited.balconies?.edges ?? {};
+
+  const setFacadeBalconies = (edge: number, settings: BalconySettings | undefined) => {
+    const edges = { ...balconyEdges };
+    if (settings) edges[edge] = settings;
+    else delete edges[edge];
+    updateField('balconies', Object.keys(edges).length > 0 ? { ...edited.balconies, edges } : undefined);
+  };
+
+  const pickBalconyFacade = () => {
+    setFacadePickTarget('balconies');
+    onPickFacade?.(edge => {
+      // Read the latest edits, as the pick lands after later renders
+      const current = editedRef.current;
+      if (current.balconies?.edges[edge]) return;
+      const next = { ...current.balconies, edges: { ...current.balconies?.edges, [edge]: { ...DEFAULT_BALCONY_SETTINGS } } };
+      setEdited({ ...current, balconies: next });
+      debouncedWindowUpdate({ balconies: next, config: { ...current, balconies: next } });
+    });
+  };
+
+  const balconyFields: { key: keyof BalconySettings; label: string; unit?: string; step: number }[] = [
+    { key: 'width', label: 'width', unit: 'm', step: 0.1 },
+    { key: 'depth', label: 'depth', unit: 'm', step: 0.1 },
+    { key: 'every', label: 'every', step: 1 }
+  ];
+
   const toggleSection = (key: keyof typeof sections) => {
     setSections(prev => ({ ...prev, [key]: !prev[key] }));
   };
@@ -372,24 +646,14 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
     // Only restore if there are unsaved changes
     if (hasChanges) {
       // Restore original geometry if needed
-      if (edited.floors !== building.floors || edited.floorHeight !== building.floorHeight) {        if (building.mesh && building.mesh.geometry) {          // Recreate original geometry
-          const originalHeight = building.floors * building.floorHeight;
-          
+      if (edited.floors !== building.floors || edited.floorHeight !== building.floorHeight || roofEdited || setbacksEdited) {        if (building.mesh && building.mesh.geometry) {          // Recreate original geometry
           // Store the original position before updating
           const originalPosition = building.mesh.position.clone();
           
-          // Create shape properly using the centroid
+          // Create the original massing properly using the centroid
           const centroid = calculateCentroid(building.points);
-          const shape = createShapeFromPoints(building.points, centroid);
-          
-          const extrudeSettings = {
-            depth: originalHeight,
-            bevelEnabled: false,
-            steps: 1
-          };
-          
-          const newGeometry = new THREE.ExtrudeGeometry(shape, extrudeSettings);
-          newGeometry.rotateX(-Math.PI / 2);
+          const tiers = getMassingTiers(building.points, building.floors, building.holes, building.setbacks);
+          const newGeometry = createTieredMassingGeometry(tiers, centroid, building.floorHeight, getRoofOptions(building));
           
           // Update mesh with original geometry
           building.mesh.geometry.dispose();
@@ -419,28 +683,33 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
             }
             
             // Recreate original floor lines
-            for (let floor = 1; floor < building.floors; floor++) {
+            const floorLines = building.floorLines;
+            const floorPlates = getMassingTiers(building.points, building.floors, building.holes, building.setbacks)
+              .flatMap(tier => Array.from({ length: tier.floors - 1 }, (_, i) => ({ floor: tier.fromFloor + i + 1, tier })));
+            for (const { floor, tier } of floorPlates) {
               const yPosition = floor * building.floorHeight;
               
-              // Create line geometry from building footprint points
-              const linePoints: THREE.Vector3[] = [];
-              building.points.forEach(point => {
-                linePoints.push(new THREE.Vector3(point.x, yPosition, point.z));
-              });
-              // Close the line
-              linePoints.push(new THREE.Vector3(building.points[0].x, yPosition, building.points[0].z));
+              getFootprintRings(tier.points, tier.holes).forEach(ring => {
+                // Create line geometry from each footprint ring
+                const linePoints: THREE.Vector3[] = [];
+                ring.forEach(point => {
+                  linePoints.push(new THREE.Vector3(point.x, yPosition, point.z));
+                });
+                // Close the line
+                linePoints.push(new THREE.Vector3(ring[0].x, yPosition, ring[0].z));
               
-              const lineGeometry = new THREE.BufferGeometry().setFromPoints(linePoints);
-              const lineMaterial = new THREE.LineBasicMaterial({ 
-                color: getThemeColorAsHex('--color-floor-lines', 0x888888),
-                transparent: false,
-                opacity: 1,
-                linewidth: 5
-              });
+                const lineGeometry = new THREE.BufferGeometry().setFromPoints(linePoints);
+                const lineMaterial = new THREE.LineBasicMaterial({ 
+                  color: getThemeColorAsHex('--color-floor-lines', 0x888888),
+                  transparent: false,
+                  opacity: 1,
+                  linewidth: 5
+                });
               
-              const floorLine = new THREE.Line(lineGeometry, lineMaterial);
-              floorLine.userData = { buildingId: building.id, isFloorLine: true, floor };
-              building.floorLines.add(floorLine);
+                const floorLine = new THREE.Line(lineGeometry, lineMaterial);
+                floorLine.userData = { buildingId: building.id, isFloorLine: true, floor };
+                floorLines.add(floorLine);
+              });
             }
           }
         }
@@ -454,7 +723,7 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
     
     // Call the original onClose handler
     onClose();
-  }, [building, edited, hasChanges, onClose, disableBuildingFocus]);
+  }, [building, edited, hasChanges, roofEdited, setbacksEdited, onClose, disableBuildingFocus]);
   // Debounced window update to avoid too many rapid updates
   const debouncedWindowUpdate = useCallback(
     (() => {
@@ -479,7 +748,16 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
   return (
     <div className="fixed inset-0 z-50 pointer-events-none">
       {/* Simplified backdrop - Three.js handles the selective focus */}
-      <div className="fixed inset-0 bg-black/20 pointer-events-auto" onClick={handleClose} />
+      <div
+        className={`fixed inset-0 bg-black/20 ${isPickingFacade ? 'pointer-events-none' : 'pointer-events-auto'}`}
+        onClick={e => {
+          if (e.shiftKey && onExtendSelection) {
+            onExtendSelection(e.nativeEvent);
+          } else {
+            handleClose();
+          }
+        }}
+      />
       {/* Drawer */}
       <div className="fixed top-0 right-0 h-full w-full max-w-md bg-gray-900/98 shadow-2xl border-l border-gray-700/50 z-50 flex flex-col pointer-events-auto">
         {/* Header */}
@@ -543,6 +821,74 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
                   rows={3}
                 />
               </div>
+
+              {onEditFootprint && (
+                <button
+                  onClick={() => {
+                    onEditFootprint();
+                    handleClose();
+                  }}
+                  className="w-full flex items-center justify-center space-x-2 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-sm text-gray-200 hover:border-blue-500 hover:text-white transition-colors"
+                >
+                  <PenTool className="w-4 h-4" />
+                  <span>Edit Footprint ({building.points.length} vertices, {building.area.toFixed(1)} m²)</span>
+                </button>
+              )}
+
+              {(onTransform || onCopy || onArray) && (
+                <div className="grid grid-cols-3 gap-2">
+                  {[
+                    { action: onTransform, icon: Move, label: 'Move/Rotate', title: 'Move or rotate the building on the site' },
+                    { action: onCopy, icon: Copy, label: 'Duplicate', title: 'Place a copy next to the building' },
+                    { action: onArray, icon: Grid3x3, label: 'Array…', title: 'Repeat the building in a row or around a centre' }
+                  ].filter(item => item.action).map(({ action, icon: Icon, label, title }) => (
+                    <button
+                      key={label}
+                      onClick={() => {
+                        action?.();
+                        handleClose();
+                      }}
+                      title={title}
+                      className="flex items-center justify-center space-x-1.5 px-2 py-2 bg-gray-800 border border-gray-600 rounded-lg text-xs text-gray-200 hover:border-blue-500 hover:text-white transition-colors"
+                    >
+                      <Icon className="w-3.5 h-3.5" />
+                      <span>{label}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {onAddCourtyard && (
+                <button
+                  onClick={() => {
+                    onAddCourtyard();
+                    handleClose();
+                  }}
+                  className="w-full flex items-center justify-center space-x-2 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-sm text-gray-200 hover:border-blue-500 hover:text-white transition-colors"
+                >
+                  <BoxSelect className="w-4 h-4" />
+                  <span>Add Courtyard</span>
+                </button>
+              )}
+
+              {building.holes && building.holes.length > 0 && (
+                <div className="space-y-1">
+                  {building.holes.map((hole, index) => (
+                    <div key={index} className="flex items-center justify-between px-3 py-1.5 bg-gray-800/60 rounded-lg text-xs text-gray-300">
+                      <span>Courtyard {index + 1} ({hole.length} vertices, {calculateFootprintArea(hole).toFixed(1)} m²)</span>
+                      {onRemoveCourtyard && (
+                        <button
+                          onClick={() => onRemoveCourtyard(index)}
+                          className="text-gray-400 hover:text-red-400 transition-colors"
+                          title="Remove courtyard"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           </Section>
 
@@ -625,8 +971,192 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
                 )}
               </div>
 
+              <div>
+                <div className="flex items-center mb-2">
+                  <label className="block text-xs font-medium text-gray-400">
+                    Roof Form
+                  </label>
+                  <Tooltip content="Pitched roofs rise from the eaves at the top floor. Hips follow the footprint's straight skeleton.">
+                    <span className="ml-2 text-blue-400 cursor-pointer">
+                      <Info className="w-3 h-3" />
+                    </span>
+                  </Tooltip>
+                </div>
+                <select
+                  value={edited.roof_type ?? 'flat'}
+                  onChange={e => updateField('roof_type', e.target.value as RoofType)}
+                  className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent hover:border-gray-400 transition-colors"
+                >
+                  {roofTypeOptions.map(opt => (
+                    <option key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {edited.roof_type !== undefined && edited.roof_type !== 'flat' && (
+                <>
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="block text-xs font-medium text-gray-400">
+                        Roof Pitch
+                      </label>
+                      <span className="text-sm font-semibold text-white bg-gray-700 px-2 py-1 rounded">
+                        {edited.roof_pitch ?? DEFAULT_ROOF_PITCH}°
+                      </span>
+                    </div>
+                    <input
+                      type="range"
+                      min="5"
+                      max={MAX_ROOF_PITCH}
+                      step="1"
+                      value={edited.roof_pitch ?? DEFAULT_ROOF_PITCH}
+                      onChange={e => updateField('roof_pitch', parseFloat(e.target.value))}
+                      className="w-full h-2 rounded bg-gray-700 accent-blue-500 cursor-pointer"
+                    />
+                    <div className="flex justify-between text-xs text-gray-500 mt-1">
+                      <span>5°</span>
+                      <span>{MAX_ROOF_PITCH}°</span>
+                    </div>
+                  </div>
+
+                  {edited.roof_type !== 'hip' && (
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <div className="flex items-center">
+                          <label className="block text-xs font-medium text-gray-400">
+                            {edited.roof_type === 'mono-pitch' ? 'Eave Direction' : 'Ridge Direction'}
+                          </label>
+                          <Tooltip content="Degrees clockwise from north. Auto follows the longest footprint edge.">
+                            <span className="ml-2 text-blue-400 cursor-pointer">
+                              <Info className="w-3 h-3" />
+                            </span>
+                          </Tooltip>
+                        </div>
+                        <label className="flex items-center text-xs text-gray-400 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={edited.roof_ridge_direction === undefined}
+                            onChange={e => updateField('roof_ridge_direction', e.target.checked ? undefined : 0)}
+                            className="mr-1 accent-blue-500"
+                          />
+                          Auto
+                        </label>
+                      </div>
+                      {edited.roof_ridge_direction !== undefined && (
+                        <>
+                          <input
+                            type="range"
+                            min="0"
+                            max="179"
+                            step="1"
+                            value={edited.roof_ridge_direction}
+                            onChange={e => updateField('roof_ridge_direction', parseFloat(e.target.value))}
+                            className="w-full h-2 rounded bg-gray-700 accent-blue-500 cursor-pointer"
+                          />
+                          <div className="flex justify-between text-xs text-gray-500 mt-1">
+                            <span>N–S</span>
+                            <span>{edited.roof_ridge_direction}°</span>
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </>
+              )}
+
 
 
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center">
+                    <label className="block text-xs font-medium text-gray-400">
+                      Setbacks
+                    </label>
+                    <Tooltip content="Step upper floors in from the floors below, e.g. a tower on a podium or recessed top floors. Each setback adds to the ones beneath it.">
+                      <span className="ml-2 text-blue-400 cursor-pointer">
+                        <Info className="w-3 h-3" />
+                      </span>
+                    </Tooltip>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={addSetback}
+                    disabled={edited.floors < 2}
+                    className="text-xs text-blue-400 hover:text-blue-300 disabled:text-gray-600 disabled:cursor-not-allowed transition-colors"
+                  >
+                    + Add Setback
+                  </button>
+                </div>
+                {setbacks.map((setback, index) => (
+                  <div key={index} className="p-2 mb-2 bg-gray-800/60 border border-gray-700 rounded-lg space-y-2">
+                    <div className="flex items-center gap-2 text-xs text-gray-400">
+                      <span>From floor</span>
+                      <input
+                        type="number"
+                        min="1"
+                        max={Math.max(1, edited.floors - 1)}
+                        value={setback.fromFloor}
+                        onChange={e => updateSetback(index, { fromFloor: parseInt(e.target.value) || 1 })}
+                        className="w-14 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <span>inset</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        value={setback.distance}
+                        onChange={e => updateSetback(index, { distance: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        className="w-16 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <span>m</span>
+                      <button
+                        type="button"
+                        onClick={() => removeSetback(index)}
+                        className="ml-auto text-gray-500 hover:text-red-400 transition-colors"
+                        title="Remove setback"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      <button
+                        type="button"
+                        onClick={() => updateSetback(index, { edges: undefined })}
+                        className={`px-2 py-0.5 rounded text-xs transition-colors ${!setback.edges ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'}`}
+                      >
+                        All façades
+                      </button>
+                      {facadeLabels.map((label, edge) => (
+                        <button
+                          key={edge}
+                          type="button"
+                          onClick={() => toggleSetbackEdge(index, edge)}
+                          className={`px-2 py-0.5 rounded text-xs transition-colors ${setback.edges?.includes(edge) ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'}`}
+                          title={`Façade ${edge + 1}`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    {!steppedFloors.has(setback.fromFloor) && setback.distance > 0 && (
+                      <p className="text-xs text-yellow-400">
+                        {setback.fromFloor < 1 || setback.fromFloor >= edited.floors
+                          ? 'Outside the building\'s floors; ignored.'
+                          : 'Too deep for the floor plate; ignored.'}
+                      </p>
+                    )}
+                  </div>
+                ))}
+                {setbacks.length > 0 && (
+                  <p className="text-xs text-gray-500">
+                    Stepped GFA {calculateGrossFloorArea(building.points, edited.floors, building.holes, setbacks).toFixed(0)} m²
+                    {' '}of {(building.area * edited.floors).toFixed(0)} m² without setbacks
+                  </p>
+                )}
+              </div>
+
               <div>
                 <div className="flex items-center justify-between mb-2">                  <div className="flex items-center">
                     <label className="block text-xs font-medium text-gray-400">
@@ -654,6 +1184,18 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
                   <span>0%</span>
                   <span>100%</span>
                 </div>
+                <div className="flex items-center justify-between mt-1">
+                  <p className={`text-xs ${glazingRatios.target - glazingRatios.achieved > 0.02 ? 'text-yellow-400' : 'text-gray-500'}`}>
+                    Achieved {Math.round(glazingRatios.achieved * 100)}% of {Math.round(glazingRatios.target * 100)}% target
+                  </p>
+                  <button
+                    onClick={() => setShowWindowSchedule(true)}
+                    className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+                  >
+                    <Table className="w-3 h-3" />
+                    Window schedule
+                  </button>
+                </div>
                 {(edited.window_to_wall_ratio ?? 0.4) > 0.6 && (
                   <div className="flex items-center mt-2 p-2 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
                     <span className="text-yellow-400 mr-2">⚠️</span>
@@ -668,6 +1210,123 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
                 )}
               </div>
 
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    <label className="block text-xs font-medium text-gray-400">Façade Glazing</label>
+                    <Tooltip content="Override the WWR for everything facing one direction, or for a single façade. A façade's own value wins.">
+                      <span className="ml-2 text-blue-400 cursor-pointer">
+                        <Info className="w-3 h-3" />
+                      </span>
+                    </Tooltip>
+                  </div>
+                  {onPickFacade && (
+                    <button
+                      onClick={pickFacade}
+                      className={`flex items-center gap-1 px-2 py-1 rounded text-xs transition-colors ${
+                        isPickingFacade && facadePickTarget === 'glazing' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                      }`}
+                    >
+                      <Crosshair className="w-3 h-3" />
+                      {isPickingFacade && facadePickTarget === 'glazing' ? 'Click a façade…' : 'Pick façade'}
+                    </button>
+                  )}
+                </div>
+                {(['N', 'E', 'S', 'W'] as CompassDirection[]).map(direction => {
+                  const value = wwrOverrides.orientations?.[direction];
+                  return (
+                    <div key={direction} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={value !== undefined}
+                        onChange={e => setOrientationWwr(direction, e.target.checked ? baseWwr : undefined)}
+                        className="w-4 h-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+                        id={`wwr_${direction}`}
+                      />
+                      <label htmlFor={`wwr_${direction}`} className="w-6 text-xs text-gray-300">{direction}</label>
+                      <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.01"
+                        value={value ?? baseWwr}
+                        disabled={value === undefined}
+                        onChange={e => setOrientationWwr(direction, parseFloat(e.target.value))}
+                        className="flex-1 h-2 rounded bg-gray-700 accent-blue-500 cursor-pointer disabled:opacity-40"
+                      />
+                      <span className="w-10 text-right text-xs text-gray-400">{Math.round((value ?? baseWwr) * 100)}%</span>
+                    </div>
+                  );
+                })}
+                {Object.entries(wwrOverrides.edges ?? {})
+                  .filter(([edge]) => Number(edge) < building.points.length)
+                  .map(([edge, value]) => (
+                    <div key={edge} className="flex items-center gap-2">
+                      <span className="w-16 text-xs text-gray-300">{facadeLabels[Number(edge)]}</span>
+                      <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.01"
+                        value={value}
+                        onChange={e => setFacadeWwr(Number(edge), parseFloat(e.target.value))}
+                        className="flex-1 h-2 rounded bg-gray-700 accent-blue-500 cursor-pointer"
+                      />
+                      <span className="w-10 text-right text-xs text-gray-400">{Math.round(value * 100)}%</span>
+                      <button
+                        onClick={() => setFacadeWwr(Number(edge), undefined)}
+                        className="text-gray-500 hover:text-red-400"
+                        title="Remove façade override"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center">
+                  <label className="block text-xs font-medium text-gray-400">Window Layout</label>
+                  <Tooltip content="Sill and head heights fix the window height above each floor; leave them empty to size windows for the target. Ribbon glazing runs as one strip.">
+                    <span className="ml-2 text-blue-400 cursor-pointer">
+                      <Info className="w-3 h-3" />
+                    </span>
+                  </Tooltip>
+                </div>
+                {renderWindowLayoutFields(edited.window_layout ?? {}, updateWindowLayout)}
+                <div className="flex items-center space-x-3 pt-1">
+                  <input
+                    type="checkbox"
+                    checked={!!edited.ground_floor_glazing}
+                    onChange={e => toggleGroundFloorGlazing(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+                    id="ground_floor_glazing"
+                  />
+                  <label htmlFor="ground_floor_glazing" className="text-sm text-gray-300">
+                    Separate ground floor glazing
+                  </label>
+                </div>
+                {edited.ground_floor_glazing && (
+                  <div className="space-y-2 pl-7">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.01"
+                        value={edited.ground_floor_glazing.window_to_wall_ratio ?? edited.window_to_wall_ratio ?? 0.4}
+                        onChange={e => updateGroundFloorGlazing({ window_to_wall_ratio: parseFloat(e.target.value) })}
+                        className="flex-1 h-2 rounded bg-gray-700 accent-blue-500 cursor-pointer"
+                      />
+                      <span className="w-10 text-right text-xs text-gray-400">
+                        {Math.round((edited.ground_floor_glazing.window_to_wall_ratio ?? edited.window_to_wall_ratio ?? 0.4) * 100)}%
+                      </span>
+                    </div>
+                    {renderWindowLayoutFields(edited.ground_floor_glazing, updateGroundFloorGlazing)}
+                  </div>
+                )}
+              </div>
+
               <div className="space-y-3">
                 <div className="flex items-center space-x-3">
                   <input
@@ -721,6 +1380,193 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
                   </div>
                 )}
               </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    <label className="block text-xs font-medium text-gray-400">Shading Devices</label>
+                    <Tooltip content="Vertical fins block low sun from the side (east/west); horizontal louvres block high sun (south). Both also cut some diffuse daylight.">
+                      <span className="ml-2 text-blue-400 cursor-pointer">
+                        <Info className="w-3 h-3" />
+                      </span>
+                    </Tooltip>
+                  </div>
+                  <div className="flex gap-1">
+                    {(['N', 'E', 'S', 'W'] as CompassDirection[]).map(direction => (
+                      <button
+                        key={direction}
+                        onClick={() => setShadingDirection(direction)}
+                        className={`w-7 py-1 rounded text-xs transition-colors ${
+                          shadingDirection === direction
+                            ? 'bg-blue-600 text-white'
+                            : edited.shading_devices?.[direction] ? 'bg-gray-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+                        }`}
+                      >
+                        {direction}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {([
+                  ['fins', 'Vertical fins', DEFAULT_FIN_SETTINGS],
+                  ['louvres', 'Louvres', DEFAULT_LOUVRE_SETTINGS]
+                ] as const).map(([device, label, defaults]) => {
+                  const settings = facadeShading[device];
+                  return (
+                    <div key={device} className="space-y-1">
+                      <div className="flex items-center space-x-3">
+                        <input
+                          type="checkbox"
+                          checked={!!settings}
+                          onChange={e => updateShadingDevice(device, e.target.checked ? { ...defaults } : undefined)}
+                          className="w-4 h-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+                          id={`shading_${device}`}
+                        />
+                        <label htmlFor={`shading_${device}`} className="text-sm text-gray-300">{label}</label>
+                      </div>
+                      {settings && (
+                        <div className="flex items-center gap-2 pl-7 text-xs text-gray-400">
+                          {shadingDeviceFields.map(field => (
+                            <React.Fragment key={field.key}>
+                              <span>{field.label}</span>
+                              <input
+                                type="number"
+                                min={field.key === 'angle' ? -60 : 0}
+                                max={field.key === 'angle' ? 60 : undefined}
+                                step={field.step}
+                                value={settings[field.key]}
+                                onChange={e => updateShadingDevice(device, {
+                                  ...settings,
+                                  [field.key]: field.key === 'angle'
+                                    ? Math.max(-60, Math.min(60, parseFloat(e.target.value) || 0))
+                                    : Math.max(0, parseFloat(e.target.value) || 0)
+                                })}
+                                className="w-14 px-1 py-1 bg-gray-800 border border-gray-600 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                              <span>{field.unit}</span>
+                            </React.Fragment>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    <label className="block text-xs font-medium text-gray-400">Balconies</label>
+                    <Tooltip content="Balconies sit in front of every nth window of a façade, between the given floors (0 is the ground floor). Leave the top floor empty to run to the roof.">
+                      <span className="ml-2 text-blue-400 cursor-pointer">
+                        <Info className="w-3 h-3" />
+                      </span>
+                    </Tooltip>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <select
+                      value=""
+                      onChange={e => e.target.value !== '' && setFacadeBalconies(Number(e.target.value), { ...DEFAULT_BALCONY_SETTINGS })}
+                      className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-xs text-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Add façade…</option>
+                      {facadeLabels.map((label, edge) => !balconyEdges[edge] && (
+                        <option key={edge} value={edge}>{label}</option>
+                      ))}
+                    </select>
+                    {onPickFacade && (
+                      <button
+                        onClick={pickBalconyFacade}
+                        className={`flex items-center gap-1 px-2 py-1 rounded text-xs transition-colors ${
+                          isPickingFacade && facadePickTarget === 'balconies' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                        }`}
+                        title="Pick a façade in the viewport"
+                      >
+                        <Crosshair className="w-3 h-3" />
+                        {isPickingFacade && facadePickTarget === 'balconies' && 'Click a façade…'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {Object.entries(balconyEdges)
+                  .filter(([edge]) => Number(edge) < building.points.length)
+                  .map(([edge, settings]) => (
+                    <div key={edge} className="space-y-1">
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs text-gray-300">{facadeLabels[Number(edge)]}</span>
+                        <button
+                          onClick={() => setFacadeBalconies(Number(edge), undefined)}
+                          className="text-gray-500 hover:text-red-400"
+                          title="Remove balconies"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2 pl-2 text-xs text-gray-400">
+                        {balconyFields.map(field => (
+                          <React.Fragment key={field.key}>
+                            <span>{field.label}</span>
+                            <input
+                              type="number"
+                              min={field.key === 'every' ? 1 : 0}
+                              step={field.step}
+                              value={settings[field.key]}
+                              onChange={e => setFacadeBalconies(Number(edge), {
+                                ...settings,
+                                [field.key]: field.key === 'every'
+                                  ? Math.max(1, parseInt(e.target.value) || 1)
+                                  : Math.max(0, parseFloat(e.target.value) || 0)
+                              })}
+                              className="w-14 px-1 py-1 bg-gray-800 border border-gray-600 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            {field.unit && <span>{field.unit}</span>}
+                          </React.Fragment>
+                        ))}
+                        <span>floors</span>
+                        <input
+                          type="number"
+                          min="0"
+                          max={edited.floors - 1}
+                          step="1"
+                          value={settings.from_floor}
+                          onChange={e => setFacadeBalconies(Number(edge), {
+                            ...settings,
+                            from_floor: Math.max(0, Math.min(edited.floors - 1, parseInt(e.target.value) || 0))
+                          })}
+                          className="w-12 px-1 py-1 bg-gray-800 border border-gray-600 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <span>to</span>
+                        <input
+                          type="number"
+                          min={settings.from_floor}
+                          max={edited.floors - 1}
+                          step="1"
+                          placeholder="top"
+                          value={settings.to_floor ?? ''}
+                          onChange={e => setFacadeBalconies(Number(edge), {
+                            ...settings,
+                            to_floor: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0)
+                          })}
+                          className="w-12 px-1 py-1 bg-gray-800 border border-gray-600 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    </div>
+                  ))}
+                {edited.balconies && (
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={!!edited.balconies.include_in_gwp}
+                      onChange={e => updateField('balconies', { ...edited.balconies, include_in_gwp: e.target.checked })}
+                      className="w-4 h-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+                      id="balconies_in_gwp"
+                    />
+                    <label htmlFor="balconies_in_gwp" className="text-sm text-gray-300">
+                      Include balconies in GWP
+                    </label>
+                  </div>
+                )}
+              </div>
                             <div>                <div className="flex items-center mb-2">
                   <label className="block text-xs font-medium text-gray-400">
                     Building Color
@@ -975,6 +1821,12 @@ export const BuildingEditPanel: React.FC<BuildingEditPanelProps> = ({
             type={compareModal.type}
           />
         )}
+        <WindowScheduleDialog
+          isOpen={showWindowSchedule}
+          buildingName={edited.name || building.id}
+          rows={windowSchedule}
+          onClose={() => setShowWindowSchedule(false)}
+        />
       </div>
     </div>
   );
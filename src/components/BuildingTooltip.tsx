@@ -2,6 +2,7 @@ import React from 'react';
 import { Edit, Trash2, Building } from 'lucide-react';
 import { BuildingData } from '../types/building';
 import { getThemeColorAsHex } from '../utils/themeColors';
+import { calculateGrossFloorArea } from '../utils/geometry';
 
 interface BuildingTooltipProps {
   building: BuildingData;
@@ -66,6 +67,12 @@ export const BuildingTooltip: React.FC<BuildingTooltipProps> = ({
             <span className="text-gray-400">Total Area:</span>
             <span className="text-green-400 font-medium">{building.area.toFixed(1)} m²</span>
           </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-400">GFA:</span>
+            <span className="text-green-400 font-medium">
+              {calculateGrossFloorArea(building.points, building.floors, building.holes, building.setbacks).toFixed(1)} m²
+            </span>
+          </div>
           <div className="flex justify-between text-sm">
             <span className="text-gray-400">Floors:</span>
             <span className="text-blue-400 font-medium">{building.floors}</span>
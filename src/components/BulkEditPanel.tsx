@@ -0,0 +1,299 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Save, Trash2, Move } from 'lucide-react';
+import { BuildingConfig, BuildingData } from '../types/building';
+import { getSharedValue } from '../utils/selection';
+import { getThemeColorAsHex, addThemeChangeListener } from '../utils/themeColors';
+import {
+  wallOptions,
+  floorOptions,
+  roofOptions,
+  windowOptions,
+  structuralOptions,
+  programOptions,
+  hvacOptions
+} from '../data/constructions';
+
+// Attributes that can be set on many buildings at once; geometry-specific ones stay per building
+export type BulkEdits = Partial<Pick<BuildingConfig,
+  | 'floors'
+  | 'floorHeight'
+  | 'color'
+  | 'window_to_wall_ratio'
+  | 'wall_construction'
+  | 'floor_construction'
+  | 'roof_construction'
+  | 'window_construction'
+  | 'structural_system'
+  | 'building_program'
+  | 'hvac_system'
+  | 'natural_ventilation'
+>>;
+
+type BulkField = keyof BulkEdits;
+
+const getColorOptions = () => [
+  { name: 'Blue', value: getThemeColorAsHex('--color-building-blue', 0x3b82f6) },
+  { name: 'Green', value: getThemeColorAsHex('--color-building-green', 0x10b981) },
+  { name: 'Purple', value: getThemeColorAsHex('--color-building-purple', 0x8b5cf6) },
+  { name: 'Orange', value: getThemeColorAsHex('--color-building-orange', 0xf59e0b) },
+  { name: 'Red', value: getThemeColorAsHex('--color-building-red', 0xef4444) },
+  { name: 'Cyan', value: getThemeColorAsHex('--color-building-cyan', 0x06b6d4) },
+  { name: 'Pink', value: getThemeColorAsHex('--color-building-pink', 0xec4899) },
+  { name: 'Gray', value: getThemeColorAsHex('--color-building-gray', 0x6b7280) }
+];
+
+// Same defaults as the single-building editor, so unset and default values compare equal
+const readField = (building: BuildingData, field: BulkField): BulkEdits[BulkField] => {
+  switch (field) {
+    case 'floors': return building.floors;
+    case 'floorHeight': return building.floorHeight;
+    case 'color': return building.color ?? getThemeColorAsHex('--color-building-blue', 0x3b82f6);
+    case 'window_to_wall_ratio': return building.window_to_wall_ratio ?? 0.4;
+    case 'wall_construction': return building.wall_construction || 'Default Wall';
+    case 'floor_construction': return building.floor_construction || 'Default Floor';
+    case 'roof_construction': return building.roof_construction || 'Default Roof';
+    case 'window_construction': return building.window_construction || 'Default Window';
+    case 'structural_system': return building.structural_system || 'Concrete';
+    case 'building_program': return building.building_program || 'Office';
+    case 'hvac_system': return building.hvac_system || 'Default HVAC';
+    case 'natural_ventilation': return building.natural_ventilation ?? false;
+  }
+};
+
+const selectClassName = "w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent hover:border-gray-400 transition-colors";
+
+const MixedBadge: React.FC = () => (
+  <span className="text-xs italic text-yellow-400">mixed</span>
+);
+
+interface BulkEditPanelProps {
+  buildings: BuildingData[];
+  onClose: () => void;
+  onApply: (edits: BulkEdits) => void;
+  onDelete: () => void;
+  onTransform?: () => void;
+  onExtendSelection?: (event: MouseEvent) => void; // Shift-click on the scene behind the panel
+}
+
+/**
+ * Editor for a multi-selection. Only fields the user touches are applied, so
+ * values that differ between buildings ("mixed") are left alone otherwise.
+ */
+export const BulkEditPanel: React.FC<BulkEditPanelProps> = ({
+  buildings,
+  onClose,
+  onApply,
+  onDelete,
+  onTransform,
+  onExtendSelection
+}) => {
+  const [edits, setEdits] = useState<BulkEdits>({});
+  const [themeVersion, setThemeVersion] = useState(0);
+
+  useEffect(() => addThemeChangeListener(() => setThemeVersion(prev => prev + 1)), []);
+
+  const shared = useMemo(() => {
+    const fields: BulkField[] = [
+      'floors', 'floorHeight', 'color', 'window_to_wall_ratio',
+      'wall_construction', 'floor_construction', 'roof_construction', 'window_construction',
+      'structural_system', 'building_program', 'hvac_system', 'natural_ventilation'
+    ];
+    return Object.fromEntries(fields.map(field => [
+      field,
+      getSharedValue(buildings.map(building => readField(building, field)))
+    ])) as Record<BulkField, { value: BulkEdits[BulkField]; mixed: boolean }>;
+  }, [buildings]);
+
+  // The edited value, or the shared one; mixed fields show no value until edited
+  const valueOf = <K extends BulkField>(field: K): BulkEdits[K] => (edits[field] ?? shared[field].value) as BulkEdits[K];
+  const isMixed = (field: BulkField) => edits[field] === undefined && shared[field].mixed;
+
+  const updateField = <K extends BulkField>(field: K, value: BulkEdits[K]) => {
+    setEdits(prev => ({ ...prev, [field]: value }));
+  };
+
+  const editCount = Object.keys(edits).length;
+  const count = buildings.length;
+
+  const renderSlider = (
+    field: 'floors' | 'floorHeight' | 'window_to_wall_ratio',
+    label: string,
+    range: { min: number; max: number; step: number },
+    format: (value: number) => string
+  ) => (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-xs font-medium text-gray-400">{label}</label>
+        {isMixed(field)
+          ? <MixedBadge />
+          : (
+            <span className="text-sm font-semibold text-white bg-gray-700 px-2 py-1 rounded">
+              {format(valueOf(field) ?? range.min)}
+            </span>
+          )}
+      </div>
+      <input
+        type="range"
+        min={range.min}
+        max={range.max}
+        step={range.step}
+        value={valueOf(field) ?? range.min}
+        onChange={e => updateField(field, Number(e.target.value))}
+        className={`w-full h-2 rounded bg-gray-700 accent-blue-500 cursor-pointer ${isMixed(field) ? 'opacity-50' : ''}`}
+      />
+    </div>
+  );
+
+  const renderSelect = (field: BulkField, label: string, options: { value: string; label: string }[]) => (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-xs font-medium text-gray-400">{label}</label>
+        {isMixed(field) && <MixedBadge />}
+      </div>
+      <select
+        value={isMixed(field) ? '' : String(valueOf(field))}
+        onChange={e => updateField(field, e.target.value)}
+        className={selectClassName}
+      >
+        {isMixed(field) && <option value="" disabled>— mixed —</option>}
+        {options.map(opt => (
+          <option key={opt.value} value={opt.value}>{opt.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 pointer-events-none">
+      <div
+        className="fixed inset-0 bg-black/20 pointer-events-auto"
+        onClick={e => {
+          if (e.shiftKey && onExtendSelection) {
+            onExtendSelection(e.nativeEvent);
+          } else {
+            onClose();
+          }
+        }}
+      />
+      {/* Drawer */}
+      <div className="fixed top-0 right-0 h-full w-full max-w-md bg-gray-900/98 shadow-2xl border-l border-gray-700/50 z-50 flex flex-col pointer-events-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700/50 bg-gray-800/50">
+          <div>
+            <h2 className="text-lg font-semibold text-white">Edit {count} Buildings</h2>
+            <p className="text-sm text-gray-400 mt-1 truncate max-w-xs">
+              {buildings.map(b => b.name || b.id).join(', ')}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors p-2 rounded-lg hover:bg-gray-700/50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {onTransform && (
+            <button
+              onClick={onTransform}
+              className="w-full flex items-center justify-center space-x-2 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-sm text-gray-200 hover:border-blue-500 hover:text-white transition-colors"
+            >
+              <Move className="w-4 h-4" />
+              <span>Move/Rotate Together</span>
+            </button>
+          )}
+
+          <div className="space-y-4">
+            <h3 className="text-sm font-semibold uppercase text-white tracking-wide">Form & Massing</h3>
+            {renderSlider('floors', 'Number of Floors', { min: 1, max: 50, step: 1 }, value => String(value))}
+            {renderSlider('floorHeight', 'Floor Height', { min: 2.5, max: 6, step: 0.1 }, value => `${value}m`)}
+            {renderSlider('window_to_wall_ratio', 'Window-to-Wall Ratio', { min: 0, max: 1, step: 0.01 }, value => `${Math.round(value * 100)}%`)}
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-xs font-medium text-gray-400">Building Color</label>
+                {isMixed('color') && <MixedBadge />}
+              </div>
+              <div className="grid grid-cols-4 gap-2">
+                {getColorOptions().map(color => (
+                  <button
+                    key={`${color.value}-${themeVersion}`}
+                    onClick={() => updateField('color', color.value)}
+                    className={`w-full h-10 rounded-lg border-2 transition-all duration-200 ${
+                      !isMixed('color') && valueOf('color') === color.value
+                        ? 'border-white scale-105 shadow-lg'
+                        : 'border-gray-600 hover:border-gray-400 hover:scale-102'
+                    }`}
+                    style={{ backgroundColor: `#${color.value.toString(16).padStart(6, '0')}` }}
+                    title={color.name}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="text-sm font-semibold uppercase text-white tracking-wide">Envelope & Structure</h3>
+            {renderSelect('wall_construction', 'Wall Construction', wallOptions)}
+            {renderSelect('floor_construction', 'Floor Construction', floorOptions)}
+            {renderSelect('roof_construction', 'Roof Construction', roofOptions)}
+            {renderSelect('window_construction', 'Window Construction', windowOptions)}
+            {renderSelect('structural_system', 'Structural System', structuralOptions)}
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="text-sm font-semibold uppercase text-white tracking-wide">Use & Systems</h3>
+            {renderSelect('building_program', 'Building Program', programOptions.map(opt => ({ value: opt, label: opt })))}
+            {renderSelect('hvac_system', 'HVAC System', hvacOptions.map(opt => ({ value: opt, label: opt })))}
+            <div className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                id="bulk_natural_ventilation"
+                checked={!isMixed('natural_ventilation') && !!valueOf('natural_ventilation')}
+                ref={el => {
+                  if (el) el.indeterminate = isMixed('natural_ventilation');
+                }}
+                onChange={e => updateField('natural_ventilation', e.target.checked)}
+                className="w-4 h-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+              />
+              <label htmlFor="bulk_natural_ventilation" className="text-sm text-gray-300">
+                Natural Ventilation
+              </label>
+              {isMixed('natural_ventilation') && <MixedBadge />}
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between p-6 border-t border-gray-700/50 bg-gray-800/30">
+          <button
+            onClick={onDelete}
+            className="flex items-center space-x-2 px-4 py-2 text-red-400 hover:text-red-300 transition-colors rounded-lg hover:bg-gray-700/50"
+            title={`Delete all ${count} selected buildings`}
+          >
+            <Trash2 className="w-4 h-4" />
+            <span className="text-sm font-medium">Delete {count}</span>
+          </button>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-300 hover:text-white transition-colors rounded-lg hover:bg-gray-700/50 text-sm font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onApply(edits)}
+              disabled={editCount === 0}
+              className="flex items-center space-x-2 px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-all duration-200 font-medium text-sm shadow-lg"
+            >
+              <Save className="w-4 h-4" />
+              <span>Apply to {count}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
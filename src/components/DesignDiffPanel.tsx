@@ -0,0 +1,112 @@
+import React, { useMemo } from 'react';
+import { ArrowRight, Ghost } from 'lucide-react';
+import { DesignNode } from '../types/designExploration';
+import { diffDesignNodes, BuildingChangeStatus } from '../services/DesignDiff';
+
+interface DesignDiffPanelProps {
+  fromNode: DesignNode;
+  toNode: DesignNode;
+  currentNodeId?: string;
+  ghostNodeId?: string | null;
+  onGhostNode?: (nodeId: string | null) => void;
+}
+
+const STATUS_STYLES: Record<BuildingChangeStatus, { symbol: string; className: string }> = {
+  added: { symbol: '+', className: 'text-green-400' },
+  removed: { symbol: '−', className: 'text-red-400' },
+  modified: { symbol: '~', className: 'text-amber-400' }
+};
+
+const formatValue = (value: string | number | boolean | undefined): string => {
+  if (value === undefined) return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return Number.isInteger(value) ? `${value}` : value.toFixed(2);
+  return value;
+};
+
+export const DesignDiffPanel: React.FC<DesignDiffPanelProps> = ({
+  fromNode,
+  toNode,
+  currentNodeId,
+  ghostNodeId,
+  onGhostNode
+}) => {
+  const diff = useMemo(() => diffDesignNodes(fromNode, toNode), [fromNode, toNode]);
+
+  // Ghost whichever node is not already shown in the viewport
+  const ghostTarget = fromNode.id === currentNodeId ? toNode : fromNode;
+  const isGhosting = ghostNodeId === ghostTarget.id;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-semibold text-indigo-300 truncate">{fromNode.name}</span>
+        <ArrowRight className="w-4 h-4 text-gray-500 flex-shrink-0 mx-2" />
+        <span className="font-semibold text-amber-300 truncate">{toNode.name}</span>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-gray-300">Performance Metrics</h4>
+        <div className="grid grid-cols-4 gap-x-2 gap-y-1 text-xs">
+          <span className="text-gray-500">Metric</span>
+          <span className="text-gray-500 text-right">A</span>
+          <span className="text-gray-500 text-right">B</span>
+          <span className="text-gray-500 text-right">Δ</span>
+          {diff.metrics.map(metric => (
+            <React.Fragment key={metric.key}>
+              <span className="text-gray-400" title={metric.unit}>{metric.label}</span>
+              <span className="text-white text-right">{metric.from.toFixed(1)}</span>
+              <span className="text-white text-right">{metric.to.toFixed(1)}</span>
+              <span
+                className={`text-right ${
+                  metric.delta === 0 ? 'text-gray-400' : metric.improved ? 'text-green-400' : 'text-red-400'
+                }`}
+              >
+                {metric.delta > 0 ? '+' : ''}{metric.delta.toFixed(1)}
+              </span>
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-gray-300">Building Changes</h4>
+        {diff.buildings.length === 0 ? (
+          <p className="text-xs text-gray-500">No building changes</p>
+        ) : (
+          <ul className="space-y-2">
+            {diff.buildings.map(building => (
+              <li key={building.buildingId} className="text-xs">
+                <div className={`font-medium ${STATUS_STYLES[building.status].className}`}>
+                  {STATUS_STYLES[building.status].symbol} {building.name || building.buildingId}
+                  <span className="ml-1 text-gray-500 font-normal">({building.status})</span>
+                </div>
+                {building.changes.map(change => (
+                  <div key={change.field} className="ml-4 flex justify-between text-gray-400">
+                    <span>{change.label}</span>
+                    <span className="text-gray-300">
+                      {formatValue(change.from)} → {formatValue(change.to)}
+                    </span>
+                  </div>
+                ))}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {onGhostNode && (
+        <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isGhosting}
+            onChange={e => onGhostNode(e.target.checked ? ghostTarget.id : null)}
+            className="rounded border-gray-600 bg-gray-800"
+          />
+          <Ghost className="w-4 h-4 text-pink-400" />
+          <span>Ghost "{ghostTarget.name}" in viewport</span>
+        </label>
+      )}
+    </div>
+  );
+};
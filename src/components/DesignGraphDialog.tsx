@@ -1,24 +1,42 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { X, RotateCcw } from 'lucide-react';
+import { X, RotateCcw, GitCompare, Network, ScatterChart, Spline } from 'lucide-react';
 import { DesignExplorationGraph, DesignNode } from '../types/designExploration';
 import { designExplorationService } from '../services/DesignExplorationService';
+import { EmbodiedCarbonChart } from './EmbodiedCarbonChart';
+import { DesignDiffPanel } from './DesignDiffPanel';
+import { ParetoChart } from './ParetoChart';
 
 interface DesignGraphDialogProps {
   isOpen: boolean;
   onClose: () => void;
   onReinstateConfiguration: (nodeId: string) => void;
+  ghostNodeId?: string | null;
+  onGhostNode?: (nodeId: string | null) => void;
 }
 
+type DesignView = 'graph' | 'scatter' | 'parallel';
+
+const VIEW_OPTIONS: { id: DesignView; label: string; icon: React.ReactNode }[] = [
+  { id: 'graph', label: 'Graph', icon: <Network className="w-4 h-4" /> },
+  { id: 'scatter', label: 'Pareto', icon: <ScatterChart className="w-4 h-4" /> },
+  { id: 'parallel', label: 'Parallel', icon: <Spline className="w-4 h-4" /> }
+];
+
 export const DesignGraphDialog: React.FC<DesignGraphDialogProps> = ({
   isOpen,
   onClose,
-  onReinstateConfiguration
+  onReinstateConfiguration,
+  ghostNodeId,
+  onGhostNode
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const [graph, setGraph] = useState<DesignExplorationGraph>(designExplorationService.getGraph());
   const [selectedNode, setSelectedNode] = useState<DesignNode | null>(null);
   const [hoveredNode, setHoveredNode] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareNode, setCompareNode] = useState<DesignNode | null>(null);
+  const [view, setView] = useState<DesignView>('graph');
 
   useEffect(() => {
     const handleGraphUpdate = (updatedGraph: DesignExplorationGraph) => {
@@ -32,6 +50,21 @@ export const DesignGraphDialog: React.FC<DesignGraphDialogProps> = ({
     };
   }, []);
 
+  const selectedNodeIds = useMemo(
+    () => [selectedNode?.id, compareNode?.id].filter((id): id is string => !!id),
+    [selectedNode, compareNode]
+  );
+
+  // In compare mode the first click picks A, later clicks pick B
+  const handleNodeClick = useCallback((node: DesignNode) => {
+    if (compareMode && selectedNode && node.id !== selectedNode.id) {
+      setCompareNode(node);
+    } else {
+      setSelectedNode(node);
+      setCompareNode(null);
+    }
+  }, [compareMode, selectedNode]);
+
   useEffect(() => {
     if (!isOpen || !svgRef.current || graph.nodes.length === 0) return;
 
@@ -91,8 +124,14 @@ export const DesignGraphDialog: React.FC<DesignGraphDialogProps> = ({
         if (d.id === hoveredNode) return "#3b82f6";
         return "#6366f1";
       })
-      .attr("stroke", "#ffffff")
-      .attr("stroke-width", 2)
+      .attr("stroke", (d: DesignNode) => {
+        if (compareMode && d.id === selectedNode?.id) return "#a5b4fc";
+        if (compareMode && d.id === compareNode?.id) return "#fcd34d";
+        return "#ffffff";
+      })
+      .attr("stroke-width", (d: DesignNode) =>
+        compareMode && (d.id === selectedNode?.id || d.id === compareNode?.id) ? 4 : 2
+      )
       .on("mouseover", (_event, d: DesignNode) => {
         setHoveredNode(d.id);
       })
@@ -100,7 +139,7 @@ export const DesignGraphDialog: React.FC<DesignGraphDialogProps> = ({
         setHoveredNode(null);
       })
       .on("click", (_event, d: DesignNode) => {
-        setSelectedNode(d);
+        handleNodeClick(d);
       });
 
     // Node labels
@@ -133,7 +172,7 @@ export const DesignGraphDialog: React.FC<DesignGraphDialogProps> = ({
       nodeElements.attr("transform", (d: any) => `translate(${d.x},${d.y})`);
     });
 
-  }, [isOpen, graph, hoveredNode]);
+  }, [isOpen, graph, hoveredNode, compareMode, selectedNode, compareNode, handleNodeClick]);
 
   const handleReinstateConfiguration = () => {
     if (selectedNode && selectedNode.id !== graph.currentNodeId) {
@@ -142,6 +181,11 @@ export const DesignGraphDialog: React.FC<DesignGraphDialogProps> = ({
     }
   };
 
+  const handleToggleCompareMode = () => {
+    setCompareMode(prev => !prev);
+    setCompareNode(null);
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -150,17 +194,42 @@ export const DesignGraphDialog: React.FC<DesignGraphDialogProps> = ({
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b border-gray-700/50">
           <h2 className="text-xl font-semibold text-white">Design Exploration Graph</h2>
-          <button
-            onClick={onClose}
-            className="p-2 hover:bg-gray-800 rounded-lg transition-colors"
-          >
-            <X className="w-5 h-5 text-gray-400" />
-          </button>
+          <div className="flex items-center space-x-2">
+            <div className="flex items-center bg-gray-800/60 rounded-lg p-1">
+              {VIEW_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setView(option.id)}
+                  className={`flex items-center space-x-1 px-3 py-1 rounded-md text-sm transition-colors ${
+                    view === option.id ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {option.icon}
+                  <span>{option.label}</span>
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={handleToggleCompareMode}
+              className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-sm transition-colors ${
+                compareMode ? 'bg-amber-600/20 text-amber-300' : 'text-gray-400 hover:bg-gray-800'
+              }`}
+            >
+              <GitCompare className="w-4 h-4" />
+              <span>Compare</span>
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-800 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-400" />
+            </button>
+          </div>
         </div>
 
         <div className="flex h-96">
           {/* Graph Canvas */}
-          <div className="flex-1 relative">
+          <div className={`flex-1 relative ${view === 'graph' ? '' : 'hidden'}`}>
             <svg
               ref={svgRef}
               width="600"
@@ -168,13 +237,36 @@ export const DesignGraphDialog: React.FC<DesignGraphDialogProps> = ({
               className="w-full h-full bg-gray-950/50"
             />
             <div className="absolute top-4 left-4 text-xs text-gray-400">
-              Use mouse wheel to zoom • Drag to pan • Click nodes to select
+              {compareMode
+                ? 'Click a node for A, then another node for B'
+                : 'Use mouse wheel to zoom • Drag to pan • Click nodes to select'}
             </div>
           </div>
 
+          {/* Performance Charts */}
+          {view !== 'graph' && (
+            <div className="flex-1 relative">
+              <ParetoChart
+                nodes={graph.nodes}
+                mode={view}
+                currentNodeId={graph.currentNodeId}
+                selectedNodeIds={selectedNodeIds}
+                onSelectNode={handleNodeClick}
+              />
+            </div>
+          )}
+
           {/* Node Details Panel */}
-          <div className="w-80 border-l border-gray-700/50 p-6 bg-gray-900/50">
-            {selectedNode ? (
+          <div className={`${compareMode ? 'w-96' : 'w-80'} border-l border-gray-700/50 p-6 bg-gray-900/50 overflow-y-auto`}>
+            {compareMode && selectedNode && compareNode ? (
+              <DesignDiffPanel
+                fromNode={selectedNode}
+                toNode={compareNode}
+                currentNodeId={graph.currentNodeId}
+                ghostNodeId={ghostNodeId}
+                onGhostNode={onGhostNode}
+              />
+            ) : selectedNode ? (
               <div className="space-y-4">
                 <div>
                   <h3 className="text-lg font-semibold text-white mb-2">{selectedNode.name}</h3>
@@ -207,6 +299,11 @@ export const DesignGraphDialog: React.FC<DesignGraphDialogProps> = ({
                   </div>
                 </div>
 
+                <div className="space-y-3">
+                  <h4 className="text-sm font-medium text-gray-300">Embodied Carbon by Element</h4>
+                  <EmbodiedCarbonChart buildings={selectedNode.buildings} />
+                </div>
+
                 <div className="space-y-3">
                   <h4 className="text-sm font-medium text-gray-300">Buildings</h4>
                   <p className="text-sm text-gray-400">
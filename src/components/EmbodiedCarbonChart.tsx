@@ -0,0 +1,54 @@
+import React, { useMemo } from 'react';
+import { calculateEmbodiedCarbon, EMBODIED_CARBON_ELEMENTS, EmbodiedCarbonElement, EmbodiedCarbonInput } from '../services/EmbodiedCarbonCalculator';
+
+interface EmbodiedCarbonChartProps {
+  buildings: EmbodiedCarbonInput[];
+}
+
+const ELEMENT_COLORS: Record<EmbodiedCarbonElement, string> = {
+  walls: 'bg-amber-500',
+  glazing: 'bg-sky-400',
+  roof: 'bg-rose-500',
+  groundFloor: 'bg-emerald-500',
+  structure: 'bg-violet-500',
+  balconies: 'bg-orange-400'
+};
+
+// Stacked bar of embodied carbon per building element, normalised by gross floor area
+export const EmbodiedCarbonChart: React.FC<EmbodiedCarbonChartProps> = ({ buildings }) => {
+  const result = useMemo(() => calculateEmbodiedCarbon(buildings), [buildings]);
+
+  if (result.totalEmbodiedCarbon <= 0) {
+    return <p className="text-xs text-gray-500">No buildings to evaluate</p>;
+  }
+
+  const perArea = (value: number) => value / result.totalGrossFloorArea;
+  // Balconies only show up on schemes that count them
+  const elements = EMBODIED_CARBON_ELEMENTS.filter(({ key }) => key !== 'balconies' || result.breakdown.balconies > 0);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex h-3 w-full overflow-hidden rounded-full bg-gray-800">
+        {elements.map(({ key, label }) => (
+          <div
+            key={key}
+            className={ELEMENT_COLORS[key]}
+            style={{ width: `${(result.breakdown[key] / result.totalEmbodiedCarbon) * 100}%` }}
+            title={`${label}: ${perArea(result.breakdown[key]).toFixed(1)} kg CO₂ eq/m²`}
+          />
+        ))}
+      </div>
+      <div className="space-y-1">
+        {elements.map(({ key, label }) => (
+          <div key={key} className="flex items-center justify-between text-xs">
+            <div className="flex items-center space-x-2">
+              <div className={`w-2 h-2 rounded-sm ${ELEMENT_COLORS[key]}`}></div>
+              <span className="text-gray-400">{label}</span>
+            </div>
+            <span className="text-gray-300">{perArea(result.breakdown[key]).toFixed(1)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
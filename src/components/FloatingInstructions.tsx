@@ -27,6 +27,18 @@ export const FloatingInstructions: React.FC<FloatingInstructionsProps> = ({
               <div className="w-2 h-2 rounded-full bg-yellow-400"></div>
               <span>Click near start to close</span>
             </div>
+            <div className="flex items-center space-x-2">
+              <div className="w-2 h-2 rounded-full bg-sky-400"></div>
+              <span>Hold Shift to lock angle (45° steps)</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <div className="w-2 h-2 rounded-full bg-pink-400"></div>
+              <span>Snaps to corners ■, midpoints ▲ and edges ● of neighbours</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <div className="w-2 h-2 rounded-full bg-emerald-400"></div>
+              <span>Type a length (or 12.5&lt;90) and press Enter</span>
+            </div>
             <div className="flex items-center space-x-2">
               <div className="w-2 h-2 rounded-full bg-orange-400"></div>
               <span>Double-click to finish</span>
@@ -74,6 +86,10 @@ export const FloatingInstructions: React.FC<FloatingInstructionsProps> = ({
               <div className="w-2 h-2 rounded-full bg-blue-400"></div>
               <span>Press D to start drawing</span>
             </div>
+            <div className="flex items-center space-x-2">
+              <div className="w-2 h-2 rounded-full bg-purple-400"></div>
+              <span>Shift-click or press B to box-select several</span>
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,102 @@
+import React from 'react';
+import { Undo2, Redo2, X, Plus, Pencil, Trash2, Eraser, Upload } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { EditCommand, EditCommandType } from '../services/EditHistory';
+
+interface HistoryPanelProps {
+  commands: EditCommand[];
+  cursor: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onGoTo: (cursor: number) => void;
+  onClose: () => void;
+}
+
+const COMMAND_ICONS: Record<EditCommandType, LucideIcon> = {
+  add: Plus,
+  update: Pencil,
+  delete: Trash2,
+  clear: Eraser,
+  import: Upload
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  commands,
+  cursor,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onGoTo,
+  onClose
+}) => {
+  return (
+    <div className="fixed right-4 top-4 z-30 w-64 bg-gray-900/95 backdrop-blur-sm rounded-xl shadow-2xl border border-gray-700">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700/50">
+        <h3 className="text-sm font-semibold text-white">History</h3>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+            className="p-1.5 rounded-lg text-gray-300 hover:bg-gray-800 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+            className="p-1.5 rounded-lg text-gray-300 hover:bg-gray-800 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-lg text-gray-400 hover:bg-gray-800 transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <ul className="max-h-80 overflow-y-auto py-1 text-sm">
+        {/* Clicking an entry undoes or redoes up to and including it */}
+        <li>
+          <button
+            onClick={() => onGoTo(0)}
+            className={`w-full text-left px-3 py-1.5 hover:bg-gray-800 transition-colors ${
+              cursor === 0 ? 'text-blue-300 font-medium' : 'text-gray-400'
+            }`}
+          >
+            Initial state
+          </button>
+        </li>
+        {commands.map((command, index) => {
+          const Icon = COMMAND_ICONS[command.type];
+          const isCurrent = index + 1 === cursor;
+          const isUndone = index + 1 > cursor;
+
+          return (
+            <li key={command.id}>
+              <button
+                onClick={() => onGoTo(index + 1)}
+                className={`w-full flex items-center space-x-2 px-3 py-1.5 hover:bg-gray-800 transition-colors ${
+                  isCurrent ? 'text-blue-300 font-medium' : isUndone ? 'text-gray-600' : 'text-gray-300'
+                }`}
+              >
+                <Icon className="w-3.5 h-3.5 flex-shrink-0" />
+                <span className="truncate flex-1 text-left">{command.label}</span>
+                <span className="text-xs text-gray-500">
+                  {command.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -1,31 +1,43 @@
 import React, { useEffect, useRef } from 'react';
-import { Settings, Pencil, Download, Trash2, Sun, Moon, Save, Upload, CloudSun } from 'lucide-react';
+import { Settings, Pencil, Download, Trash2, Sun, Moon, Save, Upload, CloudSun, SlidersHorizontal, Dna, History, BoxSelect } from 'lucide-react';
 import { ToolbarButton } from './ToolbarButton';
 
 interface LeftToolbarProps {
   isDrawing: boolean;
+  isBoxSelecting: boolean;
   isInitialized: boolean;
   hasBuildings: boolean;
   onStartDrawing: () => void;
+  onToggleBoxSelect: () => void;
   onShowConfig: () => void;
   onExport: () => void;
   onClearAll: () => void;
   onSaveConfiguration: () => void;
   onImportConfiguration: () => void;
+  onParametricSweep: () => void;
+  onOptimize: () => void;
+  isOptimizing?: boolean;
+  onToggleHistory: () => void;
   onToggleSunController: () => void;
   onToggleTheme: () => void;
 }
 
 export const LeftToolbar: React.FC<LeftToolbarProps> = ({
   isDrawing,
+  isBoxSelecting,
   isInitialized,
   hasBuildings,
   onStartDrawing,
+  onToggleBoxSelect,
   onShowConfig,
   onExport,
   onClearAll,
   onSaveConfiguration,
   onImportConfiguration,
+  onParametricSweep,
+  onOptimize,
+  isOptimizing = false,
+  onToggleHistory,
   onToggleSunController,
   onToggleTheme
 }) => {
@@ -86,6 +98,26 @@ export const LeftToolbar: React.FC<LeftToolbarProps> = ({
             keyboardShortcut="D"
           />
 
+          {/* Box Select */}
+          <ToolbarButton
+            icon={BoxSelect}
+            tooltip={isBoxSelecting ? "Exit Box Select" : "Box Select"}
+            onClick={onToggleBoxSelect}
+            disabled={!isInitialized || !hasBuildings}
+            variant={isBoxSelecting ? "active" : "default"}
+            keyboardShortcut="B"
+          />
+
+          {/* Edit History */}
+          <ToolbarButton
+            icon={History}
+            tooltip="Edit History"
+            onClick={onToggleHistory}
+            disabled={!isInitialized}
+            variant="default"
+            keyboardShortcut="Ctrl+Z"
+          />
+
           {/* Divider */}
           <div className="h-px bg-gray-700/50 mx-2 my-1" />
 
@@ -109,6 +141,24 @@ export const LeftToolbar: React.FC<LeftToolbarProps> = ({
             keyboardShortcut="I"
           />
 
+          {/* Parametric Sweep */}
+          <ToolbarButton
+            icon={SlidersHorizontal}
+            tooltip="Parametric Sweep"
+            onClick={onParametricSweep}
+            disabled={!hasBuildings}
+            variant="default"
+          />
+
+          {/* Optimise */}
+          <ToolbarButton
+            icon={Dna}
+            tooltip={isOptimizing ? "Optimising..." : "Optimise Design"}
+            onClick={onOptimize}
+            disabled={!hasBuildings && !isOptimizing}
+            variant={isOptimizing ? "active" : "default"}
+          />
+
           {/* Divider */}
           <div className="h-px bg-gray-700/50 mx-2 my-1" />
 
@@ -0,0 +1,219 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { DesignMetrics, DesignNode } from '../types/designExploration';
+import { designMetrics } from '../data/designMetrics';
+import { findParetoFront } from '../services/ParetoAnalysis';
+
+export type ParetoChartMode = 'scatter' | 'parallel';
+
+interface ParetoChartProps {
+  nodes: DesignNode[];
+  mode: ParetoChartMode;
+  currentNodeId?: string;
+  selectedNodeIds: string[];
+  onSelectNode: (node: DesignNode) => void;
+}
+
+const WIDTH = 600;
+const HEIGHT = 400;
+const MARGIN = { top: 48, right: 32, bottom: 48, left: 64 };
+const DOMINATED_OPACITY = 0.25;
+
+const getMetric = (key: keyof DesignMetrics) => designMetrics.find(metric => metric.key === key)!;
+
+// Pad a value range so points don't sit on the axes
+const paddedExtent = (values: number[]): [number, number] => {
+  const [min, max] = d3.extent(values) as [number, number];
+  const padding = (max - min) * 0.1 || Math.abs(max) * 0.1 || 1;
+  return [min - padding, max + padding];
+};
+
+export const ParetoChart: React.FC<ParetoChartProps> = ({
+  nodes,
+  mode,
+  currentNodeId,
+  selectedNodeIds,
+  onSelectNode
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [xMetric, setXMetric] = useState<keyof DesignMetrics>('heatingDemand');
+  const [yMetric, setYMetric] = useState<keyof DesignMetrics>('globalWarmingPotential');
+
+  // Empty designs have no meaningful metrics
+  const designNodes = useMemo(() => nodes.filter(node => node.buildings.length > 0), [nodes]);
+  const paretoFront = useMemo(() => findParetoFront(designNodes), [designNodes]);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+    if (designNodes.length === 0) return;
+
+    const getColor = (node: DesignNode) => {
+      if (node.id === currentNodeId) return "#10b981";
+      return paretoFront.has(node.id) ? "#f59e0b" : "#6366f1";
+    };
+    const getOpacity = (node: DesignNode) => paretoFront.has(node.id) ? 1 : DOMINATED_OPACITY;
+    const isSelected = (node: DesignNode) => selectedNodeIds.includes(node.id);
+
+    if (mode === 'scatter') {
+      const x = d3.scaleLinear()
+        .domain(paddedExtent(designNodes.map(n => n.metrics[xMetric])))
+        .range([MARGIN.left, WIDTH - MARGIN.right]);
+      const y = d3.scaleLinear()
+        .domain(paddedExtent(designNodes.map(n => n.metrics[yMetric])))
+        .range([HEIGHT - MARGIN.bottom, MARGIN.top]);
+
+      svg.append("g")
+        .attr("transform", `translate(0,${HEIGHT - MARGIN.bottom})`)
+        .call(d3.axisBottom(x).ticks(6))
+        .attr("color", "#9ca3af");
+      svg.append("g")
+        .attr("transform", `translate(${MARGIN.left},0)`)
+        .call(d3.axisLeft(y).ticks(6))
+        .attr("color", "#9ca3af");
+
+      svg.append("text")
+        .attr("x", (WIDTH + MARGIN.left - MARGIN.right) / 2)
+        .attr("y", HEIGHT - 12)
+        .attr("text-anchor", "middle")
+        .attr("fill", "#d1d5db")
+        .attr("font-size", "12px")
+        .text(`${getMetric(xMetric).label} (${getMetric(xMetric).unit})`);
+      svg.append("text")
+        .attr("transform", "rotate(-90)")
+        .attr("x", -(HEIGHT + MARGIN.top - MARGIN.bottom) / 2)
+        .attr("y", 16)
+        .attr("text-anchor", "middle")
+        .attr("fill", "#d1d5db")
+        .attr("font-size", "12px")
+        .text(`${getMetric(yMetric).label} (${getMetric(yMetric).unit})`);
+
+      const points = svg.append("g")
+        .selectAll("g")
+        .data(designNodes)
+        .enter().append("g")
+        .attr("transform", d => `translate(${x(d.metrics[xMetric])},${y(d.metrics[yMetric])})`)
+        .attr("opacity", getOpacity)
+        .style("cursor", "pointer")
+        .on("click", (_event, d) => onSelectNode(d));
+
+      points.append("circle")
+        .attr("r", d => isSelected(d) ? 9 : 7)
+        .attr("fill", getColor)
+        .attr("stroke", d => isSelected(d) ? "#ffffff" : "none")
+        .attr("stroke-width", 2);
+
+      points.append("title")
+        .text(d => designMetrics.map(m => `${m.label}: ${d.metrics[m.key]} ${m.unit}`).join('\n'));
+
+      points.append("text")
+        .text(d => d.name)
+        .attr("dy", -12)
+        .attr("text-anchor", "middle")
+        .attr("fill", "#e5e7eb")
+        .attr("font-size", "11px");
+    } else {
+      // One vertical axis per objective, oriented so "better" is always up
+      const x = d3.scalePoint<keyof DesignMetrics>()
+        .domain(designMetrics.map(m => m.key))
+        .range([MARGIN.left, WIDTH - MARGIN.right]);
+
+      const yScales = new Map(designMetrics.map(metric => {
+        const [min, max] = paddedExtent(designNodes.map(n => n.metrics[metric.key]));
+        const range: [number, number] = metric.goal === 'maximize'
+          ? [HEIGHT - MARGIN.bottom, MARGIN.top]
+          : [MARGIN.top, HEIGHT - MARGIN.bottom];
+        return [metric.key, d3.scaleLinear().domain([min, max]).range(range)];
+      }));
+
+      const line = d3.line<[number, number]>();
+      const getPath = (node: DesignNode) => line(
+        designMetrics.map(m => [x(m.key)!, yScales.get(m.key)!(node.metrics[m.key])])
+      );
+
+      const lines = svg.append("g")
+        .selectAll("path")
+        .data(designNodes)
+        .enter().append("path")
+        .attr("d", getPath)
+        .attr("fill", "none")
+        .attr("stroke", getColor)
+        .attr("stroke-width", d => isSelected(d) ? 4 : 2)
+        .attr("opacity", getOpacity)
+        .style("cursor", "pointer")
+        .on("click", (_event, d) => onSelectNode(d));
+
+      lines.append("title").text(d => d.name);
+
+      designMetrics.forEach(metric => {
+        const axis = svg.append("g")
+          .attr("transform", `translate(${x(metric.key)},0)`)
+          .call(d3.axisLeft(yScales.get(metric.key)!).ticks(5))
+          .attr("color", "#9ca3af");
+
+        axis.append("text")
+          .attr("y", MARGIN.top - 20)
+          .attr("text-anchor", "middle")
+          .attr("fill", "#d1d5db")
+          .attr("font-size", "12px")
+          .text(metric.label);
+        axis.append("text")
+          .attr("y", MARGIN.top - 8)
+          .attr("text-anchor", "middle")
+          .attr("fill", "#6b7280")
+          .attr("font-size", "10px")
+          .text(metric.unit);
+      });
+    }
+  }, [designNodes, paretoFront, mode, xMetric, yMetric, currentNodeId, selectedNodeIds, onSelectNode]);
+
+  return (
+    <div className="relative w-full h-full">
+      <svg
+        ref={svgRef}
+        width={WIDTH}
+        height={HEIGHT}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-full bg-gray-950/50"
+      />
+
+      {designNodes.length === 0 && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-400">
+          Save designs with buildings to compare their performance
+        </div>
+      )}
+
+      {mode === 'scatter' && (
+        <div className="absolute top-3 right-3 flex items-center space-x-2 text-xs">
+          <select
+            value={xMetric}
+            onChange={e => setXMetric(e.target.value as keyof DesignMetrics)}
+            className="bg-gray-800 text-gray-200 border border-gray-700 rounded px-2 py-1"
+          >
+            {designMetrics.map(m => <option key={m.key} value={m.key}>X: {m.label}</option>)}
+          </select>
+          <select
+            value={yMetric}
+            onChange={e => setYMetric(e.target.value as keyof DesignMetrics)}
+            className="bg-gray-800 text-gray-200 border border-gray-700 rounded px-2 py-1"
+          >
+            {designMetrics.map(m => <option key={m.key} value={m.key}>Y: {m.label}</option>)}
+          </select>
+        </div>
+      )}
+
+      <div className="absolute bottom-3 right-3 flex items-center space-x-3 text-xs text-gray-400">
+        <div className="flex items-center space-x-1">
+          <div className="w-2 h-2 bg-amber-500 rounded-full"></div>
+          <span>Pareto optimal</span>
+        </div>
+        <div className="flex items-center space-x-1">
+          <div className="w-2 h-2 bg-indigo-500 rounded-full opacity-25"></div>
+          <span>Dominated</span>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,36 +1,90 @@
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
+import { X } from 'lucide-react';
 import { useThreeJS } from '../hooks/useThreeJS';
 import { useDrawing } from '../hooks/useDrawing';
 import { useClickHandler } from '../hooks/useClickHandler';
 import { useBuildingManager } from '../hooks/useBuildingManager';
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { useGhostMassing } from '../hooks/useGhostMassing';
+import { useDesignOptimizer } from '../hooks/useDesignOptimizer';
+import { useEditHistory } from '../hooks/useEditHistory';
+import { useFootprintEditor } from '../hooks/useFootprintEditor';
+import { useTransformGizmo } from '../hooks/useTransformGizmo';
+import { useBoxSelect } from '../hooks/useBoxSelect';
+import { useFacadePicker } from '../hooks/useFacadePicker';
 import { toggleTheme } from '../utils/themeColors';
+import { calculateGrossFloorArea, isPointInPolygon } from '../utils/geometry';
 import { LeftToolbar } from './LeftToolbar';
 import { BottomToolbar } from './BottomToolbar';
 import { FloatingInstructions } from './FloatingInstructions';
 import { BuildingConfigPanel } from './BuildingConfigPanel';
 import { BuildingEditPanel } from './BuildingEditPanel';
+import { BulkEditPanel, BulkEdits } from './BulkEditPanel';
 import { BuildingTooltip } from './BuildingTooltip';
 import { SunController } from './SunController';
 import { MiniGraphWindow } from './MiniGraphWindow';
 import { DesignGraphDialog } from './DesignGraphDialog';
 import { SaveConfigurationDialog } from './dialogs/SaveConfigurationDialog';
 import { ImportConfigDialog } from './dialogs/ImportConfigDialog';
+import { ParametricSweepDialog } from './dialogs/ParametricSweepDialog';
+import { OptimizationDialog } from './dialogs/OptimizationDialog';
+import { ArrayDialog } from './dialogs/ArrayDialog';
+import { HistoryPanel } from './HistoryPanel';
 import { Tabs, TabContent } from './ui/Tabs';
 import { WeatherAndLocationTab } from './WeatherAndLocationTab';
-import { BuildingConfig } from '../types/building';
+import { BuildingConfig, BuildingData, BuildingSnapshot, Point3D, createBuildingSnapshot } from '../types/building';
 import type { CameraType, CameraView } from '../core/ThreeJSCore';
 import { getThemeColorAsHex } from '../utils/themeColors';
 import type { SunPosition } from '../utils/sunPosition';
 import { addSampleBuilding } from '../utils/addSampleBuilding';
 import { BuildingService } from '../services/BuildingService';
 import { designExplorationService } from '../services/DesignExplorationService';
+import { generateSweepVariants, SweepParameters } from '../services/ParametricSweep';
+import {
+  BuildingTransform,
+  IDENTITY_TRANSFORM,
+  createBuildingCopies,
+  getBuildingsPivot,
+  transformFootprint
+} from '../services/BuildingTransforms';
+import type { EPWProcessedData } from '../services/EPWParser';
+
+// Scene config that rebuilds a building's massing from its saved properties
+const getBuildingConfig = (building: BuildingSnapshot): BuildingConfig => ({
+  floors: building.floors,
+  floorHeight: building.floorHeight,
+  color: building.color || getThemeColorAsHex('--color-building-default', 0x63666f1),
+  name: building.name,
+  description: building.description,
+  window_to_wall_ratio: building.window_to_wall_ratio,
+  window_to_wall_overrides: building.window_to_wall_overrides,
+  window_layout: building.window_layout,
+  ground_floor_glazing: building.ground_floor_glazing,
+  shading_devices: building.shading_devices,
+  balconies: building.balconies,
+  window_overhang: building.window_overhang,
+  window_overhang_depth: building.window_overhang_depth,
+  roof_type: building.roof_type,
+  roof_pitch: building.roof_pitch,
+  roof_ridge_direction: building.roof_ridge_direction,
+  setbacks: building.setbacks,
+  wall_construction: building.wall_construction,
+  floor_construction: building.floor_construction,
+  roof_construction: building.roof_construction,
+  window_construction: building.window_construction,
+  structural_system: building.structural_system,
+  building_program: building.building_program,
+  hvac_system: building.hvac_system,
+  natural_ventilation: building.natural_ventilation,
+  holes: building.holes
+});
 
 export const SimpleBuildingCreator: React.FC = () => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [activeTab, setActiveTab] = useState<'weather' | 'model'>('model');
   const [hasInteracted, setHasInteracted] = useState(false);
   const [hasInitializedWithSample, setHasInitializedWithSample] = useState(false);
+  const [isProjectRestored, setIsProjectRestored] = useState(false);
   const [showGrid, setShowGrid] = useState(true);
   const [snapToGrid, setSnapToGrid] = useState(false);
   const [showBuildingConfig, setShowBuildingConfig] = useState(false);
@@ -38,6 +92,16 @@ export const SimpleBuildingCreator: React.FC = () => {
   const [showSaveConfigDialog, setShowSaveConfigDialog] = useState(false);
   const [showDesignGraphDialog, setShowDesignGraphDialog] = useState(false);
   const [showImportConfigDialog, setShowImportConfigDialog] = useState(false);
+  const [showParametricSweepDialog, setShowParametricSweepDialog] = useState(false);
+  const [showOptimizationDialog, setShowOptimizationDialog] = useState(false);
+  const [showHistoryPanel, setShowHistoryPanel] = useState(false);
+  const [ghostNodeId, setGhostNodeId] = useState<string | null>(null);
+  const [footprintEditId, setFootprintEditId] = useState<string | null>(null);
+  const [transformIds, setTransformIds] = useState<string[]>([]);
+  const [typedTransform, setTypedTransform] = useState({ dx: 0, dz: 0, rotation: 0 });
+  const [arrayTargetId, setArrayTargetId] = useState<string | null>(null);
+  const [isBoxSelecting, setIsBoxSelecting] = useState(false);
+  const [facadePick, setFacadePick] = useState<{ buildingId: string; onPick: (edge: number) => void } | null>(null);
 
   const [buildingConfig, setBuildingConfig] = useState<BuildingConfig>({
     floors: 3,
@@ -68,9 +132,13 @@ export const SimpleBuildingCreator: React.FC = () => {
   const { 
     buildings, 
     selectedBuilding, 
+    selectedBuildings,
     buildingTooltip,
     selectBuilding, 
+    selectBuildings,
+    toggleBuildingSelection,
     updateBuilding, 
+    updateBuildingFootprint,
     clearAllBuildings, 
     exportBuildings, 
     buildingStats, 
@@ -80,8 +148,236 @@ export const SimpleBuildingCreator: React.FC = () => {
     hideBuildingTooltip
   } = useBuildingManager(scene, camera as THREE.PerspectiveCamera | null, windowService);
 
+  // Ghost another design node's massing over the live scene for comparison
+  const ghostNode = useMemo(
+    () => ghostNodeId ? designExplorationService.getGraph().nodes.find(n => n.id === ghostNodeId) ?? null : null,
+    [ghostNodeId]
+  );
+  useGhostMassing(scene, ghostNode?.buildings ?? null);
+
+  const optimizer = useDesignOptimizer();
+
+  // Recreate saved building snapshots in the scene
+  const recreateBuildings = useCallback((snapshots: BuildingSnapshot[]): BuildingData[] => {
+    if (!scene) return [];
+
+    const buildingService = new BuildingService(scene);
+    const created: BuildingData[] = [];
+    
+    snapshots.forEach(buildingData => {
+      try {
+        // Create building config from saved data
+        const buildingConfig = getBuildingConfig(buildingData);
+
+        // Create the 3D mesh
+        const mesh = buildingService.createBuilding(buildingData.points, buildingConfig);
+        
+        // Set the original building ID to maintain consistency
+        mesh.userData = {
+          ...mesh.userData,
+          buildingId: buildingData.id,
+          name: buildingData.name,
+          description: buildingData.description
+        };
+
+        // Add the building back to the manager with all saved properties, which also rebuilds its windows
+        const building = addBuilding(mesh, buildingData.points, buildingData.floors, buildingData.floorHeight, buildingData);
+        if (building) created.push(building);
+        
+      } catch (error) {
+        console.error('Failed to recreate building:', buildingData.id, error);
+      }
+    });
+    return created;
+  }, [scene, addBuilding]);
+
+  // Undo/redo rebuilds the whole scene from snapshots
+  const replaceBuildings = useCallback((snapshots: BuildingSnapshot[]) => {
+    clearAllBuildings();
+    recreateBuildings(snapshots);
+  }, [clearAllBuildings, recreateBuildings]);
+
+  const history = useEditHistory(buildings, replaceBuildings);
+  const { record: recordEdit } = history;
+
+  // Footprints finished in the drawing tool are recorded as undoable additions
+  const addDrawnBuilding = useCallback((mesh: THREE.Mesh, points: Point3D[], floors: number, floorHeight: number) => {
+    const building = addBuilding(mesh, points, floors, floorHeight);
+    if (building) {
+      recordEdit('add', `Add ${building.name || building.id}`, [building.id], []);
+    }
+    return building;
+  }, [addBuilding, recordEdit]);
+
+  // Live preview updates from one edit session collapse into a single history entry
+  const editSessionRef = useRef(0);
+  useEffect(() => {
+    editSessionRef.current++;
+  }, [selectedBuilding?.id]);
+
+  // Footprint vertex editing; each drag, insertion or removal is one undoable edit
+  const footprintBuilding = footprintEditId ? buildings.find(b => b.id === footprintEditId) ?? null : null;
+  useFootprintEditor({
+    scene,
+    camera,
+    containerRef,
+    building: footprintBuilding,
+    snapToGridEnabled: snapToGrid,
+    onChange: (buildingId, points, vertexEdit) => updateBuildingFootprint(buildingId, points, undefined, {}, vertexEdit),
+    onEditStart: (buildingId) => {
+      const building = buildings.find(b => b.id === buildingId);
+      if (building) {
+        recordEdit('update', `Edit footprint of ${building.name || building.id}`, [buildingId], [building]);
+      }
+    }
+  });
+
+  // Move/rotate gizmo; each drag is one undoable edit covering all transformed buildings
+  const transformBuildings = useMemo(
+    () => buildings.filter(b => transformIds.includes(b.id)),
+    [buildings, transformIds]
+  );
+  const describeBuildings = (targets: BuildingData[]) =>
+    targets.length === 1 ? targets[0].name || targets[0].id : `${targets.length} buildings`;
+  useTransformGizmo({
+    scene,
+    camera,
+    containerRef,
+    buildings: transformBuildings,
+    snapToGridEnabled: snapToGrid,
+    onChange: (buildingId, footprint) => {
+      updateBuildingFootprint(buildingId, footprint.points, footprint.holes, {
+        roof_ridge_direction: footprint.roof_ridge_direction
+      });
+    },
+    onEditStart: (buildingIds, handle) => {
+      const targets = buildings.filter(b => buildingIds.includes(b.id));
+      if (targets.length === 0) return;
+      recordEdit('update', `${handle === 'move' ? 'Move' : 'Rotate'} ${describeBuildings(targets)}`, buildingIds, targets);
+    }
+  });
+
+  const applyTypedTransform = useCallback(() => {
+    if (transformBuildings.length === 0) return;
+    const { dx, dz, rotation } = typedTransform;
+    if (dx === 0 && dz === 0 && rotation === 0) return;
+
+    const transform: BuildingTransform = { dx, dz, rotation, pivot: getBuildingsPivot(transformBuildings) };
+    recordEdit('update', `Transform ${describeBuildings(transformBuildings)}`, transformBuildings.map(b => b.id), transformBuildings);
+    transformBuildings.forEach(building => {
+      const footprint = transformFootprint(building, transform);
+      updateBuildingFootprint(building.id, footprint.points, footprint.holes, {
+        roof_ridge_direction: footprint.roof_ridge_direction
+      });
+    });
+    setTypedTransform({ dx: 0, dz: 0, rotation: 0 });
+  }, [transformBuildings, typedTransform, recordEdit, updateBuildingFootprint]);
+
+  // Copies are added as new buildings in a single undoable edit
+  const addBuildingCopies = useCallback((building: BuildingData, transforms: BuildingTransform[], label: string) => {
+    const created = recreateBuildings(createBuildingCopies(createBuildingSnapshot(building), transforms));
+    if (created.length > 0) {
+      recordEdit('add', label, created.map(b => b.id), []);
+    }
+    return created;
+  }, [recreateBuildings, recordEdit]);
+
+  // A duplicate lands beside the original and is picked up by the move gizmo for placing
+  const duplicateBuilding = useCallback((building: BuildingData) => {
+    const xs = building.points.map(p => p.x);
+    const offset = Math.max(...xs) - Math.min(...xs) + 5;
+    const created = addBuildingCopies(
+      building,
+      [{ ...IDENTITY_TRANSFORM, dx: offset }],
+      `Duplicate ${building.name || building.id}`
+    );
+    if (created.length > 0) {
+      setFootprintEditId(null);
+      setTransformIds(created.map(b => b.id));
+    }
+  }, [addBuildingCopies]);
+
+  const arrayTarget = arrayTargetId ? buildings.find(b => b.id === arrayTargetId) ?? null : null;
+
+  // Box selection; Shift adds the boxed buildings to the current selection
+  const selectionRect = useBoxSelect({
+    camera,
+    containerRef,
+    enabled: isBoxSelecting && activeTab === 'model',
+    buildings,
+    onSelect: (picked, additive) => {
+      selectBuildings(additive
+        ? [...selectedBuildings, ...picked.filter(b => !selectedBuildings.some(s => s.id === b.id))]
+        : picked);
+    }
+  });
+
+  // Façade picking for the edit panel's glazing overrides; ends with the first picked façade
+  useFacadePicker({
+    scene,
+    camera,
+    containerRef,
+    building: facadePick ? buildings.find(b => b.id === facadePick.buildingId) ?? null : null,
+    onPick: edge => {
+      facadePick?.onPick(edge);
+      setFacadePick(null);
+    }
+  });
+
+  useEffect(() => {
+    if (facadePick && selectedBuilding?.id !== facadePick.buildingId) setFacadePick(null);
+  }, [facadePick, selectedBuilding]);
+
+  const toggleBoxSelect = useCallback(() => {
+    setFootprintEditId(null);
+    setTransformIds([]);
+    setIsBoxSelecting(prev => !prev);
+  }, []);
+
+  // Existing footprints and courtyards guide parallel/perpendicular inference while drawing
+  const referenceFootprints = useMemo(() => buildings.flatMap(b => [b.points, ...(b.holes ?? [])]), [buildings]);
+
+  // New footprints are checked for overlaps with these when closed
+  const footprintNeighbours = useMemo(() => buildings.map(b => ({ id: b.id, name: b.name, points: b.points })), [buildings]);
+
+  // Courtyards must sit inside the footprint without touching existing courtyards
+  const [courtyardWarning, setCourtyardWarning] = useState<string | null>(null);
+  useEffect(() => {
+    if (!courtyardWarning) return;
+    const timeout = setTimeout(() => setCourtyardWarning(null), 4000);
+    return () => clearTimeout(timeout);
+  }, [courtyardWarning]);
+
+  const addCourtyard = useCallback((buildingId: string, points: Point3D[]) => {
+    const building = buildings.find(b => b.id === buildingId);
+    if (!building) return;
+
+    const holes = building.holes ?? [];
+    const insideFootprint = points.every(point => isPointInPolygon(point, building.points));
+    const overlapsCourtyard = holes.some(hole =>
+      points.some(point => isPointInPolygon(point, hole)) || hole.some(point => isPointInPolygon(point, points))
+    );
+    if (!insideFootprint || overlapsCourtyard) {
+      setCourtyardWarning(insideFootprint
+        ? 'Courtyard overlaps an existing courtyard'
+        : 'Courtyard must lie inside the building footprint');
+      return;
+    }
+
+    recordEdit('update', `Add courtyard to ${building.name || building.id}`, [buildingId], [building]);
+    updateBuildingFootprint(buildingId, building.points, [...holes, points]);
+  }, [buildings, recordEdit, updateBuildingFootprint]);
+
+  const removeCourtyard = useCallback((buildingId: string, index: number) => {
+    const building = buildings.find(b => b.id === buildingId);
+    if (!building?.holes) return;
+
+    recordEdit('update', `Remove courtyard from ${building.name || building.id}`, [buildingId], [building]);
+    updateBuildingFootprint(buildingId, building.points, building.holes.filter((_, i) => i !== index));
+  }, [buildings, recordEdit, updateBuildingFootprint]);
+
   // Initialize drawing functionality
-  const { 
+  const {
     drawingState, 
     startDrawing, 
     stopDrawing, 
@@ -89,14 +385,23 @@ export const SimpleBuildingCreator: React.FC = () => {
     finishBuilding, 
     updatePreview, 
     undoLastPoint, 
-    clearAllDrawingElements 
+    clearAllDrawingElements,
+    dimensionInput,
+    holeTargetId,
+    footprintIssues,
+    acceptFootprint,
+    repairAndFinish,
+    dismissFootprintIssues
   } = useDrawing(
     scene,
     camera,
     groundPlane,
     snapToGrid,
     buildingConfig,
-    addBuilding
+    addDrawnBuilding,
+    referenceFootprints,
+    addCourtyard,
+    footprintNeighbours
   );
 
   // Handle click events and mouse movement
@@ -113,15 +418,22 @@ export const SimpleBuildingCreator: React.FC = () => {
       
       if (!hasInteracted) setHasInteracted(true);
       
+      // Clicks belong to the footprint handles, the gizmo or the selection box while editing
+      if (footprintEditId || transformIds.length > 0 || isBoxSelecting || facadePick) return;
+
       if (drawingState.isDrawing) {
         addPoint(event, container);
       } else if (isInitialized && camera && scene) {
         const result = handleBuildingInteraction(event, container);
         
         if (result?.building && !result.building.mesh.userData.isPreview) {
-          // Select the building to show the comprehensive BuildingEditPanel
-          selectBuilding(result.building);
-        } else if (!result) {
+          // Select the building to show the comprehensive BuildingEditPanel; Shift builds a multi-selection
+          if (event.shiftKey) {
+            toggleBuildingSelection(result.building);
+          } else {
+            selectBuilding(result.building);
+          }
+        } else if (!result && !event.shiftKey) {
           selectBuilding(null);
         }
       }
@@ -139,7 +451,7 @@ export const SimpleBuildingCreator: React.FC = () => {
       // Only handle hover when model tab is active
       if (activeTab !== 'model') return;
       
-      if (!drawingState.isDrawing && isInitialized && camera && scene) {
+      if (!drawingState.isDrawing && !footprintEditId && transformIds.length === 0 && !isBoxSelecting && !facadePick && isInitialized && camera && scene) {
         handleBuildingInteraction(event, container);
       }
     },
@@ -149,6 +461,9 @@ export const SimpleBuildingCreator: React.FC = () => {
   // Event handlers
   const handleStartDrawing = () => {
     if (!hasInteracted) setHasInteracted(true);
+    setFootprintEditId(null);
+    setTransformIds([]);
+    setIsBoxSelecting(false);
     
     // If already drawing, first stop any current drawing session
     if (drawingState.isDrawing) {
@@ -202,6 +517,9 @@ export const SimpleBuildingCreator: React.FC = () => {
   };
 
   const handleImportConfigConfirm = (config: any) => {
+    const previousBuildings = buildings;
+    const importedIds: string[] = [];
+
     try {
       // Clear current buildings
       clearAllBuildings();
@@ -231,8 +549,17 @@ export const SimpleBuildingCreator: React.FC = () => {
             name: buildingData.name || `Imported Building ${index + 1}`,
             description: buildingData.description || '',
             window_to_wall_ratio: buildingData.window_to_wall_ratio || 0.3,
+            window_to_wall_overrides: typeof buildingData.window_to_wall_overrides === 'object' ? buildingData.window_to_wall_overrides : undefined,
+            window_layout: typeof buildingData.window_layout === 'object' ? buildingData.window_layout : undefined,
+            ground_floor_glazing: buildingData.ground_floor_glazing && typeof buildingData.ground_floor_glazing === 'object' ? buildingData.ground_floor_glazing : undefined,
+            shading_devices: buildingData.shading_devices && typeof buildingData.shading_devices === 'object' ? buildingData.shading_devices : undefined,
+            balconies: buildingData.balconies && typeof buildingData.balconies.edges === 'object' ? buildingData.balconies : undefined,
             window_overhang: buildingData.window_overhang || false,
             window_overhang_depth: buildingData.window_overhang_depth || 0.5,
+            roof_type: ['mono-pitch', 'gable', 'hip'].includes(buildingData.roof_type) ? buildingData.roof_type : 'flat',
+            roof_pitch: typeof buildingData.roof_pitch === 'number' ? buildingData.roof_pitch : undefined,
+            roof_ridge_direction: typeof buildingData.roof_ridge_direction === 'number' ? buildingData.roof_ridge_direction : undefined,
+            setbacks: Array.isArray(buildingData.setbacks) ? buildingData.setbacks : undefined,
             wall_construction: buildingData.wall_construction || 'Standard Wall',
             floor_construction: buildingData.floor_construction || 'Standard Floor',
             roof_construction: buildingData.roof_construction || 'Standard Roof',
@@ -240,7 +567,8 @@ export const SimpleBuildingCreator: React.FC = () => {
             structural_system: buildingData.structural_system || 'Concrete',
             building_program: buildingData.building_program || 'Office',
             hvac_system: buildingData.hvac_system || 'Standard HVAC',
-            natural_ventilation: buildingData.natural_ventilation || false
+            natural_ventilation: buildingData.natural_ventilation || false,
+            holes: Array.isArray(buildingData.holes) ? buildingData.holes.filter((hole: Point3D[]) => hole.length >= 3) : undefined
           };
 
           // Create the 3D mesh
@@ -255,7 +583,19 @@ export const SimpleBuildingCreator: React.FC = () => {
           };
 
           // Add the building to the manager
-          addBuilding(mesh, buildingData.points, buildingConfig.floors, buildingConfig.floorHeight);
+          const building = addBuilding(mesh, buildingData.points, buildingConfig.floors, buildingConfig.floorHeight, {
+            holes: buildingConfig.holes,
+            roof_type: buildingConfig.roof_type,
+            roof_pitch: buildingConfig.roof_pitch,
+            roof_ridge_direction: buildingConfig.roof_ridge_direction,
+            setbacks: buildingConfig.setbacks,
+            window_to_wall_overrides: buildingConfig.window_to_wall_overrides,
+            window_layout: buildingConfig.window_layout,
+            ground_floor_glazing: buildingConfig.ground_floor_glazing,
+            shading_devices: buildingConfig.shading_devices,
+            balconies: buildingConfig.balconies
+          });
+          if (building) importedIds.push(building.id);
           
         } catch (error) {
           console.error(`Failed to import building ${index + 1}:`, error);
@@ -268,12 +608,37 @@ export const SimpleBuildingCreator: React.FC = () => {
       console.error('Failed to import configuration:', error);
       // You could show an error dialog here
     }
+
+    // The import replaced the previous buildings, so undo restores all of them
+    recordEdit(
+      'import',
+      `Import ${importedIds.length} building(s)`,
+      [...previousBuildings.map(b => b.id), ...importedIds],
+      previousBuildings
+    );
   };
 
   const handleSaveConfigurationConfirm = (name: string) => {
     designExplorationService.saveConfiguration(buildings, name);
   };
 
+  const handleGenerateSweep = (parameters: SweepParameters) => {
+    const variants = generateSweepVariants(buildings.map(createBuildingSnapshot), parameters);
+    const parentId = designExplorationService.getCurrentNode()?.id;
+
+    // Variants branch off the current design without replacing the scene
+    designExplorationService.runBatch(() => {
+      variants.forEach(variant => {
+        designExplorationService.saveConfiguration(variant.buildings, variant.name, { parentId, makeCurrent: false });
+      });
+    });
+  };
+
+  const handleWeatherDataLoaded = (data: EPWProcessedData) => {
+    // Design metrics are evaluated against the most recently loaded weather file
+    designExplorationService.setWeatherData(data);
+  };
+
   const handleOpenDesignGraph = () => {
     setShowDesignGraphDialog(true);
   };
@@ -281,60 +646,34 @@ export const SimpleBuildingCreator: React.FC = () => {
   const handleReinstateConfiguration = (nodeId: string) => {
     const node = designExplorationService.reinstateConfiguration(nodeId);
     if (node && scene) {
-      // Clear current buildings
+      // Abandon any footprint in progress so it isn't left behind in the restored scene
+      if (drawingState.isDrawing) {
+        stopDrawing();
+      }
+
+      // Tear down current buildings, windows, footprints and floor lines; also clears selection and tooltip
       clearAllBuildings();
+      if (ghostNodeId === nodeId) {
+        setGhostNodeId(null);
+      }
       
-      // Recreate buildings from saved data
-      const buildingService = new BuildingService(scene);
-      
-      node.buildings.forEach(buildingData => {
-        try {
-          // Create building config from saved data
-          const buildingConfig: BuildingConfig = {
-            floors: buildingData.floors,
-            floorHeight: buildingData.floorHeight,
-            color: buildingData.color || getThemeColorAsHex('--color-building-default', 0x63666f1),
-            name: buildingData.name,
-            description: buildingData.description,
-            window_to_wall_ratio: buildingData.window_to_wall_ratio,
-            window_overhang: buildingData.window_overhang,
-            window_overhang_depth: buildingData.window_overhang_depth,
-            wall_construction: buildingData.wall_construction,
-            floor_construction: buildingData.floor_construction,
-            roof_construction: buildingData.roof_construction,
-            window_construction: buildingData.window_construction,
-            structural_system: buildingData.structural_system,
-            building_program: buildingData.building_program,
-            hvac_system: buildingData.hvac_system,
-            natural_ventilation: buildingData.natural_ventilation
-          };
-
-          // Create the 3D mesh
-          const mesh = buildingService.createBuilding(buildingData.points, buildingConfig);
-          
-          // Set the original building ID to maintain consistency
-          mesh.userData = {
-            ...mesh.userData,
-            buildingId: buildingData.id,
-            name: buildingData.name,
-            description: buildingData.description
-          };
-
-          // Add the building back to the manager
-          addBuilding(mesh, buildingData.points, buildingData.floors, buildingData.floorHeight);
-          
-        } catch (error) {
-          console.error('Failed to recreate building:', buildingData.id, error);
-        }
-      });
+      // Recreate buildings from saved data; edits made to the previous design can no longer be undone
+      recreateBuildings(node.buildings);
+      history.clear();
 
       console.log('Configuration reinstated:', node.name, `(${node.buildings.length} buildings)`);
     }
     setShowDesignGraphDialog(false);
   };
 
+  const recordBuildingUpdate = (building: BuildingData) => {
+    const current = buildings.find(b => b.id === building.id) ?? building;
+    recordEdit('update', `Edit ${current.name || current.id}`, [current.id], [current], `update:${current.id}:${editSessionRef.current}`);
+  };
+
   const handleSaveBuilding = (updates: any) => {
     if (selectedBuilding) {
+      recordBuildingUpdate(selectedBuilding);
       updateBuilding(selectedBuilding.id, updates);
       selectBuilding(null);
     }
@@ -342,6 +681,7 @@ export const SimpleBuildingCreator: React.FC = () => {
 
   const handlePreviewBuilding = (updates: any) => {
     if (selectedBuilding) {
+      recordBuildingUpdate(selectedBuilding);
       updateBuilding(selectedBuilding.id, updates);
       // Don't close the dialog - keep it open for live preview
     }
@@ -353,7 +693,62 @@ export const SimpleBuildingCreator: React.FC = () => {
       selectBuilding(building);
     }
   };
+  const recordClearAll = () => {
+    if (buildings.length === 0) return;
+    recordEdit('clear', 'Clear All Buildings', buildings.map(b => b.id), buildings);
+  };
+
+  const handleDeleteBuilding = (id: string) => {
+    const building = buildings.find(b => b.id === id);
+    if (building) {
+      recordEdit('delete', `Delete ${building.name || building.id}`, [id], [building]);
+    }
+    deleteBuilding(id);
+  };
+
+  // Updating a building paints its new colour over the highlight, so bulk-edited
+  // buildings are highlighted again, keeping the selection, once the update lands
+  const rehighlightIdsRef = useRef<string[] | null>(null);
+  useEffect(() => {
+    const ids = rehighlightIdsRef.current;
+    if (!ids) return;
+    rehighlightIdsRef.current = null;
+    selectBuildings(buildings.filter(b => ids.includes(b.id)));
+  }, [buildings, selectBuildings]);
+
+  // Bulk edits touch only the fields changed in the multi-selection editor
+  const handleBulkApply = (edits: BulkEdits) => {
+    const targets = buildings.filter(b => selectedBuildings.some(s => s.id === b.id));
+    if (targets.length === 0) return;
+
+    recordEdit('update', `Edit ${targets.length} buildings`, targets.map(b => b.id), targets);
+    rehighlightIdsRef.current = targets.map(b => b.id);
+    targets.forEach(building => {
+      updateBuilding(building.id, { ...edits, config: { ...getBuildingConfig(building), ...edits } });
+    });
+  };
+
+  const handleBulkDelete = () => {
+    const targets = buildings.filter(b => selectedBuildings.some(s => s.id === b.id));
+    if (targets.length === 0) return;
+
+    recordEdit('delete', `Delete ${targets.length} buildings`, targets.map(b => b.id), targets);
+    selectBuilding(null);
+    targets.forEach(building => deleteBuilding(building.id));
+  };
+
+  // Shift-clicking past an open editor extends the selection instead of closing it
+  const extendSelection = (event: MouseEvent) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const result = handleBuildingInteraction(event, container);
+    if (result?.building && !result.building.mesh.userData.isPreview) {
+      toggleBuildingSelection(result.building);
+    }
+  };
+
   const handleClearAll = () => {
+    recordClearAll();
     clearAllBuildings();
     // Don't clear drawing elements when using the Clear All button from LeftToolbar
     // Only clear selected building and reset UI state
@@ -392,7 +787,7 @@ export const SimpleBuildingCreator: React.FC = () => {
     if (drawingState.isDrawing) {
       return 'drawing';
     }
-    if (!drawingState.isDrawing && buildings.length > 0 && !selectedBuilding && !showBuildingConfig) {
+    if (!drawingState.isDrawing && buildings.length > 0 && selectedBuildings.length === 0 && !showBuildingConfig) {
       return 'selection';
     }
     return null;
@@ -403,9 +798,16 @@ export const SimpleBuildingCreator: React.FC = () => {
     onDrawBuilding: () => {
       if (activeTab !== 'model') return;
       if (!hasInteracted) setHasInteracted(true);
+      setFootprintEditId(null);
+      setTransformIds([]);
+      setIsBoxSelecting(false);
       selectBuilding(null);
       startDrawing();
     },
+    onToggleBoxSelect: () => {
+      if (activeTab !== 'model') return;
+      toggleBoxSelect();
+    },
     onToggleGrid: () => {
       if (activeTab !== 'model') return;
       setShowGrid(!showGrid);
@@ -429,6 +831,7 @@ export const SimpleBuildingCreator: React.FC = () => {
     },
     onClearAll: () => {
       if (activeTab !== 'model') return;
+      recordClearAll();
       clearAllBuildings();
       if (clearAllDrawingElements) clearAllDrawingElements();
       selectBuilding(null);
@@ -437,7 +840,15 @@ export const SimpleBuildingCreator: React.FC = () => {
       if (activeTab !== 'model') return;
       if (drawingState.isDrawing) {
         stopDrawing();
-      } else if (selectedBuilding) {
+      } else if (facadePick) {
+        setFacadePick(null);
+      } else if (footprintEditId) {
+        setFootprintEditId(null);
+      } else if (transformIds.length > 0) {
+        setTransformIds([]);
+      } else if (isBoxSelecting) {
+        setIsBoxSelecting(false);
+      } else if (selectedBuildings.length > 0) {
         selectBuilding(null);
       } else if (showBuildingConfig) {
         setShowBuildingConfig(false);
@@ -447,6 +858,19 @@ export const SimpleBuildingCreator: React.FC = () => {
       if (activeTab !== 'model') return;
       undoLastPoint();
     },
+    onUndo: () => {
+      if (activeTab !== 'model') return;
+      // While drawing, Ctrl+Z steps back through the footprint points instead
+      if (drawingState.isDrawing) {
+        undoLastPoint();
+      } else {
+        history.undo();
+      }
+    },
+    onRedo: () => {
+      if (activeTab !== 'model' || drawingState.isDrawing) return;
+      history.redo();
+    },
     onSaveConfiguration: () => {
       if (activeTab !== 'model') return;
       handleSaveConfiguration();
@@ -496,9 +920,22 @@ export const SimpleBuildingCreator: React.FC = () => {
     });
   }, [drawingState]);
 
-  // Initialize with a sample pentagon building when the scene is ready (only once)
+  // Wait for the persisted design graph before populating the scene
   useEffect(() => {
-    if (isInitialized && scene && buildings.length === 0 && !hasInitializedWithSample) {
+    designExplorationService.whenRestored().then(() => setIsProjectRestored(true));
+  }, []);
+
+  // Initialize with the restored design, or a sample pentagon building, when the scene is ready (only once)
+  useEffect(() => {
+    if (isInitialized && scene && isProjectRestored && buildings.length === 0 && !hasInitializedWithSample) {
+      const currentNode = designExplorationService.getCurrentNode();
+      if (currentNode && currentNode.buildings.length > 0) {
+        recreateBuildings(currentNode.buildings);
+        setHasInteracted(true);
+        setHasInitializedWithSample(true);
+        return;
+      }
+
       console.log('Initializing app with sample pentagon building...');
       
       try {
@@ -544,7 +981,7 @@ export const SimpleBuildingCreator: React.FC = () => {
         console.error('❌ Error creating sample building:', error);
       }
     }
-  }, [isInitialized, scene, buildings.length, windowService, addBuilding, hasInitializedWithSample]);
+  }, [isInitialized, scene, isProjectRestored, buildings.length, windowService, addBuilding, hasInitializedWithSample, recreateBuildings]);
 
   // Safeguard: Re-ensure sample building exists when switching to model tab
   useEffect(() => {
@@ -627,11 +1064,24 @@ export const SimpleBuildingCreator: React.FC = () => {
             pointerEvents: activeTab === 'model' ? 'auto' : 'none'
           }}
         />
+
+        {/* Box selection */}
+        {selectionRect && (
+          <div
+            className="absolute z-20 pointer-events-none border border-blue-400 bg-blue-400/10"
+            style={{
+              left: selectionRect.left,
+              top: selectionRect.top,
+              width: selectionRect.right - selectionRect.left,
+              height: selectionRect.bottom - selectionRect.top
+            }}
+          />
+        )}
         
         {/* Weather Tab Content */}
         {activeTab === 'weather' && (
           <div className="absolute inset-0 z-10 pt-16">
-            <WeatherAndLocationTab />
+            <WeatherAndLocationTab onWeatherDataLoaded={handleWeatherDataLoaded} />
           </div>
         )}
         
@@ -641,18 +1091,38 @@ export const SimpleBuildingCreator: React.FC = () => {
             {/* Left Toolbar */}
             <LeftToolbar
               isDrawing={drawingState.isDrawing}
+              isBoxSelecting={isBoxSelecting}
               isInitialized={isInitialized}
               hasBuildings={buildings.length > 0}
               onStartDrawing={handleStartDrawing}
+              onToggleBoxSelect={toggleBoxSelect}
               onShowConfig={() => setShowBuildingConfig(!showBuildingConfig)}
               onExport={exportBuildings}
               onClearAll={handleClearAll}
               onSaveConfiguration={handleSaveConfiguration}
               onImportConfiguration={handleImportConfiguration}
+              onParametricSweep={() => setShowParametricSweepDialog(true)}
+              onOptimize={() => setShowOptimizationDialog(true)}
+              isOptimizing={optimizer.isRunning}
+              onToggleHistory={() => setShowHistoryPanel(!showHistoryPanel)}
               onToggleSunController={() => setShowSunController(!showSunController)}
               onToggleTheme={handleToggleTheme}
             />
 
+            {/* Edit History */}
+            {showHistoryPanel && (
+              <HistoryPanel
+                commands={history.commands}
+                cursor={history.cursor}
+                canUndo={history.canUndo}
+                canRedo={history.canRedo}
+                onUndo={history.undo}
+                onRedo={history.redo}
+                onGoTo={history.goTo}
+                onClose={() => setShowHistoryPanel(false)}
+              />
+            )}
+
             {/* Bottom Toolbar */}
             <BottomToolbar
               showGrid={showGrid}
@@ -683,7 +1153,7 @@ export const SimpleBuildingCreator: React.FC = () => {
                 building={buildingTooltip.building}
                 position={buildingTooltip.position}
                 onEdit={handleEditBuilding}
-                onDelete={deleteBuilding}
+                onDelete={handleDeleteBuilding}
                 onClose={hideBuildingTooltip}
               />
             )}
@@ -711,11 +1181,180 @@ export const SimpleBuildingCreator: React.FC = () => {
                 onClose={() => selectBuilding(null)}
                 onSave={handleSaveBuilding}
                 onPreview={handlePreviewBuilding}
+                onEditFootprint={() => {
+                  setTransformIds([]);
+                  setFootprintEditId(selectedBuilding.id);
+                }}
+                onTransform={() => {
+                  setFootprintEditId(null);
+                  setTransformIds([selectedBuilding.id]);
+                }}
+                onCopy={() => duplicateBuilding(selectedBuilding)}
+                onArray={() => setArrayTargetId(selectedBuilding.id)}
+                onAddCourtyard={() => {
+                  setFootprintEditId(null);
+                  setTransformIds([]);
+                  startDrawing(selectedBuilding.id);
+                }}
+                onRemoveCourtyard={(index) => removeCourtyard(selectedBuilding.id, index)}
+                onExtendSelection={extendSelection}
+                onPickFacade={onPick => {
+                  setFootprintEditId(null);
+                  setTransformIds([]);
+                  setFacadePick({ buildingId: selectedBuilding.id, onPick });
+                }}
+                isPickingFacade={facadePick?.buildingId === selectedBuilding.id}
                 enableBuildingFocus={enableBuildingFocus}
                 disableBuildingFocus={disableBuildingFocus}
               />
             )}
 
+            {/* Multi-selection editor */}
+            {selectedBuildings.length > 1 && (
+              <BulkEditPanel
+                key={selectedBuildings.map(b => b.id).join(',')}
+                buildings={selectedBuildings}
+                onClose={() => selectBuilding(null)}
+                onApply={handleBulkApply}
+                onDelete={handleBulkDelete}
+                onTransform={() => {
+                  setTransformIds(selectedBuildings.map(b => b.id));
+                  selectBuilding(null);
+                }}
+                onExtendSelection={extendSelection}
+              />
+            )}
+
+            {/* Ghosted design indicator */}
+            {ghostNode && (
+              <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30 flex items-center space-x-3 px-4 py-2 rounded-full bg-gray-900/90 border border-pink-500/40 text-sm text-gray-200 shadow-lg">
+                <span className="w-3 h-3 rounded-sm bg-pink-500/60 border border-pink-400"></span>
+                <span>Ghosting "{ghostNode.name}"</span>
+                <button
+                  onClick={() => setGhostNodeId(null)}
+                  className="text-gray-400 hover:text-white transition-colors"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+
+            {/* Footprint editing indicator */}
+            {footprintBuilding && (
+              <div className="absolute top-16 left-1/2 -translate-x-1/2 z-30 flex items-center space-x-3 px-4 py-2 rounded-full bg-gray-900/90 border border-blue-500/40 text-sm text-gray-200 shadow-lg">
+                <span>
+                  Editing footprint of "{footprintBuilding.name || footprintBuilding.id}" · {footprintBuilding.area.toFixed(1)} m²
+                </span>
+                <span className="text-xs text-gray-400">Drag midpoints to add, double-click a vertex to remove</span>
+                <button
+                  onClick={() => setFootprintEditId(null)}
+                  className="px-3 py-1 rounded-full bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium transition-colors"
+                >
+                  Done
+                </button>
+              </div>
+            )}
+
+            {/* Move/rotate indicator */}
+            {transformBuildings.length > 0 && (
+              <div className="absolute top-16 left-1/2 -translate-x-1/2 z-30 flex items-center space-x-3 px-4 py-2 rounded-full bg-gray-900/90 border border-blue-500/40 text-sm text-gray-200 shadow-lg">
+                <span>Moving "{describeBuildings(transformBuildings)}"</span>
+                <span className="text-xs text-gray-400">Drag the disc to move, the ring to rotate · Shift snaps to 15°</span>
+                {([
+                  { key: 'dx', label: 'ΔX' },
+                  { key: 'dz', label: 'ΔZ' },
+                  { key: 'rotation', label: '°' }
+                ] as const).map(({ key, label }) => (
+                  <label key={key} className="flex items-center space-x-1 text-xs text-gray-400">
+                    <span>{label}</span>
+                    <input
+                      type="number"
+                      value={typedTransform[key]}
+                      onChange={(e) => setTypedTransform({ ...typedTransform, [key]: Number(e.target.value) })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') applyTypedTransform();
+                      }}
+                      className="w-14 px-1.5 py-0.5 bg-gray-800 border border-gray-600 rounded text-white text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                  </label>
+                ))}
+                <button
+                  onClick={applyTypedTransform}
+                  className="px-3 py-1 rounded-full bg-gray-700 hover:bg-gray-600 text-white text-xs font-medium transition-colors"
+                >
+                  Apply
+                </button>
+                <button
+                  onClick={() => setTransformIds([])}
+                  className="px-3 py-1 rounded-full bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium transition-colors"
+                >
+                  Done
+                </button>
+              </div>
+            )}
+
+            {/* Courtyard drawing indicator */}
+            {(holeTargetId || courtyardWarning) && (
+              <div className={`absolute top-4 left-1/2 -translate-x-1/2 z-30 flex items-center space-x-3 px-4 py-2 rounded-full bg-gray-900/90 border text-sm text-gray-200 shadow-lg ${courtyardWarning ? 'border-red-500/40' : 'border-blue-500/40'}`}>
+                <span>
+                  {courtyardWarning ?? `Drawing courtyard in "${buildings.find(b => b.id === holeTargetId)?.name || holeTargetId}"`}
+                </span>
+                {!courtyardWarning && <span className="text-xs text-gray-400">Close the ring inside the footprint · Esc to cancel</span>}
+              </div>
+            )}
+
+            {/* Footprint validation feedback */}
+            {drawingState.isDrawing && footprintIssues.length > 0 && (
+              <div className="absolute top-28 left-1/2 -translate-x-1/2 z-30 w-96 px-4 py-3 rounded-xl bg-gray-900/95 border border-red-500/40 text-sm text-gray-200 shadow-lg">
+                <div className="font-medium mb-2">
+                  {footprintIssues.some(issue => issue.severity === 'error') ? 'This footprint cannot be built' : 'Check this footprint'}
+                </div>
+                <ul className="space-y-1 mb-3 text-xs">
+                  {footprintIssues.map((issue, index) => (
+                    <li key={index} className="flex items-center space-x-2">
+                      <span className={`w-2 h-2 rounded-full ${issue.severity === 'error' ? 'bg-red-500' : 'bg-yellow-400'}`}></span>
+                      <span>{issue.message}</span>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex justify-end space-x-2">
+                  <button
+                    onClick={dismissFootprintIssues}
+                    className="px-3 py-1 rounded-full bg-gray-700 hover:bg-gray-600 text-white text-xs font-medium transition-colors"
+                  >
+                    Keep Drawing
+                  </button>
+                  {!footprintIssues.some(issue => issue.severity === 'error') && (
+                    <button
+                      onClick={acceptFootprint}
+                      className="px-3 py-1 rounded-full bg-gray-700 hover:bg-gray-600 text-white text-xs font-medium transition-colors"
+                    >
+                      Create Anyway
+                    </button>
+                  )}
+                  {footprintIssues.some(issue => issue.type !== 'overlap') && (
+                    <button
+                      onClick={repairAndFinish}
+                      className="px-3 py-1 rounded-full bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium transition-colors"
+                    >
+                      Repair
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Typed dimension input while drawing */}
+            {drawingState.isDrawing && dimensionInput && (
+              <div className="absolute top-16 left-1/2 -translate-x-1/2 z-30 flex items-center space-x-3 px-4 py-2 rounded-full bg-gray-900/90 border border-green-500/40 text-sm text-gray-200 shadow-lg">
+                <span className="font-mono">
+                  {dimensionInput.split('<')[0] || '0'} m
+                  {dimensionInput.includes('<') && <> &lt; {dimensionInput.split('<')[1] || '…'}°</>}
+                </span>
+                <span className="text-xs text-gray-400">Enter to place · Esc to clear · &lt; for angle (° from east)</span>
+              </div>
+            )}
+
             {/* Mini Graph Window */}
             <MiniGraphWindow onOpenFullGraph={handleOpenDesignGraph} />
           </>
@@ -766,11 +1405,45 @@ export const SimpleBuildingCreator: React.FC = () => {
         onImport={handleImportConfigConfirm}
       />
 
+      {/* Parametric Sweep Dialog */}
+      <ParametricSweepDialog
+        isOpen={showParametricSweepDialog}
+        buildingCount={buildings.length}
+        onClose={() => setShowParametricSweepDialog(false)}
+        onGenerate={handleGenerateSweep}
+      />
+
+      {/* Array Dialog */}
+      <ArrayDialog
+        isOpen={arrayTarget !== null}
+        buildingName={arrayTarget ? arrayTarget.name || arrayTarget.id : ''}
+        pivot={arrayTarget ? getBuildingsPivot([arrayTarget]) : IDENTITY_TRANSFORM.pivot}
+        onClose={() => setArrayTargetId(null)}
+        onCreate={(transforms) => {
+          if (arrayTarget) {
+            addBuildingCopies(arrayTarget, transforms, `Array ${arrayTarget.name || arrayTarget.id} (${transforms.length} copies)`);
+          }
+        }}
+      />
+
+      {/* Optimisation Dialog */}
+      <OptimizationDialog
+        isOpen={showOptimizationDialog}
+        isRunning={optimizer.isRunning}
+        progress={optimizer.progress}
+        currentGrossFloorArea={buildings.reduce((sum, b) => sum + calculateGrossFloorArea(b.points, b.floors, b.holes, b.setbacks), 0)}
+        onClose={() => setShowOptimizationDialog(false)}
+        onStart={(settings) => optimizer.start(buildings, settings)}
+        onStop={optimizer.stop}
+      />
+
       {/* Design Graph Dialog */}
       <DesignGraphDialog
         isOpen={showDesignGraphDialog}
         onClose={() => setShowDesignGraphDialog(false)}
         onReinstateConfiguration={handleReinstateConfiguration}
+        ghostNodeId={ghostNodeId}
+        onGhostNode={setGhostNodeId}
       />
     </div>
   );
@@ -118,7 +118,11 @@ const tourSteps: TourStep[] = [
   }
 ];
 
-export const WeatherAndLocationTab: React.FC = () => {
+interface WeatherAndLocationTabProps {
+  onWeatherDataLoaded?: (data: EPWProcessedData) => void;
+}
+
+export const WeatherAndLocationTab: React.FC<WeatherAndLocationTabProps> = ({ onWeatherDataLoaded }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [selectedLocation, setSelectedLocation] = useState<SwedishCity>({
     city: 'Gothenburg',
@@ -289,6 +293,7 @@ export const WeatherAndLocationTab: React.FC = () => {
       const data = await EPWParser.parseEPWFromRemoteZip(zipUrl, location.epwFileName);
       
       setWeatherData(data);
+      onWeatherDataLoaded?.(data);
       
       // Calculate comfort analysis
       const comfort = EPWParser.calculateComfortAnalysis(data.hourlyData, comfortTemp);
@@ -333,6 +338,7 @@ export const WeatherAndLocationTab: React.FC = () => {
     try {
       const data = await EPWParser.parseEPWFile(file);
       setWeatherData(data);
+      onWeatherDataLoaded?.(data);
       
       // Update selected location with file data
       setSelectedLocation({
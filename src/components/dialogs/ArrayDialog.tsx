@@ -0,0 +1,161 @@
+import React, { useMemo, useState } from 'react';
+import { Grid3x3, X } from 'lucide-react';
+import {
+  BuildingTransform,
+  MAX_ARRAY_COUNT,
+  getLinearArrayTransforms,
+  getPolarArrayTransforms
+} from '../../services/BuildingTransforms';
+
+interface ArrayDialogProps {
+  isOpen: boolean;
+  buildingName: string;
+  pivot: { x: number; z: number }; // Centroid of the building being repeated
+  onClose: () => void;
+  onCreate: (transforms: BuildingTransform[]) => void;
+}
+
+type ArrayMode = 'linear' | 'polar';
+
+const inputClassName = "w-full px-2 py-1.5 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step?: number;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, onChange, step }) => (
+  <div>
+    <label className="block text-xs text-gray-400 mb-1">{label}</label>
+    <input
+      type="number"
+      value={value}
+      step={step}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className={inputClassName}
+    />
+  </div>
+);
+
+export const ArrayDialog: React.FC<ArrayDialogProps> = ({
+  isOpen,
+  buildingName,
+  pivot,
+  onClose,
+  onCreate
+}) => {
+  const [mode, setMode] = useState<ArrayMode>('linear');
+  const [count, setCount] = useState(3);
+  const [spacing, setSpacing] = useState({ dx: 30, dz: 0 });
+  const [angle, setAngle] = useState(360);
+  const [centerOffset, setCenterOffset] = useState({ dx: 40, dz: 0 });
+
+  const transforms = useMemo(() => mode === 'linear'
+    ? getLinearArrayTransforms({ count, ...spacing })
+    : getPolarArrayTransforms({
+      count,
+      angle,
+      center: { x: pivot.x + centerOffset.dx, z: pivot.z + centerOffset.dz }
+    }), [mode, count, spacing, angle, centerOffset, pivot]);
+
+  const tooMany = count > MAX_ARRAY_COUNT;
+  const canCreate = transforms.length > 0 && !tooMany;
+
+  const handleCreate = () => {
+    if (!canCreate) return;
+    onCreate(transforms);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-center justify-center">
+      <div className="bg-gray-900 rounded-2xl border border-gray-700/50 shadow-2xl w-full max-w-md mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700/50">
+          <h2 className="text-lg font-semibold text-white">Array "{buildingName}"</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {(['linear', 'polar'] as ArrayMode[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`px-3 py-1.5 rounded-lg text-sm border transition-colors ${
+                  mode === option
+                    ? 'bg-blue-600 border-blue-500 text-white'
+                    : 'bg-gray-800 border-gray-600 text-gray-300 hover:border-gray-400'
+                }`}
+              >
+                {option === 'linear' ? 'Linear' : 'Polar'}
+              </button>
+            ))}
+          </div>
+
+          <NumberField label="Total buildings (including the original)" value={count} onChange={setCount} step={1} />
+
+          {mode === 'linear' ? (
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField label="Spacing east (m)" value={spacing.dx} onChange={dx => setSpacing({ ...spacing, dx })} />
+              <NumberField label="Spacing south (m)" value={spacing.dz} onChange={dz => setSpacing({ ...spacing, dz })} />
+            </div>
+          ) : (
+            <>
+              <NumberField label="Angle swept (°, clockwise)" value={angle} onChange={setAngle} />
+              <div className="grid grid-cols-2 gap-2">
+                <NumberField
+                  label="Centre east of building (m)"
+                  value={centerOffset.dx}
+                  onChange={dx => setCenterOffset({ ...centerOffset, dx })}
+                />
+                <NumberField
+                  label="Centre south of building (m)"
+                  value={centerOffset.dz}
+                  onChange={dz => setCenterOffset({ ...centerOffset, dz })}
+                />
+              </div>
+              <p className="text-xs text-gray-500">Copies are rotated about the centre, so they keep facing it.</p>
+            </>
+          )}
+
+          <div className={`text-sm ${tooMany ? 'text-red-400' : 'text-gray-400'}`}>
+            {tooMany
+              ? `An array is limited to ${MAX_ARRAY_COUNT} buildings.`
+              : transforms.length === 0
+                ? 'Use at least 2 buildings.'
+                : `${transforms.length} ${transforms.length === 1 ? 'copy' : 'copies'} will be added.`}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end space-x-3 p-6 border-t border-gray-700/50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-300 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={!canCreate}
+            className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            <Grid3x3 className="w-4 h-4" />
+            <span>Create Array</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { Dna, Square, X } from 'lucide-react';
+import { DesignMetrics } from '../../types/designExploration';
+import { designMetrics } from '../../data/designMetrics';
+import { DEFAULT_OPTIMIZATION_SETTINGS, OptimizationSettings } from '../../services/GeneticOptimizer';
+import type { OptimizationProgress } from '../../hooks/useDesignOptimizer';
+
+interface OptimizationDialogProps {
+  isOpen: boolean;
+  isRunning: boolean;
+  progress: OptimizationProgress | null;
+  currentGrossFloorArea: number;
+  onClose: () => void;
+  onStart: (settings: OptimizationSettings) => void;
+  onStop: () => void;
+}
+
+const inputClassName = "w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50";
+
+export const OptimizationDialog: React.FC<OptimizationDialogProps> = ({
+  isOpen,
+  isRunning,
+  progress,
+  currentGrossFloorArea,
+  onClose,
+  onStart,
+  onStop
+}) => {
+  const [objectives, setObjectives] = useState<(keyof DesignMetrics)[]>(DEFAULT_OPTIMIZATION_SETTINGS.objectives);
+  const [minGrossFloorArea, setMinGrossFloorArea] = useState('');
+  const [maxHeight, setMaxHeight] = useState('');
+  const [populationSize, setPopulationSize] = useState(DEFAULT_OPTIMIZATION_SETTINGS.populationSize);
+  const [generations, setGenerations] = useState(DEFAULT_OPTIMIZATION_SETTINGS.generations);
+
+  const toggleObjective = (key: keyof DesignMetrics) => {
+    setObjectives(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  const handleStart = () => {
+    if (objectives.length === 0) return;
+    onStart({
+      ...DEFAULT_OPTIMIZATION_SETTINGS,
+      objectives,
+      constraints: {
+        minGrossFloorArea: Number(minGrossFloorArea) || undefined,
+        maxHeight: Number(maxHeight) || undefined
+      },
+      populationSize: Math.max(4, Math.round(populationSize)),
+      generations: Math.max(1, Math.round(generations))
+    });
+  };
+
+  if (!isOpen) return null;
+
+  const designCount = populationSize * (generations + 1);
+  const percentComplete = progress ? Math.round((progress.generation / progress.totalGenerations) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-center justify-center">
+      <div className="bg-gray-900 rounded-2xl border border-gray-700/50 shadow-2xl w-full max-w-md mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700/50">
+          <h2 className="text-lg font-semibold text-white">Optimise Design</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Objectives</label>
+            <div className="space-y-1">
+              {designMetrics.map(metric => (
+                <label key={metric.key} className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={objectives.includes(metric.key)}
+                    onChange={() => toggleObjective(metric.key)}
+                    disabled={isRunning}
+                    className="rounded border-gray-600 bg-gray-800"
+                  />
+                  <span>{metric.goal === 'minimize' ? 'Minimise' : 'Maximise'} {metric.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Min GFA (m²)</label>
+              <input
+                type="number"
+                value={minGrossFloorArea}
+                onChange={(e) => setMinGrossFloorArea(e.target.value)}
+                placeholder={`${Math.round(currentGrossFloorArea)}`}
+                disabled={isRunning}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Max Height (m)</label>
+              <input
+                type="number"
+                value={maxHeight}
+                onChange={(e) => setMaxHeight(e.target.value)}
+                placeholder="None"
+                disabled={isRunning}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Population</label>
+              <input
+                type="number"
+                value={populationSize}
+                min={4}
+                onChange={(e) => setPopulationSize(Number(e.target.value))}
+                disabled={isRunning}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Generations</label>
+              <input
+                type="number"
+                value={generations}
+                min={1}
+                onChange={(e) => setGenerations(Number(e.target.value))}
+                disabled={isRunning}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          {progress ? (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-gray-400">
+                <span>Generation {progress.generation} of {progress.totalGenerations}</span>
+                <span>{progress.designCount} designs</span>
+              </div>
+              <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-500 transition-all" style={{ width: `${percentComplete}%` }} />
+              </div>
+              {progress.error && <p className="text-sm text-red-400">{progress.error}</p>}
+            </div>
+          ) : (
+            <div className="text-sm text-gray-400">
+              Evolves floors, floor height, WWR, overhangs and constructions of the current buildings.
+              Around {designCount} designs will be added to the design graph.
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end space-x-3 p-6 border-t border-gray-700/50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-300 hover:text-white transition-colors"
+          >
+            Close
+          </button>
+          {isRunning ? (
+            <button
+              onClick={onStop}
+              className="flex items-center space-x-2 bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              <Square className="w-4 h-4" />
+              <span>Stop</span>
+            </button>
+          ) : (
+            <button
+              onClick={handleStart}
+              disabled={objectives.length === 0}
+              className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              <Dna className="w-4 h-4" />
+              <span>Start Optimisation</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,222 @@
+import React, { useMemo, useState } from 'react';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { wallOptions } from '../../data/constructions';
+import {
+  SweepParameters,
+  MAX_SWEEP_VARIANTS,
+  MAX_RANGE_STEPS,
+  MIN_RANGE_STEP,
+  getRangeStep,
+  rangeSteps,
+  countSweepVariants
+} from '../../services/ParametricSweep';
+
+interface ParametricSweepDialogProps {
+  isOpen: boolean;
+  buildingCount: number;
+  onClose: () => void;
+  onGenerate: (parameters: SweepParameters) => void;
+}
+
+interface RangeInputProps {
+  label: string;
+  unit?: string;
+  min: number;
+  max: number;
+  step?: number;
+  stepMessage?: StepMessage;
+  onChange: (range: { min: number; max: number; step?: number }) => void;
+}
+
+interface StepMessage {
+  text: string;
+  isError: boolean;
+}
+
+// Tells the user when a step cannot be used as entered
+const getStepMessage = ({ min, max, step }: { min: number; max: number; step: number }): StepMessage | undefined => {
+  if (!Number.isFinite(step) || step <= 0) return { text: 'Step must be greater than zero.', isError: true };
+  const rangeStep = getRangeStep(min, max, step);
+  if (rangeStep !== null && rangeStep > step) {
+    return { text: `Step widened to ${Math.round(rangeStep * 1000) / 1000}.`, isError: false };
+  }
+  return undefined;
+};
+
+const inputClassName = "w-full px-2 py-1.5 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+const RangeInput: React.FC<RangeInputProps> = ({ label, unit, min, max, step, stepMessage, onChange }) => (
+  <div>
+    <label className="block text-sm font-medium text-gray-300 mb-2">
+      {label}{unit && <span className="text-gray-500 font-normal"> ({unit})</span>}
+    </label>
+    <div className="grid grid-cols-3 gap-2">
+      <input
+        type="number"
+        value={min}
+        onChange={(e) => onChange({ min: Number(e.target.value), max, step })}
+        className={inputClassName}
+        title="Minimum"
+      />
+      <input
+        type="number"
+        value={max}
+        onChange={(e) => onChange({ min, max: Number(e.target.value), step })}
+        className={inputClassName}
+        title="Maximum"
+      />
+      {step !== undefined && (
+        <input
+          type="number"
+          value={step}
+          onChange={(e) => onChange({ min, max, step: Number(e.target.value) })}
+          className={inputClassName}
+          title="Step"
+        />
+      )}
+    </div>
+    {stepMessage && (
+      <p className={`mt-1 text-xs ${stepMessage.isError ? 'text-red-400' : 'text-amber-400'}`}>{stepMessage.text}</p>
+    )}
+  </div>
+);
+
+export const ParametricSweepDialog: React.FC<ParametricSweepDialogProps> = ({
+  isOpen,
+  buildingCount,
+  onClose,
+  onGenerate
+}) => {
+  const [wwrRange, setWwrRange] = useState({ min: 0.2, max: 0.6, step: 0.1 });
+  const [walls, setWalls] = useState<string[]>([]);
+  const [floorRange, setFloorRange] = useState({ min: -2, max: 2 });
+  const [overhangRange, setOverhangRange] = useState({ min: 0, max: 1, step: 0.5 });
+
+  const parameters = useMemo<SweepParameters>(() => ({
+    windowToWallRatios: rangeSteps(wwrRange.min, wwrRange.max, wwrRange.step)
+      .filter(wwr => wwr > 0 && wwr < 1),
+    wallConstructions: walls,
+    floorOffsets: rangeSteps(Math.round(floorRange.min), Math.round(floorRange.max), 1),
+    overhangDepths: rangeSteps(overhangRange.min, overhangRange.max, overhangRange.step)
+      .filter(depth => depth >= 0)
+  }), [wwrRange, walls, floorRange, overhangRange]);
+
+  const wwrStepMessage = getStepMessage(wwrRange);
+  const overhangStepMessage = getStepMessage(overhangRange);
+  const hasStepError = Boolean(wwrStepMessage?.isError || overhangStepMessage?.isError);
+
+  const variantCount = countSweepVariants(parameters);
+  const canGenerate = buildingCount > 0 && !hasStepError && variantCount > 0 && variantCount <= MAX_SWEEP_VARIANTS;
+
+  const toggleWall = (value: string) => {
+    setWalls(prev => prev.includes(value) ? prev.filter(w => w !== value) : [...prev, value]);
+  };
+
+  const handleGenerate = () => {
+    if (!canGenerate) return;
+    onGenerate(parameters);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-center justify-center">
+      <div className="bg-gray-900 rounded-2xl border border-gray-700/50 shadow-2xl w-full max-w-md mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700/50">
+          <h2 className="text-lg font-semibold text-white">Parametric Sweep</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4 max-h-[60vh] overflow-y-auto">
+          <div className="grid grid-cols-3 gap-2 text-xs text-gray-500">
+            <span>Min</span>
+            <span>Max</span>
+            <span>Step</span>
+          </div>
+          <p className="text-xs text-gray-500">Each range is limited to {MAX_RANGE_STEPS} values at least {MIN_RANGE_STEP} apart; smaller steps are widened.</p>
+
+          <RangeInput
+            label="Window-to-Wall Ratio"
+            min={wwrRange.min}
+            max={wwrRange.max}
+            step={wwrRange.step}
+            stepMessage={wwrStepMessage}
+            onChange={(range) => setWwrRange({ ...wwrRange, ...range })}
+          />
+
+          <RangeInput
+            label="Floor Offset"
+            unit="floors"
+            min={floorRange.min}
+            max={floorRange.max}
+            onChange={({ min, max }) => setFloorRange({ min, max })}
+          />
+
+          <RangeInput
+            label="Overhang Depth"
+            unit="m"
+            min={overhangRange.min}
+            max={overhangRange.max}
+            step={overhangRange.step}
+            stepMessage={overhangStepMessage}
+            onChange={(range) => setOverhangRange({ ...overhangRange, ...range })}
+          />
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Wall Construction
+            </label>
+            <div className="space-y-1">
+              {wallOptions.map(option => (
+                <label key={option.value} className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={walls.includes(option.value)}
+                    onChange={() => toggleWall(option.value)}
+                    className="rounded border-gray-600 bg-gray-800"
+                  />
+                  <span>{option.label}</span>
+                </label>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">Leave all unchecked to keep each building's wall.</p>
+          </div>
+
+          <div className={`text-sm ${variantCount > MAX_SWEEP_VARIANTS ? 'text-red-400' : 'text-gray-400'}`}>
+            {buildingCount === 0
+              ? 'Add buildings to the scene before running a sweep.'
+              : variantCount > MAX_SWEEP_VARIANTS
+                ? `${variantCount} variants exceeds the limit of ${MAX_SWEEP_VARIANTS}. Narrow the ranges.`
+                : `${variantCount} variants will be added to the design graph as children of the current design.`}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end space-x-3 p-6 border-t border-gray-700/50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-300 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleGenerate}
+            disabled={!canGenerate}
+            className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+            <span>Generate Variants</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
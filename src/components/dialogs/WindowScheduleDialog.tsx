@@ -0,0 +1,101 @@
+import React from 'react';
+import { Download, X } from 'lucide-react';
+import { WINDOW_SCHEDULE_COLUMNS, WindowScheduleRow, windowScheduleToCsv } from '../../services/WindowSchedule';
+
+interface WindowScheduleDialogProps {
+  isOpen: boolean;
+  buildingName: string;
+  rows: WindowScheduleRow[];
+  onClose: () => void;
+}
+
+export const WindowScheduleDialog: React.FC<WindowScheduleDialogProps> = ({
+  isOpen,
+  buildingName,
+  rows,
+  onClose
+}) => {
+  if (!isOpen) return null;
+
+  const totalWindows = rows.reduce((sum, row) => sum + row.windowCount, 0);
+  const totalGlazedArea = rows.reduce((sum, row) => sum + row.glazedArea, 0);
+
+  const handleExport = () => {
+    // Byte order mark so spreadsheets read the ° and ² signs as UTF-8
+    const dataBlob = new Blob(['\ufeff' + windowScheduleToCsv(rows)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(dataBlob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `window_schedule_${buildingName.replace(/[^\w-]+/g, '_')}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-center justify-center">
+      <div className="bg-gray-900 rounded-2xl border border-gray-700/50 shadow-2xl w-full max-w-4xl mx-4 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700/50">
+          <h2 className="text-lg font-semibold text-white">Window Schedule "{buildingName}"</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors p-2 rounded-lg hover:bg-gray-700/50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-6">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="bg-gray-800/50 text-left">
+                {WINDOW_SCHEDULE_COLUMNS.map(column => (
+                  <th key={column.header} className="px-3 py-2 text-xs font-medium text-gray-400 uppercase tracking-wider whitespace-nowrap">
+                    {column.header}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-800">
+              {rows.map((row, index) => (
+                <tr key={index} className={row.windowCount === 0 ? 'text-gray-500' : 'text-gray-300'}>
+                  {WINDOW_SCHEDULE_COLUMNS.map(column => (
+                    <td key={column.header} className="px-3 py-2 whitespace-nowrap">{column.format(row)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between p-6 border-t border-gray-700/50">
+          <span className="text-sm text-gray-400">
+            {totalWindows} windows, {totalGlazedArea.toFixed(1)} m² glazed
+          </span>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-300 hover:text-white transition-colors"
+            >
+              Close
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={rows.length === 0}
+              className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              <span>Export CSV</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
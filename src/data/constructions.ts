@@ -0,0 +1,65 @@
+interface ConstructionOption {
+  label: string;
+  value: string;
+  uValue: number; // W/m²K
+  gValue?: number; // Solar energy transmittance (glazing only)
+  co2: number; // Embodied carbon, kg CO₂e per m² of element area
+}
+
+interface StructuralOption {
+  label: string;
+  value: string;
+  co2: number; // Embodied carbon, kg CO₂e per m² of gross floor area
+}
+
+// Envelope assemblies offered in the building editor, with thermal performance data
+export const wallOptions: ConstructionOption[] = [
+  { label: "Default Wall – U: 1.6 W/m²K, CO₂: 60 kg/m²", value: "Default Wall", uValue: 1.6, co2: 60 },
+  { label: "Concrete – U: 1.8 W/m²K, CO₂: 80 kg/m²", value: "Concrete", uValue: 1.8, co2: 80 },
+  { label: "Brick – U: 1.2 W/m²K, CO₂: 90 kg/m²", value: "Brick", uValue: 1.2, co2: 90 },
+  { label: "Wood – U: 0.35 W/m²K, CO₂: 45 kg/m²", value: "Wood", uValue: 0.35, co2: 45 },
+  { label: "Steel – U: 2.0 W/m²K, CO₂: 120 kg/m²", value: "Steel", uValue: 2.0, co2: 120 }
+];
+
+export const floorOptions: ConstructionOption[] = [
+  { label: "Default Floor – U: 1.5 W/m²K", value: "Default Floor", uValue: 1.5, co2: 70 },
+  { label: "Concrete Slab – U: 1.8 W/m²K", value: "Concrete Slab", uValue: 1.8, co2: 95 },
+  { label: "Raised Floor – U: 1.2 W/m²K", value: "Raised Floor", uValue: 1.2, co2: 55 }
+];
+
+export const roofOptions: ConstructionOption[] = [
+  { label: "Default Roof – U: 1.4 W/m²K", value: "Default Roof", uValue: 1.4, co2: 65 },
+  { label: "Flat Roof – U: 1.6 W/m²K", value: "Flat Roof", uValue: 1.6, co2: 75 },
+  { label: "Pitched Roof – U: 1.1 W/m²K", value: "Pitched Roof", uValue: 1.1, co2: 50 }
+];
+
+export const windowOptions: ConstructionOption[] = [
+  { label: "Default Window – U: 2.8 W/m²K", value: "Default Window", uValue: 2.8, gValue: 0.75, co2: 35 },
+  { label: "Double Glazed – U: 1.6 W/m²K", value: "Double Glazed", uValue: 1.6, gValue: 0.6, co2: 55 },
+  { label: "Triple Glazed – U: 0.9 W/m²K", value: "Triple Glazed", uValue: 0.9, gValue: 0.5, co2: 80 }
+];
+
+// Load-bearing systems; carbon covers frame, intermediate slabs and foundations
+export const structuralOptions: StructuralOption[] = [
+  { label: "Concrete – High strength, high embodied carbon", value: "Concrete", co2: 150 },
+  { label: "Timber – Sustainable, lower carbon footprint", value: "Timber", co2: 60 },
+  { label: "Masonry – Durable, good thermal mass", value: "Masonry", co2: 110 }
+];
+
+// Building uses and HVAC systems offered in the building editors
+export const programOptions = [
+  'Office', 'Residential', 'Retail', 'School', 'Hospital'
+];
+export const hvacOptions = [
+  'Default HVAC', 'VAV', 'CAV', 'Radiant', 'Split System'
+];
+
+/**
+ * Look up a construction by value, falling back to the first (default) entry
+ * for unknown or missing values such as those in older imported files.
+ */
+export const findConstruction = <T extends { value: string }>(options: T[], value?: string): T => {
+  return options.find(option => option.value === value) ?? options[0];
+};
+
+export type { ConstructionOption, StructuralOption };
@@ -0,0 +1,17 @@
+import { DesignMetrics } from '../types/designExploration';
+
+interface DesignMetricDefinition {
+  key: keyof DesignMetrics;
+  label: string;
+  unit: string;
+  goal: 'minimize' | 'maximize';
+}
+
+// Performance metrics evaluated for every design node, in display order
+export const designMetrics: DesignMetricDefinition[] = [
+  { key: 'heatingDemand', label: 'Heating Demand', unit: 'kWh/m²/year', goal: 'minimize' },
+  { key: 'spatialDaylightAutonomy', label: 'Daylight Autonomy', unit: '%', goal: 'maximize' },
+  { key: 'globalWarmingPotential', label: 'Carbon Impact', unit: 'kg CO₂ eq/m²', goal: 'minimize' }
+];
+
+export type { DesignMetricDefinition };
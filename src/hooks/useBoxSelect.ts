@@ -0,0 +1,89 @@
+import { useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { BuildingData } from '../types/building';
+import { ScreenRect, getBuildingsInScreenRect, getScreenRect } from '../utils/selection';
+
+interface BoxSelectOptions {
+  camera: THREE.Camera | null;
+  containerRef: React.RefObject<HTMLElement>;
+  enabled: boolean;
+  buildings: BuildingData[];
+  onSelect: (buildings: BuildingData[], additive: boolean) => void; // Shift adds to the current selection
+}
+
+/**
+ * Rubber-band selection: while enabled, dragging on the canvas selects every
+ * building whose centre ends up inside the box. Returns the box being dragged,
+ * relative to the container, for drawing the overlay.
+ */
+export const useBoxSelect = ({ camera, containerRef, enabled, buildings, onSelect }: BoxSelectOptions) => {
+  const [selectionRect, setSelectionRect] = useState<ScreenRect | null>(null);
+  const buildingsRef = useRef(buildings);
+  buildingsRef.current = buildings;
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !camera || !container) return;
+
+    let start: { x: number; y: number } | null = null;
+
+    const toContainer = (event: PointerEvent) => {
+      const rect = container.getBoundingClientRect();
+      return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+    };
+
+    const project = (point: { x: number; y: number; z: number }) => {
+      const projected = new THREE.Vector3(point.x, point.y, point.z).project(camera);
+      if (projected.z > 1) return null;
+      return {
+        x: ((projected.x + 1) / 2) * container.clientWidth,
+        y: ((1 - projected.y) / 2) * container.clientHeight
+      };
+    };
+
+    // Capture phase so the orbit controls never see a selection drag
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.button !== 0) return;
+      event.stopPropagation();
+      event.preventDefault();
+
+      start = toContainer(event);
+      setSelectionRect(getScreenRect(start, start));
+      window.addEventListener('pointermove', handlePointerMove);
+      window.addEventListener('pointerup', handlePointerUp);
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (!start) return;
+      setSelectionRect(getScreenRect(start, toContainer(event)));
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      if (start) {
+        const rect = getScreenRect(start, toContainer(event));
+        onSelectRef.current(getBuildingsInScreenRect(buildingsRef.current, rect, project), event.shiftKey);
+      }
+      stopDragging();
+    };
+
+    const stopDragging = () => {
+      start = null;
+      setSelectionRect(null);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+
+    container.style.cursor = 'crosshair';
+    container.addEventListener('pointerdown', handlePointerDown, { capture: true });
+
+    return () => {
+      stopDragging();
+      container.style.cursor = '';
+      container.removeEventListener('pointerdown', handlePointerDown, { capture: true });
+    };
+  }, [camera, containerRef, enabled]);
+
+  return selectionRect;
+};
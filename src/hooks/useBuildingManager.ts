@@ -3,10 +3,23 @@ import * as THREE from 'three';
 import { Line2 } from 'three/examples/jsm/lines/Line2.js';
 import { LineMaterial } from 'three/examples/jsm/lines/LineMaterial.js';
 import { LineGeometry } from 'three/examples/jsm/lines/LineGeometry.js';
-import { Point3D, BuildingData, BuildingConfig, BuildingTooltipData } from '../types/building';
-import { createShapeFromPoints, calculateCentroid, ensureCounterClockwise } from '../utils/geometry';
+import { Point3D, BuildingData, BuildingConfig, BuildingTooltipData, BuildingSnapshot, FloorSetback } from '../types/building';
+import {
+  calculateCentroid,
+  calculateFootprintArea,
+  ensureClockwise,
+  ensureCounterClockwise,
+  calculateGrossFloorArea,
+  getFootprintRings,
+  getMassingTiers
+} from '../utils/geometry';
+import { createTieredMassingGeometry, getRoofOptions, DEFAULT_ROOF_PITCH } from '../utils/roofGeometry';
 import { getThemeColorAsHex } from '../utils/themeColors';
 import { WindowService } from '../services/WindowService';
+import { getAchievedWindowToWallRatio, getEffectiveWindowToWallRatio } from '../services/FacadeGlazing';
+import { getBalconyArea, getBalconyPlacements } from '../services/Balconies';
+import { FootprintVertexEdit, remapEdgeSettings } from '../services/FootprintEdges';
+import { BuildingService } from '../services/BuildingService';
 import { logger } from '../utils/logger';
 
 interface BuildingStats {
@@ -21,7 +34,9 @@ export const useBuildingManager = (
   windowService: WindowService | null = null
 ) => {
   const [buildings, setBuildings] = useState<BuildingData[]>([]);
-  const [selectedBuilding, setSelectedBuilding] = useState<BuildingData | null>(null);
+  const [selectedBuildings, setSelectedBuildings] = useState<BuildingData[]>([]);
+  // The single-building editor only opens for a selection of one
+  const selectedBuilding = selectedBuildings.length === 1 ? selectedBuildings[0] : null;
   const [hoveredBuilding, setHoveredBuilding] = useState<BuildingData | null>(null);
   const [buildingTooltip, setBuildingTooltip] = useState<BuildingTooltipData | null>(null);
   const buildingIdCounter = useRef(0);
@@ -52,7 +67,7 @@ export const useBuildingManager = (
     return () => window.removeEventListener('resize', handleResize);
   }, [scene]);
 
-  const createFootprintOutline = (points: Point3D[], scene: THREE.Scene): THREE.Mesh => {
+  const createFootprintOutline = (points: Point3D[], scene: THREE.Scene, holes: Point3D[][] = []): THREE.Mesh => {
     // Create a thin plane geometry that follows the building footprint
     const shape = new THREE.Shape();
     
@@ -66,6 +81,14 @@ export const useBuildingManager = (
       shape.lineTo(points[0].x, -points[0].z); // Close the shape
     }
 
+    holes.filter(hole => hole.length >= 3).forEach(hole => {
+      const path = new THREE.Path();
+      path.moveTo(hole[0].x, -hole[0].z);
+      hole.slice(1).forEach(point => path.lineTo(point.x, -point.z));
+      path.closePath();
+      shape.holes.push(path);
+    });
+
     const geometry = new THREE.ShapeGeometry(shape);    const material = new THREE.MeshBasicMaterial({ 
       color: getThemeColorAsHex('--color-building-footprint', 0x00ffaa),
       transparent: true,
@@ -84,91 +107,110 @@ export const useBuildingManager = (
     return footprint;
   };
 
-  const createFloorLines = (points: Point3D[], floors: number, floorHeight: number, scene: THREE.Scene, buildingId: string): THREE.Group => {
+  const createFloorLines = (points: Point3D[], floors: number, floorHeight: number, scene: THREE.Scene, buildingId: string, holes: Point3D[][] = [], setbacks: FloorSetback[] = []): THREE.Group => {
     const floorGroup = new THREE.Group();
     floorGroup.userData = { buildingId, isFloorLines: true };    // Create lines for each floor level (starting from floor 1, not ground level)
-    for (let floor = 1; floor < floors; floor++) {
-      const yPosition = floor * floorHeight; // Floor lines at exact floor height
-        // Create line geometry from building footprint points with slight inset to avoid z-fighting with facades
-      const linePoints: THREE.Vector3[] = [];
-      const insetDistance = -0.05; // Small inset to move lines away from building walls
+    // Lines follow each tier's floor plate; the steps between tiers already show as edges
+    getMassingTiers(points, floors, holes, setbacks).forEach(tier => {
+      for (let floor = tier.fromFloor + 1; floor < tier.fromFloor + tier.floors; floor++) {
+        const yPosition = floor * floorHeight; // Floor lines at exact floor height
+        getFootprintRings(tier.points, tier.holes).forEach((ring, ringIndex) => {
+          // Create line geometry from building footprint ring with slight inset to avoid z-fighting with facades
+          const linePoints: THREE.Vector3[] = [];
+          // Small inset to move lines away from building walls; courtyard rings sit on the other side
+          const insetDistance = ringIndex === 0 ? -0.05 : 0.05;
       
-      // Calculate centroid to determine inset direction
-      const centroid = { x: 0, z: 0 };
-      points.forEach(point => {
-        centroid.x += point.x;
-        centroid.z += point.z;
-      });
-      centroid.x /= points.length;
-      centroid.z /= points.length;
+          // Calculate centroid to determine inset direction
+          const centroid = { x: 0, z: 0 };
+          ring.forEach(point => {
+            centroid.x += point.x;
+            centroid.z += point.z;
+          });
+          centroid.x /= ring.length;
+          centroid.z /= ring.length;
       
-      points.forEach(point => {
-        // Calculate direction from point to centroid (inward direction)
-        const dirX = centroid.x - point.x;
-        const dirZ = centroid.z - point.z;
-        const length = Math.sqrt(dirX * dirX + dirZ * dirZ);
+          ring.forEach(point => {
+            // Calculate direction from point to centroid (inward direction)
+            const dirX = centroid.x - point.x;
+            const dirZ = centroid.z - point.z;
+            const length = Math.sqrt(dirX * dirX + dirZ * dirZ);
         
-        // Normalize and apply inset
-        const normalizedX = length > 0 ? dirX / length : 0;
-        const normalizedZ = length > 0 ? dirZ / length : 0;
+            // Normalize and apply inset
+            const normalizedX = length > 0 ? dirX / length : 0;
+            const normalizedZ = length > 0 ? dirZ / length : 0;
         
-        const insetX = point.x + normalizedX * insetDistance;
-        const insetZ = point.z + normalizedZ * insetDistance;
+            const insetX = point.x + normalizedX * insetDistance;
+            const insetZ = point.z + normalizedZ * insetDistance;
         
-        linePoints.push(new THREE.Vector3(insetX, yPosition, insetZ));
-      });
-      // Close the line by adding the first point again (with same inset calculation)
-      const firstPoint = points[0];
-      const dirX = centroid.x - firstPoint.x;
-      const dirZ = centroid.z - firstPoint.z;
-      const length = Math.sqrt(dirX * dirX + dirZ * dirZ);
-      const normalizedX = length > 0 ? dirX / length : 0;
-      const normalizedZ = length > 0 ? dirZ / length : 0;
-      const insetX = firstPoint.x + normalizedX * insetDistance;
-      const insetZ = firstPoint.z + normalizedZ * insetDistance;      linePoints.push(new THREE.Vector3(insetX, yPosition, insetZ));
-
-      // Create thick line using Line2 for guaranteed width support
-      const lineGeometry = new LineGeometry();
-      const positions: number[] = [];
+            linePoints.push(new THREE.Vector3(insetX, yPosition, insetZ));
+          });
+          // Close the line by adding the first point again (with same inset calculation)
+          const firstPoint = ring[0];
+          const dirX = centroid.x - firstPoint.x;
+          const dirZ = centroid.z - firstPoint.z;
+          const length = Math.sqrt(dirX * dirX + dirZ * dirZ);
+          const normalizedX = length > 0 ? dirX / length : 0;
+          const normalizedZ = length > 0 ? dirZ / length : 0;
+          const insetX = firstPoint.x + normalizedX * insetDistance;
+          const insetZ = firstPoint.z + normalizedZ * insetDistance;      linePoints.push(new THREE.Vector3(insetX, yPosition, insetZ));
+
+          // Create thick line using Line2 for guaranteed width support
+          const lineGeometry = new LineGeometry();
+          const positions: number[] = [];
       
-      // Convert Vector3 points to flat array of numbers
-      linePoints.forEach(point => {
-        positions.push(point.x, point.y, point.z);
-      });
+          // Convert Vector3 points to flat array of numbers
+          linePoints.forEach(point => {
+            positions.push(point.x, point.y, point.z);
+          });
       
-      lineGeometry.setPositions(positions);
+          lineGeometry.setPositions(positions);
       
-      const lineMaterial = new LineMaterial({
-        color: getThemeColorAsHex('--color-floor-lines', 0x888888),
-        linewidth: 2, // This works reliably with Line2
-        transparent: true,
-        opacity: 0.9,
-        depthWrite: true,
-        depthTest: true
-      });
+          const lineMaterial = new LineMaterial({
+            color: getThemeColorAsHex('--color-floor-lines', 0x888888),
+            linewidth: 2, // This works reliably with Line2
+            transparent: true,
+            opacity: 0.9,
+            depthWrite: true,
+            depthTest: true
+          });
       
-      // Set resolution for the material (required for Line2)
-      lineMaterial.resolution.set(window.innerWidth, window.innerHeight);
+          // Set resolution for the material (required for Line2)
+          lineMaterial.resolution.set(window.innerWidth, window.innerHeight);
 
-      const floorLine = new Line2(lineGeometry, lineMaterial);
-      floorLine.userData = { buildingId, isFloorLine: true, floor };
-      floorGroup.add(floorLine);
-    }
+          const floorLine = new Line2(lineGeometry, lineMaterial);
+          floorLine.userData = { buildingId, isFloorLine: true, floor, ring: ringIndex };
+          floorGroup.add(floorLine);
+        });
+      }
+    });
 
     scene.add(floorGroup);
     return floorGroup;
   };
-  const addBuilding = useCallback((mesh: THREE.Mesh, points: Point3D[], floors: number, floorHeight: number) => {
+  const addBuilding = useCallback((
+    mesh: THREE.Mesh,
+    points: Point3D[],
+    floors: number,
+    floorHeight: number,
+    properties: Partial<BuildingSnapshot> = {} // Saved form, construction and program properties
+  ) => {
     if (!scene) return;
 
     // Ensure points are in anti-clockwise order for consistent storage
     const normalizedPoints = ensureCounterClockwise(points);
+    const holes = (properties.holes ?? []).map(ensureClockwise);
     
-    const area = calculatePolygonArea(normalizedPoints);
+    const area = calculateFootprintArea(normalizedPoints, holes);
     
     // Use existing building ID if it exists, otherwise create a new one
     const existingBuildingId = mesh.userData?.buildingId;
     const buildingId = existingBuildingId || `building_${++buildingIdCounter.current}`;
+
+    // Keep generated IDs unique when restoring buildings with existing IDs
+    const idMatch = /^building_(\d+)$/.exec(buildingId);
+    if (idMatch) {
+      buildingIdCounter.current = Math.max(buildingIdCounter.current, Number(idMatch[1]));
+    }
     
     // CRITICAL: Ensure proper userData configuration for raycasting
     mesh.userData = { 
@@ -197,13 +239,15 @@ export const useBuildingManager = (
     }
 
     const building: BuildingData = {
+      ...properties,
       id: buildingId,
       mesh,
       points: normalizedPoints,
+      holes: holes.length > 0 ? holes : undefined,
       area,
       floors,
       floorHeight,
-      createdAt: new Date(),
+      createdAt: properties.createdAt ? new Date(properties.createdAt) : new Date(),
       name: mesh.userData?.name || `Building ${buildingIdCounter.current}`, // Use existing name if available
       description: mesh.userData?.description || '',
       color: (mesh.material as THREE.MeshLambertMaterial).color.getHex(),
@@ -212,7 +256,7 @@ export const useBuildingManager = (
     };
 
     // Create footprint outline for selection with proper userData
-    building.footprintOutline = createFootprintOutline(normalizedPoints, scene);
+    building.footprintOutline = createFootprintOutline(normalizedPoints, scene, holes);
     building.footprintOutline.userData = { 
       buildingId, 
       isFootprint: true, 
@@ -227,7 +271,7 @@ export const useBuildingManager = (
 
     // Create floor lines if building has more than 1 floor
     if (floors > 1) {
-      building.floorLines = createFloorLines(points, floors, floorHeight, scene, buildingId);
+      building.floorLines = createFloorLines(normalizedPoints, floors, floorHeight, scene, buildingId, holes, properties.setbacks);
     }    // Add windows to the building using WindowService (only if not already added)
     if (windowService && !windowService.getBuildingWindowCount(buildingId)) {
       windowService.addBuildingWindows(building, getWindowConfig(building));
@@ -293,8 +337,18 @@ export const useBuildingManager = (
         // Update geometry if height changed
         const newHeight = config.floors * config.floorHeight;
         const currentHeight = building.floors * building.floorHeight;
+
+        // Roof fields travel together; a config without a roof type keeps the current roof
+        const roof = config.roof_type !== undefined
+          ? { roof_type: config.roof_type, roof_pitch: config.roof_pitch, roof_ridge_direction: config.roof_ridge_direction }
+          : { roof_type: building.roof_type, roof_pitch: building.roof_pitch, roof_ridge_direction: building.roof_ridge_direction };
+        const roofChanged = roof.roof_type !== building.roof_type ||
+          roof.roof_pitch !== building.roof_pitch ||
+          roof.roof_ridge_direction !== building.roof_ridge_direction;
+        const setbacks = config.setbacks ?? building.setbacks;
+        const setbacksChanged = JSON.stringify(setbacks ?? []) !== JSON.stringify(building.setbacks ?? []);
         
-        if (newHeight !== currentHeight || config.floors !== building.floors || config.floorHeight !== building.floorHeight) {
+        if (newHeight !== currentHeight || config.floors !== building.floors || config.floorHeight !== building.floorHeight || roofChanged || setbacksChanged) {
           // Remove old mesh
           scene.remove(building.mesh);
           building.mesh.geometry.dispose();
@@ -308,18 +362,10 @@ export const useBuildingManager = (
             });
           }
           
-          // Create new geometry with updated height
+          // Create new geometry with updated height and roof
           const centroid = calculateCentroid(building.points);
-          const shape = createShapeFromPoints(building.points, centroid);
-          
-          const extrudeSettings = {
-            depth: newHeight,
-            bevelEnabled: false,
-            steps: 1
-          };
-
-          const geometry = new THREE.ExtrudeGeometry(shape, extrudeSettings);
-          geometry.rotateX(-Math.PI / 2);
+          const tiers = getMassingTiers(building.points, config.floors, building.holes, setbacks);
+          const geometry = createTieredMassingGeometry(tiers, centroid, config.floorHeight, getRoofOptions(roof));
           
           // Update mesh
           building.mesh.geometry = geometry;
@@ -334,7 +380,7 @@ export const useBuildingManager = (
 
           // Create new floor lines if building has more than 1 floor
           if (config.floors > 1) {
-            updatedBuilding.floorLines = createFloorLines(building.points, config.floors, config.floorHeight, scene, building.id);
+            updatedBuilding.floorLines = createFloorLines(building.points, config.floors, config.floorHeight, scene, building.id, building.holes, setbacks);
           } else {
             updatedBuilding.floorLines = null;
           }
@@ -346,6 +392,10 @@ export const useBuildingManager = (
         updatedBuilding.color = config.color;
         updatedBuilding.name = config.name || updatedBuilding.name;
         updatedBuilding.description = config.description || updatedBuilding.description;
+        updatedBuilding.roof_type = roof.roof_type;
+        updatedBuilding.roof_pitch = roof.roof_pitch;
+        updatedBuilding.roof_ridge_direction = roof.roof_ridge_direction;
+        updatedBuilding.setbacks = setbacks;
         
         // Update window properties from config
         if (config.window_to_wall_ratio !== undefined) {
@@ -355,6 +405,22 @@ export const useBuildingManager = (
             wwrPercent: (config.window_to_wall_ratio * 100).toFixed(1) 
           }, 'BuildingManager');
         }
+        if (config.window_to_wall_overrides !== undefined) {
+          updatedBuilding.window_to_wall_overrides = config.window_to_wall_overrides;
+        }
+        // Both may be cleared, so an explicitly passed undefined counts
+        if ('window_layout' in config) {
+          updatedBuilding.window_layout = config.window_layout;
+        }
+        if ('ground_floor_glazing' in config) {
+          updatedBuilding.ground_floor_glazing = config.ground_floor_glazing;
+        }
+        if (config.shading_devices !== undefined) {
+          updatedBuilding.shading_devices = config.shading_devices;
+        }
+        if ('balconies' in config) {
+          updatedBuilding.balconies = config.balconies;
+        }
         if (config.window_overhang !== undefined) {
           updatedBuilding.window_overhang = config.window_overhang;
         }
@@ -390,39 +456,131 @@ export const useBuildingManager = (
       return { ...building, ...updates };
     });
 
-    // Update selected building if it's the one being updated
-    if (selectedBuilding?.id === id) {
-      setSelectedBuilding(prev => prev ? { ...prev, ...updates } : null);
+    // Update the selection if it includes the building being updated
+    setSelectedBuildings(prev => prev.some(b => b.id === id)
+      ? prev.map(b => b.id === id ? { ...b, ...updates } : b)
+      : prev);
+  }, [scene, windowService]);
+
+  // Apply an edited footprint: re-extrude the mesh and rebuild the outline, floor lines and windows.
+  // Courtyards are kept unless a new set of holes is given; a rotated building also brings its ridge direction.
+  // An added or removed vertex carries the settings keyed by outer edge over to the same walls.
+  const updateBuildingFootprint = useCallback((
+    id: string,
+    points: Point3D[],
+    holes?: Point3D[][],
+    properties: Pick<BuildingSnapshot, 'roof_ridge_direction'> = {},
+    vertexEdit?: FootprintVertexEdit
+  ) => {
+    if (!scene || points.length < 3) return;
+
+    const current = buildingsRef.current.find(b => b.id === id);
+    if (!current) return;
+    const building = {
+      ...current,
+      ...properties,
+      ...(vertexEdit && remapEdgeSettings(current, vertexEdit, current.points.length))
+    };
+
+    const normalizedPoints = ensureCounterClockwise(points);
+    const normalizedHoles = (holes ?? building.holes ?? []).map(ensureClockwise);
+    new BuildingService(scene).updateBuildingGeometry(building.mesh, normalizedPoints, {
+      floors: building.floors,
+      floorHeight: building.floorHeight,
+      holes: normalizedHoles,
+      color: building.color ?? (building.mesh.material as THREE.MeshLambertMaterial).color.getHex(),
+      roof_type: building.roof_type,
+      roof_pitch: building.roof_pitch,
+      roof_ridge_direction: building.roof_ridge_direction,
+      setbacks: building.setbacks
+    });
+
+    if (building.footprintOutline) {
+      scene.remove(building.footprintOutline);
+      building.footprintOutline.geometry.dispose();
+      (building.footprintOutline.material as THREE.Material).dispose();
     }
-  }, [scene, selectedBuilding, windowService]);
+    const footprintOutline = createFootprintOutline(normalizedPoints, scene, normalizedHoles);
+    footprintOutline.userData = { buildingId: id, isFootprint: true, interactive: true, parentBuildingId: id };
+
+    if (building.floorLines) {
+      scene.remove(building.floorLines);
+      building.floorLines.children.forEach(child => {
+        const line = child as Line2;
+        line.geometry.dispose();
+        (line.material as THREE.Material).dispose();
+      });
+    }
+    const floorLines = building.floors > 1
+      ? createFloorLines(normalizedPoints, building.floors, building.floorHeight, scene, id, normalizedHoles, building.setbacks)
+      : null;
 
-  const selectBuilding = useCallback((building: BuildingData | null) => {
-    // Reset previous selection
-    if (selectedBuilding) {
-      const material = selectedBuilding.mesh.material as THREE.MeshLambertMaterial;      // Restore original color and remove selection effects
+    const updatedBuilding: BuildingData = {
+      ...building,
+      points: normalizedPoints,
+      holes: normalizedHoles.length > 0 ? normalizedHoles : undefined,
+      area: calculateFootprintArea(normalizedPoints, normalizedHoles),
+      footprintOutline,
+      floorLines
+    };
+
+    if (windowService) {
+      windowService.updateBuildingWindowsEfficient(updatedBuilding, getWindowConfig(updatedBuilding));
+    }
+
+    buildingsRef.current = buildingsRef.current.map(b => b.id === id ? updatedBuilding : b);
+    setBuildings(buildingsRef.current);
+    setSelectedBuildings(prev => prev.some(b => b.id === id)
+      ? prev.map(b => b.id === id ? updatedBuilding : b)
+      : prev);
+  }, [scene, windowService]);
+
+  // Replace the selection, highlighting newly selected buildings and restoring the rest
+  const selectBuildings = useCallback((next: BuildingData[]) => {
+    const selectable = next.filter(b => !b.mesh.userData.isPreview && !b.mesh.userData.isDrawingElement);
+    const nextIds = new Set(selectable.map(b => b.id));
+
+    selectedBuildings.forEach(building => {
+      if (nextIds.has(building.id)) return;
+      const material = building.mesh.material as THREE.MeshLambertMaterial;      // Restore original color and remove selection effects
       material.emissive.setHex(getThemeColorAsHex('--color-building-emissive', 0x000000));
-      if (typeof selectedBuilding.color === 'number') {
-        material.color.setHex(selectedBuilding.color);
+      if (typeof building.color === 'number') {
+        material.color.setHex(building.color);
       }
       material.transparent = false;
       material.opacity = 1.0;
-    }
+    });
 
-    // Apply selection to new building (but only if it's not a preview)
-    if (building && !building.mesh.userData.isPreview && !building.mesh.userData.isDrawingElement) {
+    selectable.forEach(building => {
       const material = building.mesh.material as THREE.MeshLambertMaterial;      // Set selection color (orange with transparency)
       material.color.setHex(getThemeColorAsHex('--color-building-highlight', 0xffa500)); // Use CSS variable
       material.transparent = true;
       material.opacity = 0.6; // More visible than before
       material.emissive.setHex(getThemeColorAsHex('--color-building-highlight-emissive', 0x332200)); // Use CSS variable
-    }
+    });
+
+    setSelectedBuildings(selectable);
+  }, [selectedBuildings]);
 
-    setSelectedBuilding(building);
-  }, [selectedBuilding]);
+  const selectBuilding = useCallback((building: BuildingData | null) => {
+    selectBuildings(building ? [building] : []);
+  }, [selectBuildings]);
+
+  // Shift-click adds a building to the selection or takes it out again
+  const toggleBuildingSelection = useCallback((building: BuildingData) => {
+    selectBuildings(selectedBuildings.some(b => b.id === building.id)
+      ? selectedBuildings.filter(b => b.id !== building.id)
+      : [...selectedBuildings, building]);
+  }, [selectedBuildings, selectBuildings]);
+
+  const isSelected = useCallback(
+    (building: BuildingData) => selectedBuildings.some(b => b.id === building.id),
+    [selectedBuildings]
+  );
 
   const hoverBuilding = useCallback((building: BuildingData | null) => {
     // Reset previous hover (only if not selected)
-    if (hoveredBuilding && hoveredBuilding !== selectedBuilding) {
+    if (hoveredBuilding && !isSelected(hoveredBuilding)) {
       const material = hoveredBuilding.mesh.material as THREE.MeshLambertMaterial;
       material.emissive.setHex(getThemeColorAsHex('--color-building-emissive', 0x000000));
       // Restore original color properly
@@ -434,14 +592,14 @@ export const useBuildingManager = (
     }
 
     // Apply hover to new building (only if not selected)
-    if (building && building !== selectedBuilding && !building.mesh.userData.isPreview) {
+    if (building && !isSelected(building) && !building.mesh.userData.isPreview) {
       const material = building.mesh.material as THREE.MeshLambertMaterial;
       material.emissive.setHex(getThemeColorAsHex('--color-building-hover-emissive', 0x444444)); // Use CSS variable
       logger.debug('Hovering building', { buildingId: building.id, buildingName: building.name }, 'BuildingManager');
     }
 
     setHoveredBuilding(building);
-  }, [hoveredBuilding, selectedBuilding]);
+  }, [hoveredBuilding, isSelected]);
 
   const showBuildingTooltip = useCallback((building: BuildingData, screenPosition: { x: number; y: number }) => {
     setBuildingTooltip({
@@ -635,13 +793,11 @@ export const useBuildingManager = (
     // Update refs
     buildingsRef.current = buildingsRef.current.filter(b => b.id !== id);
 
-    if (selectedBuilding?.id === id) {
-      setSelectedBuilding(null);
-    }
+    setSelectedBuildings(prev => prev.filter(b => b.id !== id));
     if (hoveredBuilding?.id === id) {
       setHoveredBuilding(null);
     }
-  }, [scene, selectedBuilding, hoveredBuilding, buildingTooltip]);  const clearAllBuildings = useCallback(() => {
+  }, [scene, hoveredBuilding, buildingTooltip]);  const clearAllBuildings = useCallback(() => {
     if (!scene) return;
 
     // Clear all windows at once - more efficient than removing per building
@@ -709,10 +865,12 @@ export const useBuildingManager = (
       }
     });
 
-    // Clear both ref and state    buildingsRef.current = [];
+    // Clear both ref and state
+    buildingsRef.current = [];
     setBuildings([]);
-    setSelectedBuilding(null);
+    setSelectedBuildings([]);
     setHoveredBuilding(null);
+    setBuildingTooltip(null);
   }, [scene, windowService]);
 
   const exportBuildings = useCallback(() => {
@@ -724,6 +882,7 @@ export const useBuildingManager = (
         name: building.name,
         description: building.description,
         points: building.points,
+        holes: building.holes ?? [],
         area: building.area,
         floors: building.floors,
         floorHeight: building.floorHeight,
@@ -733,8 +892,22 @@ export const useBuildingManager = (
         
         // Form properties
         window_to_wall_ratio: building.window_to_wall_ratio || 0.4,
+        window_to_wall_overrides: building.window_to_wall_overrides ?? {},
+        effective_window_to_wall_ratio: getEffectiveWindowToWallRatio(building),
+        achieved_window_to_wall_ratio: getAchievedWindowToWallRatio(building),
+        window_layout: building.window_layout ?? {},
+        ground_floor_glazing: building.ground_floor_glazing ?? null,
+        shading_devices: building.shading_devices ?? {},
+        balconies: building.balconies ?? null,
+        balcony_count: getBalconyPlacements(building).length,
+        balcony_area: getBalconyArea(building),
         window_overhang: building.window_overhang || false,
         window_overhang_depth: building.window_overhang_depth || 0.0,
+        roof_type: building.roof_type || 'flat',
+        roof_pitch: building.roof_pitch ?? DEFAULT_ROOF_PITCH,
+        roof_ridge_direction: building.roof_ridge_direction,
+        setbacks: building.setbacks ?? [],
+        grossFloorArea: calculateGrossFloorArea(building.points, building.floors, building.holes, building.setbacks),
         
         // Construction properties
         wall_construction: building.wall_construction || 'Default Wall',
@@ -911,11 +1084,15 @@ export const useBuildingManager = (
   return {
     buildings,
     selectedBuilding,
+    selectedBuildings,
     hoveredBuilding,
     buildingTooltip,
     addBuilding,
     updateBuilding,
+    updateBuildingFootprint,
     selectBuilding,
+    selectBuildings,
+    toggleBuildingSelection,
     hoverBuilding,
     deleteBuilding,
     clearAllBuildings,
@@ -927,16 +1104,3 @@ export const useBuildingManager = (
   };
 };
 
-// Helper function to calculate polygon area using shoelace formula
-const calculatePolygonArea = (points: Point3D[]): number => {
-  if (points.length < 3) return 0;
-
-  let area = 0;
-  for (let i = 0; i < points.length; i++) {
-    const j = (i + 1) % points.length;
-    area += points[i].x * points[j].z;
-    area -= points[j].x * points[i].z;
-  }
-  
-  return Math.abs(area) / 2;
-};
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BuildingData, createBuildingSnapshot } from '../types/building';
+import { OptimizationSettings } from '../services/GeneticOptimizer';
+import { designExplorationService } from '../services/DesignExplorationService';
+import type { OptimizationWorkerRequest, OptimizationWorkerResponse } from '../workers/optimizationWorker';
+
+export interface OptimizationProgress {
+  generation: number;
+  totalGenerations: number;
+  designCount: number;
+  error?: string;
+}
+
+/**
+ * Runs the genetic optimiser in a web worker and records every generation in
+ * the design graph, each individual as a child of the design it was bred from.
+ */
+export const useDesignOptimizer = () => {
+  const workerRef = useRef<Worker | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<OptimizationProgress | null>(null);
+
+  const stop = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setIsRunning(false);
+  }, []);
+
+  const start = useCallback((buildings: BuildingData[], settings: OptimizationSettings) => {
+    if (workerRef.current || buildings.length === 0) return;
+
+    const worker = new Worker(new URL('../workers/optimizationWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+
+    // Maps optimiser individuals to the design nodes that record them
+    const nodeIds = new Map<string, string>();
+    const rootNodeId = designExplorationService.getCurrentNode()?.id;
+    let designCount = 0;
+
+    setIsRunning(true);
+    setProgress({ generation: 0, totalGenerations: settings.generations, designCount });
+
+    const fail = (message: string) => {
+      console.error('Optimisation failed:', message);
+      setProgress(prev => prev && { ...prev, error: message });
+      stop();
+    };
+
+    worker.onmessage = (event: MessageEvent<OptimizationWorkerResponse>) => {
+      const response = event.data;
+
+      if (response.type === 'generation') {
+        designExplorationService.runBatch(() => {
+          response.offspring.forEach((individual, i) => {
+            const node = designExplorationService.saveConfiguration(
+              individual.buildings,
+              `Gen ${response.index} · #${i + 1}`,
+              {
+                parentId: (individual.parentId && nodeIds.get(individual.parentId)) || rootNodeId,
+                makeCurrent: false,
+                metrics: individual.metrics
+              }
+            );
+            nodeIds.set(individual.id, node.id);
+          });
+        });
+        designCount += response.offspring.length;
+        setProgress({ generation: response.index, totalGenerations: settings.generations, designCount });
+      } else if (response.type === 'error') {
+        fail(response.message);
+      } else {
+        stop();
+      }
+    };
+
+    // Failures outside the worker's own error reporting: loading it, top-level throws, unreadable messages
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      fail(event.message || 'The optimisation worker stopped unexpectedly');
+    };
+    worker.onmessageerror = () => fail('A message from the optimisation worker could not be read');
+
+    const weatherData = designExplorationService.getWeatherData();
+    const request: OptimizationWorkerRequest = {
+      buildings: buildings.map(createBuildingSnapshot),
+      settings,
+      weatherData: weatherData && { header: weatherData.header, hourlyData: weatherData.hourlyData }
+    };
+    try {
+      worker.postMessage(request);
+    } catch (error) {
+      fail(error instanceof Error ? error.message : String(error));
+    }
+  }, [stop]);
+
+  // Don't leave a worker running after the creator unmounts
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  return { isRunning, progress, start, stop };
+};
@@ -1,9 +1,31 @@
-import { useState, useRef, useCallback, useEffect } from 'react';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { Point3D, DrawingState, BuildingConfig, BuildingData } from '../types/building';
 import { DrawingService } from '../services/DrawingService';
 import { BuildingService } from '../services/BuildingService';
 import { TextService } from '../services/TextService';
-import { getGroundIntersection, calculateDistance, snapToGrid } from '../utils/geometry';
+import {
+  getGroundIntersection,
+  calculateDistance,
+  snapToGrid,
+  validateFootprint,
+  repairFootprint,
+  FootprintIssue,
+  FootprintNeighbour
+} from '../utils/geometry';
+import {
+  ConstrainedPoint,
+  DrawingGuide,
+  collectReferenceEdges,
+  constrainToAngle,
+  inferEdgeAlignment,
+  ReferenceEdge,
+  parseDimensionInput,
+  resolveDimensionPoint,
+  segmentAngle,
+  snapSegmentLength,
+  DIMENSION_INPUT_PATTERN
+} from '../utils/drawingConstraints';
+import { ObjectSnap, collectContextEdges, findObjectSnap, findRayEdgeSnap } from '../utils/objectSnap';
 import { logger } from '../utils/logger';
 import { Line2 } from 'three/examples/jsm/lines/Line2.js';
 import * as THREE from 'three';
@@ -12,6 +34,17 @@ const SNAP_DISTANCE = 3.5; // Increased for easier snapping
 const SNAP_PREVIEW_DISTANCE = 6.0; // Show snap preview at larger distance
 const GRID_SIZE = 1.0;
 const MOUSE_MOVE_THROTTLE = 8; // Smooth preview updates
+const GUIDE_LENGTH = 60; // Guide lines run well past the cursor
+
+// Shown after the preview length while a segment is constrained
+const formatGuideSuffix = (guide: DrawingGuide): string => {
+  if (guide.type === 'angle') return ` · ${guide.angle}°`;
+  return guide.type === 'perpendicular' ? ' ⊥' : ' ∥';
+};
+
+interface ResolvedPosition extends ConstrainedPoint {
+  snap: ObjectSnap | null; // Vertex, midpoint or edge of another building or the context model
+}
 
 // Direct preview state management - bypassing React state for immediate updates
 interface PreviewState {
@@ -19,6 +52,8 @@ interface PreviewState {
   line: (THREE.Line | Line2) | null;
   building: THREE.Mesh | null;
   lengthLabel: THREE.Sprite | null; // Add this line
+  guideLines: Line2[]; // Angle lock / alignment guides, plus the reference edge
+  snapIndicator: THREE.Mesh | null;
   lastPosition: Point3D | null;
   lastUpdateTime: number;
   isUpdating: boolean; // Prevent overlapping updates
@@ -30,7 +65,10 @@ export const useDrawing = (
   groundPlane: THREE.Mesh | null,
   snapToGridEnabled: boolean = false,
   buildingConfig: BuildingConfig,
-  addBuilding: (mesh: THREE.Mesh, points: Point3D[], floors: number, floorHeight: number) => BuildingData | undefined
+  addBuilding: (mesh: THREE.Mesh, points: Point3D[], floors: number, floorHeight: number) => BuildingData | undefined,
+  referenceFootprints: Point3D[][] = [], // Existing footprints used for parallel/perpendicular inference
+  addHole?: (buildingId: string, points: Point3D[]) => void,
+  neighbours: FootprintNeighbour[] = [] // Buildings a new footprint must not overlap
 ) => {
   const [drawingState, setDrawingState] = useState<DrawingState>({
     isDrawing: false,
@@ -49,6 +87,24 @@ export const useDrawing = (
   const buildingServiceRef = useRef<BuildingService | null>(null);
   const textServiceRef = useRef<TextService | null>(null);
   const mouseRef = useRef(new THREE.Vector2());
+  const lastPointerRef = useRef<{ event: MouseEvent; container: HTMLElement } | null>(null);
+
+  // Building a courtyard is being drawn into, null when drawing a new building
+  const [holeTargetId, setHoleTargetId] = useState<string | null>(null);
+  const holeTargetIdRef = useRef<string | null>(null);
+
+  // Footprint problems found when closing the outline; drawing stays open until resolved
+  const [footprintIssues, setFootprintIssues] = useState<FootprintIssue[]>([]);
+  const issueMarkersRef = useRef<THREE.Mesh[]>([]);
+  const issueOutlineRef = useRef<Point3D[]>([]); // Outline the issues were found on
+
+  // Typed "length" or "length<angle" for the next segment; the ref feeds the preview frame
+  const [dimensionInput, setDimensionInput] = useState('');
+  const dimensionInputRef = useRef('');
+  const updateDimensionInput = useCallback((value: string) => {
+    dimensionInputRef.current = value;
+    setDimensionInput(value);
+  }, []);
   
   // Enhanced preview state with position tracking and timing
   const previewStateRef = useRef<PreviewState>({
@@ -56,6 +112,8 @@ export const useDrawing = (
     line: null,
     building: null,
     lengthLabel: null,
+    guideLines: [],
+    snapIndicator: null,
     lastPosition: null,
     lastUpdateTime: 0,
     isUpdating: false
@@ -178,6 +236,13 @@ export const useDrawing = (
       preview.line = null;
     }
     
+    preview.guideLines.forEach(guideLine => drawingServiceRef.current?.clearGuideLine(guideLine));
+    preview.guideLines = [];
+    if (preview.snapIndicator) {
+      drawingServiceRef.current.clearMarkers([preview.snapIndicator]);
+      preview.snapIndicator = null;
+    }
+
     if (preview.marker) {
       try {
         drawingServiceRef.current.clearPreviewMarker(preview.marker);
@@ -267,7 +332,10 @@ export const useDrawing = (
     };
   }, [drawingState.isDrawing, drawingState.snapToStart, drawingState.points.length]);
 
-  const startDrawing = useCallback(() => {
+  const startDrawing = useCallback((holeTarget: string | null = null) => {
+    holeTargetIdRef.current = holeTarget;
+    setHoleTargetId(holeTarget);
+
     // If already drawing, first clean up the current drawing session
     if (drawingState.isDrawing) {
       // Force complete cleanup before starting new drawing session
@@ -298,6 +366,8 @@ export const useDrawing = (
       line: null,
       building: null,
       lengthLabel: null,
+      guideLines: [],
+      snapIndicator: null,
       lastPosition: null,
       lastUpdateTime: 0,
       isUpdating: false
@@ -320,20 +390,53 @@ export const useDrawing = (
     // logger.debug('Drawing started with fresh service states', {}, 'DrawingHook');
   }, [clearAllPreviews, clearAllDrawingElements]);
 
-  // Declare finishBuilding BEFORE addPoint to avoid circular dependency
-  const finishBuilding = useCallback(() => {
+  const clearIssueMarkers = useCallback(() => {
+    drawingServiceRef.current?.clearMarkers(issueMarkersRef.current);
+    issueMarkersRef.current = [];
+  }, []);
+
+  const showFootprintIssues = useCallback((issues: FootprintIssue[], outline: Point3D[]) => {
+    clearIssueMarkers();
+    issueOutlineRef.current = outline;
+    const drawingService = drawingServiceRef.current;
+    if (drawingService) {
+      issueMarkersRef.current = issues
+        .filter(issue => issue.point)
+        .map(issue => drawingService.createIssueMarker(issue.point as Point3D, issue.severity));
+    }
+    setFootprintIssues(issues);
+  }, [clearIssueMarkers]);
+
+  const dismissFootprintIssues = useCallback(() => {
+    clearIssueMarkers();
+    setFootprintIssues([]);
+  }, [clearIssueMarkers]);
+
+  // Issues describe the outline as it was closed, so any edit invalidates them
+  useEffect(() => {
+    dismissFootprintIssues();
+  }, [drawingState.points, drawingState.isDrawing, dismissFootprintIssues]);
+
+  // Create the building (or courtyard) from a closed outline and end the drawing session
+  const completeFootprint = useCallback((points: Point3D[]) => {
     if (!drawingServiceRef.current || !buildingServiceRef.current || !textServiceRef.current || !scene) return;
 
-    logger.info('Building creation started', { pointsCount: drawingState.points.length }, 'DrawingHook');
+    logger.info('Building creation started', { pointsCount: points.length }, 'DrawingHook');
 
     // Clear all previews FIRST before any other operations
     clearAllPreviews();
 
-    // Only create building if we have enough points
-    if (drawingState.points.length >= 3) {
+    const holeTarget = holeTargetIdRef.current;
+    holeTargetIdRef.current = null;
+    setHoleTargetId(null);
+
+    // A closed ring drawn in courtyard mode is cut out of the target building instead
+    if (holeTarget && points.length >= 3) {
+      addHole?.(holeTarget, points);
+    } else if (points.length >= 3) {
       try {
         // Create the building mesh with proper shadow configuration
-        const buildingMesh = buildingServiceRef.current.createBuilding(drawingState.points, buildingConfig);
+        const buildingMesh = buildingServiceRef.current.createBuilding(points, buildingConfig);
         
         // Ensure the mesh is properly configured for interaction AND shadows
         buildingMesh.userData.interactive = true;
@@ -351,7 +454,7 @@ export const useDrawing = (
         // Add the building to the building manager
         const building = addBuilding(
           buildingMesh,
-          drawingState.points,
+          points,
           buildingConfig.floors,
           buildingConfig.floorHeight
         );
@@ -403,6 +506,8 @@ export const useDrawing = (
       line: null,
       building: null,
       lengthLabel: null,
+      guideLines: [],
+      snapIndicator: null,
       lastPosition: null,
       lastUpdateTime: 0,
       isUpdating: false
@@ -423,47 +528,137 @@ export const useDrawing = (
     });
 
     console.log('finishBuilding completed, services reset for next drawing session');
-  }, [drawingState.points, drawingState.markers, drawingState.lines, drawingState.lengthLabels, buildingConfig, scene, clearAllPreviews, addBuilding]);
+  }, [drawingState.markers, drawingState.lines, drawingState.lengthLabels, buildingConfig, scene, clearAllPreviews, addBuilding, addHole]);
 
-  const addPoint = useCallback((event: MouseEvent, containerElement: HTMLElement) => {
-    if (!validateServices()) {
-      console.warn('Cannot add point - services not ready');
+  // Declare finishBuilding BEFORE addPoint to avoid circular dependency
+  const finishBuilding = useCallback(() => {
+    const issues = validateFootprint(drawingState.points, holeTargetIdRef.current ? [] : neighbours);
+    if (issues.length > 0) {
+      clearAllPreviews();
+      showFootprintIssues(issues, drawingState.points);
       return;
     }
-
-    if (!drawingState.isDrawing || !camera || !groundPlane || !drawingServiceRef.current || !textServiceRef.current) {
+    completeFootprint(drawingState.points);
+  }, [drawingState.points, neighbours, clearAllPreviews, showFootprintIssues, completeFootprint]);
+
+  // Accept warnings such as overlaps; errors would break the extrusion
+  const acceptFootprint = useCallback(() => {
+    if (footprintIssues.some(issue => issue.severity === 'error')) return;
+    completeFootprint(issueOutlineRef.current);
+  }, [footprintIssues, completeFootprint]);
+
+  const repairAndFinish = useCallback(() => {
+    const repaired = repairFootprint(drawingState.points);
+    const remaining = validateFootprint(repaired, holeTargetIdRef.current ? [] : neighbours);
+    // Overlaps survive repair; show them again so they are accepted explicitly
+    if (remaining.length > 0) {
+      showFootprintIssues(remaining, repaired);
       return;
     }
+    completeFootprint(repaired);
+  }, [drawingState.points, neighbours, showFootprintIssues, completeFootprint]);
+
+  // Edges of other buildings and the context model, gathered once per drawing session
+  const objectSnapEdges = useMemo(
+    () => scene && drawingState.isDrawing
+      ? [...collectReferenceEdges(referenceFootprints), ...collectContextEdges(scene)]
+      : [],
+    [scene, referenceFootprints, drawingState.isDrawing]
+  );
+
+  // Holding Shift locks the new segment to 45° steps, landing on walls it crosses.
+  // Otherwise nearby corners, midpoints and edges win, then parallel/perpendicular
+  // inference; grid snapping applies to whatever is left.
+  const resolveDrawingPosition = useCallback((intersection: Point3D, lockAngle: boolean): ResolvedPosition => {
+    const points = drawingState.points;
+    const anchor = points.length > 0 ? points[points.length - 1] : null;
+    const gridSnapped = (): ResolvedPosition => ({
+      point: snapToGridEnabled ? snapToGrid(intersection, GRID_SIZE) : intersection,
+      guide: null,
+      snap: null
+    });
 
-    // Calculate mouse coordinates
-    const rect = containerElement.getBoundingClientRect();
-    mouseRef.current.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
-    mouseRef.current.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+    if (anchor && lockAngle) {
+      const previous = points.length > 1 ? points[points.length - 2] : null;
+      const { point, guide } = constrainToAngle(anchor, intersection, previous);
+      if (!guide) return gridSnapped();
 
-    // Get intersection with ground
-    let intersection = getGroundIntersection(mouseRef.current, camera, groundPlane);
-    if (!intersection) {
-      return;
+      const snap = findRayEdgeSnap(anchor, guide.direction, point, objectSnapEdges);
+      if (snap) return { point: snap.point, guide, snap };
+      return { point: snapToGridEnabled ? snapSegmentLength(anchor, point, GRID_SIZE) : point, guide, snap: null };
     }
 
-    // Apply grid snapping if enabled
-    if (snapToGridEnabled) {
-      intersection = snapToGrid(intersection, GRID_SIZE);
+    const snap = findObjectSnap(intersection, objectSnapEdges);
+    if (snap) return { point: snap.point, guide: null, snap };
+    if (!anchor) return gridSnapped();
+
+    const inferred = inferEdgeAlignment(anchor, intersection, collectReferenceEdges(referenceFootprints, points));
+    if (!inferred.guide) return gridSnapped();
+
+    return {
+      point: snapToGridEnabled ? snapSegmentLength(anchor, inferred.point, GRID_SIZE) : inferred.point,
+      guide: inferred.guide,
+      snap: null
+    };
+  }, [drawingState.points, snapToGridEnabled, referenceFootprints, objectSnapEdges]);
+
+  // Show the constrained direction, the reference edge of an inferred alignment
+  // and the edge an object snap landed on
+  const updateGuideLines = useCallback((guide: DrawingGuide | null, snapEdge: ReferenceEdge | null = null) => {
+    const drawingService = drawingServiceRef.current;
+    const preview = previewStateRef.current;
+    if (!drawingService) return;
+
+    const segments: [Point3D, Point3D][] = [];
+    if (guide) {
+      segments.push([guide.origin, {
+        x: guide.origin.x + guide.direction.x * GUIDE_LENGTH,
+        y: guide.origin.y,
+        z: guide.origin.z + guide.direction.z * GUIDE_LENGTH
+      }]);
+      if (guide.edge) segments.push([guide.edge.start, guide.edge.end]);
+    }
+    if (snapEdge && calculateDistance(snapEdge.start, snapEdge.end) > 1e-6) {
+      segments.push([snapEdge.start, snapEdge.end]);
     }
 
-    // Snap to start point if close enough
-    const points = drawingState.points;
-    if (points.length > 2) {
-      const startPoint = points[0];
-      const distance = calculateDistance(intersection, startPoint);
-      if (distance < SNAP_DISTANCE) {
-        intersection.x = startPoint.x;
-        intersection.z = startPoint.z;
-        // Finish building if snapping to start
-        finishBuilding();
-        return;
+    while (preview.guideLines.length > segments.length) {
+      drawingService.clearGuideLine(preview.guideLines.pop()!);
+    }
+    segments.forEach(([from, to], index) => {
+      const existing = preview.guideLines[index];
+      if (existing && existing.parent) {
+        drawingService.updateGuideLine(existing, from, to);
+      } else {
+        if (existing) drawingService.clearGuideLine(existing);
+        preview.guideLines[index] = drawingService.createGuideLine(from, to);
       }
+    });
+  }, []);
+
+  // Snap type indicator: square for corners, triangle for midpoints, circle for edges
+  const updateSnapIndicator = useCallback((snap: ObjectSnap | null) => {
+    const drawingService = drawingServiceRef.current;
+    const preview = previewStateRef.current;
+    if (!drawingService) return;
+
+    const current = preview.snapIndicator;
+    if (current && (!snap || current.userData.snapType !== snap.type || !current.parent)) {
+      drawingService.clearMarkers([current]);
+      preview.snapIndicator = null;
     }
+    if (!snap) return;
+
+    if (preview.snapIndicator) {
+      drawingService.updateObjectSnapIndicator(preview.snapIndicator, snap.point);
+    } else {
+      preview.snapIndicator = drawingService.createObjectSnapIndicator(snap.point, snap.type);
+    }
+  }, []);
+
+  // Add a resolved point with its marker, segment line and length label
+  const placePoint = useCallback((intersection: Point3D) => {
+    if (!drawingServiceRef.current || !textServiceRef.current) return;
 
     // IMMEDIATELY clear all previews before adding point
     clearAllPreviews();
@@ -505,13 +700,56 @@ export const useDrawing = (
       previewLengthLabel: null,
       snapToStart: false
     }));
-  }, [drawingState.isDrawing, drawingState.points, drawingState.snapToStart, camera, groundPlane, snapToGridEnabled, finishBuilding, clearAllPreviews, validateServices]);
+  }, [drawingState.points, clearAllPreviews]);
+
+  const addPoint = useCallback((event: MouseEvent, containerElement: HTMLElement) => {
+    if (!validateServices()) {
+      console.warn('Cannot add point - services not ready');
+      return;
+    }
+
+    if (!drawingState.isDrawing || !camera || !groundPlane || !drawingServiceRef.current || !textServiceRef.current) {
+      return;
+    }
+
+    // Calculate mouse coordinates
+    const rect = containerElement.getBoundingClientRect();
+    mouseRef.current.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+    mouseRef.current.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+
+    // Get intersection with ground
+    const groundIntersection = getGroundIntersection(mouseRef.current, camera, groundPlane);
+    if (!groundIntersection) {
+      return;
+    }
+
+    // Apply angle constraints and grid snapping
+    const intersection = resolveDrawingPosition(groundIntersection, event.shiftKey).point;
+
+    // Snap to start point if close enough
+    const points = drawingState.points;
+    if (points.length > 2) {
+      const startPoint = points[0];
+      const distance = calculateDistance(intersection, startPoint);
+      if (distance < SNAP_DISTANCE) {
+        intersection.x = startPoint.x;
+        intersection.z = startPoint.z;
+        // Finish building if snapping to start
+        finishBuilding();
+        return;
+      }
+    }
+
+    placePoint(intersection);
+  }, [drawingState.isDrawing, drawingState.points, camera, groundPlane, resolveDrawingPosition, finishBuilding, placePoint, validateServices]);
 
   const stopDrawing = useCallback(() => {
     if (!drawingServiceRef.current || !buildingServiceRef.current || !textServiceRef.current) return;
 
     // Clear all previews first
     clearAllPreviews();
+    holeTargetIdRef.current = null;
+    setHoleTargetId(null);
 
     setDrawingState(prev => {
       // Clear all existing elements from scene
@@ -593,6 +831,7 @@ export const useDrawing = (
       // Remove frequent debug logs
       return;
     }
+    lastPointerRef.current = { event, container: containerElement };
 
     const now = performance.now();
     const preview = previewStateRef.current;
@@ -636,16 +875,22 @@ export const useDrawing = (
           return;
         }
 
-        // Apply snap to grid if enabled
-        const snappedPosition = snapToGridEnabled ? snapToGrid(intersection, GRID_SIZE) : intersection;
+        // Apply angle constraints and grid snapping
+        const points = drawingState.points;
+        const resolved = resolveDrawingPosition(intersection, event.shiftKey);
+
+        // A typed length overrides the cursor distance; the cursor still gives the direction
+        const typed = points.length > 0 ? parseDimensionInput(dimensionInputRef.current) : null;
+        const { point: snappedPosition, guide, snap } = typed
+          ? { point: resolveDimensionPoint(points[points.length - 1], typed, resolved.point), guide: null, snap: null }
+          : resolved;
 
         // Check for snap to start point with preview distance
-        const points = drawingState.points;
         let snapToStart = false;
         let snapActive = false;
         let snapPreviewActive = false;
         
-        if (points.length > 2) {
+        if (points.length > 2 && !typed) {
           const startPoint = points[0];
           const distance = calculateDistance(snappedPosition, startPoint);
           
@@ -739,7 +984,12 @@ export const useDrawing = (
               Math.max(lastPoint.y, snappedPosition.y) + 2.5,
               (lastPoint.z + snappedPosition.z) / 2
             );
-            const distanceText = textServiceRef.current.formatDistance(distance);
+            let distanceText = textServiceRef.current.formatDistance(distance) +
+              (guide && !snapActive ? formatGuideSuffix(guide) : '');
+            if (typed) {
+              const angle = Math.round((segmentAngle(lastPoint, snappedPosition) + 360) % 360) % 360;
+              distanceText = `${textServiceRef.current.formatDistance(distance)} · ${angle}° ↵`;
+            }
 
             if (!preview.lengthLabel || !preview.lengthLabel.parent) {
               if (preview.lengthLabel) {
@@ -768,9 +1018,14 @@ export const useDrawing = (
           preview.lengthLabel = null;
         }
 
+        // Snapping to the start point overrides any constraint
+        updateGuideLines(snapActive ? null : guide, snapActive ? null : snap?.edge ?? null);
+        updateSnapIndicator(snapActive ? null : snap);
+
         // Update preview building with error handling
         try {
-          if (points.length >= 2) {
+          // Courtyards are previewed by their outline only
+          if (points.length >= 2 && !holeTargetIdRef.current) {
             const buildingPoints = [...points, snappedPosition];
             if (!preview.building || !preview.building.parent) {
               if (preview.building) {
@@ -801,7 +1056,93 @@ export const useDrawing = (
         preview.isUpdating = false;
       }
     });
-  }, [camera, groundPlane, drawingState.isDrawing, drawingState.points, drawingState.snapToStart, buildingConfig, snapToGridEnabled, clearAllPreviews, validateServices]);
+  }, [camera, groundPlane, drawingState.isDrawing, drawingState.points, drawingState.snapToStart, buildingConfig, resolveDrawingPosition, updateGuideLines, updateSnapIndicator, clearAllPreviews, validateServices]);
+
+  // Re-run the preview at the last cursor position, e.g. after a key press
+  const refreshPreview = useCallback((shiftKey?: boolean) => {
+    const last = lastPointerRef.current;
+    if (!last) return;
+    updatePreview(new MouseEvent('mousemove', {
+      clientX: last.event.clientX,
+      clientY: last.event.clientY,
+      shiftKey: shiftKey ?? last.event.shiftKey
+    }), last.container);
+  }, [updatePreview]);
+
+  // Re-run the preview when Shift is pressed or released without moving the mouse
+  useEffect(() => {
+    if (!drawingState.isDrawing) return;
+
+    const handleShift = (event: KeyboardEvent) => {
+      if (event.key === 'Shift') refreshPreview(event.type === 'keydown');
+    };
+
+    window.addEventListener('keydown', handleShift);
+    window.addEventListener('keyup', handleShift);
+    return () => {
+      window.removeEventListener('keydown', handleShift);
+      window.removeEventListener('keyup', handleShift);
+    };
+  }, [drawingState.isDrawing, refreshPreview]);
+
+  // Typed input only applies to the segment being drawn
+  useEffect(() => {
+    updateDimensionInput('');
+  }, [drawingState.isDrawing, drawingState.points.length, updateDimensionInput]);
+
+  // Place the next point from the typed input; closes the footprint when it lands on the start
+  const commitDimensionInput = useCallback((): boolean => {
+    const typed = parseDimensionInput(dimensionInputRef.current);
+    const points = drawingState.points;
+    if (!typed || points.length === 0) return false;
+
+    const point = resolveDimensionPoint(points[points.length - 1], typed, previewStateRef.current.lastPosition);
+    if (points.length > 2 && calculateDistance(point, points[0]) < 0.01) {
+      finishBuilding();
+    } else {
+      placePoint(point);
+    }
+    return true;
+  }, [drawingState.points, finishBuilding, placePoint]);
+
+  // Capture phase so digits, Backspace, Enter and Escape edit the input before the global shortcuts see them
+  useEffect(() => {
+    if (!drawingState.isDrawing) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+      if (event.ctrlKey || event.metaKey || event.altKey || drawingState.points.length === 0) return;
+
+      const current = dimensionInputRef.current;
+      let next: string | null = null;
+      if (event.key.length === 1 && DIMENSION_INPUT_PATTERN.test(current + event.key)) {
+        next = current + event.key;
+      } else if (current && event.key === 'Backspace') {
+        next = current.slice(0, -1);
+      } else if (event.key === 'Backspace' || event.key === 'Delete') {
+        // Never let an extra Backspace reach the clear-all shortcut mid-footprint
+        event.preventDefault();
+        event.stopPropagation();
+        return;
+      } else if (current && event.key === 'Escape') {
+        next = '';
+      } else if (current && event.key === 'Enter') {
+        event.preventDefault();
+        event.stopPropagation();
+        commitDimensionInput();
+        return;
+      }
+      if (next === null) return;
+
+      event.preventDefault();
+      event.stopPropagation();
+      updateDimensionInput(next);
+      refreshPreview();
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [drawingState.isDrawing, drawingState.points.length, commitDimensionInput, updateDimensionInput, refreshPreview]);
 
   // Cleanup on unmount - ensure no orphaned objects
   useEffect(() => {
@@ -819,6 +1160,12 @@ export const useDrawing = (
     finishBuilding,
     updatePreview: updatePreview, // Use the direct version always
     undoLastPoint,
-    clearAllDrawingElements
+    clearAllDrawingElements,
+    dimensionInput,
+    holeTargetId,
+    footprintIssues,
+    acceptFootprint,
+    repairAndFinish,
+    dismissFootprintIssues
   };
 };
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { useCallback, useRef, useState } from 'react';
+import { BuildingData, BuildingSnapshot, createBuildingSnapshot } from '../types/building';
+import { EditHistory, EditCommandType } from '../services/EditHistory';
+
+/**
+ * Undo/redo for building edits. `replaceBuildings` rebuilds the scene from
+ * snapshots whenever a command is undone or redone.
+ */
+export const useEditHistory = (
+  buildings: BuildingData[],
+  replaceBuildings: (snapshots: BuildingSnapshot[]) => void
+) => {
+  const historyRef = useRef(new EditHistory());
+  const buildingsRef = useRef(buildings);
+  buildingsRef.current = buildings;
+  const [, setVersion] = useState(0);
+  const refresh = useCallback(() => setVersion(v => v + 1), []);
+
+  const record = useCallback((
+    type: EditCommandType,
+    label: string,
+    buildingIds: string[],
+    before: (BuildingData | BuildingSnapshot)[],
+    mergeKey?: string
+  ) => {
+    historyRef.current.record(type, label, buildingIds, before.map(createBuildingSnapshot), mergeKey);
+    refresh();
+  }, [refresh]);
+
+  const applyResult = useCallback((result: BuildingSnapshot[] | null) => {
+    if (!result) return;
+    replaceBuildings(result);
+    refresh();
+  }, [replaceBuildings, refresh]);
+
+  const currentScene = useCallback(() => buildingsRef.current.map(createBuildingSnapshot), []);
+
+  const undo = useCallback(
+    () => applyResult(historyRef.current.undo(currentScene())),
+    [applyResult, currentScene]
+  );
+  const redo = useCallback(
+    () => applyResult(historyRef.current.redo(currentScene())),
+    [applyResult, currentScene]
+  );
+  const goTo = useCallback(
+    (cursor: number) => applyResult(historyRef.current.goTo(cursor, currentScene())),
+    [applyResult, currentScene]
+  );
+
+  const clear = useCallback(() => {
+    historyRef.current.clear();
+    refresh();
+  }, [refresh]);
+
+  return {
+    commands: historyRef.current.getCommands(),
+    cursor: historyRef.current.getCursor(),
+    canUndo: historyRef.current.canUndo(),
+    canRedo: historyRef.current.canRedo(),
+    record,
+    undo,
+    redo,
+    goTo,
+    clear
+  };
+};
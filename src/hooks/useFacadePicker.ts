@@ -0,0 +1,123 @@
+import { useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import { BuildingData } from '../types/building';
+import { getNearestEdgeIndex } from '../utils/geometry';
+import { getThemeColorAsHex } from '../utils/themeColors';
+
+const CLICK_TOLERANCE = 3; // Pixels the pointer may move before a click counts as an orbit drag
+
+interface FacadePickerOptions {
+  scene: THREE.Scene | null;
+  camera: THREE.Camera | null;
+  containerRef: React.RefObject<HTMLElement>;
+  building: BuildingData | null; // Building whose façades can be picked, null when the tool is off
+  onPick: (edge: number) => void;
+}
+
+/**
+ * Lets the user click one of a building's outer façades in the viewport. The
+ * façade under the pointer is highlighted, and a click reports the index of
+ * the footprint edge it stands on. Orbiting still works, as drags are ignored.
+ */
+export const useFacadePicker = ({ scene, camera, containerRef, building, onPick }: FacadePickerOptions) => {
+  const buildingRef = useRef(building);
+  buildingRef.current = building;
+  const onPickRef = useRef(onPick);
+  onPickRef.current = onPick;
+
+  const buildingId = building?.id ?? null;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!scene || !camera || !container || !buildingId) return;
+
+    const highlight = new THREE.Mesh(
+      new THREE.BufferGeometry(),
+      new THREE.MeshBasicMaterial({
+        color: getThemeColorAsHex('--color-facade-pick-highlight', 0x22d3ee),
+        transparent: true,
+        opacity: 0.45,
+        side: THREE.DoubleSide,
+        depthTest: false
+      })
+    );
+    highlight.renderOrder = 999;
+    highlight.visible = false;
+    highlight.userData = { isFacadePickHighlight: true };
+    scene.add(highlight);
+
+    const raycaster = new THREE.Raycaster();
+    let downPosition: { x: number; y: number } | null = null;
+    let highlightedEdge = -1;
+    let frameRequest: number | null = null;
+
+    const pickEdge = (event: PointerEvent): number => {
+      const current = buildingRef.current;
+      if (!current?.mesh) return -1;
+      const rect = container.getBoundingClientRect();
+      const pointer = new THREE.Vector2(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(pointer, camera);
+      const hit = raycaster.intersectObject(current.mesh, false)[0];
+      return hit ? getNearestEdgeIndex(current.points, hit.point) : -1;
+    };
+
+    const showHighlight = (edge: number) => {
+      const current = buildingRef.current;
+      if (edge === highlightedEdge || !current) return;
+      highlightedEdge = edge;
+      highlight.visible = edge >= 0;
+      if (edge < 0) return;
+
+      // Full-height panel just proud of the wall so it never z-fights with the massing
+      const start = current.points[edge];
+      const end = current.points[(edge + 1) % current.points.length];
+      const length = Math.hypot(end.x - start.x, end.z - start.z);
+      const height = current.floors * current.floorHeight;
+      highlight.geometry.dispose();
+      highlight.geometry = new THREE.PlaneGeometry(length, height);
+      highlight.position.set((start.x + end.x) / 2, height / 2, (start.z + end.z) / 2);
+      highlight.rotation.set(0, -Math.atan2(end.z - start.z, end.x - start.x), 0);
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (frameRequest !== null) return;
+      frameRequest = requestAnimationFrame(() => {
+        frameRequest = null;
+        showHighlight(pickEdge(event));
+      });
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.button !== 0) return;
+      downPosition = { x: event.clientX, y: event.clientY };
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      if (!downPosition) return;
+      const moved = Math.hypot(event.clientX - downPosition.x, event.clientY - downPosition.y);
+      downPosition = null;
+      if (moved > CLICK_TOLERANCE) return;
+      const edge = pickEdge(event);
+      if (edge >= 0) onPickRef.current(edge);
+    };
+
+    container.style.cursor = 'crosshair';
+    container.addEventListener('pointermove', handlePointerMove);
+    container.addEventListener('pointerdown', handlePointerDown, { capture: true });
+    container.addEventListener('pointerup', handlePointerUp, { capture: true });
+
+    return () => {
+      if (frameRequest !== null) cancelAnimationFrame(frameRequest);
+      container.style.cursor = '';
+      container.removeEventListener('pointermove', handlePointerMove);
+      container.removeEventListener('pointerdown', handlePointerDown, { capture: true });
+      container.removeEventListener('pointerup', handlePointerUp, { capture: true });
+      scene.remove(highlight);
+      highlight.geometry.dispose();
+      (highlight.material as THREE.Material).dispose();
+    };
+  }, [scene, camera, containerRef, buildingId]);
+};
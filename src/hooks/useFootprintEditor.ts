@@ -0,0 +1,219 @@
+import { useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import { BuildingData, Point3D } from '../types/building';
+import { snapToGrid } from '../utils/geometry';
+import { getThemeColorAsHex } from '../utils/themeColors';
+import { FootprintVertexEdit } from '../services/FootprintEdges';
+
+const GRID_SIZE = 1.0;
+const MIN_POINTS = 3;
+
+interface FootprintEditorOptions {
+  scene: THREE.Scene | null;
+  camera: THREE.Camera | null;
+  containerRef: React.RefObject<HTMLElement>;
+  building: BuildingData | null;   // Building whose footprint is being edited, null when not editing
+  snapToGridEnabled: boolean;
+  onChange: (buildingId: string, points: Point3D[], vertexEdit?: FootprintVertexEdit) => void; // The edit when a vertex was added or removed
+  onEditStart: (buildingId: string) => void;  // Before the first change of each drag, insert or removal
+}
+
+type HandleType = 'vertex' | 'midpoint';
+
+/**
+ * Shows draggable handles on a building footprint. Dragging a vertex handle
+ * moves it, dragging an edge midpoint inserts a vertex and double-clicking a
+ * vertex removes it (down to a triangle).
+ */
+export const useFootprintEditor = ({
+  scene,
+  camera,
+  containerRef,
+  building,
+  snapToGridEnabled,
+  onChange,
+  onEditStart
+}: FootprintEditorOptions) => {
+  const pointsRef = useRef<Point3D[]>([]);
+  const callbacksRef = useRef({ onChange, onEditStart });
+  callbacksRef.current = { onChange, onEditStart };
+
+  const buildingId = building?.id ?? null;
+
+  // Follow footprint changes made outside the editor (e.g. undo) while not dragging
+  const isDraggingRef = useRef(false);
+  const syncHandlesRef = useRef<(() => void) | null>(null);
+  useEffect(() => {
+    if (!building || isDraggingRef.current) return;
+    pointsRef.current = building.points.map(p => ({ ...p }));
+    syncHandlesRef.current?.();
+  }, [building]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!scene || !camera || !container || !buildingId) return;
+
+    const handleGroup = new THREE.Group();
+    handleGroup.userData = { isFootprintHandles: true, editedBuildingId: buildingId };
+    scene.add(handleGroup);
+
+    const vertexMaterial = new THREE.MeshBasicMaterial({
+      color: getThemeColorAsHex('--color-footprint-vertex-handle', 0xffffff),
+      depthTest: false
+    });
+    const midpointMaterial = new THREE.MeshBasicMaterial({
+      color: getThemeColorAsHex('--color-footprint-midpoint-handle', 0x60a5fa),
+      depthTest: false
+    });
+    const vertexGeometry = new THREE.SphereGeometry(1, 16, 12);
+    const midpointGeometry = new THREE.SphereGeometry(0.7, 12, 8);
+
+    const raycaster = new THREE.Raycaster();
+    const groundPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+    let dragIndex: number | null = null;
+    let frameRequest: number | null = null;
+    let hasPendingEdit = false; // Edit start is reported on the first actual change, not on every click
+
+    const syncHandles = () => {
+      handleGroup.clear();
+
+      // Scale handles with the footprint so they stay usable on small and large buildings
+      const points = pointsRef.current;
+      const xs = points.map(p => p.x);
+      const zs = points.map(p => p.z);
+      const size = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...zs) - Math.min(...zs));
+      const radius = THREE.MathUtils.clamp(size * 0.025, 0.3, 1.5);
+
+      points.forEach((point, index) => {
+        const next = points[(index + 1) % points.length];
+
+        const vertexHandle = new THREE.Mesh(vertexGeometry, vertexMaterial);
+        vertexHandle.position.set(point.x, 0.1, point.z);
+        vertexHandle.scale.setScalar(radius);
+        vertexHandle.renderOrder = 999;
+        vertexHandle.userData = { handleType: 'vertex' as HandleType, index };
+        handleGroup.add(vertexHandle);
+
+        const midpointHandle = new THREE.Mesh(midpointGeometry, midpointMaterial);
+        midpointHandle.position.set((point.x + next.x) / 2, 0.1, (point.z + next.z) / 2);
+        midpointHandle.scale.setScalar(radius);
+        midpointHandle.renderOrder = 999;
+        midpointHandle.userData = { handleType: 'midpoint' as HandleType, index };
+        handleGroup.add(midpointHandle);
+      });
+    };
+    syncHandlesRef.current = syncHandles;
+    syncHandles();
+
+    const setRayFromEvent = (event: MouseEvent) => {
+      const rect = container.getBoundingClientRect();
+      const pointer = new THREE.Vector2(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(pointer, camera);
+    };
+
+    const pickHandle = (event: MouseEvent): { handleType: HandleType; index: number } | null => {
+      setRayFromEvent(event);
+      const hit = raycaster.intersectObjects(handleGroup.children, false)[0];
+      return hit ? hit.object.userData as { handleType: HandleType; index: number } : null;
+    };
+
+    const emitChange = (vertexEdit?: FootprintVertexEdit) => {
+      if (hasPendingEdit) {
+        hasPendingEdit = false;
+        callbacksRef.current.onEditStart(buildingId);
+      }
+      callbacksRef.current.onChange(buildingId, pointsRef.current.map(p => ({ ...p })), vertexEdit);
+      syncHandles();
+    };
+
+    // Capture phase so the orbit controls on the canvas never see a handle drag
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.button !== 0) return;
+      const handle = pickHandle(event);
+      if (!handle) return;
+
+      event.stopPropagation();
+      event.preventDefault();
+      hasPendingEdit = true;
+
+      if (handle.handleType === 'midpoint') {
+        const points = pointsRef.current;
+        const start = points[handle.index];
+        const end = points[(handle.index + 1) % points.length];
+        points.splice(handle.index + 1, 0, { x: (start.x + end.x) / 2, y: 0, z: (start.z + end.z) / 2 });
+        dragIndex = handle.index + 1;
+        emitChange({ type: 'insert', index: dragIndex });
+      } else {
+        dragIndex = handle.index;
+      }
+
+      isDraggingRef.current = true;
+      container.style.cursor = 'grabbing';
+      window.addEventListener('pointermove', handleDragMove);
+      window.addEventListener('pointerup', handleDragEnd);
+    };
+
+    const handleDragMove = (event: PointerEvent) => {
+      if (dragIndex === null || frameRequest !== null) return;
+
+      frameRequest = requestAnimationFrame(() => {
+        frameRequest = null;
+        if (dragIndex === null) return;
+
+        setRayFromEvent(event);
+        const intersection = new THREE.Vector3();
+        if (!raycaster.ray.intersectPlane(groundPlane, intersection)) return;
+
+        const point = { x: intersection.x, y: 0, z: intersection.z };
+        pointsRef.current[dragIndex] = snapToGridEnabled ? snapToGrid(point, GRID_SIZE) : point;
+        emitChange();
+      });
+    };
+
+    const handleDragEnd = () => {
+      dragIndex = null;
+      hasPendingEdit = false;
+      isDraggingRef.current = false;
+      container.style.cursor = '';
+      window.removeEventListener('pointermove', handleDragMove);
+      window.removeEventListener('pointerup', handleDragEnd);
+    };
+
+    const handleDoubleClick = (event: MouseEvent) => {
+      const handle = pickHandle(event);
+      if (handle?.handleType !== 'vertex' || pointsRef.current.length <= MIN_POINTS) return;
+
+      event.stopPropagation();
+      hasPendingEdit = true;
+      pointsRef.current.splice(handle.index, 1);
+      emitChange({ type: 'remove', index: handle.index });
+    };
+
+    const handleHover = (event: PointerEvent) => {
+      if (dragIndex !== null) return;
+      container.style.cursor = pickHandle(event) ? 'grab' : '';
+    };
+
+    container.addEventListener('pointerdown', handlePointerDown, { capture: true });
+    container.addEventListener('pointermove', handleHover);
+    container.addEventListener('dblclick', handleDoubleClick, { capture: true });
+
+    return () => {
+      handleDragEnd();
+      if (frameRequest !== null) cancelAnimationFrame(frameRequest);
+      container.removeEventListener('pointerdown', handlePointerDown, { capture: true });
+      container.removeEventListener('pointermove', handleHover);
+      container.removeEventListener('dblclick', handleDoubleClick, { capture: true });
+
+      syncHandlesRef.current = null;
+      scene.remove(handleGroup);
+      vertexGeometry.dispose();
+      midpointGeometry.dispose();
+      vertexMaterial.dispose();
+      midpointMaterial.dispose();
+    };
+  }, [scene, camera, containerRef, buildingId, snapToGridEnabled]);
+};
@@ -0,0 +1,70 @@
+import { useEffect } from 'react';
+import * as THREE from 'three';
+import { BuildingSnapshot } from '../types/building';
+import { BuildingService } from '../services/BuildingService';
+import { getThemeColorAsHex } from '../utils/themeColors';
+
+/**
+ * Shows translucent, non-interactive massing for a set of building snapshots,
+ * e.g. another design node, so it can be compared against the live scene.
+ */
+export const useGhostMassing = (scene: THREE.Scene | null, buildings: BuildingSnapshot[] | null) => {
+  useEffect(() => {
+    if (!scene || !buildings || buildings.length === 0) return;
+
+    const color = getThemeColorAsHex('--color-building-ghost', 0xec4899);
+    const ghostGroup = new THREE.Group();
+    ghostGroup.userData = { isGhost: true };
+
+    const surfaceMaterial = new THREE.MeshLambertMaterial({
+      color,
+      transparent: true,
+      opacity: 0.2,
+      depthWrite: false,
+      side: THREE.DoubleSide
+    });
+    const edgeMaterial = new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.9 });
+
+    const buildingService = new BuildingService(scene);
+    buildings.forEach(building => {
+      try {
+        const mesh = buildingService.createBuilding(building.points, {
+          floors: building.floors,
+          floorHeight: building.floorHeight,
+          holes: building.holes,
+          roof_type: building.roof_type,
+          roof_pitch: building.roof_pitch,
+          roof_ridge_direction: building.roof_ridge_direction,
+          setbacks: building.setbacks,
+          color
+        });
+
+        // Detach from the scene and strip interaction flags so raycasting ignores the ghost
+        scene.remove(mesh);
+        (mesh.material as THREE.Material).dispose();
+        mesh.material = surfaceMaterial;
+        mesh.castShadow = false;
+        mesh.receiveShadow = false;
+        mesh.userData = { isGhost: true, ghostOf: building.id };
+        mesh.add(new THREE.LineSegments(new THREE.EdgesGeometry(mesh.geometry), edgeMaterial));
+
+        ghostGroup.add(mesh);
+      } catch (error) {
+        console.error('Failed to create ghost massing:', building.id, error);
+      }
+    });
+
+    scene.add(ghostGroup);
+
+    return () => {
+      scene.remove(ghostGroup);
+      ghostGroup.traverse(child => {
+        if (child instanceof THREE.Mesh || child instanceof THREE.LineSegments) {
+          child.geometry.dispose();
+        }
+      });
+      surfaceMaterial.dispose();
+      edgeMaterial.dispose();
+    };
+  }, [scene, buildings]);
+};
@@ -2,6 +2,7 @@ import { useEffect } from 'react';
 
 interface KeyboardShortcutsProps {
   onDrawBuilding: () => void;
+  onToggleBoxSelect: () => void;
   onToggleGrid: () => void;
   onToggleSnap: () => void;
   onToggleFPS: () => void;
@@ -10,6 +11,8 @@ interface KeyboardShortcutsProps {
   onClearAll: () => void;
   onEscape: () => void;
   onUndoLastPoint: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
   onSaveConfiguration: () => void;
   onImportConfiguration: () => void;
   onToggleSunController: () => void;
@@ -20,6 +23,7 @@ interface KeyboardShortcutsProps {
 
 export const useKeyboardShortcuts = ({
   onDrawBuilding,
+  onToggleBoxSelect,
   onToggleGrid,
   onToggleSnap,
   onToggleFPS,
@@ -28,6 +32,8 @@ export const useKeyboardShortcuts = ({
   onClearAll,
   onEscape,
   onUndoLastPoint,
+  onUndo,
+  onRedo,
   onSaveConfiguration,
   onImportConfiguration,
   onToggleSunController,
@@ -52,6 +58,12 @@ export const useKeyboardShortcuts = ({
             onDrawBuilding();
           }
           break;
+        case 'b':
+          if (isInitialized) {
+            event.preventDefault();
+            onToggleBoxSelect();
+          }
+          break;
         case 'g':
           event.preventDefault();
           onToggleGrid();
@@ -111,6 +123,17 @@ export const useKeyboardShortcuts = ({
           event.preventDefault();
           onUndoLastPoint();
           break;
+        case 'z':
+          if (event.ctrlKey || event.metaKey) {
+            // Ctrl+Z undoes, Ctrl+Shift+Z redoes building edits
+            event.preventDefault();
+            if (event.shiftKey) {
+              onRedo();
+            } else {
+              onUndo();
+            }
+          }
+          break;
       }
     };
 
@@ -118,6 +141,7 @@ export const useKeyboardShortcuts = ({
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [
     onDrawBuilding,
+    onToggleBoxSelect,
     onToggleGrid,
     onToggleSnap,
     onToggleFPS,
@@ -126,6 +150,8 @@ export const useKeyboardShortcuts = ({
     onClearAll,
     onEscape,
     onUndoLastPoint,
+    onUndo,
+    onRedo,
     onSaveConfiguration,
     onImportConfiguration,
     onToggleSunController,
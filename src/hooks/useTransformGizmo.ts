@@ -0,0 +1,251 @@
+import { useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import { BuildingData } from '../types/building';
+import {
+  BuildingTransform,
+  TransformedFootprint,
+  getBuildingsPivot,
+  transformFootprint
+} from '../services/BuildingTransforms';
+import { getThemeColorAsHex } from '../utils/themeColors';
+
+const GRID_SIZE = 1.0;
+const ROTATION_SNAP = 15; // Degrees, while Shift is held
+
+export type TransformHandle = 'move' | 'rotate';
+
+interface TransformGizmoOptions {
+  scene: THREE.Scene | null;
+  camera: THREE.Camera | null;
+  containerRef: React.RefObject<HTMLElement>;
+  buildings: BuildingData[];   // Buildings transformed together, empty when the tool is off
+  snapToGridEnabled: boolean;
+  onChange: (buildingId: string, footprint: TransformedFootprint) => void;
+  onEditStart: (buildingIds: string[], handle: TransformHandle) => void;  // Before the first change of each drag
+}
+
+/**
+ * Shows a move disc and a rotation ring on the ground under the selected
+ * buildings. Dragging the disc moves them, dragging the ring rotates them about
+ * their common centroid. Every drag works from the footprints as they were on
+ * pointer down, so repeated small steps never accumulate rounding.
+ */
+export const useTransformGizmo = ({
+  scene,
+  camera,
+  containerRef,
+  buildings,
+  snapToGridEnabled,
+  onChange,
+  onEditStart
+}: TransformGizmoOptions) => {
+  const buildingsRef = useRef<BuildingData[]>(buildings);
+  buildingsRef.current = buildings;
+  const callbacksRef = useRef({ onChange, onEditStart });
+  callbacksRef.current = { onChange, onEditStart };
+
+  const buildingKey = buildings.map(b => b.id).join(',');
+
+  // Follow footprint changes made outside the gizmo (e.g. undo) while not dragging
+  const isDraggingRef = useRef(false);
+  const syncGizmoRef = useRef<(() => void) | null>(null);
+  useEffect(() => {
+    if (isDraggingRef.current) return;
+    syncGizmoRef.current?.();
+  }, [buildings]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!scene || !camera || !container || !buildingKey) return;
+
+    const gizmo = new THREE.Group();
+    gizmo.userData = { isTransformGizmo: true };
+    scene.add(gizmo);
+
+    const moveMaterial = new THREE.MeshBasicMaterial({
+      color: getThemeColorAsHex('--color-transform-move-handle', 0x60a5fa),
+      transparent: true,
+      opacity: 0.85,
+      side: THREE.DoubleSide,
+      depthTest: false
+    });
+    const rotateMaterial = new THREE.MeshBasicMaterial({
+      color: getThemeColorAsHex('--color-transform-rotate-handle', 0xfbbf24),
+      transparent: true,
+      opacity: 0.85,
+      side: THREE.DoubleSide,
+      depthTest: false
+    });
+    const moveGeometry = new THREE.CircleGeometry(1, 32).rotateX(-Math.PI / 2);
+    const moveHandle = new THREE.Mesh(moveGeometry, moveMaterial);
+    moveHandle.renderOrder = 999;
+    moveHandle.userData = { handle: 'move' as TransformHandle };
+    const rotateHandle = new THREE.Mesh(new THREE.BufferGeometry(), rotateMaterial);
+    rotateHandle.renderOrder = 999;
+    rotateHandle.userData = { handle: 'rotate' as TransformHandle };
+    gizmo.add(moveHandle, rotateHandle);
+
+    const raycaster = new THREE.Raycaster();
+    const groundPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+    let drag: {
+      handle: TransformHandle;
+      start: THREE.Vector3;
+      startAzimuth: number;
+      pivot: { x: number; z: number };
+      footprints: Map<string, TransformedFootprint>;
+    } | null = null;
+    let lastTransform: BuildingTransform | null = null;
+    let frameRequest: number | null = null;
+    let hasPendingEdit = false; // Edit start is reported on the first actual change, not on every click
+
+    const syncGizmo = () => {
+      const current = buildingsRef.current;
+      const pivot = getBuildingsPivot(current);
+      let extent = 0;
+      current.forEach(building => building.points.forEach(point => {
+        extent = Math.max(extent, Math.hypot(point.x - pivot.x, point.z - pivot.z));
+      }));
+
+      // Ring just outside the buildings, with a band wide enough to grab at any zoom
+      const outer = extent + 2;
+      const band = THREE.MathUtils.clamp(outer * 0.06, 0.5, 2);
+      rotateHandle.geometry.dispose();
+      rotateHandle.geometry = new THREE.RingGeometry(outer - band, outer, 96).rotateX(-Math.PI / 2);
+      moveHandle.scale.setScalar(THREE.MathUtils.clamp(extent * 0.15, 1, 4));
+      gizmo.position.set(pivot.x, 0.15, pivot.z);
+    };
+    syncGizmoRef.current = syncGizmo;
+    syncGizmo();
+
+    const setRayFromEvent = (event: MouseEvent) => {
+      const rect = container.getBoundingClientRect();
+      const pointer = new THREE.Vector2(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(pointer, camera);
+    };
+
+    const pickHandle = (event: MouseEvent): TransformHandle | null => {
+      setRayFromEvent(event);
+      const hit = raycaster.intersectObjects(gizmo.children, false)[0];
+      return hit ? hit.object.userData.handle as TransformHandle : null;
+    };
+
+    const getGroundPoint = (event: MouseEvent): THREE.Vector3 | null => {
+      setRayFromEvent(event);
+      const intersection = new THREE.Vector3();
+      return raycaster.ray.intersectPlane(groundPlane, intersection);
+    };
+
+    // Degrees clockwise from north (−Z) as seen from above
+    const getAzimuth = (point: THREE.Vector3, pivot: { x: number; z: number }) =>
+      THREE.MathUtils.radToDeg(Math.atan2(point.x - pivot.x, -(point.z - pivot.z)));
+
+    // Capture phase so the orbit controls on the canvas never see a gizmo drag
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.button !== 0) return;
+      const handle = pickHandle(event);
+      if (!handle) return;
+      const start = getGroundPoint(event);
+      if (!start) return;
+
+      event.stopPropagation();
+      event.preventDefault();
+
+      const pivot = getBuildingsPivot(buildingsRef.current);
+      drag = {
+        handle,
+        start,
+        startAzimuth: getAzimuth(start, pivot),
+        pivot,
+        footprints: new Map(buildingsRef.current.map(building => [
+          building.id,
+          transformFootprint(building, { dx: 0, dz: 0, rotation: 0, pivot })
+        ]))
+      };
+      lastTransform = null;
+      hasPendingEdit = true;
+
+      isDraggingRef.current = true;
+      container.style.cursor = 'grabbing';
+      window.addEventListener('pointermove', handleDragMove);
+      window.addEventListener('pointerup', handleDragEnd);
+    };
+
+    const handleDragMove = (event: PointerEvent) => {
+      if (!drag || frameRequest !== null) return;
+
+      frameRequest = requestAnimationFrame(() => {
+        frameRequest = null;
+        if (!drag) return;
+        const point = getGroundPoint(event);
+        if (!point) return;
+
+        let transform: BuildingTransform;
+        if (drag.handle === 'move') {
+          let dx = point.x - drag.start.x;
+          let dz = point.z - drag.start.z;
+          if (snapToGridEnabled) {
+            dx = Math.round(dx / GRID_SIZE) * GRID_SIZE;
+            dz = Math.round(dz / GRID_SIZE) * GRID_SIZE;
+          }
+          transform = { dx, dz, rotation: 0, pivot: drag.pivot };
+        } else {
+          let rotation = getAzimuth(point, drag.pivot) - drag.startAzimuth;
+          if (event.shiftKey) rotation = Math.round(rotation / ROTATION_SNAP) * ROTATION_SNAP;
+          transform = { dx: 0, dz: 0, rotation, pivot: drag.pivot };
+        }
+
+        if (lastTransform
+          && lastTransform.dx === transform.dx
+          && lastTransform.dz === transform.dz
+          && lastTransform.rotation === transform.rotation) return;
+        lastTransform = transform;
+
+        if (hasPendingEdit) {
+          hasPendingEdit = false;
+          callbacksRef.current.onEditStart([...drag.footprints.keys()], drag.handle);
+        }
+        drag.footprints.forEach((footprint, buildingId) => {
+          callbacksRef.current.onChange(buildingId, transformFootprint(footprint, transform));
+        });
+        gizmo.position.set(drag.pivot.x + transform.dx, 0.15, drag.pivot.z + transform.dz);
+      });
+    };
+
+    const handleDragEnd = () => {
+      const wasDragging = drag !== null;
+      drag = null;
+      hasPendingEdit = false;
+      isDraggingRef.current = false;
+      container.style.cursor = '';
+      window.removeEventListener('pointermove', handleDragMove);
+      window.removeEventListener('pointerup', handleDragEnd);
+      if (wasDragging) syncGizmo();
+    };
+
+    const handleHover = (event: PointerEvent) => {
+      if (drag) return;
+      const handle = pickHandle(event);
+      container.style.cursor = handle === 'move' ? 'move' : handle === 'rotate' ? 'grab' : '';
+    };
+
+    container.addEventListener('pointerdown', handlePointerDown, { capture: true });
+    container.addEventListener('pointermove', handleHover);
+
+    return () => {
+      handleDragEnd();
+      if (frameRequest !== null) cancelAnimationFrame(frameRequest);
+      container.removeEventListener('pointerdown', handlePointerDown, { capture: true });
+      container.removeEventListener('pointermove', handleHover);
+
+      syncGizmoRef.current = null;
+      scene.remove(gizmo);
+      moveGeometry.dispose();
+      rotateHandle.geometry.dispose();
+      moveMaterial.dispose();
+      rotateMaterial.dispose();
+    };
+  }, [scene, camera, containerRef, buildingKey, snapToGridEnabled]);
+};
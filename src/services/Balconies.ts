@@ -0,0 +1,63 @@
+// Balconies hung off outer façades in front of their window columns
+import { BalconySettings, BuildingSnapshot } from '../types/building';
+import { DEFAULT_WINDOW_SIZE, Facade, getFacadeWindowRuns, WindowLayoutInput, WindowSize } from './FacadeGlazing';
+
+export const DEFAULT_BALCONY_SETTINGS: BalconySettings = { width: 2.4, depth: 1.5, every: 2, from_floor: 1 };
+
+// Slab plus railing, per m² of balcony floor
+export const BALCONY_CO2 = 120; // kg CO₂e/m²
+
+export type BalconyInput = WindowLayoutInput & Pick<BuildingSnapshot, 'balconies'>;
+
+export interface BalconyPlacement {
+  facade: Facade;
+  floor: number;  // The balcony slab sits at this floor's level
+  along: number;  // m from the façade start to the balcony centre
+  width: number;
+  depth: number;
+}
+
+/**
+ * Every balcony of a building, one per selected window column and floor. The
+ * columns follow the solved windows of each storey group, so balconies move
+ * with the glazing; a façade without windows carries none.
+ */
+export const getBalconyPlacements = (building: BalconyInput, size: WindowSize = DEFAULT_WINDOW_SIZE): BalconyPlacement[] => {
+  const edges = building.balconies?.edges;
+  if (!edges) return [];
+
+  const topFloor = (building.floors ?? 1) - 1;
+  return getFacadeWindowRuns(building, size).flatMap(({ facade, firstFloor, floors, layout }) => {
+    const settings = facade.edgeIndex !== undefined ? edges[facade.edgeIndex] : undefined;
+    if (!settings || !layout || settings.width <= 0 || settings.depth <= 0) return [];
+
+    const every = Math.max(1, Math.round(settings.every));
+    const lowest = Math.max(firstFloor, settings.from_floor);
+    const highest = Math.min(firstFloor + floors - 1, settings.to_floor ?? topFloor);
+    // A balcony may not be wider than the columns it serves, or neighbours would overlap
+    const pitch = layout.windowWidth + layout.spacing;
+    const width = Math.min(settings.width, facade.length, layout.numWindows > every ? every * pitch : Infinity);
+
+    const alongs: number[] = [];
+    for (let col = 0; col < layout.numWindows; col += every) {
+      const centre = layout.marginStart + col * pitch + layout.windowWidth / 2;
+      // Slide end balconies inwards rather than let them overhang the corner
+      const along = Math.min(Math.max(centre, width / 2), facade.length - width / 2);
+      // Sliding can push an end balcony onto its neighbour; keep only the first
+      if (alongs.length > 0 && along - alongs[alongs.length - 1] < width - 1e-6) continue;
+      alongs.push(along);
+    }
+
+    const placements: BalconyPlacement[] = [];
+    for (let floor = lowest; floor <= highest; floor++) {
+      alongs.forEach(along => placements.push({ facade, floor, along, width, depth: settings.depth }));
+    }
+    return placements;
+  });
+};
+
+/**
+ * Total balcony floor area of a building, in m².
+ */
+export const getBalconyArea = (building: BalconyInput, size: WindowSize = DEFAULT_WINDOW_SIZE): number =>
+  getBalconyPlacements(building, size).reduce((sum, balcony) => sum + balcony.width * balcony.depth, 0);
@@ -0,0 +1,48 @@
+// Handles transformation matrices for balcony slabs and railings
+import * as THREE from 'three';
+import { BalconyPlacement } from './Balconies';
+
+const SLAB_THICKNESS = 0.2;
+const RAILING_HEIGHT = 1.1;
+const RAILING_THICKNESS = 0.05;
+const UP = new THREE.Vector3(0, 1, 0);
+
+export interface BalconyMatrices {
+  slab: THREE.Matrix4;
+  railings: THREE.Matrix4[]; // Front, then the two sides
+}
+
+/**
+ * Unit-box transforms for one balcony: a slab with its top at floor level and
+ * a railing around its three open sides.
+ */
+export function buildBalconyMatrices(balcony: BalconyPlacement, floorHeight: number): BalconyMatrices {
+  const { facade, floor, along, width, depth } = balcony;
+  const right = new THREE.Vector3(facade.end.x - facade.start.x, 0, facade.end.z - facade.start.z).normalize();
+  // Outer rings wind counter-clockwise, so (-dz, dx) faces out of the building
+  const out = new THREE.Vector3(-right.z, 0, right.x);
+  const rotation = new THREE.Quaternion().setFromRotationMatrix(new THREE.Matrix4().makeBasis(right, UP, out));
+
+  const level = floor * floorHeight;
+  const centre = new THREE.Vector3(facade.start.x, level, facade.start.z)
+    .add(right.clone().multiplyScalar(along))
+    .add(out.clone().multiplyScalar(depth / 2));
+
+  const box = (offset: THREE.Vector3, scale: THREE.Vector3) =>
+    new THREE.Matrix4().compose(centre.clone().add(offset), rotation, scale);
+
+  const railingY = RAILING_HEIGHT / 2;
+  return {
+    slab: box(new THREE.Vector3(0, -SLAB_THICKNESS / 2, 0), new THREE.Vector3(width, SLAB_THICKNESS, depth)),
+    railings: [
+      box(
+        out.clone().multiplyScalar(depth / 2 - RAILING_THICKNESS / 2).setY(railingY),
+        new THREE.Vector3(width, RAILING_HEIGHT, RAILING_THICKNESS)
+      ),
+      ...[-1, 1].map(side => box(
+        right.clone().multiplyScalar(side * (width / 2 - RAILING_THICKNESS / 2)).setY(railingY),
+        new THREE.Vector3(RAILING_THICKNESS, RAILING_HEIGHT, depth)
+      ))
+    ]
+  };
+}
@@ -1,7 +1,8 @@
 import * as THREE from 'three';
 import { Point3D, BuildingConfig } from '../types/building';
-import { calculateCentroid, createShapeFromPoints, ensureCounterClockwise } from '../utils/geometry';
+import { calculateCentroid, createShapeFromPoints, ensureClockwise, ensureCounterClockwise, getMassingTiers } from '../utils/geometry';
 import { getThemeColorAsHex } from '../utils/themeColors';
+import { createMassingGeometry, createTieredMassingGeometry, getRoofOptions } from '../utils/roofGeometry';
 
 export class BuildingService {
   private scene: THREE.Scene;
@@ -45,24 +46,15 @@ export class BuildingService {
 
     // Ensure points are in anti-clockwise order for consistent polygon orientation
     const normalizedPoints = ensureCounterClockwise(points);
+    const holes = (config.holes ?? []).map(ensureClockwise);
     
     const centroid = calculateCentroid(normalizedPoints);
-    const shape = createShapeFromPoints(normalizedPoints, centroid);
     
     // Calculate height from floors and floorHeight
     const height = config.height || (config.floors * config.floorHeight);
     
-    // Extrude the shape to create 3D geometry
-    const extrudeSettings = {
-      depth: height,
-      bevelEnabled: false,
-      steps: 1
-    };
-
-    const geometry = new THREE.ExtrudeGeometry(shape, extrudeSettings);
-    
-    // Rotate geometry so it extrudes upward (Y-axis)
-    geometry.rotateX(-Math.PI / 2);
+    // Extrude the shape up to the eaves and add the roof (Y-axis up)
+    const geometry = this.createMassing(normalizedPoints, centroid, height, config, holes);
     
     // CRITICAL: Compute geometry attributes for proper raycasting
     geometry.computeBoundingBox();
@@ -213,6 +205,39 @@ export class BuildingService {
     building.position.set(centroid.x, 0, centroid.z);
   }
 
+  // Re-extrude an existing building mesh from an edited footprint, keeping its material and userData
+  updateBuildingGeometry(building: THREE.Mesh, points: Point3D[], config: BuildingConfig): void {
+    if (points.length < 3) {
+      return;
+    }
+
+    const normalizedPoints = ensureCounterClockwise(points);
+    const centroid = calculateCentroid(normalizedPoints);
+    const holes = (config.holes ?? []).map(ensureClockwise);
+    const height = config.height || (config.floors * config.floorHeight);
+
+    const geometry = this.createMassing(normalizedPoints, centroid, height, config, holes);
+
+    // Keep raycasting against the new shape accurate
+    geometry.computeBoundingBox();
+    geometry.computeBoundingSphere();
+    geometry.computeVertexNormals();
+
+    building.geometry.dispose();
+    building.geometry = geometry;
+    building.position.set(centroid.x, 0, centroid.z);
+    building.updateMatrix();
+    building.updateMatrixWorld(true);
+  }
+
+  // Single prism up to the given height, or stacked tiers when the building has setbacks
+  private createMassing(points: Point3D[], centroid: Point3D, height: number, config: BuildingConfig, holes: Point3D[][]): THREE.BufferGeometry {
+    const tiers = getMassingTiers(points, config.floors, holes, config.setbacks);
+    return tiers.length > 1
+      ? createTieredMassingGeometry(tiers, centroid, config.floorHeight, getRoofOptions(config))
+      : createMassingGeometry(points, centroid, height, getRoofOptions(config), holes);
+  }
+
   createDebugMarker(position: Point3D, color: number = 0x00ff00): THREE.Mesh {
     const geometry = new THREE.SphereGeometry(1.5, 16, 16);
     const material = new THREE.MeshLambertMaterial({
@@ -0,0 +1,103 @@
+// Moves, rotates and repeats buildings by rewriting their footprint coordinates
+import { BuildingSnapshot, Point3D } from '../types/building';
+import { calculateCentroid } from '../utils/geometry';
+
+export interface BuildingTransform {
+  dx: number;       // m, east
+  dz: number;       // m, south
+  rotation: number; // Degrees clockwise seen from above, applied about the pivot before moving
+  pivot: { x: number; z: number };
+}
+
+export interface LinearArrayParameters {
+  count: number; // Total buildings including the original
+  dx: number;    // m between neighbours
+  dz: number;
+}
+
+export interface PolarArrayParameters {
+  count: number;       // Total buildings including the original
+  angle: number;       // Degrees swept by the array; 360 spreads the copies evenly around a full circle
+  center: { x: number; z: number };
+}
+
+export type TransformedFootprint = Pick<BuildingSnapshot, 'points' | 'holes' | 'roof_ridge_direction'>;
+
+export const MAX_ARRAY_COUNT = 50;
+
+export const IDENTITY_TRANSFORM: BuildingTransform = { dx: 0, dz: 0, rotation: 0, pivot: { x: 0, z: 0 } };
+
+export const transformPoint = (point: Point3D, transform: BuildingTransform): Point3D => {
+  const angle = (transform.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const x = point.x - transform.pivot.x;
+  const z = point.z - transform.pivot.z;
+  return {
+    x: transform.pivot.x + x * cos - z * sin + transform.dx,
+    y: point.y,
+    z: transform.pivot.z + x * sin + z * cos + transform.dz
+  };
+};
+
+/**
+ * Footprint, courtyards and ridge direction of a building after a transform.
+ * Point order and winding are kept, so per-edge settings still apply.
+ */
+export const transformFootprint = (building: TransformedFootprint, transform: BuildingTransform): TransformedFootprint => ({
+  points: building.points.map(point => transformPoint(point, transform)),
+  holes: building.holes?.map(hole => hole.map(point => transformPoint(point, transform))),
+  roof_ridge_direction: building.roof_ridge_direction === undefined
+    ? undefined
+    : (((building.roof_ridge_direction + transform.rotation) % 360) + 360) % 360
+});
+
+/**
+ * Centroid of a group of buildings, used as the pivot for rotating them together.
+ */
+export const getBuildingsPivot = (buildings: Pick<BuildingSnapshot, 'points'>[]): { x: number; z: number } => {
+  const centroids = buildings.filter(b => b.points.length > 0).map(b => calculateCentroid(b.points));
+  if (centroids.length === 0) return { x: 0, z: 0 };
+  const center = calculateCentroid(centroids);
+  return { x: center.x, z: center.z };
+};
+
+export const getLinearArrayTransforms = ({ count, dx, dz }: LinearArrayParameters): BuildingTransform[] => {
+  const copies = Math.min(MAX_ARRAY_COUNT, Math.floor(count)) - 1;
+  return Array.from({ length: Math.max(0, copies) }, (_, i) => ({
+    ...IDENTITY_TRANSFORM,
+    dx: dx * (i + 1),
+    dz: dz * (i + 1)
+  }));
+};
+
+export const getPolarArrayTransforms = ({ count, angle, center }: PolarArrayParameters): BuildingTransform[] => {
+  const total = Math.min(MAX_ARRAY_COUNT, Math.floor(count));
+  if (total < 2) return [];
+
+  // A full circle would put the last copy on top of the original
+  const fullCircle = Math.abs(angle) >= 360;
+  const step = fullCircle ? 360 / total : angle / (total - 1);
+  return Array.from({ length: total - 1 }, (_, i) => ({
+    dx: 0,
+    dz: 0,
+    rotation: step * (i + 1),
+    pivot: center
+  }));
+};
+
+/**
+ * New buildings copied from a snapshot, one per transform. Copies have an empty
+ * id; the building manager assigns one when they are added to the scene.
+ */
+export const createBuildingCopies = (building: BuildingSnapshot, transforms: BuildingTransform[]): BuildingSnapshot[] => {
+  const baseName = building.name || building.id;
+  return transforms.map((transform, i) => ({
+    ...building,
+    ...transformFootprint(building, transform),
+    setbacks: building.setbacks?.map(setback => ({ ...setback, edges: setback.edges && [...setback.edges] })),
+    id: '',
+    name: transforms.length === 1 ? `${baseName} copy` : `${baseName} copy ${i + 1}`,
+    createdAt: new Date()
+  }));
+};
@@ -0,0 +1,297 @@
+// Simplified spatial daylight autonomy (sDA 300/50%) from façade glazing and EPW illuminance
+import { BuildingData, FacadeShading, Point3D } from '../types/building';
+import type { EPWProcessedData } from './EPWParser';
+import { solveWindowParams } from './WindowParametricSolver';
+import { DEFAULT_WINDOW_SIZE, getWindowSolverConfig, resolveWindowToWallRatio } from './FacadeGlazing';
+import { getFacadeShading, getShadingSkyFactor, getShadingSunlitFraction } from './ShadingDevices';
+import { calculateCentroid, calculateSignedArea, calculateFootprintArea, getMassingTiers } from '../utils/geometry';
+import { calculateSunPosition } from '../utils/sunPosition';
+
+export type DaylightInput = Pick<
+  BuildingData,
+  | 'id'
+  | 'name'
+  | 'points'
+  | 'holes'
+  | 'setbacks'
+  | 'floors'
+  | 'floorHeight'
+  | 'window_to_wall_ratio'
+  | 'window_to_wall_overrides'
+  | 'window_layout'
+  | 'window_overhang'
+  | 'window_overhang_depth'
+  | 'shading_devices'
+>;
+
+export interface FacadeDaylight {
+  edgeIndex: number;
+  azimuth: number;       // Outward normal, degrees from north (0-360)
+  edgeLength: number;    // m
+  glazedArea: number;    // m² per floor
+  floorDepth: number;    // m, façade to centroid
+  daylitDepth: number;   // m reaching 300 lux for at least half of occupied hours
+  daylitArea: number;    // m² per floor
+}
+
+export interface BuildingDaylight {
+  buildingId: string;
+  name?: string;
+  facades: FacadeDaylight[];         // Ground-floor plate
+  floorArea: number;                 // m² over all floors
+  daylitArea: number;                // m² over all floors
+  spatialDaylightAutonomy: number;   // % of floor area
+}
+
+export interface DaylightResult {
+  buildings: BuildingDaylight[];
+  spatialDaylightAutonomy: number;   // % of the scheme floor area
+  usedWeatherFile: boolean;
+}
+
+interface SkyStep {
+  diffuseHorizontal: number; // lux
+  beamHorizontal: number;    // lux
+  sunAzimuth: number;        // degrees from north
+  sunElevation: number;      // degrees
+}
+
+// Same reference dimensions as the WindowService instance in ThreeJSCore
+
+const TARGET_ILLUMINANCE = 300; // lux
+const TARGET_TIME_FRACTION = 0.5;
+const OCCUPIED_HOURS = { start: 8, end: 18 }; // Local time, EPW hours are hour-ending
+const VISIBLE_TRANSMITTANCE = 0.6;
+const GROUND_REFLECTANCE = 0.2;
+const DEPTH_CALIBRATION = 0.5; // Scales façade illuminance into the room
+const MAX_DEPTH_TO_HEAD_HEIGHT = 2.5; // Rule-of-thumb limit for side-lit rooms
+const MIN_SUN_ELEVATION = 2; // degrees, avoids blow-up of beam illuminance at sunrise/sunset
+const REFERENCE_DIFFUSE_ILLUMINANCE = 10000; // lux, overcast sky used until an EPW file has been loaded
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Sun positions per weather file, so repeated evaluations (e.g. parametric sweeps) stay cheap
+const skyStepCache = new WeakMap<EPWProcessedData['hourlyData'], SkyStep[]>();
+
+function getSkySteps(weatherData?: Pick<EPWProcessedData, 'header' | 'hourlyData'> | null): SkyStep[] {
+  if (!weatherData || weatherData.hourlyData.length === 0) {
+    const occupiedHours = OCCUPIED_HOURS.end - OCCUPIED_HOURS.start;
+    return Array.from({ length: occupiedHours }, () => ({
+      diffuseHorizontal: REFERENCE_DIFFUSE_ILLUMINANCE,
+      beamHorizontal: 0,
+      sunAzimuth: 0,
+      sunElevation: 0
+    }));
+  }
+
+  const cached = skyStepCache.get(weatherData.hourlyData);
+  if (cached) return cached;
+
+  const { latitude, longitude, timezone } = weatherData.header;
+  const location = { latitude, longitude, timezone: `UTC${timezone >= 0 ? '+' : ''}${timezone}` };
+
+  const steps = weatherData.hourlyData
+    .filter(hour => hour.hour > OCCUPIED_HOURS.start && hour.hour <= OCCUPIED_HOURS.end)
+    .map(hour => {
+      // Middle of the hour-ending interval, converted from local standard time to UTC
+      const date = new Date(Date.UTC(2023, hour.month - 1, hour.day, hour.hour - 1 - timezone, 30));
+      const sun = calculateSunPosition(date, location);
+      return {
+        diffuseHorizontal: hour.diffuseHorizontalIlluminance,
+        beamHorizontal: Math.max(0, hour.globalHorizontalIlluminance - hour.diffuseHorizontalIlluminance),
+        sunAzimuth: sun.azimuth,
+        sunElevation: sun.elevation
+      };
+    });
+
+  skyStepCache.set(weatherData.hourlyData, steps);
+  return steps;
+}
+
+// Illuminance on the outside of the glazing, reduced by the overhang and any fins or louvres
+function getFacadeIlluminance(
+  step: SkyStep,
+  facadeAzimuth: number,
+  overhangDepth: number,
+  windowHeight: number,
+  shading?: FacadeShading
+): number {
+  const skyFraction = (1 - 0.5 * (overhangDepth / (overhangDepth + windowHeight))) * getShadingSkyFactor(shading);
+  const diffuse = step.diffuseHorizontal * 0.5 * skyFraction;
+  const reflected = (step.diffuseHorizontal + step.beamHorizontal) * GROUND_REFLECTANCE * 0.5;
+
+  let beam = 0;
+  if (step.beamHorizontal > 0 && step.sunElevation > MIN_SUN_ELEVATION) {
+    const elevation = toRadians(step.sunElevation);
+    const relativeAzimuth = toRadians(step.sunAzimuth - facadeAzimuth);
+    const cosIncidence = Math.cos(elevation) * Math.cos(relativeAzimuth);
+
+    if (cosIncidence > 0) {
+      // Shadow cast down the window by the overhang, from the vertical profile angle
+      const shadowLength = overhangDepth * Math.tan(elevation) / Math.cos(relativeAzimuth);
+      const sunlitFraction = Math.max(0, 1 - shadowLength / windowHeight);
+      beam = (step.beamHorizontal / Math.sin(elevation)) * cosIncidence * sunlitFraction *
+        getShadingSunlitFraction(shading, elevation, relativeAzimuth);
+    }
+  }
+
+  return diffuse + reflected + beam;
+}
+
+// Area of the triangle between a façade and the centroid that lies within `depth` of the façade
+function getZoneArea(edgeLength: number, floorDepth: number, depth: number): number {
+  const d = Math.min(depth, floorDepth);
+  return edgeLength * d * (1 - d / (2 * floorDepth));
+}
+
+function calculateFacadeDaylight(
+  p1: Point3D,
+  p2: Point3D,
+  edgeIndex: number,
+  centroid: Point3D,
+  outwardSign: number,
+  building: DaylightInput,
+  sky: SkyStep[],
+  footprintEdge?: number, // Outer footprint edge, for per-façade glazing overrides
+  depthOverride?: number
+): FacadeDaylight | null {
+  const dx = p2.x - p1.x;
+  const dz = p2.z - p1.z;
+  const edgeLength = Math.hypot(dx, dz);
+  if (edgeLength === 0) return null;
+
+  const floorHeight = building.floorHeight ?? 3;
+  // Outward normal in XZ, matching the window normals in WindowService
+  const normalX = (-dz / edgeLength) * outwardSign;
+  const normalZ = (dx / edgeLength) * outwardSign;
+  const azimuth = ((Math.atan2(normalX, -normalZ) * 180) / Math.PI + 360) % 360;
+
+  const floorDepth = depthOverride ?? Math.abs((dx * (centroid.z - p1.z) - dz * (centroid.x - p1.x)) / edgeLength);
+
+  // Typical upper storey; a separately glazed ground floor is left out
+  const parametric = edgeLength >= DEFAULT_WINDOW_SIZE.windowWidth * 0.5
+    ? solveWindowParams(getWindowSolverConfig(building, edgeLength, resolveWindowToWallRatio(building, azimuth, footprintEdge), false))
+    : null;
+  const glazedArea = parametric ? parametric.numWindows * parametric.windowWidth * parametric.windowHeight : 0;
+
+  if (!parametric || glazedArea === 0 || floorDepth === 0) {
+    return { edgeIndex, azimuth, edgeLength, glazedArea, floorDepth, daylitDepth: 0, daylitArea: 0 };
+  }
+
+  const glazingRatio = glazedArea / (edgeLength * floorHeight);
+  const { windowHeight } = parametric;
+  const headHeight = parametric.sillHeight + windowHeight;
+  const maxDepth = MAX_DEPTH_TO_HEAD_HEIGHT * headHeight;
+  const overhangDepth = building.window_overhang ? building.window_overhang_depth ?? 0 : 0;
+  const shading = getFacadeShading(building, azimuth);
+
+  // Depth reaching the target illuminance in each hour, with interior illuminance falling off as (head/x)²
+  const hourlyDepths = sky
+    .map(step => {
+      const exterior = getFacadeIlluminance(step, azimuth, overhangDepth, windowHeight, shading);
+      const ratio = (exterior * VISIBLE_TRANSMITTANCE * glazingRatio * DEPTH_CALIBRATION) / TARGET_ILLUMINANCE;
+      return Math.min(maxDepth, headHeight * Math.sqrt(ratio));
+    })
+    .sort((a, b) => b - a);
+
+  // A point is daylit when it meets the target in at least half of the occupied hours
+  const daylitDepth = hourlyDepths[Math.max(0, Math.ceil(hourlyDepths.length * TARGET_TIME_FRACTION) - 1)] ?? 0;
+
+  return {
+    edgeIndex,
+    azimuth,
+    edgeLength,
+    glazedArea,
+    floorDepth,
+    daylitDepth,
+    daylitArea: getZoneArea(edgeLength, floorDepth, daylitDepth)
+  };
+}
+
+// Courtyard façades light the wing between the courtyard and the outer wall, so use that depth
+function getWingDepth(p1: Point3D, p2: Point3D, outer: Point3D[]): number {
+  const mid = { x: (p1.x + p2.x) / 2, z: (p1.z + p2.z) / 2 };
+  let depth = Infinity;
+  for (let i = 0; i < outer.length; i++) {
+    const a = outer[i];
+    const b = outer[(i + 1) % outer.length];
+    const abx = b.x - a.x;
+    const abz = b.z - a.z;
+    const lengthSq = abx * abx + abz * abz;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((mid.x - a.x) * abx + (mid.z - a.z) * abz) / lengthSq)) : 0;
+    depth = Math.min(depth, Math.hypot(mid.x - (a.x + t * abx), mid.z - (a.z + t * abz)));
+  }
+  return Number.isFinite(depth) ? depth : 0;
+}
+
+// Daylight on one floor plate of a setback tier
+function calculatePlateDaylight(points: Point3D[], holes: Point3D[][], building: DaylightInput, sky: SkyStep[]) {
+  const centroid = calculateCentroid(points);
+  const signedArea = calculateSignedArea(points);
+  const floorArea = calculateFootprintArea(points, holes);
+  const outwardSign = signedArea >= 0 ? 1 : -1;
+
+  const facades: FacadeDaylight[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const facade = calculateFacadeDaylight(points[i], points[(i + 1) % points.length], i, centroid, outwardSign, building, sky, i);
+    if (facade) facades.push(facade);
+  }
+
+  // Courtyard rings wind against the outer ring, so their normals face into the courtyard
+  let edgeIndex = points.length;
+  for (const hole of holes) {
+    const holeSign = calculateSignedArea(hole) >= 0 ? -1 : 1;
+    for (let i = 0; i < hole.length; i++, edgeIndex++) {
+      const p1 = hole[i];
+      const p2 = hole[(i + 1) % hole.length];
+      const facade = calculateFacadeDaylight(p1, p2, edgeIndex, centroid, holeSign, building, sky, undefined, getWingDepth(p1, p2, points));
+      if (facade) facades.push(facade);
+    }
+  }
+
+  // Zones overlap on concave footprints, so cap at the floor area
+  const daylitArea = Math.min(floorArea, facades.reduce((sum, facade) => sum + facade.daylitArea, 0));
+
+  return { facades, floorArea, daylitArea };
+}
+
+function calculateBuildingDaylight(building: DaylightInput, sky: SkyStep[]): BuildingDaylight {
+  const tiers = getMassingTiers(building.points, building.floors, building.holes, building.setbacks);
+  const plates = tiers.map(tier => calculatePlateDaylight(tier.points, tier.holes, building, sky));
+  const floorArea = plates.reduce((sum, plate, i) => sum + plate.floorArea * tiers[i].floors, 0);
+  const daylitArea = plates.reduce((sum, plate, i) => sum + plate.daylitArea * tiers[i].floors, 0);
+
+  return {
+    buildingId: building.id,
+    name: building.name,
+    facades: plates[0].facades,
+    floorArea,
+    daylitArea,
+    spatialDaylightAutonomy: floorArea > 0 ? (daylitArea / floorArea) * 100 : 0
+  };
+}
+
+/**
+ * Estimate spatial daylight autonomy for each building and for the whole scheme.
+ * Each façade lights the wedge between it and the footprint centroid; the daylit
+ * depth follows the hourly façade illuminance from the EPW file, its glazing and
+ * any overhang. Floors within a setback tier are assumed to receive the same daylight.
+ */
+export function calculateDaylightAutonomy(
+  buildings: DaylightInput[],
+  weatherData?: Pick<EPWProcessedData, 'header' | 'hourlyData'> | null
+): DaylightResult {
+  const sky = getSkySteps(weatherData);
+  const evaluated = buildings.filter(building => building.points && building.points.length >= 3);
+  const results = evaluated.map(building => calculateBuildingDaylight(building, sky));
+
+  // Weight by total floor area across all storeys
+  const totalFloorArea = results.reduce((sum, result) => sum + result.floorArea, 0);
+  const totalDaylitArea = results.reduce((sum, result) => sum + result.daylitArea, 0);
+
+  return {
+    buildings: results,
+    spatialDaylightAutonomy: totalFloorArea > 0 ? (totalDaylitArea / totalFloorArea) * 100 : 0,
+    usedWeatherFile: !!weatherData && weatherData.hourlyData.length > 0
+  };
+}
@@ -0,0 +1,202 @@
+// Compares the buildings and metrics of two design nodes
+import { BuildingSnapshot, Point3D } from '../types/building';
+import { DesignNode, DesignMetrics } from '../types/designExploration';
+import { designMetrics } from '../data/designMetrics';
+import { calculateFootprintArea, calculateGrossFloorArea } from '../utils/geometry';
+import { getAchievedWindowToWallRatio, getEffectiveWindowToWallRatio } from './FacadeGlazing';
+import { getBalconyArea } from './Balconies';
+import { getSolarShadingFactor } from './ShadingDevices';
+
+type PropertyValue = string | number | boolean | undefined;
+
+export interface PropertyChange {
+  field: string;
+  label: string;
+  from: PropertyValue;
+  to: PropertyValue;
+}
+
+export type BuildingChangeStatus = 'added' | 'removed' | 'modified';
+
+export interface BuildingDiff {
+  buildingId: string;
+  name?: string;
+  status: BuildingChangeStatus;
+  changes: PropertyChange[]; // Only filled for modified buildings
+}
+
+export interface MetricDelta {
+  key: keyof DesignMetrics;
+  label: string;
+  unit: string;
+  from: number;
+  to: number;
+  delta: number;
+  improved: boolean;
+}
+
+export interface DesignNodeDiff {
+  fromNodeId: string;
+  toNodeId: string;
+  buildings: BuildingDiff[];
+  metrics: MetricDelta[];
+}
+
+const FOOTPRINT_TOLERANCE = 0.01; // m
+
+// Building properties compared between nodes, in display order
+const COMPARED_PROPERTIES: { field: keyof BuildingSnapshot; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'floors', label: 'Floors' },
+  { field: 'floorHeight', label: 'Floor Height' },
+  { field: 'roof_type', label: 'Roof Form' },
+  { field: 'roof_pitch', label: 'Roof Pitch' },
+  { field: 'roof_ridge_direction', label: 'Ridge Direction' },
+  { field: 'window_to_wall_ratio', label: 'WWR' },
+  { field: 'window_overhang', label: 'Overhang' },
+  { field: 'window_overhang_depth', label: 'Overhang Depth' },
+  { field: 'wall_construction', label: 'Wall' },
+  { field: 'floor_construction', label: 'Floor' },
+  { field: 'roof_construction', label: 'Roof' },
+  { field: 'window_construction', label: 'Window' },
+  { field: 'structural_system', label: 'Structure' },
+  { field: 'building_program', label: 'Program' },
+  { field: 'hvac_system', label: 'HVAC' },
+  { field: 'natural_ventilation', label: 'Natural Ventilation' }
+];
+
+const isSameRing = (a: Point3D[], b: Point3D[]): boolean => {
+  if (a.length !== b.length) return false;
+  return a.every((point, i) =>
+    Math.abs(point.x - b[i].x) < FOOTPRINT_TOLERANCE &&
+    Math.abs(point.z - b[i].z) < FOOTPRINT_TOLERANCE
+  );
+};
+
+const isSameFootprint = (a: BuildingSnapshot, b: BuildingSnapshot): boolean => {
+  const aHoles = a.holes ?? [];
+  const bHoles = b.holes ?? [];
+  return isSameRing(a.points, b.points) &&
+    aHoles.length === bHoles.length &&
+    aHoles.every((hole, i) => isSameRing(hole, bHoles[i]));
+};
+
+const getPropertyChanges = (from: BuildingSnapshot, to: BuildingSnapshot): PropertyChange[] => {
+  const changes: PropertyChange[] = [];
+
+  if (!isSameFootprint(from, to)) {
+    changes.push({
+      field: 'points',
+      label: 'Footprint Area',
+      from: calculateFootprintArea(from.points, from.holes),
+      to: calculateFootprintArea(to.points, to.holes)
+    });
+  }
+
+  // Setbacks are reported by their effect on the floor area
+  if (JSON.stringify(from.setbacks ?? []) !== JSON.stringify(to.setbacks ?? [])) {
+    changes.push({
+      field: 'setbacks',
+      label: 'Stepped GFA',
+      from: calculateGrossFloorArea(from.points, from.floors, from.holes, from.setbacks),
+      to: calculateGrossFloorArea(to.points, to.floors, to.holes, to.setbacks)
+    });
+  }
+
+  // Façade glazing overrides are reported by the resulting building-wide ratio
+  if (JSON.stringify(from.window_to_wall_overrides ?? {}) !== JSON.stringify(to.window_to_wall_overrides ?? {})) {
+    changes.push({
+      field: 'window_to_wall_overrides',
+      label: 'Effective WWR',
+      from: Math.round(getEffectiveWindowToWallRatio(from) * 100) / 100,
+      to: Math.round(getEffectiveWindowToWallRatio(to) * 100) / 100
+    });
+  }
+
+  // Sill and head heights, ribbon windows and ground-floor glazing are reported by the glazing they lay out
+  if (
+    JSON.stringify(from.window_layout ?? {}) !== JSON.stringify(to.window_layout ?? {}) ||
+    JSON.stringify(from.ground_floor_glazing ?? null) !== JSON.stringify(to.ground_floor_glazing ?? null)
+  ) {
+    changes.push({
+      field: 'window_layout',
+      label: 'Achieved WWR',
+      from: Math.round(getAchievedWindowToWallRatio(from) * 100) / 100,
+      to: Math.round(getAchievedWindowToWallRatio(to) * 100) / 100
+    });
+  }
+
+  // Fins and louvres are reported by the share of solar gain they let through
+  if (JSON.stringify(from.shading_devices ?? {}) !== JSON.stringify(to.shading_devices ?? {})) {
+    changes.push({
+      field: 'shading_devices',
+      label: 'Solar Shading Factor',
+      from: Math.round(getSolarShadingFactor(from) * 100) / 100,
+      to: Math.round(getSolarShadingFactor(to) * 100) / 100
+    });
+  }
+
+  // Balconies are reported by their total slab area
+  if (JSON.stringify(from.balconies ?? null) !== JSON.stringify(to.balconies ?? null)) {
+    changes.push({
+      field: 'balconies',
+      label: 'Balcony area',
+      from: Math.round(getBalconyArea(from)),
+      to: Math.round(getBalconyArea(to))
+    });
+  }
+
+  COMPARED_PROPERTIES.forEach(({ field, label }) => {
+    const fromValue = from[field] as PropertyValue;
+    const toValue = to[field] as PropertyValue;
+    if (fromValue !== toValue) {
+      changes.push({ field, label, from: fromValue, to: toValue });
+    }
+  });
+
+  return changes;
+};
+
+/**
+ * Compare two design nodes. Buildings are matched by ID; unchanged buildings
+ * are left out. Metric deltas are `to - from`.
+ */
+export function diffDesignNodes(from: DesignNode, to: DesignNode): DesignNodeDiff {
+  const fromBuildings = new Map(from.buildings.map(b => [b.id, b]));
+  const toBuildings = new Map(to.buildings.map(b => [b.id, b]));
+  const buildings: BuildingDiff[] = [];
+
+  to.buildings.forEach(building => {
+    const previous = fromBuildings.get(building.id);
+    if (!previous) {
+      buildings.push({ buildingId: building.id, name: building.name, status: 'added', changes: [] });
+      return;
+    }
+
+    const changes = getPropertyChanges(previous, building);
+    if (changes.length > 0) {
+      buildings.push({ buildingId: building.id, name: building.name, status: 'modified', changes });
+    }
+  });
+
+  from.buildings.forEach(building => {
+    if (!toBuildings.has(building.id)) {
+      buildings.push({ buildingId: building.id, name: building.name, status: 'removed', changes: [] });
+    }
+  });
+
+  const metrics: MetricDelta[] = designMetrics.map(({ key, label, unit, goal }) => {
+    const delta = to.metrics[key] - from.metrics[key];
+    return {
+      key,
+      label,
+      unit,
+      from: from.metrics[key],
+      to: to.metrics[key],
+      delta,
+      improved: goal === 'minimize' ? delta < 0 : delta > 0
+    };
+  });
+
+  return { fromNodeId: from.id, toNodeId: to.id, buildings, metrics };
+}
@@ -1,5 +1,8 @@
 import { DesignNode, DesignExplorationGraph, DesignMetrics } from '../types/designExploration';
-import { BuildingData } from '../types/building';
+import { BuildingData, BuildingSnapshot, createBuildingSnapshot } from '../types/building';
+import type { EPWProcessedData } from './EPWParser';
+import { evaluateDesignMetrics } from './DesignMetricsEvaluator';
+import { DesignGraphStorage } from './DesignGraphStorage';
 
 class DesignExplorationService {
   private graph: DesignExplorationGraph = {
@@ -9,10 +12,56 @@ class DesignExplorationService {
   };
 
   private listeners: Array<(graph: DesignExplorationGraph) => void> = [];
+  private weatherData: EPWProcessedData | null = null;
+  private restored: Promise<void>;
+  private nodeCounter = 0;
+  private batchDepth = 0;
 
   constructor() {
-    // Don't load from storage - start fresh each session
     this.createBaselineNode();
+    this.restored = this.restoreFromStorage();
+  }
+
+  // Load the persisted project, keeping any nodes saved before loading finished
+  private async restoreFromStorage() {
+    const storedGraph = await DesignGraphStorage.load();
+    if (!storedGraph || storedGraph.nodes.length === 0) return;
+
+    const sessionNodes = this.graph.nodes.filter(n => n.id !== 'baseline');
+    const storedIds = new Set(storedGraph.nodes.map(n => n.id));
+
+    this.graph = {
+      nodes: [...storedGraph.nodes, ...sessionNodes.filter(n => !storedIds.has(n.id))],
+      edges: [...storedGraph.edges, ...this.graph.edges.filter(e => !storedIds.has(e.to))],
+      currentNodeId: sessionNodes.length > 0 ? this.graph.currentNodeId : storedGraph.currentNodeId
+    };
+
+    if (sessionNodes.length > 0) this.persist();
+    this.notifyListeners();
+  }
+
+  // Resolves once the persisted project has been loaded
+  whenRestored(): Promise<void> {
+    return this.restored;
+  }
+
+  private persist() {
+    if (this.batchDepth > 0) return;
+    void DesignGraphStorage.save(this.graph);
+  }
+
+  // Apply several graph changes with a single persist and listener notification
+  runBatch(callback: () => void) {
+    this.batchDepth++;
+    try {
+      callback();
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0) {
+        this.persist();
+        this.notifyListeners();
+      }
+    }
   }
 
   // Create the initial baseline node
@@ -23,35 +72,35 @@ class DesignExplorationService {
         timestamp: new Date(),
         name: 'Baseline',
         buildings: [],
-        metrics: this.generateDummyMetrics(),
+        metrics: this.evaluateMetrics([]),
         position: { x: 0, y: 0 }
       };
       this.graph.nodes.push(baselineNode);
       this.graph.currentNodeId = 'baseline';
-      // Don't persist to storage - graph resets on page reload
     }
   }
 
-  // Generate dummy metrics for demonstration (replace with real calculations)
-  private generateDummyMetrics(): DesignMetrics {
-    return {
-      heatingDemand: Math.round((Math.random() * 50 + 20) * 100) / 100, // 20-70 kWh/m²/year
-      spatialDaylightAutonomy: Math.round((Math.random() * 40 + 40) * 100) / 100, // 40-80%
-      globalWarmingPotential: Math.round((Math.random() * 200 + 100) * 100) / 100 // 100-300 kg CO2 eq/m²
-    };
+  // Evaluate performance metrics for a set of buildings, using the loaded weather file when available
+  private evaluateMetrics(buildings: BuildingSnapshot[]): DesignMetrics {
+    return evaluateDesignMetrics(buildings, this.weatherData);
   }
 
-  // Save current configuration as a new node
-  saveConfiguration(buildings: BuildingData[], name?: string): DesignNode {
-    const nodeId = `node_${Date.now()}`;
-    const parentId = this.graph.currentNodeId;
+  // Save current configuration as a new node, by default as a child of the current node that becomes current.
+  // Metrics already evaluated elsewhere (e.g. by the optimiser worker) can be passed in to skip evaluation.
+  saveConfiguration(
+    buildings: (BuildingData | BuildingSnapshot)[],
+    name?: string,
+    options: { parentId?: string; makeCurrent?: boolean; metrics?: DesignMetrics } = {}
+  ): DesignNode {
+    const nodeId = `node_${Date.now()}_${++this.nodeCounter}`;
+    const parentId = options.parentId ?? this.graph.currentNodeId;
     
     const newNode: DesignNode = {
       id: nodeId,
       timestamp: new Date(),
       name: name || `Design ${this.graph.nodes.length}`,
       buildings: this.cloneBuildings(buildings),
-      metrics: this.generateDummyMetrics(),
+      metrics: options.metrics ?? this.evaluateMetrics(buildings),
       parentId: parentId,
       position: this.calculateNodePosition(parentId)
     };
@@ -62,8 +111,10 @@ class DesignExplorationService {
       this.graph.edges.push({ from: parentId, to: nodeId });
     }
 
-    this.graph.currentNodeId = nodeId;
-    // Don't persist to storage - graph resets on page reload
+    if (options.makeCurrent ?? true) {
+      this.graph.currentNodeId = nodeId;
+    }
+    this.persist();
     this.notifyListeners();
     
     return newNode;
@@ -87,14 +138,9 @@ class DesignExplorationService {
     };
   }
 
-  // Clone buildings data (without Three.js objects)
-  private cloneBuildings(buildings: BuildingData[]): BuildingData[] {
-    return buildings.map(building => ({
-      ...building,
-      mesh: building.mesh, // Keep reference for now, might need to serialize differently
-      footprintOutline: building.footprintOutline,
-      floorLines: building.floorLines
-    }));
+  // Snapshot buildings data (without Three.js objects)
+  private cloneBuildings(buildings: (BuildingData | BuildingSnapshot)[]): BuildingSnapshot[] {
+    return buildings.map(createBuildingSnapshot);
   }
 
   // Reinstate a configuration
@@ -103,12 +149,28 @@ class DesignExplorationService {
     if (!node) return null;
 
     this.graph.currentNodeId = nodeId;
-    // Don't persist to storage - graph resets on page reload
+    this.persist();
     this.notifyListeners();
     
     return node;
   }
 
+  // Use the loaded weather file for metrics and re-evaluate all saved nodes
+  setWeatherData(weatherData: EPWProcessedData | null) {
+    this.weatherData = weatherData;
+    this.graph.nodes = this.graph.nodes.map(node => ({
+      ...node,
+      metrics: this.evaluateMetrics(node.buildings)
+    }));
+    this.persist();
+    this.notifyListeners();
+  }
+
+  // Weather file the metrics are currently evaluated against
+  getWeatherData(): EPWProcessedData | null {
+    return this.weatherData;
+  }
+
   // Get current graph
   getGraph(): DesignExplorationGraph {
     return { ...this.graph };
@@ -132,6 +194,7 @@ class DesignExplorationService {
 
   // Notify all listeners
   private notifyListeners() {
+    if (this.batchDepth > 0) return;
     this.listeners.forEach(callback => callback(this.getGraph()));
   }
 }
@@ -0,0 +1,126 @@
+import { DesignExplorationGraph } from '../types/designExploration';
+import { createBuildingSnapshot } from '../types/building';
+
+interface StoredProject {
+  id: string;
+  schemaVersion: number;
+  savedAt: number;
+  graph: DesignExplorationGraph;
+}
+
+// Upgrades a stored graph from the keyed schema version to the next one
+type GraphMigration = (graph: DesignExplorationGraph) => DesignExplorationGraph;
+
+/**
+ * Persists the design exploration graph in IndexedDB.
+ * Records carry a schema version so older projects can be migrated on load.
+ */
+export class DesignGraphStorage {
+  private static readonly DB_NAME = 'design-exploration';
+  private static readonly DB_VERSION = 1;
+  private static readonly STORE_NAME = 'projects';
+  private static readonly CURRENT_PROJECT_ID = 'current';
+
+  static readonly SCHEMA_VERSION = 1;
+
+  private static readonly MIGRATIONS: Record<number, GraphMigration> = {};
+
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
+  private static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private static openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(this.STORE_NAME)) {
+            db.createObjectStore(this.STORE_NAME, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // Bring a stored graph up to the current schema, or null if it cannot be read
+  private static migrate(record: StoredProject): DesignExplorationGraph | null {
+    if (record.schemaVersion > this.SCHEMA_VERSION) {
+      console.warn(`Stored design graph uses newer schema v${record.schemaVersion}, ignoring it`);
+      return null;
+    }
+
+    let graph = record.graph;
+    for (let version = record.schemaVersion; version < this.SCHEMA_VERSION; version++) {
+      const migration = this.MIGRATIONS[version];
+      if (!migration) {
+        console.warn(`No migration from design graph schema v${version}, ignoring stored graph`);
+        return null;
+      }
+      graph = migration(graph);
+    }
+
+    return {
+      ...graph,
+      nodes: graph.nodes.map(node => ({
+        ...node,
+        timestamp: new Date(node.timestamp),
+        buildings: node.buildings.map(createBuildingSnapshot)
+      }))
+    };
+  }
+
+  // Load the current project, resolving to null when nothing has been saved
+  static async load(): Promise<DesignExplorationGraph | null> {
+    if (!this.isAvailable()) return null;
+
+    try {
+      const db = await this.openDatabase();
+      const record = await new Promise<StoredProject | undefined>((resolve, reject) => {
+        const request = db
+          .transaction(this.STORE_NAME, 'readonly')
+          .objectStore(this.STORE_NAME)
+          .get(this.CURRENT_PROJECT_ID);
+        request.onsuccess = () => resolve(request.result as StoredProject | undefined);
+        request.onerror = () => reject(request.error);
+      });
+
+      return record ? this.migrate(record) : null;
+    } catch (error) {
+      console.warn('Failed to load design graph:', error);
+      return null;
+    }
+  }
+
+  static async save(graph: DesignExplorationGraph): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    const record: StoredProject = {
+      id: this.CURRENT_PROJECT_ID,
+      schemaVersion: this.SCHEMA_VERSION,
+      savedAt: Date.now(),
+      graph
+    };
+
+    try {
+      const db = await this.openDatabase();
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(this.STORE_NAME, 'readwrite');
+        transaction.objectStore(this.STORE_NAME).put(record);
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    } catch (error) {
+      console.warn('Failed to save design graph:', error);
+    }
+  }
+}
@@ -0,0 +1,30 @@
+// Evaluates the design exploration metrics for a set of buildings
+import { DesignMetrics } from '../types/designExploration';
+import type { BuildingSnapshot } from '../types/building';
+import type { EPWProcessedData } from './EPWParser';
+import { calculateHeatingDemand } from './HeatingDemandCalculator';
+import { calculateEmbodiedCarbon } from './EmbodiedCarbonCalculator';
+import { calculateDaylightAutonomy } from './DaylightAutonomyCalculator';
+
+export type MetricsWeatherData = Pick<EPWProcessedData, 'header' | 'hourlyData'>;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Heating demand, daylight autonomy and embodied carbon, rounded to two
+ * decimals. Falls back to the calculators' reference climate without weather data.
+ */
+export function evaluateDesignMetrics(
+  buildings: BuildingSnapshot[],
+  weatherData?: MetricsWeatherData | null
+): DesignMetrics {
+  const heating = calculateHeatingDemand(buildings, weatherData?.hourlyData);
+  const daylight = calculateDaylightAutonomy(buildings, weatherData);
+  const carbon = calculateEmbodiedCarbon(buildings);
+
+  return {
+    heatingDemand: round(heating.heatingDemand),
+    spatialDaylightAutonomy: round(daylight.spatialDaylightAutonomy),
+    globalWarmingPotential: round(carbon.globalWarmingPotential)
+  };
+}
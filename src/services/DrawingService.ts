@@ -4,6 +4,14 @@ import { LineMaterial } from 'three/examples/jsm/lines/LineMaterial.js';
 import { LineGeometry } from 'three/examples/jsm/lines/LineGeometry.js';
 import { Point3D } from '../types/building';
 import { getThemeColorAsHex } from '../utils/themeColors';
+import { ObjectSnapType } from '../utils/objectSnap';
+
+// Ring segments per snap type: square for vertices, triangle for midpoints, circle for edges
+const SNAP_INDICATOR_SHAPES: Record<ObjectSnapType, { segments: number; thetaStart: number }> = {
+  vertex: { segments: 4, thetaStart: Math.PI / 4 },
+  midpoint: { segments: 3, thetaStart: Math.PI / 2 },
+  edge: { segments: 24, thetaStart: 0 }
+};
 
 export class DrawingService {
   private scene: THREE.Scene;
@@ -19,6 +27,7 @@ export class DrawingService {
   private static snapMaterial: THREE.MeshBasicMaterial | null = null;
   private static lineMaterial: LineMaterial | null = null;
   private static previewLineMaterial: LineMaterial | null = null;
+  private static guideLineMaterial: LineMaterial | null = null;
   
   // Add preview state tracking
   private previewState = {
@@ -40,6 +49,9 @@ export class DrawingService {
     if (DrawingService.previewLineMaterial) {
       DrawingService.previewLineMaterial.resolution.set(width, height);
     }
+    if (DrawingService.guideLineMaterial) {
+      DrawingService.guideLineMaterial.resolution.set(width, height);
+    }
   }
 
   private initializeSharedResources(): void {
@@ -89,6 +101,18 @@ export class DrawingService {
       });
       // Set initial resolution (will be updated when canvas size is known)
       DrawingService.previewLineMaterial.resolution.set(1920, 1080);
+
+      DrawingService.guideLineMaterial = new LineMaterial({
+        color: getThemeColorAsHex('--color-drawing-guide', 0x38bdf8),
+        linewidth: 1.5,
+        transparent: true,
+        opacity: 0.8,
+        dashed: true,
+        dashScale: 1.0,
+        dashSize: 0.6,
+        gapSize: 0.4
+      });
+      DrawingService.guideLineMaterial.resolution.set(1920, 1080);
     }
   }
 
@@ -269,6 +293,97 @@ export class DrawingService {
     return line;
   }
 
+  // Dashed construction line showing an angle lock or an inferred alignment
+  createGuideLine(from: Point3D, to: Point3D): Line2 {
+    const geometry = new LineGeometry();
+    geometry.setPositions([from.x, 0.6, from.z, to.x, 0.6, to.z]);
+
+    const line = new Line2(geometry, DrawingService.guideLineMaterial!);
+    line.computeLineDistances();
+    line.userData = {
+      isDrawingElement: true,
+      isGuideLine: true,
+      type: 'footprint',
+      isFootprintPreview: true
+    };
+    line.renderOrder = 40;
+    line.frustumCulled = false;
+
+    this.scene.add(line);
+    return line;
+  }
+
+  updateGuideLine(line: Line2, from: Point3D, to: Point3D): void {
+    (line.geometry as LineGeometry).setPositions([from.x, 0.6, from.z, to.x, 0.6, to.z]);
+    line.computeLineDistances();
+  }
+
+  clearGuideLine(line: Line2): void {
+    this.scene.remove(line);
+    line.geometry.dispose(); // Material is shared
+  }
+
+  // Flat outline around the snapped point; its shape tells the snap type apart
+  createObjectSnapIndicator(position: Point3D, type: ObjectSnapType): THREE.Mesh {
+    const { segments, thetaStart } = SNAP_INDICATOR_SHAPES[type];
+    const geometry = new THREE.RingGeometry(0.45, 0.6, segments, 1, thetaStart);
+    geometry.rotateX(-Math.PI / 2);
+
+    const material = new THREE.MeshBasicMaterial({
+      color: getThemeColorAsHex('--color-drawing-object-snap', 0xf472b6),
+      side: THREE.DoubleSide,
+      depthTest: false,
+      transparent: true
+    });
+
+    const indicator = new THREE.Mesh(geometry, material);
+    indicator.position.set(position.x, 0.35, position.z);
+    indicator.userData = {
+      isDrawingElement: true,
+      isSnapIndicator: true,
+      snapType: type,
+      type: 'footprint',
+      isFootprintPreview: true
+    };
+    indicator.renderOrder = 150;
+    indicator.frustumCulled = false;
+
+    this.scene.add(indicator);
+    return indicator;
+  }
+
+  updateObjectSnapIndicator(indicator: THREE.Mesh, position: Point3D): void {
+    indicator.position.set(position.x, 0.35, position.z);
+  }
+
+  // Ring marking where footprint validation found a problem
+  createIssueMarker(position: Point3D, severity: 'error' | 'warning'): THREE.Mesh {
+    const geometry = new THREE.RingGeometry(0.7, 0.95, 32);
+    geometry.rotateX(-Math.PI / 2);
+
+    const material = new THREE.MeshBasicMaterial({
+      color: getThemeColorAsHex('--color-drawing-issue', 0xf87171),
+      side: THREE.DoubleSide,
+      depthTest: false,
+      transparent: true,
+      opacity: severity === 'error' ? 1 : 0.6
+    });
+
+    const marker = new THREE.Mesh(geometry, material);
+    marker.position.set(position.x, 0.4, position.z);
+    marker.userData = {
+      isDrawingElement: true,
+      isIssueMarker: true,
+      type: 'footprint',
+      isFootprintPreview: true
+    };
+    marker.renderOrder = 160;
+    marker.frustumCulled = false;
+
+    this.scene.add(marker);
+    return marker;
+  }
+
   clearMarkers(markers: THREE.Mesh[]): void {
     markers.forEach(marker => {
       this.scene.remove(marker);
@@ -385,7 +500,8 @@ export class DrawingService {
             obj.material !== DrawingService.previewMaterial &&
             obj.material !== DrawingService.snapMaterial &&
             obj.material !== DrawingService.lineMaterial &&
-            obj.material !== DrawingService.previewLineMaterial) {
+            obj.material !== DrawingService.previewLineMaterial &&
+            obj.material !== DrawingService.guideLineMaterial) {
           (obj.material as THREE.Material).dispose();
         }
       }
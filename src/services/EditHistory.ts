@@ -0,0 +1,135 @@
+// Command history for undo/redo of building edits
+import { BuildingSnapshot } from '../types/building';
+
+export type EditCommandType = 'add' | 'update' | 'delete' | 'clear' | 'import';
+
+export interface EditCommand {
+  id: number;
+  type: EditCommandType;
+  label: string;
+  timestamp: Date;
+  buildingIds: string[];          // Buildings the command touched
+  snapshots: BuildingSnapshot[];  // State of those buildings on the other side of the command
+}
+
+export const HISTORY_LIMIT = 100;
+
+/**
+ * Replace the given buildings in a scene with their snapshots. Buildings with
+ * no snapshot are removed, snapshots of buildings not in the scene are appended.
+ */
+export const applyBuildingSnapshots = (
+  scene: BuildingSnapshot[],
+  buildingIds: string[],
+  snapshots: BuildingSnapshot[]
+): BuildingSnapshot[] => {
+  const affected = new Set(buildingIds);
+  const replacements = new Map(snapshots.map(snapshot => [snapshot.id, snapshot]));
+  const sceneIds = new Set(scene.map(building => building.id));
+
+  return [
+    ...scene
+      .filter(building => !affected.has(building.id) || replacements.has(building.id))
+      .map(building => replacements.get(building.id) ?? building),
+    ...snapshots.filter(snapshot => !sceneIds.has(snapshot.id))
+  ];
+};
+
+/**
+ * Linear undo stack. Commands store the "before" state of the buildings they
+ * touched; undoing swaps it with the current state so the same command can be redone.
+ */
+export class EditHistory {
+  private commands: EditCommand[] = [];
+  private cursor = 0; // Number of commands currently applied
+  private commandCounter = 0;
+  private lastMergeKey: string | null = null; // Consecutive commands with the same key become one
+
+  constructor(private limit = HISTORY_LIMIT) {}
+
+  record(
+    type: EditCommandType,
+    label: string,
+    buildingIds: string[],
+    before: BuildingSnapshot[],
+    mergeKey?: string
+  ) {
+    // Live previews fire many updates in a row; keep the state from before the first one
+    if (mergeKey && mergeKey === this.lastMergeKey && this.cursor === this.commands.length) {
+      return;
+    }
+
+    // A new command discards anything that was undone
+    this.commands = this.commands.slice(0, this.cursor);
+    this.commands.push({
+      id: ++this.commandCounter,
+      type,
+      label,
+      timestamp: new Date(),
+      buildingIds: [...buildingIds],
+      snapshots: before.filter(snapshot => buildingIds.includes(snapshot.id))
+    });
+
+    if (this.commands.length > this.limit) {
+      this.commands = this.commands.slice(this.commands.length - this.limit);
+    }
+    this.cursor = this.commands.length;
+    this.lastMergeKey = mergeKey ?? null;
+  }
+
+  canUndo(): boolean {
+    return this.cursor > 0;
+  }
+
+  canRedo(): boolean {
+    return this.cursor < this.commands.length;
+  }
+
+  // Scene state after undoing the latest command, or null when there is nothing to undo
+  undo(scene: BuildingSnapshot[]): BuildingSnapshot[] | null {
+    if (!this.canUndo()) return null;
+    this.cursor--;
+    return this.swap(this.commands[this.cursor], scene);
+  }
+
+  // Scene state after redoing the next command, or null when there is nothing to redo
+  redo(scene: BuildingSnapshot[]): BuildingSnapshot[] | null {
+    if (!this.canRedo()) return null;
+    const command = this.commands[this.cursor];
+    this.cursor++;
+    return this.swap(command, scene);
+  }
+
+  // Undo or redo until `cursor` commands are applied
+  goTo(cursor: number, scene: BuildingSnapshot[]): BuildingSnapshot[] | null {
+    const target = Math.max(0, Math.min(this.commands.length, cursor));
+    if (target === this.cursor) return null;
+
+    let result = scene;
+    while (this.cursor > target) result = this.undo(result)!;
+    while (this.cursor < target) result = this.redo(result)!;
+    return result;
+  }
+
+  clear() {
+    this.commands = [];
+    this.cursor = 0;
+    this.lastMergeKey = null;
+  }
+
+  getCommands(): EditCommand[] {
+    return [...this.commands];
+  }
+
+  getCursor(): number {
+    return this.cursor;
+  }
+
+  private swap(command: EditCommand, scene: BuildingSnapshot[]): BuildingSnapshot[] {
+    const current = scene.filter(building => command.buildingIds.includes(building.id));
+    const result = applyBuildingSnapshots(scene, command.buildingIds, command.snapshots);
+    command.snapshots = current;
+    this.lastMergeKey = null;
+    return result;
+  }
+}
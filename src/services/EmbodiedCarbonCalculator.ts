@@ -0,0 +1,131 @@
+// Embodied carbon (GWP, modules A1–A3) from envelope areas and construction choices
+import { BuildingData } from '../types/building';
+import { calculateEnvelopeAreas } from '../utils/geometry';
+import { getEffectiveWindowToWallRatio } from './FacadeGlazing';
+import { BALCONY_CO2, getBalconyArea } from './Balconies';
+import {
+  wallOptions,
+  floorOptions,
+  roofOptions,
+  windowOptions,
+  structuralOptions,
+  findConstruction
+} from '../data/constructions';
+
+export type EmbodiedCarbonInput = Pick<
+  BuildingData,
+  | 'id'
+  | 'name'
+  | 'points'
+  | 'holes'
+  | 'setbacks'
+  | 'floors'
+  | 'floorHeight'
+  | 'window_to_wall_ratio'
+  | 'window_to_wall_overrides'
+  | 'ground_floor_glazing'
+  | 'window_layout'
+  | 'balconies'
+  | 'wall_construction'
+  | 'floor_construction'
+  | 'roof_construction'
+  | 'window_construction'
+  | 'structural_system'
+>;
+
+export type EmbodiedCarbonElement = 'walls' | 'glazing' | 'roof' | 'groundFloor' | 'structure' | 'balconies';
+
+// kg CO₂e per element
+export type EmbodiedCarbonBreakdown = Record<EmbodiedCarbonElement, number>;
+
+export interface BuildingEmbodiedCarbon {
+  buildingId: string;
+  name?: string;
+  grossFloorArea: number;          // m²
+  breakdown: EmbodiedCarbonBreakdown;
+  totalEmbodiedCarbon: number;     // kg CO₂e
+  globalWarmingPotential: number;  // kg CO₂e/m²
+}
+
+export interface EmbodiedCarbonResult {
+  buildings: BuildingEmbodiedCarbon[];
+  breakdown: EmbodiedCarbonBreakdown;
+  totalGrossFloorArea: number;
+  totalEmbodiedCarbon: number;
+  globalWarmingPotential: number;  // kg CO₂e/m² for the whole scheme
+}
+
+// Display order and labels for charts
+export const EMBODIED_CARBON_ELEMENTS: { key: EmbodiedCarbonElement; label: string }[] = [
+  { key: 'walls', label: 'Walls' },
+  { key: 'glazing', label: 'Glazing' },
+  { key: 'roof', label: 'Roof' },
+  { key: 'groundFloor', label: 'Ground Floor' },
+  { key: 'structure', label: 'Structure' },
+  { key: 'balconies', label: 'Balconies' }
+];
+
+const createEmptyBreakdown = (): EmbodiedCarbonBreakdown => ({
+  walls: 0,
+  glazing: 0,
+  roof: 0,
+  groundFloor: 0,
+  structure: 0,
+  balconies: 0
+});
+
+function calculateBuildingEmbodiedCarbon(building: EmbodiedCarbonInput): BuildingEmbodiedCarbon {
+  const wwr = getEffectiveWindowToWallRatio(building);
+  const { footprintArea, grossFloorArea, windowArea, opaqueWallArea } =
+    calculateEnvelopeAreas(building.points, building.floors, building.floorHeight, wwr, building.holes, building.setbacks);
+
+  const breakdown: EmbodiedCarbonBreakdown = {
+    walls: findConstruction(wallOptions, building.wall_construction).co2 * opaqueWallArea,
+    glazing: findConstruction(windowOptions, building.window_construction).co2 * windowArea,
+    roof: findConstruction(roofOptions, building.roof_construction).co2 * footprintArea,
+    groundFloor: findConstruction(floorOptions, building.floor_construction).co2 * footprintArea,
+    structure: findConstruction(structuralOptions, building.structural_system).co2 * grossFloorArea,
+    balconies: building.balconies?.include_in_gwp ? BALCONY_CO2 * getBalconyArea(building) : 0
+  };
+
+  const totalEmbodiedCarbon = Object.values(breakdown).reduce((sum, value) => sum + value, 0);
+
+  return {
+    buildingId: building.id,
+    name: building.name,
+    grossFloorArea,
+    breakdown,
+    totalEmbodiedCarbon,
+    globalWarmingPotential: grossFloorArea > 0 ? totalEmbodiedCarbon / grossFloorArea : 0
+  };
+}
+
+/**
+ * Estimate embodied carbon for each building and for the whole scheme.
+ * Element areas are multiplied by the carbon factor of the chosen assembly;
+ * the structural system is charged per m² of gross floor area. Balconies
+ * count only on buildings that opt them in.
+ */
+export function calculateEmbodiedCarbon(buildings: EmbodiedCarbonInput[]): EmbodiedCarbonResult {
+  const results = buildings
+    .filter(building => building.points && building.points.length >= 3)
+    .map(building => calculateBuildingEmbodiedCarbon(building));
+
+  const breakdown = createEmptyBreakdown();
+  results.forEach(result => {
+    EMBODIED_CARBON_ELEMENTS.forEach(({ key }) => {
+      breakdown[key] += result.breakdown[key];
+    });
+  });
+
+  const totalGrossFloorArea = results.reduce((sum, result) => sum + result.grossFloorArea, 0);
+  const totalEmbodiedCarbon = results.reduce((sum, result) => sum + result.totalEmbodiedCarbon, 0);
+
+  return {
+    buildings: results,
+    breakdown,
+    totalGrossFloorArea,
+    totalEmbodiedCarbon,
+    globalWarmingPotential: totalGrossFloorArea > 0 ? totalEmbodiedCarbon / totalGrossFloorArea : 0
+  };
+}
@@ -0,0 +1,166 @@
+// Resolves the window-to-wall ratio of each façade from building-wide, orientation and per-edge settings
+import { BuildingSnapshot, Point3D } from '../types/building';
+import { getCompassDirection, getMassingTiers } from '../utils/geometry';
+import { solveWindowParams, WindowParametricConfig, WindowParametricResult } from './WindowParametricSolver';
+
+export const DEFAULT_WINDOW_TO_WALL_RATIO = 0.4;
+
+// Reference window the solver sizes from, matching the instanced window geometry
+export const DEFAULT_WINDOW_SIZE = { windowWidth: 1.2, windowHeight: 1.5, windowSpacing: 0.3 };
+
+export type WindowSize = typeof DEFAULT_WINDOW_SIZE;
+
+export type GlazingInput = Pick<BuildingSnapshot, 'window_to_wall_ratio' | 'window_to_wall_overrides' | 'ground_floor_glazing'>;
+
+export type WindowLayoutInput = GlazingInput &
+  Pick<BuildingSnapshot, 'points' | 'holes' | 'setbacks' | 'floors' | 'floorHeight' | 'window_layout'>;
+
+export interface Facade {
+  start: Point3D;
+  end: Point3D;
+  length: number;      // m
+  azimuth: number;     // Outward normal, degrees clockwise from north
+  edgeIndex?: number;  // Outer footprint edge; unset for courtyard façades
+  firstFloor: number;  // Lowest floor of the setback tier the façade belongs to
+  floors: number;
+}
+
+/**
+ * Every wall of a building: the outer ring and courtyard rings of each setback
+ * tier. Tier rings keep the footprint's edge order, so an outer façade carries
+ * the index of the footprint edge it was set back from.
+ */
+export const getFacades = (
+  building: Pick<BuildingSnapshot, 'points' | 'holes' | 'setbacks' | 'floors'>
+): Facade[] => getMassingTiers(building.points, building.floors ?? 1, building.holes, building.setbacks).flatMap(tier =>
+  [tier.points, ...tier.holes].flatMap((ring, ringIndex) =>
+    ring.map((start, i) => {
+      const end = ring[(i + 1) % ring.length];
+      const dx = end.x - start.x;
+      const dz = end.z - start.z;
+      // Outer rings wind counter-clockwise and courtyards clockwise, so (-dz, dx) always faces out of the building
+      const azimuth = ((Math.atan2(-dz, -dx) * 180) / Math.PI + 360) % 360;
+      return {
+        start,
+        end,
+        length: Math.hypot(dx, dz),
+        azimuth,
+        edgeIndex: ringIndex === 0 ? i : undefined,
+        firstFloor: tier.fromFloor,
+        floors: tier.floors
+      };
+    })
+  )
+);
+
+/**
+ * Window-to-wall ratio of one façade: its edge override, else the override for
+ * the orientation it faces, else the building-wide ratio.
+ */
+export const resolveWindowToWallRatio = (building: GlazingInput, azimuth: number, edgeIndex?: number): number => {
+  const overrides = building.window_to_wall_overrides;
+  const edgeOverride = edgeIndex !== undefined ? overrides?.edges?.[edgeIndex] : undefined;
+  return edgeOverride
+    ?? overrides?.orientations?.[getCompassDirection(azimuth)]
+    ?? building.window_to_wall_ratio
+    ?? DEFAULT_WINDOW_TO_WALL_RATIO;
+};
+
+/**
+ * Façade-area weighted window-to-wall ratio over the whole building, for
+ * envelope totals that only take a single ratio.
+ */
+export const getEffectiveWindowToWallRatio = (
+  building: GlazingInput & Pick<BuildingSnapshot, 'points' | 'holes' | 'setbacks' | 'floors'>
+): number => {
+  let wallLength = 0;
+  let glazedLength = 0;
+  const groundFloorWwr = building.ground_floor_glazing?.window_to_wall_ratio;
+  getFacades(building).forEach(facade => {
+    const weight = facade.length * facade.floors;
+    const wwr = resolveWindowToWallRatio(building, facade.azimuth, facade.edgeIndex);
+    wallLength += weight;
+    glazedLength += weight * wwr;
+    if (groundFloorWwr !== undefined && facade.firstFloor === 0) {
+      glazedLength += facade.length * (groundFloorWwr - wwr);
+    }
+  });
+  return wallLength > 0
+    ? glazedLength / wallLength
+    : building.window_to_wall_ratio ?? DEFAULT_WINDOW_TO_WALL_RATIO;
+};
+
+/**
+ * Solver settings for one storey of a façade. The ground floor takes its own
+ * glazing when the building has one, and its own ratio when that is set.
+ */
+export const getWindowSolverConfig = (
+  building: Pick<BuildingSnapshot, 'floorHeight' | 'window_layout' | 'ground_floor_glazing'>,
+  edgeLength: number,
+  wwr: number,
+  groundFloor: boolean,
+  size: WindowSize = DEFAULT_WINDOW_SIZE
+): WindowParametricConfig => {
+  const ground = groundFloor ? building.ground_floor_glazing : undefined;
+  const layout = ground ?? building.window_layout ?? {};
+  return {
+    edgeLength,
+    windowWidth: size.windowWidth,
+    windowHeight: size.windowHeight,
+    windowSpacing: size.windowSpacing,
+    wwr: ground?.window_to_wall_ratio ?? wwr,
+    floorHeight: building.floorHeight ?? 3,
+    sillHeight: layout.sill_height,
+    headHeight: layout.head_height,
+    mode: layout.mode
+  };
+};
+
+export interface FacadeWindowRun {
+  facade: Facade;
+  firstFloor: number;
+  floors: number;
+  targetWwr: number;
+  layout: WindowParametricResult | null; // No windows: unglazed or too short
+}
+
+/**
+ * Solved windows of every façade, one run per group of storeys sharing a
+ * layout. The ground floor is split off when it has its own glazing.
+ */
+export const getFacadeWindowRuns = (building: WindowLayoutInput, size: WindowSize = DEFAULT_WINDOW_SIZE): FacadeWindowRun[] =>
+  getFacades(building).flatMap(facade => {
+    const wwr = resolveWindowToWallRatio(building, facade.azimuth, facade.edgeIndex);
+    const solve = (groundFloor: boolean) => {
+      const config = getWindowSolverConfig(building, facade.length, wwr, groundFloor, size);
+      return {
+        targetWwr: config.wwr,
+        layout: facade.length < size.windowWidth * 0.5 ? null : solveWindowParams(config)
+      };
+    };
+
+    if (!building.ground_floor_glazing || facade.firstFloor > 0) {
+      return [{ facade, firstFloor: facade.firstFloor, floors: facade.floors, ...solve(false) }];
+    }
+    const runs: FacadeWindowRun[] = [{ facade, firstFloor: 0, floors: 1, ...solve(true) }];
+    if (facade.floors > 1) {
+      runs.push({ facade, firstFloor: 1, floors: facade.floors - 1, ...solve(false) });
+    }
+    return runs;
+  });
+
+/**
+ * Glazed share of all façades once the windows are laid out, which can fall
+ * short of the targets when sill and head heights limit the window height.
+ */
+export const getAchievedWindowToWallRatio = (building: WindowLayoutInput, size: WindowSize = DEFAULT_WINDOW_SIZE): number => {
+  const floorHeight = building.floorHeight ?? 3;
+  let wallArea = 0;
+  let glazedArea = 0;
+  getFacadeWindowRuns(building, size).forEach(run => {
+    const runWallArea = run.facade.length * floorHeight * run.floors;
+    wallArea += runWallArea;
+    glazedArea += runWallArea * (run.layout?.achievedWwr ?? 0);
+  });
+  return wallArea > 0 ? glazedArea / wallArea : 0;
+};
@@ -0,0 +1,73 @@
+// Keeps settings keyed by outer footprint edge on the same walls when a vertex is added or removed
+import { BuildingSnapshot } from '../types/building';
+
+/**
+ * A vertex inserted into or removed from the outer footprint ring, at its
+ * index in the ring after the insert or before the removal.
+ */
+export interface FootprintVertexEdit {
+  type: 'insert' | 'remove';
+  index: number;
+}
+
+export type EdgeKeyedSettings = Pick<BuildingSnapshot, 'setbacks' | 'window_to_wall_overrides' | 'balconies'>;
+
+/**
+ * New indices of an edge of a ring with `edgeCount` edges after a vertex
+ * edit. A split edge maps to both halves; the two edges meeting at a removed
+ * vertex map to the one edge that replaces them.
+ */
+export const remapEdgeIndex = (edge: number, edit: FootprintVertexEdit, edgeCount: number): number[] => {
+  const { type, index } = edit;
+  if (type === 'insert') {
+    const split = (index - 1 + edgeCount) % edgeCount;
+    if (edge === split) return index === 0 ? [edgeCount, 0] : [split, split + 1];
+    return [edge >= index ? edge + 1 : edge];
+  }
+  const before = (index - 1 + edgeCount) % edgeCount;
+  if (edge === before || edge === index) return [index === 0 ? edgeCount - 2 : index - 1];
+  return [edge > index ? edge - 1 : edge];
+};
+
+const remapEdgeList = (edges: number[], edit: FootprintVertexEdit, edgeCount: number): number[] =>
+  [...new Set(edges.flatMap(edge => remapEdgeIndex(edge, edit, edgeCount)))].sort((a, b) => a - b);
+
+// Both halves of a split wall keep its value; a merged wall keeps the one of the wall before the removed vertex
+const remapEdgeRecord = <T>(record: Record<number, T>, edit: FootprintVertexEdit, edgeCount: number): Record<number, T> => {
+  const before = (edit.index - 1 + edgeCount) % edgeCount;
+  const remapped: Record<number, T> = {};
+  Object.entries(record).forEach(([key, value]) => {
+    const edge = Number(key);
+    remapEdgeIndex(edge, edit, edgeCount).forEach(newEdge => {
+      if (newEdge in remapped && edge !== before) return;
+      remapped[newEdge] = value;
+    });
+  });
+  return remapped;
+};
+
+/**
+ * Building settings that name outer edges, moved along with a vertex edit of
+ * a footprint that had `edgeCount` edges. Only the settings the building has
+ * are returned.
+ */
+export const remapEdgeSettings = (
+  building: EdgeKeyedSettings,
+  edit: FootprintVertexEdit,
+  edgeCount: number
+): Partial<EdgeKeyedSettings> => ({
+  ...(building.setbacks && {
+    setbacks: building.setbacks.map(setback => setback.edges
+      ? { ...setback, edges: remapEdgeList(setback.edges, edit, edgeCount) }
+      : setback)
+  }),
+  ...(building.window_to_wall_overrides?.edges && {
+    window_to_wall_overrides: {
+      ...building.window_to_wall_overrides,
+      edges: remapEdgeRecord(building.window_to_wall_overrides.edges, edit, edgeCount)
+    }
+  }),
+  ...(building.balconies && {
+    balconies: { ...building.balconies, edges: remapEdgeRecord(building.balconies.edges, edit, edgeCount) }
+  })
+});
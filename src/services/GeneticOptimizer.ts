@@ -0,0 +1,283 @@
+// Multi-objective genetic optimiser over building parameters (NSGA-II style)
+import type { BuildingSnapshot } from '../types/building';
+import { DesignMetrics } from '../types/designExploration';
+import { designMetrics, DesignMetricDefinition } from '../data/designMetrics';
+import { wallOptions, windowOptions } from '../data/constructions';
+import { calculateGrossFloorArea } from '../utils/geometry';
+import { dominates } from './ParetoAnalysis';
+
+export interface OptimizationGenome {
+  floorOffset: number;        // Added to each building's current floor count
+  floorHeight: number;        // m
+  windowToWallRatio: number;
+  overhangDepth: number;      // m, 0 disables the overhang
+  wallConstruction: string;
+  windowConstruction: string;
+}
+
+export interface OptimizationConstraints {
+  minGrossFloorArea?: number; // m²
+  maxHeight?: number;         // m
+}
+
+export interface OptimizationSettings {
+  objectives: (keyof DesignMetrics)[];
+  constraints: OptimizationConstraints;
+  populationSize: number;
+  generations: number;        // Generations evolved after the initial population
+  mutationRate: number;       // Per-gene probability
+}
+
+export interface OptimizationIndividual {
+  id: string;
+  generation: number;
+  parentId?: string;          // Individual most of the genome was inherited from
+  genome: OptimizationGenome;
+  buildings: BuildingSnapshot[];
+  metrics: DesignMetrics;
+  constraintViolation: number; // 0 when every constraint is met
+}
+
+export interface OptimizationGeneration {
+  index: number;
+  offspring: OptimizationIndividual[];  // Individuals created in this generation
+  population: OptimizationIndividual[]; // Survivors carried into the next generation
+}
+
+export interface OptimizationCallbacks {
+  evaluate: (buildings: BuildingSnapshot[]) => DesignMetrics;
+  onGeneration?: (generation: OptimizationGeneration) => void;
+  random?: () => number;
+}
+
+export const DEFAULT_OPTIMIZATION_SETTINGS: OptimizationSettings = {
+  objectives: ['heatingDemand', 'globalWarmingPotential'],
+  constraints: {},
+  populationSize: 12,
+  generations: 8,
+  mutationRate: 0.2
+};
+
+// Search ranges of the numeric genes
+export const GENE_BOUNDS = {
+  floorOffset: { min: -2, max: 4 },
+  floorHeight: { min: 3, max: 4.5 },
+  windowToWallRatio: { min: 0.1, max: 0.8 },
+  overhangDepth: { min: 0, max: 2 }
+};
+
+type NumericGene = keyof typeof GENE_BOUNDS;
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+const clampGene = (gene: NumericGene, value: number): number => {
+  const { min, max } = GENE_BOUNDS[gene];
+  const clamped = Math.min(max, Math.max(min, value));
+  // Keep values on the increments a designer would type in
+  if (gene === 'floorOffset') return Math.round(clamped);
+  return Math.round(roundTo(clamped, gene === 'windowToWallRatio' ? 0.01 : 0.1) * 100) / 100;
+};
+
+const pick = <T,>(values: T[], random: () => number): T => values[Math.floor(random() * values.length)];
+
+/**
+ * Apply a genome to every building of a scheme. Floors never drop below one.
+ */
+export function applyGenome(buildings: BuildingSnapshot[], genome: OptimizationGenome): BuildingSnapshot[] {
+  return buildings.map(building => ({
+    ...building,
+    points: building.points.map(p => ({ ...p })),
+    floors: Math.max(1, building.floors + genome.floorOffset),
+    floorHeight: genome.floorHeight,
+    window_to_wall_ratio: genome.windowToWallRatio,
+    window_overhang: genome.overhangDepth > 0,
+    window_overhang_depth: genome.overhangDepth > 0 ? genome.overhangDepth : building.window_overhang_depth,
+    wall_construction: genome.wallConstruction,
+    window_construction: genome.windowConstruction
+  }));
+}
+
+/**
+ * Normalised amount by which a scheme misses its constraints, 0 when feasible.
+ */
+export function calculateConstraintViolation(buildings: BuildingSnapshot[], constraints: OptimizationConstraints): number {
+  let violation = 0;
+
+  if (constraints.minGrossFloorArea) {
+    const grossFloorArea = buildings.reduce(
+      (sum, b) => sum + calculateGrossFloorArea(b.points, b.floors, b.holes, b.setbacks), 0
+    );
+    violation += Math.max(0, constraints.minGrossFloorArea - grossFloorArea) / constraints.minGrossFloorArea;
+  }
+
+  if (constraints.maxHeight) {
+    const height = Math.max(0, ...buildings.map(b => b.floors * b.floorHeight));
+    violation += Math.max(0, height - constraints.maxHeight) / constraints.maxHeight;
+  }
+
+  return violation;
+}
+
+// Feasible designs beat infeasible ones, infeasible ones compare by violation
+const constrainedDominates = (
+  a: OptimizationIndividual,
+  b: OptimizationIndividual,
+  objectives: DesignMetricDefinition[]
+): boolean => {
+  if (a.constraintViolation === 0 && b.constraintViolation > 0) return true;
+  if (a.constraintViolation > 0) return b.constraintViolation > a.constraintViolation;
+  return dominates(a.metrics, b.metrics, objectives);
+};
+
+interface Fitness {
+  rank: number;
+  crowding: number;
+}
+
+/**
+ * Pareto rank (0 = non-dominated) and crowding distance of every individual.
+ */
+export function rankPopulation(
+  population: OptimizationIndividual[],
+  objectives: DesignMetricDefinition[]
+): Map<string, Fitness> {
+  const fitness = new Map<string, Fitness>();
+  let remaining = population;
+  let rank = 0;
+
+  while (remaining.length > 0) {
+    const front = remaining.filter(a => !remaining.some(b => b !== a && constrainedDominates(b, a, objectives)));
+    front.forEach(individual => fitness.set(individual.id, { rank, crowding: 0 }));
+
+    // Crowding distance favours individuals in sparse regions of the front
+    objectives.forEach(({ key }) => {
+      const sorted = [...front].sort((a, b) => a.metrics[key] - b.metrics[key]);
+      const span = sorted[sorted.length - 1].metrics[key] - sorted[0].metrics[key];
+      fitness.get(sorted[0].id)!.crowding = Infinity;
+      fitness.get(sorted[sorted.length - 1].id)!.crowding = Infinity;
+      if (span === 0) return;
+
+      for (let i = 1; i < sorted.length - 1; i++) {
+        fitness.get(sorted[i].id)!.crowding += (sorted[i + 1].metrics[key] - sorted[i - 1].metrics[key]) / span;
+      }
+    });
+
+    remaining = remaining.filter(individual => !fitness.has(individual.id));
+    rank++;
+  }
+
+  return fitness;
+}
+
+const compareFitness = (a: Fitness, b: Fitness) => a.rank - b.rank || b.crowding - a.crowding;
+
+/**
+ * Evolve the building parameters of a scheme toward the chosen objectives.
+ * Runs synchronously; call it from a worker to keep the UI responsive.
+ * Returns the final population.
+ */
+export function runGeneticOptimization(
+  baseBuildings: BuildingSnapshot[],
+  settings: OptimizationSettings,
+  { evaluate, onGeneration, random = Math.random }: OptimizationCallbacks
+): OptimizationIndividual[] {
+  const objectives = designMetrics.filter(metric => settings.objectives.includes(metric.key));
+  const activeObjectives = objectives.length > 0 ? objectives : designMetrics;
+  const wallValues = wallOptions.map(option => option.value);
+  const windowValues = windowOptions.map(option => option.value);
+
+  const createIndividual = (
+    genome: OptimizationGenome,
+    generation: number,
+    index: number,
+    parentId?: string
+  ): OptimizationIndividual => {
+    const buildings = applyGenome(baseBuildings, genome);
+    return {
+      id: `g${generation}_${index}`,
+      generation,
+      parentId,
+      genome,
+      buildings,
+      metrics: evaluate(buildings),
+      constraintViolation: calculateConstraintViolation(buildings, settings.constraints)
+    };
+  };
+
+  const randomGenome = (): OptimizationGenome => {
+    const randomGene = (gene: NumericGene) =>
+      clampGene(gene, GENE_BOUNDS[gene].min + random() * (GENE_BOUNDS[gene].max - GENE_BOUNDS[gene].min));
+    return {
+      floorOffset: randomGene('floorOffset'),
+      floorHeight: randomGene('floorHeight'),
+      windowToWallRatio: randomGene('windowToWallRatio'),
+      overhangDepth: randomGene('overhangDepth'),
+      wallConstruction: pick(wallValues, random),
+      windowConstruction: pick(windowValues, random)
+    };
+  };
+
+  const mutate = (genome: OptimizationGenome): OptimizationGenome => {
+    const mutated = { ...genome };
+    (Object.keys(GENE_BOUNDS) as NumericGene[]).forEach(gene => {
+      if (random() >= settings.mutationRate) return;
+      const { min, max } = GENE_BOUNDS[gene];
+      const step = gene === 'floorOffset' ? (random() < 0.5 ? -1 : 1) : (random() - 0.5) * (max - min) * 0.3;
+      mutated[gene] = clampGene(gene, mutated[gene] + step);
+    });
+    if (random() < settings.mutationRate) mutated.wallConstruction = pick(wallValues, random);
+    if (random() < settings.mutationRate) mutated.windowConstruction = pick(windowValues, random);
+    return mutated;
+  };
+
+  // Uniform crossover: each gene comes from either parent
+  const crossover = (a: OptimizationGenome, b: OptimizationGenome): OptimizationGenome => {
+    const child = { ...a };
+    (Object.keys(child) as (keyof OptimizationGenome)[]).forEach(gene => {
+      if (random() < 0.5) (child as Record<string, unknown>)[gene] = b[gene];
+    });
+    return child;
+  };
+
+  // Seed the search with the scheme as drawn so the optimiser can only improve on it
+  const reference = baseBuildings[0];
+  const initialGenomes: OptimizationGenome[] = [{
+    floorOffset: 0,
+    floorHeight: clampGene('floorHeight', reference?.floorHeight ?? 3.5),
+    windowToWallRatio: clampGene('windowToWallRatio', reference?.window_to_wall_ratio ?? 0.4),
+    overhangDepth: reference?.window_overhang ? clampGene('overhangDepth', reference.window_overhang_depth ?? 0) : 0,
+    wallConstruction: reference?.wall_construction ?? wallValues[0],
+    windowConstruction: reference?.window_construction ?? windowValues[0]
+  }];
+  while (initialGenomes.length < settings.populationSize) initialGenomes.push(randomGenome());
+
+  let population = initialGenomes.map((genome, i) => createIndividual(genome, 0, i));
+  onGeneration?.({ index: 0, offspring: population, population });
+
+  for (let generation = 1; generation <= settings.generations; generation++) {
+    const fitness = rankPopulation(population, activeObjectives);
+    const tournament = () => {
+      const a = pick(population, random);
+      const b = pick(population, random);
+      return compareFitness(fitness.get(a.id)!, fitness.get(b.id)!) <= 0 ? a : b;
+    };
+
+    const offspring: OptimizationIndividual[] = [];
+    for (let i = 0; i < settings.populationSize; i++) {
+      const parent = tournament();
+      const genome = mutate(crossover(parent.genome, tournament().genome));
+      offspring.push(createIndividual(genome, generation, i, parent.id));
+    }
+
+    // Elitist survival over parents and offspring combined
+    const combined = [...population, ...offspring];
+    const combinedFitness = rankPopulation(combined, activeObjectives);
+    population = combined
+      .sort((a, b) => compareFitness(combinedFitness.get(a.id)!, combinedFitness.get(b.id)!))
+      .slice(0, settings.populationSize);
+
+    onGeneration?.({ index: generation, offspring, population });
+  }
+
+  return population;
+}
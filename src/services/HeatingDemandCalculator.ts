@@ -0,0 +1,171 @@
+// Steady-state heat-loss model for annual space heating demand
+import { BuildingData } from '../types/building';
+import type { EPWDataPoint } from './EPWParser';
+import { calculateEnvelopeAreas } from '../utils/geometry';
+import { getEffectiveWindowToWallRatio } from './FacadeGlazing';
+import { getSolarShadingFactor } from './ShadingDevices';
+import { wallOptions, floorOptions, roofOptions, windowOptions, findConstruction } from '../data/constructions';
+
+export type HeatingDemandInput = Pick<
+  BuildingData,
+  | 'id'
+  | 'name'
+  | 'points'
+  | 'holes'
+  | 'setbacks'
+  | 'floors'
+  | 'floorHeight'
+  | 'window_to_wall_ratio'
+  | 'window_to_wall_overrides'
+  | 'ground_floor_glazing'
+  | 'shading_devices'
+  | 'wall_construction'
+  | 'floor_construction'
+  | 'roof_construction'
+  | 'window_construction'
+  | 'building_program'
+  | 'hvac_system'
+  | 'natural_ventilation'
+>;
+
+export interface BuildingHeatingDemand {
+  buildingId: string;
+  name?: string;
+  heatedFloorArea: number;     // m² (footprint × floors)
+  heatLossCoefficient: number; // W/K, transmission + ventilation
+  annualHeatingKWh: number;    // kWh/year
+  heatingDemand: number;       // kWh/m²/year
+}
+
+export interface HeatingDemandResult {
+  buildings: BuildingHeatingDemand[];
+  totalHeatedFloorArea: number;
+  totalAnnualHeatingKWh: number;
+  heatingDemand: number;       // kWh/m²/year for the whole scheme
+  usedWeatherFile: boolean;    // False when the reference climate was used
+}
+
+interface ClimateStep {
+  temperature: number; // °C
+  globalHorizontal: number; // W/m² mean over the step
+  hours: number;
+}
+
+const HEATING_SETPOINT = 21; // °C
+const GROUND_REDUCTION_FACTOR = 0.5; // Smaller temperature difference across the ground slab
+const AIR_HEAT_CAPACITY = 0.34; // Wh/m³K
+const INFILTRATION_RATE = 0.1; // ach
+const NATURAL_VENTILATION_RATE = 0.2; // ach, extra winter losses through operable windows
+const WINDOW_FRAME_FACTOR = 0.7; // Share of the window opening that is glass
+const VERTICAL_IRRADIANCE_FACTOR = 0.5; // Mean façade irradiance relative to global horizontal
+
+// Annual-average internal gains per floor area (people, lighting, equipment)
+const INTERNAL_GAINS: Record<string, number> = {
+  Office: 8,
+  Residential: 4,
+  Retail: 10,
+  School: 7,
+  Hospital: 8
+};
+const DEFAULT_INTERNAL_GAINS = 6; // W/m²
+
+// Mechanical ventilation rate and heat recovery efficiency per HVAC option
+const VENTILATION: Record<string, { airChangeRate: number; heatRecovery: number }> = {
+  'Default HVAC': { airChangeRate: 0.5, heatRecovery: 0 },
+  VAV: { airChangeRate: 0.7, heatRecovery: 0.75 },
+  CAV: { airChangeRate: 0.7, heatRecovery: 0.75 },
+  Radiant: { airChangeRate: 0.5, heatRecovery: 0.8 },
+  'Split System': { airChangeRate: 0.5, heatRecovery: 0 }
+};
+
+// Gothenburg monthly means, used until an EPW file has been loaded
+const REFERENCE_MONTHLY_TEMPERATURE = [0.0, -0.1, 2.4, 6.5, 11.2, 15.0, 17.3, 16.9, 13.3, 9.0, 4.8, 1.5]; // °C
+const REFERENCE_MONTHLY_GLOBAL_HORIZONTAL = [0.3, 0.8, 1.9, 3.5, 5.0, 5.5, 5.2, 4.1, 2.6, 1.3, 0.5, 0.2]; // kWh/m²/day
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+function getClimateSteps(hourlyData?: EPWDataPoint[]): ClimateStep[] {
+  if (hourlyData && hourlyData.length > 0) {
+    return hourlyData.map(hour => ({
+      temperature: hour.dryBulbTemperature,
+      globalHorizontal: Math.max(0, hour.globalHorizontalRadiation),
+      hours: 1
+    }));
+  }
+
+  return REFERENCE_MONTHLY_TEMPERATURE.map((temperature, month) => ({
+    temperature,
+    globalHorizontal: (REFERENCE_MONTHLY_GLOBAL_HORIZONTAL[month] * 1000) / 24,
+    hours: DAYS_IN_MONTH[month] * 24
+  }));
+}
+
+function calculateBuildingHeatingDemand(building: HeatingDemandInput, climate: ClimateStep[]): BuildingHeatingDemand {
+  const wwr = getEffectiveWindowToWallRatio(building);
+  const { footprintArea, grossFloorArea: heatedFloorArea, windowArea, opaqueWallArea, volume } =
+    calculateEnvelopeAreas(building.points, building.floors, building.floorHeight, wwr, building.holes, building.setbacks);
+
+  const wall = findConstruction(wallOptions, building.wall_construction);
+  const floor = findConstruction(floorOptions, building.floor_construction);
+  const roof = findConstruction(roofOptions, building.roof_construction);
+  const window = findConstruction(windowOptions, building.window_construction);
+
+  const transmission =
+    wall.uValue * opaqueWallArea +
+    window.uValue * windowArea +
+    roof.uValue * footprintArea +
+    floor.uValue * footprintArea * GROUND_REDUCTION_FACTOR;
+
+  const ventilation = VENTILATION[building.hvac_system ?? ''] ?? VENTILATION['Default HVAC'];
+  const effectiveAirChangeRate =
+    ventilation.airChangeRate * (1 - ventilation.heatRecovery) +
+    INFILTRATION_RATE +
+    (building.natural_ventilation ? NATURAL_VENTILATION_RATE : 0);
+  const ventilationLoss = AIR_HEAT_CAPACITY * effectiveAirChangeRate * volume;
+
+  const heatLossCoefficient = transmission + ventilationLoss;
+  const internalGains = (INTERNAL_GAINS[building.building_program ?? ''] ?? DEFAULT_INTERNAL_GAINS) * heatedFloorArea;
+  const solarAperture = (window.gValue ?? 0.6) * WINDOW_FRAME_FACTOR * windowArea * VERTICAL_IRRADIANCE_FACTOR *
+    getSolarShadingFactor(building);
+
+  // Hourly balance: gains only offset losses within the same step
+  let annualHeatingWh = 0;
+  for (const step of climate) {
+    const loss = heatLossCoefficient * (HEATING_SETPOINT - step.temperature);
+    const gains = internalGains + solarAperture * step.globalHorizontal;
+    annualHeatingWh += Math.max(0, loss - gains) * step.hours;
+  }
+
+  const annualHeatingKWh = annualHeatingWh / 1000;
+
+  return {
+    buildingId: building.id,
+    name: building.name,
+    heatedFloorArea,
+    heatLossCoefficient,
+    annualHeatingKWh,
+    heatingDemand: heatedFloorArea > 0 ? annualHeatingKWh / heatedFloorArea : 0
+  };
+}
+
+/**
+ * Estimate annual space heating demand for each building and for the whole scheme.
+ * Integrates an hourly heat balance against the EPW dry-bulb temperatures when
+ * weather data is available, otherwise against a monthly reference climate.
+ */
+export function calculateHeatingDemand(buildings: HeatingDemandInput[], hourlyData?: EPWDataPoint[]): HeatingDemandResult {
+  const climate = getClimateSteps(hourlyData);
+  const results = buildings
+    .filter(building => building.points && building.points.length >= 3)
+    .map(building => calculateBuildingHeatingDemand(building, climate));
+
+  const totalHeatedFloorArea = results.reduce((sum, result) => sum + result.heatedFloorArea, 0);
+  const totalAnnualHeatingKWh = results.reduce((sum, result) => sum + result.annualHeatingKWh, 0);
+
+  return {
+    buildings: results,
+    totalHeatedFloorArea,
+    totalAnnualHeatingKWh,
+    heatingDemand: totalHeatedFloorArea > 0 ? totalAnnualHeatingKWh / totalHeatedFloorArea : 0,
+    usedWeatherFile: !!hourlyData && hourlyData.length > 0
+  };
+}
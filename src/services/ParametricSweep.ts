@@ -0,0 +1,96 @@
+// Generates design variants over ranges of building parameters
+import { BuildingSnapshot } from '../types/building';
+
+export interface SweepParameters {
+  windowToWallRatios: number[];
+  wallConstructions: string[];
+  floorOffsets: number[];     // Added to each building's current floor count
+  overhangDepths: number[];   // m, 0 disables the overhang
+}
+
+export interface SweepVariant {
+  name: string;
+  buildings: BuildingSnapshot[];
+}
+
+export const MAX_SWEEP_VARIANTS = 500;
+export const MAX_RANGE_STEPS = 100;
+export const MIN_RANGE_STEP = 0.001;    // Values are rounded to this precision
+
+/**
+ * The step `rangeSteps` actually uses: widened so the range yields at most
+ * `MAX_RANGE_STEPS` values no closer than `MIN_RANGE_STEP`. Null when the
+ * inputs do not describe a range.
+ */
+export const getRangeStep = (min: number, max: number, step: number): number | null => {
+  if (![min, max, step].every(Number.isFinite) || step <= 0 || max < min) return null;
+  return Math.max(step, (max - min) / (MAX_RANGE_STEPS - 1), MIN_RANGE_STEP);
+};
+
+/**
+ * Inclusive list of distinct values from `min` to `max` in `step` increments,
+ * rounded to avoid floating-point drift (0.30000000000000004). Steps too
+ * small for the value cap or the rounding are widened, see `getRangeStep`.
+ */
+export const rangeSteps = (min: number, max: number, step: number): number[] => {
+  const rangeStep = getRangeStep(min, max, step);
+  if (rangeStep === null) return Number.isFinite(min) ? [min] : [];
+
+  const values: number[] = [];
+  const count = Math.floor((max - min) / rangeStep + 1e-9);
+  for (let i = 0; i <= count; i++) {
+    values.push(Math.round((min + i * rangeStep) * 1000) / 1000);
+  }
+  return [...new Set(values)];
+};
+
+// An empty parameter list keeps each building's current value
+const orCurrent = <T,>(values: T[]): (T | undefined)[] => values.length > 0 ? values : [undefined];
+
+export const countSweepVariants = (parameters: SweepParameters): number => {
+  return orCurrent(parameters.windowToWallRatios).length *
+    orCurrent(parameters.wallConstructions).length *
+    orCurrent(parameters.floorOffsets).length *
+    orCurrent(parameters.overhangDepths).length;
+};
+
+const formatOffset = (offset: number) => `${offset > 0 ? '+' : ''}${offset}F`;
+
+/**
+ * Build the full-factorial set of variants of a scheme. Every building in the
+ * scheme receives the same parameter values; floors never drop below one.
+ */
+export function generateSweepVariants(buildings: BuildingSnapshot[], parameters: SweepParameters): SweepVariant[] {
+  const variants: SweepVariant[] = [];
+
+  for (const wwr of orCurrent(parameters.windowToWallRatios)) {
+    for (const wall of orCurrent(parameters.wallConstructions)) {
+      for (const floorOffset of orCurrent(parameters.floorOffsets)) {
+        for (const overhangDepth of orCurrent(parameters.overhangDepths)) {
+          const nameParts: string[] = [];
+          if (wwr !== undefined) nameParts.push(`WWR ${wwr}`);
+          if (wall !== undefined) nameParts.push(wall);
+          if (floorOffset !== undefined) nameParts.push(formatOffset(floorOffset));
+          if (overhangDepth !== undefined) nameParts.push(`OH ${overhangDepth}m`);
+
+          variants.push({
+            name: nameParts.join(' · ') || 'Variant',
+            buildings: buildings.map(building => ({
+              ...building,
+              points: building.points.map(p => ({ ...p })),
+              window_to_wall_ratio: wwr ?? building.window_to_wall_ratio,
+              wall_construction: wall ?? building.wall_construction,
+              floors: floorOffset !== undefined ? Math.max(1, building.floors + floorOffset) : building.floors,
+              window_overhang: overhangDepth !== undefined ? overhangDepth > 0 : building.window_overhang,
+              window_overhang_depth: overhangDepth !== undefined && overhangDepth > 0
+                ? overhangDepth
+                : building.window_overhang_depth
+            }))
+          });
+        }
+      }
+    }
+  }
+
+  return variants;
+}
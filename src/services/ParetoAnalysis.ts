@@ -0,0 +1,33 @@
+// Pareto dominance across the design exploration metrics
+import { DesignMetrics, DesignNode } from '../types/designExploration';
+import { designMetrics, DesignMetricDefinition } from '../data/designMetrics';
+
+/**
+ * True when `a` is at least as good as `b` on every objective and strictly
+ * better on at least one, respecting each metric's minimise/maximise goal.
+ */
+export function dominates(a: DesignMetrics, b: DesignMetrics, objectives: DesignMetricDefinition[] = designMetrics): boolean {
+  let strictlyBetter = false;
+
+  for (const { key, goal } of objectives) {
+    const difference = goal === 'minimize' ? b[key] - a[key] : a[key] - b[key];
+    if (difference < 0) return false;
+    if (difference > 0) strictlyBetter = true;
+  }
+
+  return strictlyBetter;
+}
+
+/**
+ * IDs of the non-dominated nodes. Nodes without buildings (such as the empty
+ * baseline) are not valid designs and are left out of the comparison.
+ */
+export function findParetoFront(nodes: DesignNode[], objectives: DesignMetricDefinition[] = designMetrics): Set<string> {
+  const candidates = nodes.filter(node => node.buildings.length > 0);
+
+  return new Set(
+    candidates
+      .filter(node => !candidates.some(other => other !== node && dominates(other.metrics, node.metrics, objectives)))
+      .map(node => node.id)
+  );
+}
@@ -0,0 +1,83 @@
+// Handles transformation matrices for fins and louvres
+import * as THREE from 'three';
+import { ShadingDeviceSettings } from '../types/building';
+import { WindowPlacement } from './WindowGeometryPlacer';
+
+const FIN_THICKNESS = 0.05;
+const LOUVRE_THICKNESS = 0.03;
+const UP = new THREE.Vector3(0, 1, 0);
+
+export interface FinArrayConfig {
+  p1: THREE.Vector2;
+  p2: THREE.Vector2;
+  normal: THREE.Vector2;  // Outward wall normal in XZ
+  baseY: number;          // Bottom of the fins
+  height: number;
+  offsetDistance: number; // Gap between the wall and the fins' inner edge
+  settings: ShadingDeviceSettings;
+}
+
+// Unit boxes are stretched along (right, up, out) of the wall, then turned or tilted about their inner edge
+function composeDevice(
+  innerEdge: THREE.Vector3,
+  right: THREE.Vector3,
+  out: THREE.Vector3,
+  turn: THREE.Quaternion,
+  scale: THREE.Vector3
+): THREE.Matrix4 {
+  const rotation = new THREE.Quaternion()
+    .setFromRotationMatrix(new THREE.Matrix4().makeBasis(right, UP, out))
+    .multiply(turn);
+  const depthDirection = new THREE.Vector3(0, 0, 1).applyQuaternion(rotation);
+  const position = innerEdge.clone().add(depthDirection.multiplyScalar(scale.z / 2));
+  return new THREE.Matrix4().compose(position, rotation, scale);
+}
+
+/**
+ * Vertical fins spaced evenly along a wall, spanning the given height.
+ */
+export function buildFinMatrices(cfg: FinArrayConfig): THREE.Matrix4[] {
+  const { p1, p2, normal, baseY, height, offsetDistance, settings } = cfg;
+  const edgeLength = p1.distanceTo(p2);
+  if (settings.spacing <= 0 || settings.depth <= 0 || edgeLength === 0 || height <= 0) return [];
+
+  const right = new THREE.Vector3(p2.x - p1.x, 0, p2.y - p1.y).normalize();
+  const out = new THREE.Vector3(normal.x, 0, normal.y).normalize();
+  const turn = new THREE.Quaternion().setFromAxisAngle(UP, THREE.MathUtils.degToRad(settings.angle));
+  const scale = new THREE.Vector3(FIN_THICKNESS, height, settings.depth);
+
+  const count = Math.floor(edgeLength / settings.spacing) + 1;
+  const start = (edgeLength - (count - 1) * settings.spacing) / 2;
+  const matrices: THREE.Matrix4[] = [];
+  for (let i = 0; i < count; i++) {
+    const along = start + i * settings.spacing;
+    const innerEdge = new THREE.Vector3(p1.x, baseY + height / 2, p1.y)
+      .add(right.clone().multiplyScalar(along))
+      .add(out.clone().multiplyScalar(offsetDistance));
+    matrices.push(composeDevice(innerEdge, right, out, turn, scale));
+  }
+  return matrices;
+}
+
+/**
+ * Horizontal louvre blades across one window, evenly spread over its height.
+ */
+export function buildLouvreMatrices(placement: WindowPlacement, settings: ShadingDeviceSettings): THREE.Matrix4[] {
+  if (settings.spacing <= 0 || settings.depth <= 0) return [];
+
+  const right = placement.right.clone().normalize();
+  const out = placement.normal.clone().normalize();
+  // Positive angles tip the outer edge down
+  const turn = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(1, 0, 0), THREE.MathUtils.degToRad(settings.angle));
+  const scale = new THREE.Vector3(placement.width, LOUVRE_THICKNESS, settings.depth);
+
+  const count = Math.max(1, Math.floor(placement.height / settings.spacing));
+  const top = placement.position.y + placement.height / 2;
+  const matrices: THREE.Matrix4[] = [];
+  for (let i = 0; i < count; i++) {
+    const innerEdge = placement.position.clone();
+    innerEdge.y = top - (i + 0.5) * (placement.height / count);
+    matrices.push(composeDevice(innerEdge, right, out, turn, scale));
+  }
+  return matrices;
+}
@@ -0,0 +1,75 @@
+// External fins and louvres: which façades carry them and how much light gets past them
+import { BuildingSnapshot, FacadeShading, ShadingDeviceSettings } from '../types/building';
+import { getCompassDirection } from '../utils/geometry';
+import { getFacades, resolveWindowToWallRatio, GlazingInput } from './FacadeGlazing';
+
+export const DEFAULT_FIN_SETTINGS: ShadingDeviceSettings = { depth: 0.4, spacing: 1.2, angle: 0 };
+export const DEFAULT_LOUVRE_SETTINGS: ShadingDeviceSettings = { depth: 0.2, spacing: 0.3, angle: 20 };
+
+export type ShadingInput = Pick<BuildingSnapshot, 'shading_devices'>;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Devices on a façade, from the orientation band it faces.
+ */
+export const getFacadeShading = (building: ShadingInput, azimuth: number): FacadeShading | undefined => {
+  const shading = building.shading_devices?.[getCompassDirection(azimuth)];
+  return shading?.fins || shading?.louvres ? shading : undefined;
+};
+
+// Share of the sky hemisphere seen past an array of blades, from their depth against the gap between them
+const getArraySkyFactor = ({ depth, spacing }: ShadingDeviceSettings): number =>
+  spacing > 0 ? 1 - 0.5 * (depth / (depth + spacing)) : 0.5;
+
+/**
+ * Share of the diffuse sky still reaching the window behind the devices.
+ */
+export const getShadingSkyFactor = (shading?: FacadeShading): number =>
+  (shading?.fins ? getArraySkyFactor(shading.fins) : 1) * (shading?.louvres ? getArraySkyFactor(shading.louvres) : 1);
+
+/**
+ * Sunlit share of the window behind the devices, for a sun at `elevation`
+ * and `relativeAzimuth` from the façade normal (both in radians).
+ */
+export const getShadingSunlitFraction = (shading: FacadeShading | undefined, elevation: number, relativeAzimuth: number): number => {
+  let sunlit = 1;
+
+  if (shading?.fins && shading.fins.spacing > 0) {
+    // Fins shade sideways, from the horizontal shadow angle
+    const { depth, spacing, angle } = shading.fins;
+    const shadowWidth = Math.abs(
+      depth * Math.cos(toRadians(angle)) * Math.tan(relativeAzimuth) + depth * Math.sin(toRadians(angle))
+    );
+    sunlit *= Math.max(0, 1 - shadowWidth / spacing);
+  }
+
+  if (shading?.louvres && shading.louvres.spacing > 0) {
+    // Louvres shade downwards, from the vertical profile angle
+    const { depth, spacing, angle } = shading.louvres;
+    const tanProfile = Math.tan(elevation) / Math.max(Math.cos(relativeAzimuth), 1e-3);
+    const shadowHeight = depth * Math.cos(toRadians(angle)) * tanProfile + depth * Math.sin(toRadians(angle));
+    sunlit *= Math.max(0, 1 - shadowHeight / spacing);
+  }
+
+  return sunlit;
+};
+
+/**
+ * Glazing-weighted share of solar radiation the devices let through over the
+ * year, for balances that do not track the sun.
+ */
+export const getSolarShadingFactor = (
+  building: ShadingInput & GlazingInput & Pick<BuildingSnapshot, 'points' | 'holes' | 'setbacks' | 'floors'>
+): number => {
+  if (!building.shading_devices) return 1;
+
+  let glazing = 0;
+  let transmitted = 0;
+  getFacades(building).forEach(facade => {
+    const weight = facade.length * facade.floors * resolveWindowToWallRatio(building, facade.azimuth, facade.edgeIndex);
+    glazing += weight;
+    transmitted += weight * getShadingSkyFactor(getFacadeShading(building, facade.azimuth));
+  });
+  return glazing > 0 ? transmitted / glazing : 1;
+};
@@ -8,9 +8,8 @@ export interface WindowPlacementConfig {
   normal: THREE.Vector2;
   edgeLength: number;
   numFloors: number;
+  firstFloor?: number; // Lowest floor with windows, for the upper tiers of stepped buildings
   floorHeight: number;
-  windowHeight: number;
-  windowSpacing: number;
   offsetDistance: number;
   parametric: WindowParametricResult;
 }
@@ -19,42 +18,43 @@ export interface WindowPlacement {
   position: THREE.Vector3;
   right: THREE.Vector3; // Direction along the wall (normalized)
   normal: THREE.Vector3; // Wall surface normal (normalized)
-  scaleX: number;
+  width: number;
+  height: number;
 }
 
 export function placeWindowsOnEdge(cfg: WindowPlacementConfig): WindowPlacement[] {
   const result: WindowPlacement[] = [];
   const {
-    p1, p2, normal, edgeLength, numFloors, floorHeight, windowHeight, windowSpacing, offsetDistance, parametric
+    p1, p2, normal, edgeLength, numFloors, firstFloor = 0, floorHeight, offsetDistance, parametric
   } = cfg;
-  const verticalSpacing = windowSpacing;
-  const availableVerticalSpace = floorHeight - 2 * verticalSpacing;
-  const windowRows = Math.max(1, Math.floor(availableVerticalSpace / (windowHeight + verticalSpacing)));
   // Use the pre-calculated normal from WindowService and convert to 3D
   const right2D = new THREE.Vector2().subVectors(p2, p1).normalize();
   const right = new THREE.Vector3(right2D.x, 0, right2D.y); // XZ direction
   const normal3D = new THREE.Vector3(normal.x, 0, normal.y); // Use the passed-in normal (already correctly calculated)
-  for (let floor = 0; floor < numFloors; floor++) {
-    const baseY = floor * floorHeight;
-    for (let row = 0; row < windowRows; row++) {
-      const rowY = baseY + verticalSpacing + (row + 0.5) * (availableVerticalSpace / windowRows);
-      for (let col = 0; col < parametric.numWindows; col++) {
-        const edgePos = parametric.marginStart + col * (parametric.windowWidth + parametric.spacing) + parametric.windowWidth / 2;
-        const edgeT = edgePos / edgeLength;
-        // Compute base position in XZ
-        const baseXZ = new THREE.Vector3(
-          p1.x + right.x * edgeT * edgeLength,
-          0,
-          p1.y + right.z * edgeT * edgeLength
-        );
-        // Offset along normal
-        const offsetXZ = normal3D.clone().multiplyScalar(offsetDistance);
-        // Final position
-        const position = baseXZ.add(offsetXZ);
-        position.y = rowY;
-        const scaleX = parametric.windowWidth / (edgeLength / parametric.numWindows); // Approximate original windowWidth
-        result.push({ position, right, normal: normal3D.clone().normalize(), scaleX });
-      }
+  for (let floor = firstFloor; floor < firstFloor + numFloors; floor++) {
+    // One row per storey, from the solved sill up
+    const rowY = floor * floorHeight + parametric.sillHeight + parametric.windowHeight / 2;
+    for (let col = 0; col < parametric.numWindows; col++) {
+      const edgePos = parametric.marginStart + col * (parametric.windowWidth + parametric.spacing) + parametric.windowWidth / 2;
+      const edgeT = edgePos / edgeLength;
+      // Compute base position in XZ
+      const baseXZ = new THREE.Vector3(
+        p1.x + right.x * edgeT * edgeLength,
+        0,
+        p1.y + right.z * edgeT * edgeLength
+      );
+      // Offset along normal
+      const offsetXZ = normal3D.clone().multiplyScalar(offsetDistance);
+      // Final position
+      const position = baseXZ.add(offsetXZ);
+      position.y = rowY;
+      result.push({
+        position,
+        right,
+        normal: normal3D.clone().normalize(),
+        width: parametric.windowWidth,
+        height: parametric.windowHeight
+      });
     }
   }
   return result;
@@ -1,65 +1,105 @@
 // Handles the parametric window dimension algorithm
+import type { WindowLayoutMode } from '../types/building';
+
 export interface WindowParametricConfig {
   edgeLength: number;     // Total wall length where windows are placed
   windowWidth: number;    // Default reference window width (used to define min/max range)
-  windowHeight: number;   // Fixed window height
+  windowHeight: number;   // Default window height when no sill and head height are given
   windowSpacing: number;  // Reference spacing between windows (used to define min/max range)
   wwr: number;            // Target window-to-wall ratio
+  floorHeight?: number;   // Storey height the ratio refers to; the window band alone when unset
+  sillHeight?: number;    // Above floor level; the window is centred in the storey when neither is set
+  headHeight?: number;    // Above floor level
+  mode?: WindowLayoutMode; // Separate punched windows, or one continuous strip of panes
 }
 
 export interface WindowParametricResult {
-  numWindows: number;     // Number of windows along the wall
+  numWindows: number;     // Number of windows (or ribbon panes) along the wall
   windowWidth: number;    // Calculated width of each window
+  windowHeight: number;   // Height of each window
+  sillHeight: number;     // Window bottom above floor level
   spacing: number;        // Spacing between windows
   marginStart: number;    // Margin from the wall edge to the first window (centered layout)
+  achievedWwr: number;    // Glazed share of the storey wall, which may fall short of the target
 }
 
-export function solveWindowParams(config: WindowParametricConfig): WindowParametricResult | null {
-  const { edgeLength, windowWidth, windowHeight, wwr } = config;
+const MIN_SPACING = 0.1;
+const MIN_WINDOW_WIDTH = 0.5;
+const RIBBON_END_MARGIN = 0.3;   // Solid wall left at each end of a ribbon
+const MAX_PUNCHED_FILL = 0.7;    // Share of the wall length punched windows fill before they grow taller
 
-  console.log(`Solving window params: edgeLength=${edgeLength.toFixed(2)}, target WWR=${(wwr * 100).toFixed(1)}%`);
+export function solveWindowParams(config: WindowParametricConfig): WindowParametricResult | null {
+  const { edgeLength, windowWidth, windowHeight, windowSpacing, sillHeight, headHeight, mode = 'punched' } = config;
+  const wwr = Math.min(1, config.wwr);
 
   // No windows if WWR is zero
   if (wwr <= 0) return null;
 
   // Calculate total desired window area
-  const wallArea = edgeLength * windowHeight;
+  const wallHeight = config.floorHeight ?? windowHeight;
+  const wallArea = edgeLength * wallHeight;
   const targetWindowArea = wwr * wallArea;
 
+  // A fixed sill and head set the height; otherwise windows grow from the default height until they reach the target
+  const maxRunLength = mode === 'ribbon' ? edgeLength - 2 * RIBBON_END_MARGIN : edgeLength * MAX_PUNCHED_FILL;
+  let height: number;
+  if (sillHeight !== undefined && headHeight !== undefined) {
+    height = headHeight - sillHeight;
+  } else {
+    const maxHeight = Math.max(windowHeight, wallHeight - 2 * windowSpacing);
+    height = Math.min(maxHeight, Math.max(windowHeight, targetWindowArea / Math.max(maxRunLength, MIN_WINDOW_WIDTH)));
+  }
+  const sill = Math.max(0, sillHeight ?? (headHeight !== undefined ? headHeight - height : (wallHeight - height) / 2));
+  height = Math.min(height, wallHeight - sill);
+  if (height <= 0) return null;
+
+  const totalWindowWidth = targetWindowArea / height;
+
+  if (mode === 'ribbon') {
+    // One strip split into panes close to the reference width, mullion to mullion
+    const runLength = Math.min(totalWindowWidth, maxRunLength);
+    if (runLength < MIN_WINDOW_WIDTH) return null;
+    const numPanes = Math.max(1, Math.round(runLength / windowWidth));
+    return {
+      numWindows: numPanes,
+      windowWidth: runLength / numPanes,
+      windowHeight: height,
+      sillHeight: sill,
+      spacing: 0,
+      marginStart: (edgeLength - runLength) / 2,
+      achievedWwr: (runLength * height) / wallArea
+    };
+  }
+
   // Start by guessing number of windows based on default window size
-  let estimatedWindowWidth = windowWidth;
-  let estimatedWindowArea = estimatedWindowWidth * windowHeight;
-  let numWindows = Math.max(1, Math.floor(targetWindowArea / estimatedWindowArea));
+  let numWindows = Math.max(1, Math.floor(totalWindowWidth / windowWidth));
 
   // Ensure we don't exceed what can fit along the edge
-  const minSpacing = 0.1;
-  const minWindowWidth = 0.5;
-
-  const maxPossibleWindows = Math.floor(edgeLength / (minWindowWidth + minSpacing));
+  const maxPossibleWindows = Math.floor(edgeLength / (MIN_WINDOW_WIDTH + MIN_SPACING));
   numWindows = Math.min(numWindows, maxPossibleWindows);
 
   if (numWindows < 1) return null;
 
-  // Calculate the actual window width needed to hit the WWR target
-  const totalWindowWidth = targetWindowArea / windowHeight;
-  const windowWidthCandidate = totalWindowWidth / numWindows;
+  // Calculate the actual window width needed to hit the WWR target, keeping a pier between windows
+  const maxWindowWidth = (edgeLength - MIN_SPACING * (numWindows - 1)) / numWindows;
+  const windowWidthCandidate = Math.min(totalWindowWidth / numWindows, maxWindowWidth);
 
-  if (windowWidthCandidate < minWindowWidth) return null;
+  if (windowWidthCandidate < MIN_WINDOW_WIDTH) return null;
 
   const totalWidthUsed = windowWidthCandidate * numWindows;
   const spacing = numWindows > 1 ? (edgeLength - totalWidthUsed) / (numWindows - 1) : 0;
 
-  if (spacing < 0) return null;
-
   const marginStart = (edgeLength - (totalWidthUsed + spacing * (numWindows - 1))) / 2;
 
-  const actualWWR = (windowWidthCandidate * windowHeight * numWindows) / wallArea;
-  console.log(`Best config: ${numWindows} windows, ${windowWidthCandidate.toFixed(2)}m width, actual WWR=${(actualWWR * 100).toFixed(1)}%`);
+  const achievedWwr = (windowWidthCandidate * height * numWindows) / wallArea;
 
   return {
     numWindows,
     windowWidth: windowWidthCandidate,
+    windowHeight: height,
+    sillHeight: sill,
     spacing,
-    marginStart: Math.max(0, marginStart)
+    marginStart: Math.max(0, marginStart),
+    achievedWwr
   };
-}
\ No newline at end of file
+}
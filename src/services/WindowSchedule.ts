@@ -0,0 +1,73 @@
+// Window schedule: the laid-out windows of every façade, for reports and CSV export
+import { CompassDirection, getCompassDirection } from '../utils/geometry';
+import { DEFAULT_WINDOW_SIZE, getFacadeWindowRuns, WindowLayoutInput, WindowSize } from './FacadeGlazing';
+
+export interface WindowScheduleRow {
+  edgeIndex?: number;       // Outer footprint edge; unset for courtyard façades
+  orientation: CompassDirection;
+  azimuth: number;          // Degrees clockwise from north
+  edgeLength: number;       // m
+  firstFloor: number;
+  floors: number;
+  windowsPerFloor: number;
+  windowCount: number;
+  windowWidth: number;      // m
+  windowHeight: number;     // m
+  glazedArea: number;       // m²
+  achievedWwr: number;      // Glazed share of the storey walls
+}
+
+/**
+ * One row per façade and group of storeys sharing a window layout, matching
+ * the windows drawn in the viewport. Unglazed façades are listed with no
+ * windows so the schedule covers the whole envelope.
+ */
+export const getWindowSchedule = (building: WindowLayoutInput, size: WindowSize = DEFAULT_WINDOW_SIZE): WindowScheduleRow[] =>
+  getFacadeWindowRuns(building, size).map(({ facade, firstFloor, floors, layout }) => {
+    const windowsPerFloor = layout?.numWindows ?? 0;
+    const windowWidth = layout?.windowWidth ?? 0;
+    const windowHeight = layout?.windowHeight ?? 0;
+    return {
+      edgeIndex: facade.edgeIndex,
+      orientation: getCompassDirection(facade.azimuth),
+      azimuth: facade.azimuth,
+      edgeLength: facade.length,
+      firstFloor,
+      floors,
+      windowsPerFloor,
+      windowCount: windowsPerFloor * floors,
+      windowWidth,
+      windowHeight,
+      glazedArea: windowsPerFloor * floors * windowWidth * windowHeight,
+      achievedWwr: layout?.achievedWwr ?? 0
+    };
+  });
+
+// Shared by the schedule table and the CSV, so both read the same
+export const WINDOW_SCHEDULE_COLUMNS: { header: string; format: (row: WindowScheduleRow) => string }[] = [
+  { header: 'Façade', format: row => row.edgeIndex !== undefined ? `Edge ${row.edgeIndex + 1}` : 'Courtyard' },
+  { header: 'Orientation', format: row => `${row.orientation} ${Math.round(row.azimuth)}°` },
+  { header: 'Edge length (m)', format: row => row.edgeLength.toFixed(2) },
+  {
+    header: 'Floors',
+    format: row => row.floors > 1 ? `${row.firstFloor}-${row.firstFloor + row.floors - 1}` : `${row.firstFloor}`
+  },
+  { header: 'Windows', format: row => `${row.windowCount}` },
+  { header: 'Width (m)', format: row => row.windowWidth.toFixed(2) },
+  { header: 'Height (m)', format: row => row.windowHeight.toFixed(2) },
+  { header: 'Glazed area (m²)', format: row => row.glazedArea.toFixed(2) },
+  { header: 'Achieved WWR (%)', format: row => (row.achievedWwr * 100).toFixed(1) }
+];
+
+const toCsvField = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * The schedule as CSV, one line per row under a header line.
+ */
+export const windowScheduleToCsv = (rows: WindowScheduleRow[]): string =>
+  [
+    WINDOW_SCHEDULE_COLUMNS.map(column => column.header),
+    ...rows.map(row => WINDOW_SCHEDULE_COLUMNS.map(column => column.format(row)))
+  ]
+    .map(fields => fields.map(toCsvField).join(','))
+    .join('\n');
@@ -1,8 +1,13 @@
 import * as THREE from 'three';
 import { BuildingData } from '../types/building';
 import { getThemeColorAsHex } from '../utils/themeColors';
-import { solveWindowParams } from './WindowParametricSolver';
-import { placeWindowsOnEdge, createFrameGeometry } from './WindowGeometryPlacer';
+import { getFacadeWindowRuns } from './FacadeGlazing';
+import { placeWindowsOnEdge, createFrameGeometry, WindowPlacement } from './WindowGeometryPlacer';
+import { WindowParametricResult } from './WindowParametricSolver';
+import { getFacadeShading } from './ShadingDevices';
+import { buildFinMatrices, buildLouvreMatrices } from './ShadingDeviceBuilder';
+import { getBalconyPlacements } from './Balconies';
+import { buildBalconyMatrices } from './BalconyBuilder';
 import { buildWindowMatrices } from './WindowTransformBuilder';
 import { WindowAnimationManager } from './WindowAnimationManager';
 
@@ -19,6 +24,17 @@ interface WindowMaterials {
   glass: THREE.Material;
   frame: THREE.Material;
   overhang: THREE.Material;
+  shading: THREE.Material;
+  balcony: THREE.Material;
+  railing: THREE.Material;
+}
+
+// Instances that don't line up one-to-one with windows
+interface FacadeElementMatrices {
+  fins: THREE.Matrix4[];
+  louvres: THREE.Matrix4[];
+  balconySlabs: THREE.Matrix4[];
+  balconyRailings: THREE.Matrix4[];
 }
 
 export class WindowService {
@@ -32,9 +48,16 @@ export class WindowService {
   public glassInstancedMesh: THREE.InstancedMesh;
   public frameInstancedMesh: THREE.InstancedMesh;
   public overhangInstancedMesh: THREE.InstancedMesh;
+  public finInstancedMesh: THREE.InstancedMesh;
+  public louvreInstancedMesh: THREE.InstancedMesh;
+  public balconySlabInstancedMesh: THREE.InstancedMesh;
+  public balconyRailingInstancedMesh: THREE.InstancedMesh;
   
   private currentIndex = 0;
   private buildingWindows = new Map<string, number[]>(); // Track which indices belong to which building
+  // Shading devices and balconies don't line up with windows, so they are kept per building and rewritten as a whole
+  private buildingFacadeElements = new Map<string, FacadeElementMatrices>();
+  private shadingGeometry: THREE.BoxGeometry;
 
   private animationManager = new WindowAnimationManager();
 
@@ -51,6 +74,7 @@ export class WindowService {
     );
     // Create overhang geometry - a simple box that will be scaled and positioned
     this.overhangGeometry = new THREE.BoxGeometry(1, 1, 1); // Unit box, will be scaled per instance
+    this.shadingGeometry = new THREE.BoxGeometry(1, 1, 1);
     
     // Create materials
     this.materials = this.createMaterials();
@@ -74,6 +98,30 @@ export class WindowService {
       this.maxWindows
     );
     
+    this.finInstancedMesh = new THREE.InstancedMesh(
+      this.shadingGeometry,
+      this.materials.shading,
+      this.maxWindows
+    );
+
+    this.louvreInstancedMesh = new THREE.InstancedMesh(
+      this.shadingGeometry,
+      this.materials.shading,
+      this.maxWindows
+    );
+
+    this.balconySlabInstancedMesh = new THREE.InstancedMesh(
+      this.shadingGeometry,
+      this.materials.balcony,
+      this.maxWindows
+    );
+
+    this.balconyRailingInstancedMesh = new THREE.InstancedMesh(
+      this.shadingGeometry,
+      this.materials.railing,
+      this.maxWindows
+    );
+    
     // Configure instanced meshes
     this.glassInstancedMesh.castShadow = false;
     this.glassInstancedMesh.receiveShadow = true;
@@ -81,16 +129,31 @@ export class WindowService {
     this.frameInstancedMesh.receiveShadow = true;
     this.overhangInstancedMesh.castShadow = true;
     this.overhangInstancedMesh.receiveShadow = true;
+    // Shading devices and balconies cast sun shadows onto the glazing; their bounds change with
+    // every building, so skip the cached bounding sphere culling
+    for (const mesh of this.getFacadeElementMeshes().map(([, mesh]) => mesh)) {
+      mesh.castShadow = true;
+      mesh.receiveShadow = true;
+      mesh.frustumCulled = false;
+    }
     
     // Add to scene
     this.scene.add(this.glassInstancedMesh);
     this.scene.add(this.frameInstancedMesh);
     this.scene.add(this.overhangInstancedMesh);
+    this.scene.add(this.finInstancedMesh);
+    this.scene.add(this.louvreInstancedMesh);
+    this.scene.add(this.balconySlabInstancedMesh);
+    this.scene.add(this.balconyRailingInstancedMesh);
     
     // Initially hide all instances
     this.glassInstancedMesh.count = 0;
     this.frameInstancedMesh.count = 0;
     this.overhangInstancedMesh.count = 0;
+    this.finInstancedMesh.count = 0;
+    this.louvreInstancedMesh.count = 0;
+    this.balconySlabInstancedMesh.count = 0;
+    this.balconyRailingInstancedMesh.count = 0;
   }  private createMaterials(): WindowMaterials {
     const glass = new THREE.MeshPhongMaterial({
       color: 0x4A90E2, // Bright blue color
@@ -112,7 +175,50 @@ export class WindowService {
       color: getThemeColorAsHex('--color-window-overhang', 0x8B8B8B) // Light gray overhang
     });
 
-    return { glass, frame, overhang };
+    const shading = new THREE.MeshLambertMaterial({
+      color: getThemeColorAsHex('--color-shading-device', 0x9ca3af)
+    });
+
+    const balcony = new THREE.MeshLambertMaterial({
+      color: getThemeColorAsHex('--color-balcony-slab', 0xd1d5db)
+    });
+
+    const railing = new THREE.MeshLambertMaterial({
+      color: getThemeColorAsHex('--color-balcony-railing', 0x94a3b8),
+      transparent: true,
+      opacity: 0.6
+    });
+
+    return { glass, frame, overhang, shading, balcony, railing };
+  }
+
+  private getFacadeElementMeshes(): Array<[keyof FacadeElementMatrices, THREE.InstancedMesh]> {
+    return [
+      ['fins', this.finInstancedMesh],
+      ['louvres', this.louvreInstancedMesh],
+      ['balconySlabs', this.balconySlabInstancedMesh],
+      ['balconyRailings', this.balconyRailingInstancedMesh]
+    ];
+  }
+
+  private setBuildingFacadeElements(buildingId: string, elements: FacadeElementMatrices | null): void {
+    if (!elements || Object.values(elements).every(matrices => matrices.length === 0)) {
+      if (!this.buildingFacadeElements.delete(buildingId)) return;
+    } else {
+      this.buildingFacadeElements.set(buildingId, elements);
+    }
+
+    for (const [key, mesh] of this.getFacadeElementMeshes()) {
+      let count = 0;
+      for (const building of this.buildingFacadeElements.values()) {
+        for (const matrix of building[key]) {
+          if (count >= this.maxWindows) break;
+          mesh.setMatrixAt(count++, matrix);
+        }
+      }
+      mesh.count = count;
+      mesh.instanceMatrix.needsUpdate = true;
+    }
   }
 
   addBuildingWindows(building: BuildingData, config: WindowConfig): void {
@@ -121,83 +227,22 @@ export class WindowService {
     // Remove existing windows for this building
     this.removeBuildingWindows(building.id);
 
-    const footprint: THREE.Vector2[] = building.points.map(p => new THREE.Vector2(p.x, p.z));
-    const numFloors = building.floors ?? 1;
-    const floorHeight = building.floorHeight ?? 3;
-    const wwr = building.window_to_wall_ratio ?? 0.4;
-
-    const {
-      windowWidth,
-      windowHeight,
-      windowSpacing,
-      offsetDistance
-    } = config;
-
+    const { windows, ...elements } = calculateWindowMatrices(building, config);
     const buildingIndices: number[] = [];
-    for (let i = 0; i < footprint.length; i++) {
-      const p1 = footprint[i];
-      const p2 = footprint[(i + 1) % footprint.length];
-      const edgeVec = new THREE.Vector2().subVectors(p2, p1);
-      const edgeLength = edgeVec.length();
-      if (edgeLength < windowWidth * 0.5) continue;
-      const dir = edgeVec.clone().normalize();
-      const normal = new THREE.Vector2(-dir.y, dir.x); // Flip the normal direction
-      // Use parametric solver
-      const parametric = solveWindowParams({
-        edgeLength,
-        windowWidth,
-        windowHeight,
-        windowSpacing,
-        wwr
-      });
-      if (!parametric || parametric.numWindows < 1) continue;
-      // Use geometry placer
-      const placements = placeWindowsOnEdge({
-        p1,
-        p2,
-        normal,
-        edgeLength,
-        numFloors,
-        floorHeight,
-        windowHeight,
-        windowSpacing,
-        offsetDistance,
-        parametric
-      });
-      for (const placement of placements) {
-        if (this.currentIndex >= this.maxWindows) {
-          console.warn('Maximum number of windows reached');
-          break;
-        }
-        // Use transform builder
-        const { glassMatrix, frameMatrix } = buildWindowMatrices({
-          position: placement.position,
-          right: placement.right,
-          normal: placement.normal,
-          scaleX: placement.scaleX,
-          windowWidth,
-          windowHeight,
-          glassOffset: 0.02
-        });
-        this.glassInstancedMesh.setMatrixAt(this.currentIndex, glassMatrix);
-        this.frameInstancedMesh.setMatrixAt(this.currentIndex, frameMatrix);
-        
-        // Add overhang if enabled
-        if (building.window_overhang && building.window_overhang_depth && building.window_overhang_depth > 0) {
-          const overhangMatrix = createOverhangMatrix(placement, windowWidth, windowHeight, building.window_overhang_depth);
-          this.overhangInstancedMesh.setMatrixAt(this.currentIndex, overhangMatrix);
-        } else {
-          // Set overhang to zero scale to hide it
-          const hiddenMatrix = new THREE.Matrix4().makeScale(0, 0, 0);
-          this.overhangInstancedMesh.setMatrixAt(this.currentIndex, hiddenMatrix);
-        }
-        
-        buildingIndices.push(this.currentIndex);
-        this.currentIndex++;
+    for (const { glassMatrix, frameMatrix, overhangMatrix } of windows) {
+      if (this.currentIndex >= this.maxWindows) {
+        console.warn('Maximum number of windows reached');
+        break;
       }
+      this.glassInstancedMesh.setMatrixAt(this.currentIndex, glassMatrix);
+      this.frameInstancedMesh.setMatrixAt(this.currentIndex, frameMatrix);
+      this.overhangInstancedMesh.setMatrixAt(this.currentIndex, overhangMatrix);
+      buildingIndices.push(this.currentIndex);
+      this.currentIndex++;
     }
     this.buildingWindows.set(building.id, buildingIndices);
     this.updateInstanceCounts();
+    this.setBuildingFacadeElements(building.id, elements);
     console.log(`Added ${buildingIndices.length} windows for building ${building.id}. Total windows: ${this.currentIndex}`);
   }
 
@@ -252,6 +297,7 @@ export class WindowService {
     }    // Remove the building from the map
     this.buildingWindows.delete(buildingId);
     this.updateInstanceCounts();
+    this.setBuildingFacadeElements(buildingId, null);
     
     // Debug logging
     console.log(`Removed windows for building ${buildingId}. Total windows: ${this.currentIndex}`);
@@ -282,7 +328,8 @@ export class WindowService {
     }
 
     // Calculate new window configuration
-    const newWindowData = calculateWindowMatrices(building, config);
+    const { windows: newWindowData, ...elements } = calculateWindowMatrices(building, config);
+    this.setBuildingFacadeElements(building.id, elements);
       if (newWindowData.length === existingIndices.length) {
       // Same number of windows - just update matrices
       for (let i = 0; i < newWindowData.length; i++) {
@@ -341,6 +388,10 @@ export class WindowService {
   clearAllWindows(): void {
     this.currentIndex = 0;
     this.buildingWindows.clear();
+    this.buildingFacadeElements.clear();
+    for (const [, mesh] of this.getFacadeElementMeshes()) {
+      mesh.count = 0;
+    }
     this.updateInstanceCounts();
     
     // Clear the instance matrices by setting count to 0
@@ -359,19 +410,28 @@ export class WindowService {
     this.scene.remove(this.glassInstancedMesh);
     this.scene.remove(this.frameInstancedMesh);
     this.scene.remove(this.overhangInstancedMesh);
+    this.scene.remove(this.finInstancedMesh);
+    this.scene.remove(this.louvreInstancedMesh);
+    this.scene.remove(this.balconySlabInstancedMesh);
+    this.scene.remove(this.balconyRailingInstancedMesh);
     
     // Dispose geometries
     this.glassGeometry.dispose();
     this.frameGeometry.dispose();
     this.overhangGeometry.dispose();
+    this.shadingGeometry.dispose();
     
     // Dispose materials
     this.materials.glass.dispose();
     this.materials.frame.dispose();
     this.materials.overhang.dispose();
+    this.materials.shading.dispose();
+    this.materials.balcony.dispose();
+    this.materials.railing.dispose();
     
     // Clear references
     this.buildingWindows.clear();
+    this.buildingFacadeElements.clear();
   }
 
   getBuildingWindowCount(buildingId: string): number {
@@ -383,43 +443,66 @@ export class WindowService {
   }
 }
 
-function calculateWindowMatrices(building: BuildingData, config: WindowConfig): Array<{glassMatrix: THREE.Matrix4, frameMatrix: THREE.Matrix4, overhangMatrix: THREE.Matrix4}> {
+// Plan edges of the outer ring and every courtyard ring, per setback tier with the
+// floors each tier spans. Courtyards wind clockwise, so the same normal points out
+// of the building into the courtyard. Each façade is solved with its own resolved
+// window-to-wall ratio, and a separately glazed ground floor comes as its own run.
+function getFacadeEdges(
+  building: BuildingData,
+  config: WindowConfig
+): Array<{ p1: THREE.Vector2; p2: THREE.Vector2; azimuth: number; firstFloor: number; numFloors: number; parametric: WindowParametricResult }> {
+  return getFacadeWindowRuns(building, config).flatMap(({ facade, firstFloor, floors, layout }) =>
+    layout && layout.numWindows > 0
+      ? [{
+          p1: new THREE.Vector2(facade.start.x, facade.start.z),
+          p2: new THREE.Vector2(facade.end.x, facade.end.z),
+          azimuth: facade.azimuth,
+          firstFloor,
+          numFloors: floors,
+          parametric: layout
+        }]
+      : []
+  );
+}
+
+// Window instances of a building, plus the fins and louvres of the orientations that have them and its balconies
+function calculateWindowMatrices(building: BuildingData, config: WindowConfig): FacadeElementMatrices & {
+  windows: Array<{glassMatrix: THREE.Matrix4, frameMatrix: THREE.Matrix4, overhangMatrix: THREE.Matrix4}>;
+} {
   const matrices: Array<{glassMatrix: THREE.Matrix4, frameMatrix: THREE.Matrix4, overhangMatrix: THREE.Matrix4}> = [];
-  const footprint: THREE.Vector2[] = building.points.map(p => new THREE.Vector2(p.x, p.z));
-  const numFloors = building.floors ?? 1;
+  const fins: THREE.Matrix4[] = [];
+  const louvres: THREE.Matrix4[] = [];
   const floorHeight = building.floorHeight ?? 3;
-  const wwr = building.window_to_wall_ratio ?? 0.4;
   const {
     windowWidth,
     windowHeight,
-    windowSpacing,
     offsetDistance
   } = config;
-  for (let i = 0; i < footprint.length; i++) {
-    const p1 = footprint[i];
-    const p2 = footprint[(i + 1) % footprint.length];
+  for (const { p1, p2, azimuth, firstFloor, numFloors, parametric } of getFacadeEdges(building, config)) {
     const edgeVec = new THREE.Vector2().subVectors(p2, p1);
     const edgeLength = edgeVec.length();
-    if (edgeLength < windowWidth * 0.5) continue;
     const dir = edgeVec.clone().normalize();
     const normal = new THREE.Vector2(-dir.y, dir.x); // Flip the normal direction
-    const parametric = solveWindowParams({
-      edgeLength,
-      windowWidth,
-      windowHeight,
-      windowSpacing,
-      wwr
-    });
-    if (!parametric || parametric.numWindows < 1) continue;
+    const shading = getFacadeShading(building, azimuth);
+    if (shading?.fins) {
+      fins.push(...buildFinMatrices({
+        p1,
+        p2,
+        normal,
+        baseY: firstFloor * floorHeight,
+        height: numFloors * floorHeight,
+        offsetDistance,
+        settings: shading.fins
+      }));
+    }
     const placements = placeWindowsOnEdge({
       p1,
       p2,
       normal,
       edgeLength,
       numFloors,
+      firstFloor,
       floorHeight,
-      windowHeight,
-      windowSpacing,
       offsetDistance,
       parametric
     });
@@ -428,7 +511,8 @@ function calculateWindowMatrices(building: BuildingData, config: WindowConfig):
         position: placement.position,
         right: placement.right,
         normal: placement.normal,
-        scaleX: placement.scaleX,
+        width: placement.width,
+        height: placement.height,
         windowWidth,
         windowHeight,
         glassOffset: 0.02
@@ -437,25 +521,30 @@ function calculateWindowMatrices(building: BuildingData, config: WindowConfig):
       // Create overhang matrix
       let overhangMatrix: THREE.Matrix4;
       if (building.window_overhang && building.window_overhang_depth && building.window_overhang_depth > 0) {
-        overhangMatrix = createOverhangMatrix(placement, windowWidth, windowHeight, building.window_overhang_depth);
+        overhangMatrix = createOverhangMatrix(placement, building.window_overhang_depth);
       } else {
         overhangMatrix = new THREE.Matrix4().makeScale(0, 0, 0); // Hidden
       }
       
       matrices.push({ glassMatrix, frameMatrix, overhangMatrix });
+      if (shading?.louvres) {
+        louvres.push(...buildLouvreMatrices(placement, shading.louvres));
+      }
     }
   }
-  return matrices;
+  const balconySlabs: THREE.Matrix4[] = [];
+  const balconyRailings: THREE.Matrix4[] = [];
+  for (const balcony of getBalconyPlacements(building, config)) {
+    const { slab, railings } = buildBalconyMatrices(balcony, floorHeight);
+    balconySlabs.push(slab);
+    balconyRailings.push(...railings);
+  }
+  return { windows: matrices, fins, louvres, balconySlabs, balconyRailings };
 }
 
 // Helper function to create overhang matrix (extracted from class method)
-function createOverhangMatrix(
-  placement: { position: THREE.Vector3; right: THREE.Vector3; normal: THREE.Vector3; scaleX: number },
-  windowWidth: number,
-  windowHeight: number,
-  overhangDepth: number
-): THREE.Matrix4 {
-  const { position, right, normal, scaleX } = placement;
+function createOverhangMatrix(placement: WindowPlacement, overhangDepth: number): THREE.Matrix4 {
+  const { position, right, normal, width, height } = placement;
   
   // Ensure vectors are normalized
   const rightNorm = right.clone().normalize();
@@ -464,12 +553,11 @@ function createOverhangMatrix(
   
   // Calculate overhang position - above the window and projecting outward
   const overhangHeight = 0.1; // 10cm thick overhang
-  const overhangWidth = windowWidth * scaleX * 1.2; // 20% wider than window
+  const overhangWidth = width * 1.2; // 20% wider than window
   
-  // Position the overhang at the TOP EDGE of the window (flush with the top)
+  // Position the overhang at the TOP EDGE of the window (flush with the head)
   const overhangPosition = position.clone()
-  // Magic number 0.8! Dont know why
-    .add(up.clone().multiplyScalar(windowHeight * 0.8 )) 
+    .add(up.clone().multiplyScalar((height + overhangHeight) / 2))
     .add(normalNorm.clone().multiplyScalar(overhangDepth * 0.5)); // Project outward from wall surface
   
   // Build rotation matrix - overhang aligns with the wall
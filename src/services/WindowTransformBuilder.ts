@@ -5,14 +5,15 @@ export interface WindowTransformConfig {
   position: THREE.Vector3;
   right: THREE.Vector3; // Direction along the wall (normalized)
   normal: THREE.Vector3; // Wall surface normal (normalized)
-  scaleX: number;
-  windowWidth: number;
+  width: number;        // Placed window size in m
+  height: number;
+  windowWidth: number;  // Size of the shared window geometry
   windowHeight: number;
   glassOffset: number;
 }
 
 export function buildWindowMatrices(cfg: WindowTransformConfig): { glassMatrix: THREE.Matrix4, frameMatrix: THREE.Matrix4 } {
-  const { position, right, normal, scaleX, windowWidth, windowHeight, glassOffset } = cfg;
+  const { position, right, normal, width, height, windowWidth, windowHeight, glassOffset } = cfg;
   // Ensure right and normal are normalized
   const rightNorm = right.clone().normalize();
   const normalNorm = normal.clone().normalize();
@@ -23,8 +24,8 @@ export function buildWindowMatrices(cfg: WindowTransformConfig): { glassMatrix:
   const basis = new THREE.Matrix4();
   basis.makeBasis(rightNorm, up, normalNorm);
   const rotation = new THREE.Quaternion().setFromRotationMatrix(basis);
-  // Scale in world units
-  const windowScale = new THREE.Vector3(windowWidth * scaleX, windowHeight, 1);
+  // Stretch the shared geometry to the placed size
+  const windowScale = new THREE.Vector3(width / windowWidth, height / windowHeight, 1);
   // Offset glass along the true normal
   const glassOffsetVec = normalNorm.clone().multiplyScalar(glassOffset);
   const glassMatrix = new THREE.Matrix4().compose(
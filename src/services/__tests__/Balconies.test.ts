@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { getBalconyPlacements, getBalconyArea } from '../Balconies';
+import { Point3D } from '../../types/building';
+
+const p = (x: number, z: number): Point3D => ({ x, y: 0, z });
+
+// Counter-clockwise as stored; edge 1 is the 10 m south façade
+const square = [p(0, 0), p(0, 10), p(10, 10), p(10, 0)];
+
+const building = (settings: { width?: number; every?: number; from_floor?: number; to_floor?: number } = {}) => ({
+  points: square,
+  floors: 4,
+  floorHeight: 3,
+  window_to_wall_ratio: 0.4,
+  balconies: { edges: { 1: { width: 2, depth: 1.5, every: 2, from_floor: 1, ...settings } } }
+});
+
+describe('balconies', () => {
+  it('should place one balcony on every nth window within the floor range', () => {
+    const balconies = getBalconyPlacements(building({ to_floor: 2 }));
+
+    // Five windows per storey, so columns 0, 2 and 4 on floors 1 and 2
+    expect(balconies.map(b => b.floor)).toEqual([1, 1, 1, 2, 2, 2]);
+    expect(balconies.every(b => b.facade.edgeIndex === 1)).toBe(true);
+  });
+
+  it('should run to the top floor when no upper floor is given', () => {
+    const floors = new Set(getBalconyPlacements(building({ every: 1 })).map(b => b.floor));
+
+    expect([...floors]).toEqual([1, 2, 3]);
+  });
+
+  it('should keep wide balconies within the façade', () => {
+    const balconies = getBalconyPlacements(building({ width: 4, to_floor: 1 }));
+
+    expect(Math.min(...balconies.map(b => b.along))).toBeGreaterThanOrEqual(2);
+    expect(Math.max(...balconies.map(b => b.along))).toBeLessThanOrEqual(8);
+  });
+
+  it('should not overlap balconies wider than the window columns', () => {
+    const balconies = getBalconyPlacements(building({ every: 1, width: 2.4, to_floor: 1 }));
+    const alongs = balconies.map(b => b.along);
+
+    alongs.slice(1).forEach((along, i) => {
+      expect(along - alongs[i]).toBeGreaterThanOrEqual(balconies[i].width - 1e-6);
+    });
+    expect(getBalconyArea(building({ every: 1, width: 2.4, to_floor: 1 }))).toBeLessThanOrEqual(10 * 1.5);
+  });
+
+  it('should sum the slab area', () => {
+    expect(getBalconyArea(building({ to_floor: 2 }))).toBeCloseTo(6 * 2 * 1.5);
+    expect(getBalconyArea({ ...building(), balconies: undefined })).toBe(0);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  transformFootprint,
+  getBuildingsPivot,
+  getLinearArrayTransforms,
+  getPolarArrayTransforms,
+  createBuildingCopies
+} from '../BuildingTransforms';
+import { BuildingSnapshot } from '../../types/building';
+
+const building: BuildingSnapshot = {
+  id: 'building_1',
+  name: 'Building 1',
+  points: [
+    { x: 0, y: 0, z: 0 },
+    { x: 10, y: 0, z: 0 },
+    { x: 10, y: 0, z: 4 },
+    { x: 0, y: 0, z: 4 }
+  ],
+  area: 40,
+  floors: 3,
+  floorHeight: 3,
+  createdAt: new Date(0),
+  roof_type: 'gable',
+  roof_ridge_direction: 90
+};
+
+const round = (values: { x: number; z: number }[]) =>
+  values.map(p => [Math.round(p.x * 1000) / 1000, Math.round(p.z * 1000) / 1000]);
+
+describe('transformFootprint', () => {
+  it('should move every point on the ground', () => {
+    const moved = transformFootprint(building, { dx: 5, dz: -2, rotation: 0, pivot: { x: 0, z: 0 } });
+    expect(round(moved.points)).toEqual([[5, -2], [15, -2], [15, 2], [5, 2]]);
+  });
+
+  it('should rotate clockwise about the pivot and turn the ridge with it', () => {
+    const pivot = getBuildingsPivot([building]);
+    const rotated = transformFootprint(building, { dx: 0, dz: 0, rotation: 90, pivot });
+
+    // East-west bar becomes a north-south bar around the same centroid
+    expect(pivot).toEqual({ x: 5, z: 2 });
+    expect(round(rotated.points)).toEqual([[7, -3], [7, 7], [3, 7], [3, -3]]);
+    expect(rotated.roof_ridge_direction).toBe(180);
+  });
+
+  it('should carry courtyards along', () => {
+    const withCourtyard = { ...building, holes: [[{ x: 4, y: 0, z: 1 }, { x: 4, y: 0, z: 3 }, { x: 6, y: 0, z: 3 }]] };
+    const moved = transformFootprint(withCourtyard, { dx: 1, dz: 1, rotation: 0, pivot: { x: 0, z: 0 } });
+    expect(round(moved.holes?.[0] ?? [])).toEqual([[5, 2], [5, 4], [7, 4]]);
+  });
+});
+
+describe('arrays', () => {
+  it('should space linear copies evenly', () => {
+    const transforms = getLinearArrayTransforms({ count: 3, dx: 15, dz: 0 });
+    expect(transforms.map(t => t.dx)).toEqual([15, 30]);
+  });
+
+  it('should spread a full polar array around the circle without doubling the original', () => {
+    const transforms = getPolarArrayTransforms({ count: 4, angle: 360, center: { x: 0, z: 0 } });
+    expect(transforms.map(t => t.rotation)).toEqual([90, 180, 270]);
+  });
+
+  it('should end a partial polar array on the swept angle', () => {
+    const transforms = getPolarArrayTransforms({ count: 3, angle: 90, center: { x: 0, z: 0 } });
+    expect(transforms.map(t => t.rotation)).toEqual([45, 90]);
+  });
+
+  it('should create named copies without ids', () => {
+    const copies = createBuildingCopies(building, getLinearArrayTransforms({ count: 3, dx: 0, dz: 10 }));
+
+    expect(copies.map(c => c.name)).toEqual(['Building 1 copy 1', 'Building 1 copy 2']);
+    expect(copies.every(c => c.id === '' && c.floors === 3 && c.roof_type === 'gable')).toBe(true);
+    expect(copies[1].points[0]).toEqual({ x: 0, y: 0, z: 20 });
+    expect(building.points[0]).toEqual({ x: 0, y: 0, z: 0 });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { calculateDaylightAutonomy, DaylightInput } from '../DaylightAutonomyCalculator';
+import type { EPWDataPoint, EPWHeader, EPWProcessedData } from '../EPWParser';
+
+const createBuilding = (size: number, overrides: Partial<DaylightInput> = {}): DaylightInput => ({
+  id: 'building_1',
+  points: [
+    { x: 0, y: 0, z: 0 },
+    { x: size, y: 0, z: 0 },
+    { x: size, y: 0, z: size },
+    { x: 0, y: 0, z: size }
+  ],
+  floors: 1,
+  floorHeight: 3,
+  window_to_wall_ratio: 0.4,
+  ...overrides
+});
+
+// A week of clear midsummer days in Gothenburg
+const createClearSkyWeather = (): Pick<EPWProcessedData, 'header' | 'hourlyData'> => {
+  const hourlyData: EPWDataPoint[] = [];
+  for (let day = 15; day < 22; day++) {
+    for (let hour = 1; hour <= 24; hour++) {
+      hourlyData.push({
+        month: 6,
+        day,
+        hour,
+        globalHorizontalIlluminance: hour > 6 && hour <= 20 ? 80000 : 0,
+        diffuseHorizontalIlluminance: hour > 6 && hour <= 20 ? 8000 : 0
+      } as EPWDataPoint);
+    }
+  }
+  return {
+    header: { latitude: 57.7, longitude: 12.0, timezone: 1 } as EPWHeader,
+    hourlyData
+  };
+};
+
+describe('calculateDaylightAutonomy', () => {
+  it('should return zero for an empty scheme', () => {
+    const result = calculateDaylightAutonomy([]);
+
+    expect(result.spatialDaylightAutonomy).toBe(0);
+    expect(result.usedWeatherFile).toBe(false);
+  });
+
+  it('should derive façade orientations from the footprint edges', () => {
+    const result = calculateDaylightAutonomy([createBuilding(10)]);
+    const azimuths = result.buildings[0].facades.map(facade => Math.round(facade.azimuth));
+
+    // North is -Z and east is +X in the scene
+    expect(azimuths).toEqual([0, 90, 180, 270]);
+    result.buildings[0].facades.forEach(facade => expect(facade.floorDepth).toBeCloseTo(5));
+  });
+
+  it('should increase with the window-to-wall ratio', () => {
+    const low = calculateDaylightAutonomy([createBuilding(10, { window_to_wall_ratio: 0.2 })]);
+    const high = calculateDaylightAutonomy([createBuilding(10, { window_to_wall_ratio: 0.6 })]);
+
+    expect(high.spatialDaylightAutonomy).toBeGreaterThan(low.spatialDaylightAutonomy);
+  });
+
+  it('should decrease for deeper floor plates', () => {
+    const shallow = calculateDaylightAutonomy([createBuilding(10)]);
+    const deep = calculateDaylightAutonomy([createBuilding(30)]);
+
+    expect(deep.spatialDaylightAutonomy).toBeLessThan(shallow.spatialDaylightAutonomy);
+  });
+
+  it('should light south façades deeper than north façades under clear skies', () => {
+    const result = calculateDaylightAutonomy([createBuilding(30)], createClearSkyWeather());
+    const facades = result.buildings[0].facades;
+    const north = facades.find(facade => Math.round(facade.azimuth) === 0)!;
+    const south = facades.find(facade => Math.round(facade.azimuth) === 180)!;
+
+    expect(result.usedWeatherFile).toBe(true);
+    expect(south.daylitDepth).toBeGreaterThan(north.daylitDepth);
+  });
+
+  it('should reduce daylight behind deep overhangs', () => {
+    const weather = createClearSkyWeather();
+    const open = calculateDaylightAutonomy([createBuilding(30)], weather);
+    const shaded = calculateDaylightAutonomy(
+      [createBuilding(30, { window_overhang: true, window_overhang_depth: 2 })],
+      weather
+    );
+
+    expect(shaded.spatialDaylightAutonomy).toBeLessThan(open.spatialDaylightAutonomy);
+  });
+
+  it('should light south façades less deeply behind louvres', () => {
+    const weather = createClearSkyWeather();
+    const south = (building: DaylightInput) =>
+      calculateDaylightAutonomy([building], weather).buildings[0].facades.find(facade => Math.round(facade.azimuth) === 180)!;
+    const louvres = { depth: 0.3, spacing: 0.3, angle: 30 };
+
+    expect(south(createBuilding(30, { shading_devices: { S: { louvres } } })).daylitDepth)
+      .toBeLessThan(south(createBuilding(30)).daylitDepth);
+  });
+
+  it('should stay within 0-100%', () => {
+    const result = calculateDaylightAutonomy([createBuilding(4, { window_to_wall_ratio: 0.9 })], createClearSkyWeather());
+
+    expect(result.spatialDaylightAutonomy).toBeGreaterThanOrEqual(0);
+    expect(result.spatialDaylightAutonomy).toBeLessThanOrEqual(100);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { diffDesignNodes } from '../DesignDiff';
+import { BuildingSnapshot } from '../../types/building';
+import { DesignNode } from '../../types/designExploration';
+
+const createSnapshot = (id: string, overrides: Partial<BuildingSnapshot> = {}): BuildingSnapshot => ({
+  id,
+  name: `Building ${id}`,
+  points: [
+    { x: 0, y: 0, z: 0 },
+    { x: 10, y: 0, z: 0 },
+    { x: 10, y: 0, z: 10 },
+    { x: 0, y: 0, z: 10 }
+  ],
+  area: 100,
+  floors: 3,
+  floorHeight: 3.5,
+  createdAt: new Date(0),
+  ...overrides
+});
+
+const createNode = (id: string, buildings: BuildingSnapshot[], heatingDemand = 50): DesignNode => ({
+  id,
+  timestamp: new Date(0),
+  name: id,
+  buildings,
+  metrics: { heatingDemand, spatialDaylightAutonomy: 50, globalWarmingPotential: 300 }
+});
+
+describe('diffDesignNodes', () => {
+  it('should report no changes for identical nodes', () => {
+    const buildings = [createSnapshot('a')];
+    const diff = diffDesignNodes(createNode('n1', buildings), createNode('n2', buildings));
+
+    expect(diff.buildings).toHaveLength(0);
+    diff.metrics.forEach(metric => expect(metric.delta).toBe(0));
+  });
+
+  it('should detect added and removed buildings', () => {
+    const diff = diffDesignNodes(
+      createNode('n1', [createSnapshot('a'), createSnapshot('b')]),
+      createNode('n2', [createSnapshot('a'), createSnapshot('c')])
+    );
+
+    expect(diff.buildings.map(b => [b.buildingId, b.status])).toEqual([
+      ['c', 'added'],
+      ['b', 'removed']
+    ]);
+  });
+
+  it('should list property changes for modified buildings', () => {
+    const diff = diffDesignNodes(
+      createNode('n1', [createSnapshot('a', { hvac_system: 'VAV' })]),
+      createNode('n2', [createSnapshot('a', { floors: 5, hvac_system: 'Radiant', window_to_wall_ratio: 0.5 })])
+    );
+
+    expect(diff.buildings).toHaveLength(1);
+    expect(diff.buildings[0].status).toBe('modified');
+    expect(diff.buildings[0].changes).toEqual([
+      { field: 'floors', label: 'Floors', from: 3, to: 5 },
+      { field: 'window_to_wall_ratio', label: 'WWR', from: undefined, to: 0.5 },
+      { field: 'hvac_system', label: 'HVAC', from: 'VAV', to: 'Radiant' }
+    ]);
+  });
+
+  it('should list roof form changes', () => {
+    const diff = diffDesignNodes(
+      createNode('n1', [createSnapshot('a', { roof_type: 'flat' })]),
+      createNode('n2', [createSnapshot('a', { roof_type: 'gable', roof_pitch: 35 })])
+    );
+
+    expect(diff.buildings[0].changes).toEqual([
+      { field: 'roof_type', label: 'Roof Form', from: 'flat', to: 'gable' },
+      { field: 'roof_pitch', label: 'Roof Pitch', from: undefined, to: 35 }
+    ]);
+  });
+
+  it('should report window layout changes by the achieved WWR', () => {
+    const diff = diffDesignNodes(
+      createNode('n1', [createSnapshot('a', { window_to_wall_ratio: 0.4 })]),
+      createNode('n2', [createSnapshot('a', { window_to_wall_ratio: 0.4, window_layout: { sill_height: 1.8, head_height: 2.4 } })])
+    );
+    const change = diff.buildings[0].changes[0];
+
+    expect(change).toMatchObject({ field: 'window_layout', label: 'Achieved WWR' });
+    expect(change.to as number).toBeLessThan(change.from as number);
+  });
+
+  it('should report shading device changes by the solar shading factor', () => {
+    const louvres = { S: { louvres: { depth: 0.2, spacing: 0.3, angle: 20 } } };
+    const diff = diffDesignNodes(
+      createNode('n1', [createSnapshot('a')]),
+      createNode('n2', [createSnapshot('a', { shading_devices: louvres })])
+    );
+    const change = diff.buildings[0].changes[0];
+
+    expect(change).toMatchObject({ field: 'shading_devices', label: 'Solar Shading Factor', from: 1 });
+    expect(change.to as number).toBeLessThan(1);
+  });
+
+  it('should report footprint changes with the new area', () => {
+    const moved = createSnapshot('a', {
+      points: [
+        { x: 0, y: 0, z: 0 },
+        { x: 20, y: 0, z: 0 },
+        { x: 20, y: 0, z: 10 },
+        { x: 0, y: 0, z: 10 }
+      ]
+    });
+    const diff = diffDesignNodes(createNode('n1', [createSnapshot('a')]), createNode('n2', [moved]));
+
+    expect(diff.buildings[0].changes[0]).toEqual({ field: 'points', label: 'Footprint Area', from: 100, to: 200 });
+  });
+
+  it('should mark metric deltas as improvements according to the metric goal', () => {
+    const diff = diffDesignNodes(createNode('n1', [], 60), createNode('n2', [], 45));
+    const heating = diff.metrics.find(metric => metric.key === 'heatingDemand')!;
+
+    expect(heating.delta).toBe(-15);
+    expect(heating.improved).toBe(true);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { DesignGraphStorage } from '../DesignGraphStorage';
+import { DesignExplorationGraph } from '../../types/designExploration';
+
+// Just enough of IndexedDB for one object store: requests and transactions complete on the next tick
+const records = new Map<string, unknown>();
+
+const createRequest = <T>(getResult: () => T) => {
+  const request: { result?: T; error: null; onsuccess?: () => void; onerror?: () => void } = { error: null };
+  setTimeout(() => {
+    request.result = getResult();
+    request.onsuccess?.();
+  });
+  return request;
+};
+
+const fakeDatabase = {
+  objectStoreNames: { contains: () => true },
+  createObjectStore: vi.fn(),
+  transaction: () => {
+    const transaction: { error: null; oncomplete?: () => void; onerror?: () => void; objectStore: () => unknown } = {
+      error: null,
+      objectStore: () => ({
+        get: (id: string) => createRequest(() => structuredClone(records.get(id))),
+        put: (record: { id: string }) => {
+          records.set(record.id, structuredClone(record));
+          setTimeout(() => transaction.oncomplete?.());
+        }
+      })
+    };
+    return transaction;
+  }
+};
+
+const createGraph = (): DesignExplorationGraph => ({
+  nodes: [{
+    id: 'node_1',
+    timestamp: new Date('2024-05-01T12:00:00Z'),
+    name: 'Baseline',
+    buildings: [{
+      id: 'building_1',
+      points: [{ x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: 10 }, { x: 10, y: 0, z: 10 }],
+      area: 50,
+      floors: 2,
+      floorHeight: 3,
+      createdAt: new Date('2024-05-01T11:00:00Z'),
+      window_to_wall_overrides: { edges: { 1: 0.6 } }
+    }],
+    metrics: { heatingDemand: 80, spatialDaylightAutonomy: 40, globalWarmingPotential: 300 }
+  }],
+  edges: [],
+  currentNodeId: 'node_1'
+});
+
+const storeRecord = (schemaVersion: number) => {
+  records.set('current', { id: 'current', schemaVersion, savedAt: 0, graph: createGraph() });
+};
+
+describe('DesignGraphStorage', () => {
+  beforeAll(() => {
+    vi.stubGlobal('indexedDB', { open: () => createRequest(() => fakeDatabase) });
+  });
+
+  beforeEach(() => {
+    records.clear();
+    vi.mocked(console.warn).mockClear();
+  });
+
+  it('should resolve to null when nothing has been saved', async () => {
+    expect(await DesignGraphStorage.load()).toBeNull();
+  });
+
+  it('should round-trip a saved graph with dates and snapshots restored', async () => {
+    await DesignGraphStorage.save(createGraph());
+    const loaded = await DesignGraphStorage.load();
+
+    expect(loaded).toEqual(createGraph());
+    expect(loaded!.nodes[0].timestamp).toBeInstanceOf(Date);
+    expect(loaded!.nodes[0].buildings[0].createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should ignore a graph saved with a newer schema', async () => {
+    storeRecord(DesignGraphStorage.SCHEMA_VERSION + 1);
+
+    expect(await DesignGraphStorage.load()).toBeNull();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('newer schema'));
+  });
+
+  it('should ignore a graph with no migration to the current schema', async () => {
+    storeRecord(DesignGraphStorage.SCHEMA_VERSION - 1);
+
+    expect(await DesignGraphStorage.load()).toBeNull();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('No migration'));
+  });
+
+  it('should load a graph saved with the current schema', async () => {
+    storeRecord(DesignGraphStorage.SCHEMA_VERSION);
+
+    expect((await DesignGraphStorage.load())?.nodes.map(node => node.name)).toEqual(['Baseline']);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { EditHistory, applyBuildingSnapshots } from '../EditHistory';
+import { BuildingSnapshot } from '../../types/building';
+
+const createSnapshot = (id: string, floors = 3): BuildingSnapshot => ({
+  id,
+  name: `Building ${id}`,
+  points: [
+    { x: 0, y: 0, z: 0 },
+    { x: 10, y: 0, z: 0 },
+    { x: 10, y: 0, z: 10 }
+  ],
+  area: 50,
+  floors,
+  floorHeight: 3.5,
+  createdAt: new Date(0)
+});
+
+const ids = (scene: BuildingSnapshot[] | null) => scene?.map(b => `${b.id}:${b.floors}`);
+
+describe('applyBuildingSnapshots', () => {
+  it('should replace, remove and append the affected buildings', () => {
+    const scene = [createSnapshot('a'), createSnapshot('b'), createSnapshot('c')];
+    const result = applyBuildingSnapshots(scene, ['a', 'b', 'd'], [createSnapshot('a', 5), createSnapshot('d')]);
+
+    expect(ids(result)).toEqual(['a:5', 'c:3', 'd:3']);
+  });
+});
+
+describe('EditHistory', () => {
+  it('should undo and redo an added building', () => {
+    const history = new EditHistory();
+    history.record('add', 'Add b', ['b'], []);
+
+    const undone = history.undo([createSnapshot('a'), createSnapshot('b')]);
+    expect(ids(undone)).toEqual(['a:3']);
+    expect(history.canRedo()).toBe(true);
+
+    const redone = history.redo(undone!);
+    expect(ids(redone)).toEqual(['a:3', 'b:3']);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('should restore all buildings after undoing a clear', () => {
+    const history = new EditHistory();
+    const scene = [createSnapshot('a'), createSnapshot('b')];
+    history.record('clear', 'Clear', ['a', 'b'], scene);
+
+    expect(ids(history.undo([]))).toEqual(['a:3', 'b:3']);
+  });
+
+  it('should merge consecutive commands with the same merge key', () => {
+    const history = new EditHistory();
+    history.record('update', 'Edit a', ['a'], [createSnapshot('a', 3)], 'edit-a');
+    history.record('update', 'Edit a', ['a'], [createSnapshot('a', 4)], 'edit-a');
+
+    expect(history.getCommands()).toHaveLength(1);
+    expect(ids(history.undo([createSnapshot('a', 5)]))).toEqual(['a:3']);
+  });
+
+  it('should discard undone commands when a new one is recorded', () => {
+    const history = new EditHistory();
+    history.record('add', 'Add a', ['a'], []);
+    history.record('add', 'Add b', ['b'], []);
+    history.undo([createSnapshot('a'), createSnapshot('b')]);
+    history.record('delete', 'Delete a', ['a'], [createSnapshot('a')]);
+
+    expect(history.getCommands().map(c => c.label)).toEqual(['Add a', 'Delete a']);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('should jump through several commands at once', () => {
+    const history = new EditHistory();
+    history.record('add', 'Add a', ['a'], []);
+    history.record('add', 'Add b', ['b'], []);
+
+    expect(ids(history.goTo(0, [createSnapshot('a'), createSnapshot('b')]))).toEqual([]);
+    expect(history.getCursor()).toBe(0);
+    expect(ids(history.goTo(2, []))).toEqual(['a:3', 'b:3']);
+  });
+});
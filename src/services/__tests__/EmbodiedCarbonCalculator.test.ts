@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { calculateEmbodiedCarbon, EmbodiedCarbonInput } from '../EmbodiedCarbonCalculator';
+
+const createBuilding = (overrides: Partial<EmbodiedCarbonInput> = {}): EmbodiedCarbonInput => ({
+  id: 'building_1',
+  points: [
+    { x: 0, y: 0, z: 0 },
+    { x: 10, y: 0, z: 0 },
+    { x: 10, y: 0, z: 10 },
+    { x: 0, y: 0, z: 10 }
+  ],
+  floors: 1,
+  floorHeight: 3,
+  ...overrides
+});
+
+describe('calculateEmbodiedCarbon', () => {
+  it('should return zero for an empty scheme', () => {
+    const result = calculateEmbodiedCarbon([]);
+
+    expect(result.totalEmbodiedCarbon).toBe(0);
+    expect(result.globalWarmingPotential).toBe(0);
+  });
+
+  it('should multiply envelope areas by the default assembly factors', () => {
+    const result = calculateEmbodiedCarbon([createBuilding()]);
+
+    // 120 m² façade at 40% WWR: 72 m² wall, 48 m² glazing; 100 m² roof, ground floor and GFA
+    expect(result.breakdown).toEqual({
+      walls: 60 * 72,
+      glazing: 35 * 48,
+      roof: 65 * 100,
+      groundFloor: 70 * 100,
+      structure: 150 * 100,
+      balconies: 0
+    });
+    expect(result.totalEmbodiedCarbon).toBeCloseTo(34500);
+    expect(result.globalWarmingPotential).toBeCloseTo(345);
+  });
+
+  it('should lower the result for a timber structure', () => {
+    const concrete = calculateEmbodiedCarbon([createBuilding({ structural_system: 'Concrete' })]);
+    const timber = calculateEmbodiedCarbon([createBuilding({ structural_system: 'Timber' })]);
+
+    expect(timber.breakdown.structure).toBeLessThan(concrete.breakdown.structure);
+    expect(timber.globalWarmingPotential).toBeLessThan(concrete.globalWarmingPotential);
+  });
+
+  it('should sum the per-element breakdown across buildings', () => {
+    const result = calculateEmbodiedCarbon([
+      createBuilding({ id: 'a' }),
+      createBuilding({ id: 'b', floors: 3, wall_construction: 'Wood' })
+    ]);
+
+    const elementSum = Object.values(result.breakdown).reduce((sum, value) => sum + value, 0);
+    expect(elementSum).toBeCloseTo(result.totalEmbodiedCarbon);
+    expect(result.totalGrossFloorArea).toBe(400);
+    expect(result.buildings).toHaveLength(2);
+  });
+
+  it('should count balconies only when the building opts them in', () => {
+    const balconies = { edges: { 0: { width: 2, depth: 1.5, every: 1, from_floor: 1 } } };
+    const excluded = calculateEmbodiedCarbon([createBuilding({ floors: 3, balconies })]);
+    const included = calculateEmbodiedCarbon([createBuilding({ floors: 3, balconies: { ...balconies, include_in_gwp: true } })]);
+
+    expect(excluded.breakdown.balconies).toBe(0);
+    expect(included.breakdown.balconies).toBeGreaterThan(0);
+    expect(included.totalEmbodiedCarbon - excluded.totalEmbodiedCarbon).toBeCloseTo(included.breakdown.balconies);
+  });
+});
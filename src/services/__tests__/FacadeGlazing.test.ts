@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { getFacades, getFacadeWindowRuns, resolveWindowToWallRatio, getEffectiveWindowToWallRatio } from '../FacadeGlazing';
+import { Point3D } from '../../types/building';
+
+const p = (x: number, z: number): Point3D => ({ x, y: 0, z });
+
+// Counter-clockwise as stored: west, south, east and north façades in that order
+const square = [p(0, 0), p(0, 10), p(10, 10), p(10, 0)];
+const courtyard = [p(4, 4), p(6, 4), p(6, 6), p(4, 6)];
+
+describe('façade glazing', () => {
+  it('should list façades with their outward orientation', () => {
+    const facades = getFacades({ points: square, floors: 3 });
+
+    expect(facades.map(f => f.azimuth)).toEqual([270, 180, 90, 0]);
+    expect(facades.map(f => f.edgeIndex)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should face courtyard walls into the courtyard without an edge index', () => {
+    const facades = getFacades({ points: square, holes: [courtyard], floors: 3 }).slice(4);
+
+    expect(facades[0].azimuth).toBe(180);
+    expect(facades.every(f => f.edgeIndex === undefined)).toBe(true);
+  });
+
+  it('should prefer edge over orientation over the building-wide ratio', () => {
+    const building = {
+      window_to_wall_ratio: 0.3,
+      window_to_wall_overrides: { orientations: { S: 0.6 }, edges: { 1: 0.2 } }
+    };
+
+    expect(resolveWindowToWallRatio(building, 180, 1)).toBe(0.2);
+    expect(resolveWindowToWallRatio(building, 175, 5)).toBe(0.6);
+    expect(resolveWindowToWallRatio(building, 0, 3)).toBe(0.3);
+    expect(resolveWindowToWallRatio({}, 0)).toBe(0.4);
+  });
+
+  it('should weight the effective ratio by façade area', () => {
+    const effective = getEffectiveWindowToWallRatio({
+      points: square,
+      floors: 2,
+      window_to_wall_ratio: 0.2,
+      window_to_wall_overrides: { orientations: { S: 0.8 } }
+    });
+
+    expect(effective).toBeCloseTo(0.35);
+  });
+
+  it('should split off a separately glazed ground floor', () => {
+    const runs = getFacadeWindowRuns({
+      points: square,
+      floors: 3,
+      floorHeight: 3.5,
+      window_to_wall_ratio: 0.3,
+      ground_floor_glazing: { window_to_wall_ratio: 0.8, mode: 'ribbon', sill_height: 0, head_height: 3.2 }
+    }).filter(run => run.facade.edgeIndex === 1);
+
+    expect(runs.map(run => [run.firstFloor, run.floors, run.targetWwr])).toEqual([[0, 1, 0.8], [1, 2, 0.3]]);
+    expect(runs[0].layout!.windowHeight).toBeCloseTo(3.2);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { remapEdgeIndex, remapEdgeSettings } from '../FootprintEdges';
+import { getFacades, resolveWindowToWallRatio } from '../FacadeGlazing';
+import { Point3D } from '../../types/building';
+
+const p = (x: number, z: number): Point3D => ({ x, y: 0, z });
+
+describe('footprint edge remapping', () => {
+  it('should split an edge when a vertex is inserted on it', () => {
+    // Vertex inserted between points 1 and 2 of a square
+    const insert = { type: 'insert' as const, index: 2 };
+
+    expect([0, 1, 2, 3].map(edge => remapEdgeIndex(edge, insert, 4))).toEqual([[0], [1, 2], [3], [4]]);
+    expect(remapEdgeIndex(3, { type: 'insert', index: 4 }, 4)).toEqual([3, 4]);
+  });
+
+  it('should merge the two edges at a removed vertex', () => {
+    // Pentagon losing point 2, then point 0
+    expect([0, 1, 2, 3, 4].map(edge => remapEdgeIndex(edge, { type: 'remove', index: 2 }, 5))).toEqual([[0], [1], [1], [2], [3]]);
+    expect([0, 1, 2, 3, 4].map(edge => remapEdgeIndex(edge, { type: 'remove', index: 0 }, 5))).toEqual([[3], [0], [1], [2], [3]]);
+  });
+
+  it('should keep a setback on the walls it stepped in', () => {
+    const { setbacks } = remapEdgeSettings(
+      { setbacks: [{ fromFloor: 2, distance: 3, edges: [1, 3] }, { fromFloor: 4, distance: 2 }] },
+      { type: 'insert', index: 1 },
+      4
+    );
+
+    expect(setbacks).toEqual([{ fromFloor: 2, distance: 3, edges: [2, 4] }, { fromFloor: 4, distance: 2 }]);
+  });
+
+  it('should keep a façade WWR override on the same wall after a vertex is inserted', () => {
+    // South wall (edge 1) overridden; a vertex is then inserted on the west wall, as the footprint editor does
+    const square = [p(0, 0), p(0, 10), p(10, 10), p(10, 0)];
+    const building = { window_to_wall_ratio: 0.3, window_to_wall_overrides: { edges: { 1: 0.7 } } };
+    const points = [square[0], p(0, 5), ...square.slice(1)];
+
+    const remapped = { ...building, ...remapEdgeSettings(building, { type: 'insert', index: 1 }, 4) };
+    const south = getFacades({ points, floors: 1 }).find(facade => facade.azimuth === 180)!;
+
+    expect(south.edgeIndex).toBe(2);
+    expect(resolveWindowToWallRatio(remapped, south.azimuth, south.edgeIndex)).toBe(0.7);
+    expect(remapped.window_to_wall_overrides.edges).toEqual({ 2: 0.7 });
+  });
+
+  it('should keep the override of the wall before a removed vertex', () => {
+    const { window_to_wall_overrides } = remapEdgeSettings(
+      { window_to_wall_overrides: { orientations: { N: 0.2 }, edges: { 1: 0.5, 2: 0.6, 4: 0.1 } } },
+      { type: 'remove', index: 2 },
+      5
+    );
+
+    expect(window_to_wall_overrides).toEqual({ orientations: { N: 0.2 }, edges: { 1: 0.5, 3: 0.1 } });
+  });
+
+  it('should move balconies with their wall and keep the GWP choice', () => {
+    const settings = { width: 2, depth: 1.5, every: 2, from_floor: 1 };
+    const { balconies } = remapEdgeSettings(
+      { balconies: { edges: { 3: settings }, include_in_gwp: true } },
+      { type: 'remove', index: 1 },
+      4
+    );
+
+    expect(balconies).toEqual({ edges: { 2: settings }, include_in_gwp: true });
+  });
+});
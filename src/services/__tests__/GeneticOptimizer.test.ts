@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  runGeneticOptimization,
+  calculateConstraintViolation,
+  DEFAULT_OPTIMIZATION_SETTINGS,
+  OptimizationGeneration
+} from '../GeneticOptimizer';
+import { BuildingSnapshot } from '../../types/building';
+import { DesignMetrics } from '../../types/designExploration';
+
+const building: BuildingSnapshot = {
+  id: 'building_1',
+  name: 'Building 1',
+  points: [
+    { x: 0, y: 0, z: 0 },
+    { x: 10, y: 0, z: 0 },
+    { x: 10, y: 0, z: 10 },
+    { x: 0, y: 0, z: 10 }
+  ],
+  area: 100,
+  floors: 3,
+  floorHeight: 3.5,
+  createdAt: new Date(0)
+};
+
+// Deterministic pseudo-random sequence so runs are reproducible
+const createRandom = (seed = 1) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return (seed - 1) / 2147483646;
+};
+
+// Cheap stand-in for the real calculators: heating falls with WWR, carbon rises with floors
+const evaluate = (buildings: BuildingSnapshot[]): DesignMetrics => ({
+  heatingDemand: 100 * (buildings[0].window_to_wall_ratio ?? 0.4),
+  spatialDaylightAutonomy: 50,
+  globalWarmingPotential: buildings[0].floors * 10
+});
+
+describe('calculateConstraintViolation', () => {
+  it('should be zero for feasible schemes and grow with the shortfall', () => {
+    expect(calculateConstraintViolation([building], { minGrossFloorArea: 300 })).toBe(0);
+    expect(calculateConstraintViolation([building], { minGrossFloorArea: 600 })).toBeCloseTo(0.5);
+    expect(calculateConstraintViolation([building], { maxHeight: 7 })).toBeCloseTo(0.5);
+  });
+});
+
+describe('runGeneticOptimization', () => {
+  it('should report every generation with lineage back to the previous one', () => {
+    const generations: OptimizationGeneration[] = [];
+    runGeneticOptimization([building], { ...DEFAULT_OPTIMIZATION_SETTINGS, populationSize: 6, generations: 3 }, {
+      evaluate,
+      onGeneration: generation => generations.push(generation),
+      random: createRandom()
+    });
+
+    expect(generations.map(g => g.index)).toEqual([0, 1, 2, 3]);
+    generations.forEach(g => expect(g.offspring).toHaveLength(6));
+    generations[0].offspring.forEach(individual => expect(individual.parentId).toBeUndefined());
+
+    const knownIds = new Set(generations[0].offspring.map(individual => individual.id));
+    generations.slice(1).forEach(generation => {
+      generation.offspring.forEach(individual => expect(knownIds.has(individual.parentId!)).toBe(true));
+      generation.offspring.forEach(individual => knownIds.add(individual.id));
+    });
+  });
+
+  it('should improve on the objectives while meeting the constraints', () => {
+    const population = runGeneticOptimization([building], {
+      ...DEFAULT_OPTIMIZATION_SETTINGS,
+      objectives: ['heatingDemand'],
+      constraints: { minGrossFloorArea: 400 },
+      populationSize: 10,
+      generations: 10
+    }, { evaluate, random: createRandom(7) });
+
+    const best = population[0];
+    expect(best.constraintViolation).toBe(0);
+    expect(best.buildings[0].floors * 100).toBeGreaterThanOrEqual(400);
+    expect(best.metrics.heatingDemand).toBeLessThan(evaluate([building]).heatingDemand);
+  });
+});
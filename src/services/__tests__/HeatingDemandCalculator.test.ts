@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { calculateHeatingDemand, HeatingDemandInput } from '../HeatingDemandCalculator';
+import type { EPWDataPoint } from '../EPWParser';
+
+const createBuilding = (overrides: Partial<HeatingDemandInput> = {}): HeatingDemandInput => ({
+  id: 'building_1',
+  points: [
+    { x: 0, y: 0, z: 0 },
+    { x: 10, y: 0, z: 0 },
+    { x: 10, y: 0, z: 10 },
+    { x: 0, y: 0, z: 10 }
+  ],
+  floors: 1,
+  floorHeight: 3,
+  window_to_wall_ratio: 0,
+  wall_construction: 'Wood',
+  building_program: 'Residential',
+  ...overrides
+});
+
+const createHours = (temperature: number, count: number, globalHorizontalRadiation = 0): EPWDataPoint[] =>
+  Array.from({ length: count }, () => ({ dryBulbTemperature: temperature, globalHorizontalRadiation } as EPWDataPoint));
+
+describe('calculateHeatingDemand', () => {
+  it('should return zero demand for an empty scheme', () => {
+    const result = calculateHeatingDemand([]);
+
+    expect(result.buildings).toHaveLength(0);
+    expect(result.heatingDemand).toBe(0);
+    expect(result.usedWeatherFile).toBe(false);
+  });
+
+  it('should integrate the hourly heat balance against EPW temperatures', () => {
+    const result = calculateHeatingDemand([createBuilding()], createHours(1, 1));
+
+    // Transmission: wall 0.35×120 + roof 1.4×100 + ground 1.5×100×0.5 = 257 W/K
+    // Ventilation: 0.34 × (0.5 + 0.1) ach × 300 m³ = 61.2 W/K
+    // Hour at 1 °C: 318.2 × 20 − 4 W/m² × 100 m² = 5964 Wh
+    expect(result.buildings[0].heatLossCoefficient).toBeCloseTo(318.2);
+    expect(result.totalAnnualHeatingKWh).toBeCloseTo(5.964);
+    expect(result.heatingDemand).toBeCloseTo(0.05964);
+    expect(result.usedWeatherFile).toBe(true);
+  });
+
+  it('should not produce negative demand when gains exceed losses', () => {
+    const result = calculateHeatingDemand([createBuilding()], createHours(25, 24, 800));
+
+    expect(result.totalAnnualHeatingKWh).toBe(0);
+  });
+
+  it('should lower demand for better wall insulation', () => {
+    const hours = createHours(-5, 100);
+    const poor = calculateHeatingDemand([createBuilding({ wall_construction: 'Steel' })], hours);
+    const good = calculateHeatingDemand([createBuilding({ wall_construction: 'Wood' })], hours);
+
+    expect(good.heatingDemand).toBeLessThan(poor.heatingDemand);
+  });
+
+  it('should weight the scheme result by heated floor area', () => {
+    const hours = createHours(0, 10);
+    const small = createBuilding({ id: 'small' });
+    const large = createBuilding({ id: 'large', floors: 4, wall_construction: 'Steel' });
+    const result = calculateHeatingDemand([small, large], hours);
+
+    const expected = result.totalAnnualHeatingKWh / (100 + 400);
+    expect(result.totalHeatedFloorArea).toBe(500);
+    expect(result.heatingDemand).toBeCloseTo(expected);
+    expect(result.buildings.map(b => b.buildingId)).toEqual(['small', 'large']);
+  });
+
+  it('should fall back to the reference climate without weather data', () => {
+    const result = calculateHeatingDemand([createBuilding()]);
+
+    expect(result.usedWeatherFile).toBe(false);
+    expect(result.heatingDemand).toBeGreaterThan(0);
+  });
+});
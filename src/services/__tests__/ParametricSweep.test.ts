@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { generateSweepVariants, rangeSteps, countSweepVariants, getRangeStep, MAX_RANGE_STEPS } from '../ParametricSweep';
+import { BuildingSnapshot } from '../../types/building';
+
+const building: BuildingSnapshot = {
+  id: 'building_1',
+  name: 'Building 1',
+  points: [
+    { x: 0, y: 0, z: 0 },
+    { x: 10, y: 0, z: 0 },
+    { x: 10, y: 0, z: 10 },
+    { x: 0, y: 0, z: 10 }
+  ],
+  area: 100,
+  floors: 2,
+  floorHeight: 3.5,
+  createdAt: new Date(0),
+  wall_construction: 'Concrete',
+  window_to_wall_ratio: 0.4
+};
+
+describe('rangeSteps', () => {
+  it('should include both ends without floating-point drift', () => {
+    expect(rangeSteps(0.2, 0.6, 0.1)).toEqual([0.2, 0.3, 0.4, 0.5, 0.6]);
+  });
+
+  it('should return the minimum for an invalid step', () => {
+    expect(rangeSteps(1, 3, 0)).toEqual([1]);
+    expect(rangeSteps(1, 3, NaN)).toEqual([1]);
+    expect(getRangeStep(1, 3, NaN)).toBeNull();
+  });
+
+  it('should widen a tiny step to cover the range with distinct values', () => {
+    const values = rangeSteps(0.2, 0.6, 0.0001);
+
+    expect(values.length).toBeLessThanOrEqual(MAX_RANGE_STEPS);
+    expect(new Set(values).size).toBe(values.length);
+    expect(values[0]).toBe(0.2);
+    expect(values[values.length - 1]).toBe(0.6);
+  });
+
+  it('should not return values closer than the rounding precision', () => {
+    const values = rangeSteps(0, 0.01, 0.0001);
+
+    expect(values).toHaveLength(11);
+    expect(new Set(values).size).toBe(11);
+  });
+});
+
+describe('generateSweepVariants', () => {
+  it('should produce the full-factorial set of variants', () => {
+    const parameters = {
+      windowToWallRatios: [0.2, 0.4],
+      wallConstructions: ['Brick', 'Wood'],
+      floorOffsets: [-2, 0, 1],
+      overhangDepths: [0, 0.5]
+    };
+    const variants = generateSweepVariants([building], parameters);
+
+    expect(variants).toHaveLength(24);
+    expect(countSweepVariants(parameters)).toBe(24);
+    expect(variants[0].name).toBe('WWR 0.2 · Brick · -2F · OH 0m');
+  });
+
+  it('should keep current values for empty parameter lists and never drop below one floor', () => {
+    const [variant] = generateSweepVariants([building], {
+      windowToWallRatios: [],
+      wallConstructions: [],
+      floorOffsets: [-2],
+      overhangDepths: [0.75]
+    });
+
+    expect(variant.buildings[0]).toMatchObject({
+      floors: 1,
+      wall_construction: 'Concrete',
+      window_to_wall_ratio: 0.4,
+      window_overhang: true,
+      window_overhang_depth: 0.75
+    });
+    expect(variant.buildings[0].points).not.toBe(building.points);
+  });
+});
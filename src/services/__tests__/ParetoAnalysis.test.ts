@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { dominates, findParetoFront } from '../ParetoAnalysis';
+import { DesignMetrics, DesignNode } from '../../types/designExploration';
+import { BuildingSnapshot } from '../../types/building';
+
+const building = { id: 'b' } as BuildingSnapshot;
+
+const createNode = (id: string, metrics: DesignMetrics, buildings: BuildingSnapshot[] = [building]): DesignNode => ({
+  id,
+  timestamp: new Date(0),
+  name: id,
+  buildings,
+  metrics
+});
+
+describe('dominates', () => {
+  it('should respect minimise and maximise goals', () => {
+    const better = { heatingDemand: 40, spatialDaylightAutonomy: 60, globalWarmingPotential: 200 };
+    const worse = { heatingDemand: 50, spatialDaylightAutonomy: 50, globalWarmingPotential: 250 };
+
+    expect(dominates(better, worse)).toBe(true);
+    expect(dominates(worse, better)).toBe(false);
+  });
+
+  it('should not treat equal metrics as dominating', () => {
+    const metrics = { heatingDemand: 40, spatialDaylightAutonomy: 60, globalWarmingPotential: 200 };
+
+    expect(dominates(metrics, { ...metrics })).toBe(false);
+  });
+});
+
+describe('findParetoFront', () => {
+  it('should keep trade-offs and drop dominated designs', () => {
+    const nodes = [
+      createNode('lowHeating', { heatingDemand: 30, spatialDaylightAutonomy: 50, globalWarmingPotential: 300 }),
+      createNode('lowCarbon', { heatingDemand: 60, spatialDaylightAutonomy: 50, globalWarmingPotential: 150 }),
+      createNode('dominated', { heatingDemand: 70, spatialDaylightAutonomy: 40, globalWarmingPotential: 320 })
+    ];
+
+    expect([...findParetoFront(nodes)].sort()).toEqual(['lowCarbon', 'lowHeating']);
+  });
+
+  it('should ignore nodes without buildings', () => {
+    const nodes = [
+      createNode('baseline', { heatingDemand: 0, spatialDaylightAutonomy: 0, globalWarmingPotential: 0 }, []),
+      createNode('design', { heatingDemand: 50, spatialDaylightAutonomy: 50, globalWarmingPotential: 250 })
+    ];
+
+    expect([...findParetoFront(nodes)]).toEqual(['design']);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { getFacadeShading, getShadingSkyFactor, getShadingSunlitFraction, getSolarShadingFactor } from '../ShadingDevices';
+import { Point3D } from '../../types/building';
+
+const p = (x: number, z: number): Point3D => ({ x, y: 0, z });
+const square = [p(0, 0), p(0, 10), p(10, 10), p(10, 0)];
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const fins = { depth: 0.4, spacing: 1.2, angle: 0 };
+const louvres = { depth: 0.2, spacing: 0.3, angle: 0 };
+
+describe('shading devices', () => {
+  it('should pick the devices of the orientation a façade faces', () => {
+    const building = { shading_devices: { S: { louvres } } };
+
+    expect(getFacadeShading(building, 175)).toEqual({ louvres });
+    expect(getFacadeShading(building, 0)).toBeUndefined();
+  });
+
+  it('should let fins through head-on sun but block low sun from the side', () => {
+    expect(getShadingSunlitFraction({ fins }, toRadians(30), 0)).toBeCloseTo(1);
+    expect(getShadingSunlitFraction({ fins }, toRadians(30), toRadians(75))).toBe(0);
+  });
+
+  it('should block high sun with louvres', () => {
+    const low = getShadingSunlitFraction({ louvres }, toRadians(10), 0);
+    const high = getShadingSunlitFraction({ louvres }, toRadians(60), 0);
+
+    expect(high).toBeLessThan(low);
+    expect(high).toBe(0);
+  });
+
+  it('should weight the solar factor by glazing on shaded façades', () => {
+    const building = { points: square, floors: 2, window_to_wall_ratio: 0.4, shading_devices: { S: { louvres } } };
+    const factor = getSolarShadingFactor(building);
+
+    expect(getShadingSkyFactor({ louvres })).toBeCloseTo(0.8);
+    expect(factor).toBeCloseTo(0.95);
+    expect(getSolarShadingFactor({ ...building, shading_devices: undefined })).toBe(1);
+  });
+});
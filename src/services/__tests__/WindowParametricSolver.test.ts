@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { solveWindowParams } from '../WindowParametricSolver';
+
+const base = { edgeLength: 20, windowWidth: 1.2, windowHeight: 1.5, windowSpacing: 0.3, floorHeight: 3.5 };
+
+describe('solveWindowParams', () => {
+  it('should reach the target over the whole storey wall', () => {
+    const result = solveWindowParams({ ...base, wwr: 0.4 })!;
+
+    expect(result.achievedWwr).toBeCloseTo(0.4);
+    expect(result.numWindows * result.windowWidth * result.windowHeight).toBeCloseTo(0.4 * 20 * 3.5);
+    expect(result.sillHeight + result.windowHeight / 2).toBeCloseTo(1.75);
+  });
+
+  it('should keep fixed sill and head heights and report the shortfall', () => {
+    const result = solveWindowParams({ ...base, wwr: 0.6, sillHeight: 0.9, headHeight: 2.1 })!;
+
+    expect(result.sillHeight).toBe(0.9);
+    expect(result.windowHeight).toBeCloseTo(1.2);
+    expect(result.achievedWwr).toBeLessThan(0.6);
+    expect(result.spacing).toBeGreaterThanOrEqual(0.1);
+  });
+
+  it('should lay a ribbon as touching panes between end margins', () => {
+    const result = solveWindowParams({ ...base, wwr: 0.5, mode: 'ribbon', sillHeight: 0.8, headHeight: 2.6 })!;
+
+    expect(result.spacing).toBe(0);
+    expect(result.marginStart).toBeGreaterThanOrEqual(0.3);
+    expect(result.achievedWwr).toBeCloseTo(0.5);
+  });
+
+  it('should return null without glazing', () => {
+    expect(solveWindowParams({ ...base, wwr: 0 })).toBeNull();
+    expect(solveWindowParams({ ...base, wwr: 0.4, sillHeight: 2, headHeight: 2 })).toBeNull();
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { getWindowSchedule, windowScheduleToCsv } from '../WindowSchedule';
+import { Point3D } from '../../types/building';
+
+const p = (x: number, z: number): Point3D => ({ x, y: 0, z });
+
+// Counter-clockwise as stored: west, south, east and north façades in that order
+const square = [p(0, 0), p(0, 10), p(10, 10), p(10, 0)];
+
+describe('window schedule', () => {
+  it('should list each façade with its windows over all floors', () => {
+    const rows = getWindowSchedule({
+      points: square,
+      floors: 3,
+      floorHeight: 3,
+      window_to_wall_ratio: 0.4,
+      window_to_wall_overrides: { edges: { 3: 0 } }
+    });
+
+    expect(rows.map(row => row.orientation)).toEqual(['W', 'S', 'E', 'N']);
+    const south = rows[1];
+    expect(south.windowCount).toBe(south.windowsPerFloor * 3);
+    expect(south.glazedArea).toBeCloseTo(south.windowCount * south.windowWidth * south.windowHeight);
+    expect(south.glazedArea / (10 * 3 * 3)).toBeCloseTo(south.achievedWwr);
+    expect(rows[3]).toMatchObject({ windowCount: 0, glazedArea: 0, achievedWwr: 0 });
+  });
+
+  it('should write one CSV line per row under a header', () => {
+    const csv = windowScheduleToCsv(getWindowSchedule({ points: square, floors: 2, floorHeight: 3 }));
+    const lines = csv.split('\n');
+
+    expect(lines).toHaveLength(5);
+    expect(lines[0].startsWith('Façade,Orientation,Edge length (m),Floors,Windows')).toBe(true);
+    expect(lines[2].split(',').slice(0, 4)).toEqual(['Edge 2', 'S 180°', '10.00', '0-1']);
+  });
+});
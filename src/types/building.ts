@@ -1,4 +1,5 @@
 import { ensureCounterClockwise } from '../utils/geometry';
+import type { CompassDirection } from '../utils/geometry';
 import { Line2 } from 'three/examples/jsm/lines/Line2.js';
 
 export interface Point3D {
@@ -7,19 +8,100 @@ export interface Point3D {
   z: number;
 }
 
+export type RoofType = 'flat' | 'mono-pitch' | 'gable' | 'hip';
+
+/**
+ * Inset of the floors from `fromFloor` upwards, on top of any lower setbacks.
+ */
+export interface FloorSetback {
+  fromFloor: number; // First set-back floor, 0 = ground floor
+  distance: number;  // m, inset from the floors below
+  edges?: number[];  // Outer footprint edges that step in; all when unset
+}
+
+/**
+ * Window-to-wall ratios that replace the building-wide value on some façades.
+ * An edge override wins over the orientation band the façade faces.
+ */
+export interface WindowToWallOverrides {
+  orientations?: Partial<Record<CompassDirection, number>>;
+  edges?: Record<number, number>; // Outer footprint edge index → ratio
+}
+
+export type WindowLayoutMode = 'punched' | 'ribbon';
+
+/**
+ * How windows sit in each storey. Unset heights leave the solver free to size
+ * the windows for the target ratio, centred in the storey.
+ */
+export interface WindowLayout {
+  mode?: WindowLayoutMode; // Punched when unset
+  sill_height?: number;    // m above floor level
+  head_height?: number;    // m above floor level
+}
+
+/**
+ * Separate glazing for the ground floor, e.g. full-height shopfronts.
+ */
+export interface GroundFloorGlazing extends WindowLayout {
+  window_to_wall_ratio?: number; // The façade's own ratio when unset
+}
+
+/**
+ * One array of external shading devices. Fins stand vertically along the
+ * façade; louvre blades run horizontally across each window.
+ */
+export interface ShadingDeviceSettings {
+  depth: number;   // m out from the glazing
+  spacing: number; // m between fins along the wall, or between blades up the window
+  angle: number;   // Degrees; fins turn about their vertical axis, louvre blades tilt outer edge down
+}
+
+export interface FacadeShading {
+  fins?: ShadingDeviceSettings;
+  louvres?: ShadingDeviceSettings;
+}
+
+/**
+ * Balconies hung off one façade in front of its window columns, counted from
+ * the left of the façade as seen from outside.
+ */
+export interface BalconySettings {
+  width: number;      // m along the façade
+  depth: number;      // m out from the wall
+  every: number;      // On every nth window column, 1 for each window
+  from_floor: number; // Lowest floor with balconies, 0 for the ground floor
+  to_floor?: number;  // Highest floor with balconies; the top floor when unset
+}
+
+export interface BuildingBalconies {
+  edges: Record<number, BalconySettings>; // Outer footprint edge index → settings
+  include_in_gwp?: boolean;                // Count the balcony slabs in embodied carbon
+}
+
 export interface BuildingConfig {
   floors: number;
   floorHeight: number;
   color: number;
   height?: number; // Computed property for BuildingService
   enableShadows?: boolean; // Optional property to enable/disable shadows
+  holes?: Point3D[][]; // Courtyard rings cut out of the footprint
   name?: string; // Add this line
   description?: string; // Add this line
 
   // Form properties
   window_to_wall_ratio?: number; // Float between 0.0 and 1.0
+  window_to_wall_overrides?: WindowToWallOverrides; // Per orientation and per façade
+  window_layout?: WindowLayout; // Sill, head and punched or ribbon windows on every storey
+  ground_floor_glazing?: GroundFloorGlazing; // Replaces the window layout on the ground floor
   window_overhang?: boolean; // True/false
   window_overhang_depth?: number; // 0.0 to 2.0 m
+  shading_devices?: Partial<Record<CompassDirection, FacadeShading>>; // Fins and louvres per orientation
+  balconies?: BuildingBalconies; // Per façade
+  roof_type?: RoofType; // Flat when unset
+  roof_pitch?: number; // Degrees from horizontal
+  roof_ridge_direction?: number; // Degrees clockwise from north; along the longest edge when unset
+  setbacks?: FloorSetback[]; // Stepped massing, e.g. a tower set back from its podium
 
   // Construction properties
   wall_construction?: string; // From pre-selected dropdown
@@ -55,7 +137,8 @@ export interface BuildingData {
   id: string;
   mesh: THREE.Mesh;
   points: Point3D[];
-  area: number;
+  holes?: Point3D[][]; // Courtyard rings, clockwise
+  area: number;        // Net of courtyards
   floors: number;
   floorHeight: number;
   createdAt: Date;
@@ -67,8 +150,17 @@ export interface BuildingData {
   
   // Form properties
   window_to_wall_ratio?: number;
+  window_to_wall_overrides?: WindowToWallOverrides;
+  window_layout?: WindowLayout;
+  ground_floor_glazing?: GroundFloorGlazing;
   window_overhang?: boolean;
   window_overhang_depth?: number;
+  shading_devices?: Partial<Record<CompassDirection, FacadeShading>>;
+  balconies?: BuildingBalconies;
+  roof_type?: RoofType;
+  roof_pitch?: number;
+  roof_ridge_direction?: number;
+  setbacks?: FloorSetback[];
 
   // Construction properties
   wall_construction?: string;
@@ -87,6 +179,12 @@ export interface BuildingData {
   natural_ventilation?: boolean;
 }
 
+/**
+ * Plain, serializable copy of a building without any Three.js objects.
+ * Used for design exploration nodes and persistence.
+ */
+export type BuildingSnapshot = Omit<BuildingData, 'mesh' | 'footprintOutline' | 'floorLines'>;
+
 export interface BuildingTooltipData {
   building: BuildingData;
   position: { x: number; y: number };
@@ -98,4 +196,50 @@ export interface BuildingTooltipData {
  */
 export const normalizeBuildingPoints = (points: Point3D[]): Point3D[] => {
   return ensureCounterClockwise(points);
-};
\ No newline at end of file
+};
+
+/**
+ * Create a serializable snapshot of a building, dropping its scene objects
+ */
+export const createBuildingSnapshot = (building: BuildingData | BuildingSnapshot): BuildingSnapshot => {
+  const data: Partial<BuildingData> = { ...building };
+  delete data.mesh;
+  delete data.footprintOutline;
+  delete data.floorLines;
+
+  return {
+    ...(data as BuildingSnapshot),
+    points: building.points.map(p => ({ x: p.x, y: p.y, z: p.z })),
+    ...(building.holes && {
+      holes: building.holes.map(hole => hole.map(p => ({ x: p.x, y: p.y, z: p.z })))
+    }),
+    ...(building.window_to_wall_overrides && {
+      window_to_wall_overrides: {
+        orientations: building.window_to_wall_overrides.orientations && { ...building.window_to_wall_overrides.orientations },
+        edges: building.window_to_wall_overrides.edges && { ...building.window_to_wall_overrides.edges }
+      }
+    }),
+    ...(building.window_layout && { window_layout: { ...building.window_layout } }),
+    ...(building.ground_floor_glazing && { ground_floor_glazing: { ...building.ground_floor_glazing } }),
+    ...(building.shading_devices && {
+      shading_devices: Object.fromEntries(
+        Object.entries(building.shading_devices).map(([direction, shading]) => [direction, {
+          ...(shading?.fins && { fins: { ...shading.fins } }),
+          ...(shading?.louvres && { louvres: { ...shading.louvres } })
+        }])
+      )
+    }),
+    ...(building.balconies && {
+      balconies: {
+        ...building.balconies,
+        edges: Object.fromEntries(
+          Object.entries(building.balconies.edges).map(([edge, settings]) => [edge, { ...settings }])
+        )
+      }
+    }),
+    ...(building.setbacks && {
+      setbacks: building.setbacks.map(setback => ({ ...setback, edges: setback.edges && [...setback.edges] }))
+    }),
+    createdAt: new Date(building.createdAt)
+  };
+};
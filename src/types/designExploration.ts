@@ -1,4 +1,4 @@
-import { BuildingData } from './building';
+import { BuildingSnapshot } from './building';
 
 export interface DesignMetrics {
   heatingDemand: number; // kWh/m²/year
@@ -10,7 +10,7 @@ export interface DesignNode {
   id: string;
   timestamp: Date;
   name: string;
-  buildings: BuildingData[];
+  buildings: BuildingSnapshot[];
   metrics: DesignMetrics;
   parentId?: string;
   position?: { x: number; y: number }; // For graph layout
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  constrainToAngle,
+  inferEdgeAlignment,
+  snapSegmentLength,
+  collectReferenceEdges,
+  parseDimensionInput,
+  resolveDimensionPoint
+} from '../drawingConstraints';
+import { Point3D } from '../../types/building';
+
+const p = (x: number, z: number): Point3D => ({ x, y: 0, z });
+
+describe('drawing constraints', () => {
+  describe('constrainToAngle', () => {
+    it('should lock to the nearest world axis', () => {
+      const result = constrainToAngle(p(0, 0), p(10, 1));
+
+      expect(result.point.x).toBeCloseTo(10);
+      expect(result.point.z).toBeCloseTo(0);
+      expect(result.guide?.type).toBe('angle');
+      expect(result.guide?.angle).toBe(0);
+    });
+
+    it('should lock to 45° steps', () => {
+      const result = constrainToAngle(p(0, 0), p(9, 11));
+
+      expect(result.point.x).toBeCloseTo(result.point.z);
+      expect(result.guide?.angle).toBe(45);
+    });
+
+    it('should lock relative to the previous segment when that is closer', () => {
+      // Previous segment runs at 30°, cursor is roughly perpendicular to it
+      const previous = p(-Math.cos(Math.PI / 6) * 10, -Math.sin(Math.PI / 6) * 10);
+      const target = p(-Math.sin(Math.PI / 6) * 10 - 0.2, Math.cos(Math.PI / 6) * 10);
+      const result = constrainToAngle(p(0, 0), target, previous);
+
+      const segment = { x: result.point.x, z: result.point.z };
+      const dot = segment.x * Math.cos(Math.PI / 6) + segment.z * Math.sin(Math.PI / 6);
+      expect(dot).toBeCloseTo(0);
+      expect(result.guide?.angle).toBe(90);
+    });
+  });
+
+  describe('inferEdgeAlignment', () => {
+    const edges = collectReferenceEdges([[p(20, 0), p(30, 5), p(25, 15)]]);
+
+    it('should snap onto a nearly parallel edge direction', () => {
+      const result = inferEdgeAlignment(p(0, 0), p(10, 5.1), edges);
+
+      expect(result.guide?.type).toBe('parallel');
+      expect(result.point.z / result.point.x).toBeCloseTo(0.5);
+    });
+
+    it('should snap onto a nearly perpendicular direction', () => {
+      const result = inferEdgeAlignment(p(0, 0), p(-5.1, 10), edges);
+
+      expect(result.guide?.type).toBe('perpendicular');
+      expect(result.point.x * 10 + result.point.z * 5).toBeCloseTo(0);
+    });
+
+    it('should leave the point alone outside the tolerance', () => {
+      const result = inferEdgeAlignment(p(0, 0), p(10, 8), edges);
+
+      expect(result.guide).toBeNull();
+      expect(result.point).toEqual(p(10, 8));
+    });
+  });
+
+  describe('snapSegmentLength', () => {
+    it('should round the length while keeping the direction', () => {
+      const result = snapSegmentLength(p(0, 0), p(3.3, 4.4), 1);
+
+      expect(Math.hypot(result.x, result.z)).toBeCloseTo(6);
+      expect(result.z / result.x).toBeCloseTo(4 / 3);
+    });
+  });
+
+  describe('parseDimensionInput', () => {
+    it('should parse a length with an optional angle', () => {
+      expect(parseDimensionInput('12.5')).toEqual({ length: 12.5, angle: null });
+      expect(parseDimensionInput('12.5<-90')).toEqual({ length: 12.5, angle: -90 });
+      expect(parseDimensionInput('8<')).toEqual({ length: 8, angle: null });
+    });
+
+    it('should reject input without a positive length', () => {
+      expect(parseDimensionInput('')).toBeNull();
+      expect(parseDimensionInput('0')).toBeNull();
+      expect(parseDimensionInput('<45')).toBeNull();
+      expect(parseDimensionInput('1.2.3')).toBeNull();
+    });
+  });
+
+  describe('resolveDimensionPoint', () => {
+    it('should measure angles counter-clockwise from east with north at -Z', () => {
+      const north = resolveDimensionPoint(p(1, 1), { length: 10, angle: 90 }, null);
+
+      expect(north.x).toBeCloseTo(1);
+      expect(north.z).toBeCloseTo(-9);
+    });
+
+    it('should follow the cursor direction without an angle', () => {
+      const point = resolveDimensionPoint(p(0, 0), { length: 5, angle: null }, p(0, 20));
+
+      expect(point.x).toBeCloseTo(0);
+      expect(point.z).toBeCloseTo(5);
+    });
+  });
+});
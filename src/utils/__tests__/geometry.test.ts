@@ -8,7 +8,20 @@ import {
   getGroundIntersection,
   calculateSignedArea,
   isCounterClockwise,
-  ensureCounterClockwise
+  ensureCounterClockwise,
+  calculatePerimeter,
+  calculateFootprintArea,
+  calculateEnvelopeAreas,
+  getFootprintRings,
+  ensureClockwise,
+  isPointInPolygon,
+  validateFootprint,
+  repairFootprint,
+  footprintsOverlap,
+  getMassingTiers,
+  calculateGrossFloorArea,
+  getEdgeAzimuths,
+  getCompassDirection
 } from '../geometry';
 import { Point3D } from '../../types/building';
 
@@ -465,4 +478,189 @@ describe('geometry utilities', () => {
       expect(result).toEqual(points); // But with same content
     });
   });
+
+  describe('calculatePerimeter', () => {
+    it('should include the closing edge of a rectangle', () => {
+      const points: Point3D[] = [
+        { x: 0, y: 0, z: 0 },
+        { x: 4, y: 0, z: 0 },
+        { x: 4, y: 0, z: 3 },
+        { x: 0, y: 0, z: 3 }
+      ];
+      
+      expect(calculatePerimeter(points)).toBe(14);
+    });
+
+    it('should ignore y values', () => {
+      const points: Point3D[] = [
+        { x: 0, y: 5, z: 0 },
+        { x: 3, y: 0, z: 0 },
+        { x: 3, y: 9, z: 4 }
+      ];
+      
+      expect(calculatePerimeter(points)).toBe(12);
+    });
+
+    it('should return 0 for fewer than two points', () => {
+      expect(calculatePerimeter([])).toBe(0);
+      expect(calculatePerimeter([{ x: 1, y: 0, z: 1 }])).toBe(0);
+    });
+  });
+
+  describe('courtyard footprints', () => {
+    const outer: Point3D[] = [
+      { x: 0, y: 0, z: 0 },
+      { x: 20, y: 0, z: 0 },
+      { x: 20, y: 0, z: 20 },
+      { x: 0, y: 0, z: 20 }
+    ];
+    const courtyard: Point3D[] = [
+      { x: 5, y: 0, z: 5 },
+      { x: 15, y: 0, z: 5 },
+      { x: 15, y: 0, z: 15 },
+      { x: 5, y: 0, z: 15 }
+    ];
+
+    it('should subtract courtyards from the footprint area', () => {
+      expect(calculateFootprintArea(outer)).toBeCloseTo(400);
+      expect(calculateFootprintArea(outer, [courtyard])).toBeCloseTo(300);
+    });
+
+    it('should wind courtyard rings against the outer ring', () => {
+      const [outerRing, holeRing] = getFootprintRings(ensureCounterClockwise(outer), [ensureClockwise(courtyard)]);
+
+      expect(isCounterClockwise(outerRing)).toBe(true);
+      expect(isCounterClockwise(holeRing)).toBe(false);
+      expect(ensureClockwise(holeRing)).toEqual(holeRing);
+    });
+
+    it('should include courtyard façades in the envelope', () => {
+      const areas = calculateEnvelopeAreas(outer, 2, 3, 0.5, [courtyard]);
+
+      expect(areas.grossFloorArea).toBeCloseTo(600);
+      expect(areas.grossWallArea).toBeCloseTo((80 + 40) * 6);
+      expect(areas.windowArea).toBeCloseTo(areas.grossWallArea * 0.5);
+      expect(areas.volume).toBeCloseTo(1800);
+    });
+
+    it('should cut courtyards out of the extruded shape', () => {
+      const shape = createShapeFromPoints(outer, calculateCentroid(outer), [courtyard]);
+
+      expect(shape.holes).toHaveLength(1);
+      expect(shape.holes[0].getPoints()).toHaveLength(5);
+    });
+
+    it('should test points against a polygon', () => {
+      expect(isPointInPolygon({ x: 10, y: 0, z: 10 }, courtyard)).toBe(true);
+      expect(isPointInPolygon({ x: 2, y: 0, z: 10 }, courtyard)).toBe(false);
+      expect(isPointInPolygon({ x: 2, y: 0, z: 10 }, outer)).toBe(true);
+    });
+  });
+
+  describe('footprint validation', () => {
+    const p = (x: number, z: number): Point3D => ({ x, y: 0, z });
+    const square = [p(0, 0), p(10, 0), p(10, 10), p(0, 10)];
+
+    it('should accept a clean footprint', () => {
+      expect(validateFootprint(square)).toEqual([]);
+    });
+
+    it('should flag a bow-tie as self-intersecting and untangle it', () => {
+      const bowTie = [p(0, 0), p(10, 10), p(10, 0), p(0, 10)];
+      const issues = validateFootprint(bowTie);
+
+      expect(issues.map(issue => issue.type)).toEqual(['self-intersection']);
+      expect(issues[0].severity).toBe('error');
+
+      const repaired = repairFootprint(bowTie);
+      expect(validateFootprint(repaired)).toEqual([]);
+      expect(Math.abs(calculateSignedArea(repaired))).toBeCloseTo(100);
+    });
+
+    it('should flag duplicate, collinear and sliver vertices and repair them', () => {
+      const messy = [p(0, 0), p(0, 0), p(5, 0), p(10, 0), p(10, 10), p(10.1, 10), p(0, 10)];
+      const types = validateFootprint(messy).map(issue => issue.type);
+
+      expect(types).toContain('duplicate-vertex');
+      expect(types).toContain('collinear-vertex');
+      expect(types).toContain('sliver-edge');
+
+      const repaired = repairFootprint(messy);
+      expect(repaired).toHaveLength(4);
+      expect(validateFootprint(repaired)).toEqual([]);
+    });
+
+    it('should remove a spike that folds back on itself', () => {
+      const spike = [p(0, 0), p(10, 0), p(15, 0), p(12, 0), p(10, 10), p(0, 10)];
+
+      expect(validateFootprint(spike).some(issue => issue.type === 'self-intersection')).toBe(true);
+      expect(validateFootprint(repairFootprint(spike))).toEqual([]);
+    });
+
+    it('should report overlaps but not shared walls', () => {
+      const overlapping = [p(5, 5), p(15, 5), p(15, 15), p(5, 15)];
+      const adjoining = [p(10, 0), p(20, 0), p(20, 10), p(10, 10)];
+      const inside = [p(2, 2), p(4, 2), p(4, 4), p(2, 4)];
+
+      expect(footprintsOverlap(overlapping, square)).toBe(true);
+      expect(footprintsOverlap(adjoining, square)).toBe(false);
+      expect(footprintsOverlap(inside, square)).toBe(true);
+
+      const issues = validateFootprint(overlapping, [{ id: 'b1', name: 'Tower', points: square }]);
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ type: 'overlap', severity: 'warning', buildingId: 'b1' });
+    });
+  });
+
+  describe('stepped massing', () => {
+    // 20 m × 10 m, edge 0 along the south side
+    const block = ensureCounterClockwise([
+      { x: 0, y: 0, z: 0 },
+      { x: 20, y: 0, z: 0 },
+      { x: 20, y: 0, z: 10 },
+      { x: 0, y: 0, z: 10 }
+    ]);
+
+    it('should set a tower back from its podium', () => {
+      const tiers = getMassingTiers(block, 8, [], [{ fromFloor: 2, distance: 3 }]);
+
+      expect(tiers.map(tier => [tier.fromFloor, tier.floors])).toEqual([[0, 2], [2, 6]]);
+      expect(calculateFootprintArea(tiers[1].points)).toBeCloseTo(56);
+      expect(calculateGrossFloorArea(block, 8, [], [{ fromFloor: 2, distance: 3 }])).toBeCloseTo(736);
+    });
+
+    it('should only step in the chosen façades', () => {
+      const [, top] = getMassingTiers(block, 6, [], [{ fromFloor: 5, distance: 2, edges: [0] }]);
+
+      expect(Math.max(...top.points.map(p => p.z))).toBeCloseTo(8);
+      expect(calculateFootprintArea(top.points)).toBeCloseTo(160);
+    });
+
+    it('should add setbacks to the ones below', () => {
+      const tiers = getMassingTiers(block, 6, [], [
+        { fromFloor: 5, distance: 1 },
+        { fromFloor: 3, distance: 1 }
+      ]);
+
+      expect(tiers.map(tier => calculateFootprintArea(tier.points))).toEqual([200, 144, 96].map(area => expect.closeTo(area)));
+    });
+
+    it('should ignore setbacks that collapse the floor plate or lie outside the floors', () => {
+      expect(getMassingTiers(block, 6, [], [{ fromFloor: 3, distance: 6 }])).toHaveLength(1);
+      expect(getMassingTiers(block, 6, [], [{ fromFloor: 6, distance: 1 }])).toHaveLength(1);
+    });
+
+    it('should follow the tiers in the envelope areas', () => {
+      const areas = calculateEnvelopeAreas(block, 8, 3, 0.5, [], [{ fromFloor: 2, distance: 3 }]);
+
+      expect(areas.footprintArea).toBeCloseTo(200);
+      expect(areas.grossFloorArea).toBeCloseTo(736);
+      expect(areas.grossWallArea).toBeCloseTo(60 * 6 + 36 * 18);
+      expect(areas.volume).toBeCloseTo(736 * 3);
+    });
+
+    it('should name the direction each façade faces', () => {
+      expect(getEdgeAzimuths(block).map(getCompassDirection)).toEqual(['S', 'E', 'N', 'W']);
+    });
+  });
 });
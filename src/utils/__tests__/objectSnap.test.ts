@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { findObjectSnap, findRayEdgeSnap, collectContextEdges } from '../objectSnap';
+import { collectReferenceEdges } from '../drawingConstraints';
+import { Point3D } from '../../types/building';
+
+const p = (x: number, z: number): Point3D => ({ x, y: 0, z });
+
+describe('object snapping', () => {
+  const edges = collectReferenceEdges([[p(0, 0), p(10, 0), p(10, 10), p(0, 10)]]);
+
+  describe('findObjectSnap', () => {
+    it('should prefer a vertex over a nearer edge point', () => {
+      const snap = findObjectSnap(p(1, 0.1), edges, 1.5);
+
+      expect(snap?.type).toBe('vertex');
+      expect(snap?.point).toEqual(p(0, 0));
+    });
+
+    it('should snap to edge midpoints', () => {
+      const snap = findObjectSnap(p(5.4, 10.5), edges, 1.5);
+
+      expect(snap?.type).toBe('midpoint');
+      expect(snap?.point).toEqual(p(5, 10));
+    });
+
+    it('should fall back to the closest point on an edge', () => {
+      const snap = findObjectSnap(p(10.6, 3), edges, 1.5);
+
+      expect(snap?.type).toBe('edge');
+      expect(snap?.point.x).toBeCloseTo(10);
+      expect(snap?.point.z).toBeCloseTo(3);
+    });
+
+    it('should return null when nothing is within tolerance', () => {
+      expect(findObjectSnap(p(20, 20), edges, 1.5)).toBeNull();
+    });
+  });
+
+  describe('findRayEdgeSnap', () => {
+    it('should land on the edge the ray crosses', () => {
+      const snap = findRayEdgeSnap(p(-10, 4), { x: 1, z: 0 }, p(0.8, 4), edges, 1.5);
+
+      expect(snap?.point.x).toBeCloseTo(0);
+      expect(snap?.point.z).toBeCloseTo(4);
+    });
+  });
+
+  describe('collectContextEdges', () => {
+    it('should flatten context mesh edges onto the ground', () => {
+      const scene = new THREE.Scene();
+      const mesh = new THREE.Mesh(new THREE.BoxGeometry(10, 10, 10));
+      mesh.position.set(20, 5, 0);
+      mesh.userData.isContextMesh = true;
+      scene.add(mesh);
+
+      const contextEdges = collectContextEdges(scene);
+
+      // Top and bottom outlines coincide; vertical edges collapse to corners
+      expect(contextEdges).toHaveLength(8);
+      const snap = findObjectSnap(p(15.3, -5.2), contextEdges, 1.5);
+      expect(snap?.type).toBe('vertex');
+      expect(snap?.point.x).toBeCloseTo(15);
+      expect(snap?.point.z).toBeCloseTo(-5);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { createRoofSurfaces, calculateRoofRise, createMassingGeometry, getRoofOptions } from '../roofGeometry';
+import { calculateCentroid } from '../geometry';
+import { Point3D } from '../../types/building';
+
+const p = (x: number, z: number): Point3D => ({ x, y: 0, z });
+const rectangle = [p(0, 0), p(10, 0), p(10, 4), p(0, 4)];
+
+const planArea = (triangles: Point3D[][]): number =>
+  triangles.reduce((sum, [a, b, c]) => sum + Math.abs((b.x - a.x) * (c.z - a.z) - (c.x - a.x) * (b.z - a.z)) / 2, 0);
+
+describe('roof geometry', () => {
+  it('should default to a flat roof', () => {
+    expect(getRoofOptions({}).type).toBe('flat');
+    expect(createRoofSurfaces(rectangle, 9, getRoofOptions({}))).toEqual({ roof: [], walls: [] });
+  });
+
+  it('should raise a gable ridge along the longest edge', () => {
+    const surfaces = createRoofSurfaces(rectangle, 9, { type: 'gable', pitch: 45 });
+
+    expect(planArea(surfaces.roof)).toBeCloseTo(40);
+    expect(Math.max(...surfaces.roof.flat().map(point => point.y))).toBeCloseTo(11);
+    // Triangular gable ends on the two short edges
+    expect(surfaces.walls.length).toBeGreaterThanOrEqual(2);
+    surfaces.walls.flat().forEach(point => expect([0, 10]).toContain(point.x));
+  });
+
+  it('should turn the ridge to the given direction', () => {
+    // Ridge running north-south spans the 10 m width
+    expect(calculateRoofRise(rectangle, { type: 'gable', pitch: 45, ridgeDirection: 0 })).toBeCloseTo(5);
+    expect(calculateRoofRise(rectangle, { type: 'gable', pitch: 45, ridgeDirection: 90 })).toBeCloseTo(2);
+  });
+
+  it('should slope a mono-pitch roof up from the longest edge', () => {
+    const surfaces = createRoofSurfaces(rectangle, 0, { type: 'mono-pitch', pitch: 45 });
+
+    expect(planArea(surfaces.roof)).toBeCloseTo(40);
+    expect(calculateRoofRise(rectangle, { type: 'mono-pitch', pitch: 45 })).toBeCloseTo(4);
+    const highSide = surfaces.roof.flat().filter(point => point.y > 3.99);
+    expect(highSide.every(point => point.z === 4)).toBe(true);
+  });
+
+  it('should build hips from the straight skeleton', () => {
+    const surfaces = createRoofSurfaces(rectangle, 3, { type: 'hip', pitch: 45 });
+
+    expect(surfaces.walls).toEqual([]);
+    expect(planArea(surfaces.roof)).toBeCloseTo(40);
+    expect(Math.max(...surfaces.roof.flat().map(point => point.y))).toBeCloseTo(5);
+  });
+
+  it('should add the roof to the extruded massing', () => {
+    const geometry = createMassingGeometry(rectangle, calculateCentroid(rectangle), 6, { type: 'hip', pitch: 45 });
+    geometry.computeBoundingBox();
+
+    expect(geometry.boundingBox?.max.y).toBeCloseTo(8);
+    expect(geometry.boundingBox?.min.x).toBeCloseTo(-5);
+  });
+});
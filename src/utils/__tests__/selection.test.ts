@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { getBuildingsInScreenRect, getScreenRect, getSharedValue } from '../selection';
+import { Point3D } from '../../types/building';
+
+const p = (x: number, z: number): Point3D => ({ x, y: 0, z });
+const square = (x: number, z: number) => ({
+  id: `${x},${z}`,
+  points: [p(x, z), p(x + 10, z), p(x + 10, z + 10), p(x, z + 10)],
+  floors: 4,
+  floorHeight: 3
+});
+
+// Top-down view, one pixel per metre
+const project = (point: Point3D) => ({ x: point.x, y: point.z });
+
+describe('selection', () => {
+  it('should normalise a rectangle dragged in any direction', () => {
+    expect(getScreenRect({ x: 50, y: 10 }, { x: 20, y: 40 })).toEqual({ left: 20, top: 10, right: 50, bottom: 40 });
+  });
+
+  it('should pick buildings whose centre lies in the box', () => {
+    const buildings = [square(0, 0), square(30, 0), square(0, 30)];
+    const picked = getBuildingsInScreenRect(buildings, getScreenRect({ x: -5, y: -5 }, { x: 40, y: 12 }), project);
+
+    expect(picked.map(b => b.id)).toEqual(['0,0', '30,0']);
+  });
+
+  it('should skip buildings behind the camera', () => {
+    const picked = getBuildingsInScreenRect([square(0, 0)], getScreenRect({ x: 0, y: 0 }, { x: 10, y: 10 }), () => null);
+    expect(picked).toEqual([]);
+  });
+
+  it('should report mixed values', () => {
+    expect(getSharedValue([3, 3, 3])).toEqual({ value: 3, mixed: false });
+    expect(getSharedValue(['Wood', 'Brick'])).toEqual({ value: 'Wood', mixed: true });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { computeStraightSkeleton, SkeletonNode } from '../straightSkeleton';
+import { Point3D } from '../../types/building';
+
+const p = (x: number, z: number): Point3D => ({ x, y: 0, z });
+
+const planArea = (polygon: SkeletonNode[]): number =>
+  Math.abs(polygon.reduce((sum, a, i) => {
+    const b = polygon[(i + 1) % polygon.length];
+    return sum + a.x * b.z - b.x * a.z;
+  }, 0) / 2);
+
+const totalArea = (faces: ReturnType<typeof computeStraightSkeleton>): number =>
+  faces.reduce((sum, face) => sum + planArea(face.polygon), 0);
+
+describe('computeStraightSkeleton', () => {
+  it('should meet in a ridge along a rectangle', () => {
+    const faces = computeStraightSkeleton([p(0, 0), p(10, 0), p(10, 4), p(0, 4)]);
+
+    expect(faces).toHaveLength(4);
+    expect(totalArea(faces)).toBeCloseTo(40);
+    const ridge = faces[0].polygon.filter(node => node.time > 0);
+    expect(ridge.map(node => [node.x, node.z, node.time])).toEqual([[8, 2, 2], [2, 2, 2]]);
+  });
+
+  it('should rise to a single peak over a square', () => {
+    const faces = computeStraightSkeleton([p(0, 0), p(0, 10), p(10, 10), p(10, 0)]);
+
+    expect(faces).toHaveLength(4);
+    faces.forEach(face => {
+      const peak = face.polygon.find(node => node.time > 0);
+      expect(peak?.x).toBeCloseTo(5);
+      expect(peak?.z).toBeCloseTo(5);
+      expect(peak?.time).toBeCloseTo(5);
+    });
+  });
+
+  it('should form a valley at the inside corner of an L', () => {
+    const faces = computeStraightSkeleton([p(0, 0), p(10, 0), p(10, 4), p(4, 4), p(4, 10), p(0, 10)]);
+
+    expect(faces).toHaveLength(6);
+    expect(totalArea(faces)).toBeCloseTo(64);
+    // The reflex corner drains along the valley to (2, 2)
+    const innerFace = faces.find(face => face.edge === 2);
+    expect(innerFace?.polygon.some(node => node.x === 2 && node.z === 2)).toBe(true);
+  });
+
+  it('should cover footprints with several wings', () => {
+    const plus = [p(4, 0), p(8, 0), p(8, 4), p(12, 4), p(12, 8), p(8, 8), p(8, 12), p(4, 12), p(4, 8), p(0, 8), p(0, 4), p(4, 4)];
+    const h = [p(0, 0), p(4, 0), p(4, 5), p(8, 5), p(8, 0), p(12, 0), p(12, 14), p(8, 14), p(8, 9), p(4, 9), p(4, 14), p(0, 14)];
+
+    expect(totalArea(computeStraightSkeleton(plus))).toBeCloseTo(80);
+    expect(totalArea(computeStraightSkeleton(h))).toBeCloseTo(128);
+  });
+
+  it('should slope down into courtyards', () => {
+    const faces = computeStraightSkeleton(
+      [p(0, 0), p(20, 0), p(20, 20), p(0, 20)],
+      [[p(5, 5), p(15, 5), p(15, 15), p(5, 15)]]
+    );
+
+    expect(faces).toHaveLength(8);
+    expect(totalArea(faces)).toBeCloseTo(300);
+    expect(Math.max(...faces.flatMap(face => face.polygon.map(node => node.time)))).toBeCloseTo(2.5);
+  });
+});
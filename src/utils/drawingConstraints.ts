@@ -0,0 +1,216 @@
+import { Point3D } from '../types/building';
+
+export const ANGLE_STEP = Math.PI / 4;                   // Shift locks segments to 45° increments
+export const INFERENCE_TOLERANCE = (3 * Math.PI) / 180;  // Parallel/perpendicular inference kicks in within 3°
+
+export interface ReferenceEdge {
+  start: Point3D;
+  end: Point3D;
+}
+
+export type DrawingGuideType = 'angle' | 'parallel' | 'perpendicular';
+
+export interface DrawingGuide {
+  type: DrawingGuideType;
+  origin: Point3D;                        // Point the constrained segment starts from
+  direction: { x: number; z: number };    // Unit direction of the constrained segment
+  angle: number;                          // Degrees relative to the reference (previous segment or world X axis)
+  edge?: ReferenceEdge;                   // Edge the segment is parallel or perpendicular to
+}
+
+export interface ConstrainedPoint {
+  point: Point3D;
+  guide: DrawingGuide | null;
+}
+
+// Smallest difference between two directions, ignoring orientation (0..π/2)
+const lineAngleDifference = (a: number, b: number): number => {
+  const diff = Math.abs(a - b) % Math.PI;
+  return Math.min(diff, Math.PI - diff);
+};
+
+const normalizeDegrees = (radians: number): number => {
+  const degrees = Math.round((radians * 180) / Math.PI) % 360;
+  return degrees < 0 ? degrees + 360 : degrees;
+};
+
+// Project a point onto the ray from `origin` along `angle`
+const projectOnDirection = (origin: Point3D, target: Point3D, angle: number) => {
+  const direction = { x: Math.cos(angle), z: Math.sin(angle) };
+  const length = Math.max(0, (target.x - origin.x) * direction.x + (target.z - origin.z) * direction.z);
+  return {
+    point: { x: origin.x + direction.x * length, y: target.y, z: origin.z + direction.z * length },
+    direction
+  };
+};
+
+/**
+ * Lock the segment from `anchor` to `target` to multiples of `step`, measured
+ * either from the world X axis or from the previous segment (`previous` → `anchor`).
+ * Whichever reference gives the smaller correction wins.
+ */
+export const constrainToAngle = (
+  anchor: Point3D,
+  target: Point3D,
+  previous: Point3D | null = null,
+  step: number = ANGLE_STEP
+): ConstrainedPoint => {
+  const dx = target.x - anchor.x;
+  const dz = target.z - anchor.z;
+  if (Math.hypot(dx, dz) < 1e-9) return { point: { ...target }, guide: null };
+
+  const targetAngle = Math.atan2(dz, dx);
+  const references = [0];
+  if (previous && Math.hypot(anchor.x - previous.x, anchor.z - previous.z) > 1e-9) {
+    references.push(Math.atan2(anchor.z - previous.z, anchor.x - previous.x));
+  }
+
+  let best: { angle: number; relative: number; deviation: number } | null = null;
+  for (const reference of references) {
+    const relative = Math.round((targetAngle - reference) / step) * step;
+    const angle = reference + relative;
+    const deviation = Math.abs(Math.atan2(Math.sin(targetAngle - angle), Math.cos(targetAngle - angle)));
+    if (!best || deviation < best.deviation - 1e-9) {
+      best = { angle, relative, deviation };
+    }
+  }
+  if (!best) return { point: { ...target }, guide: null };
+
+  const { angle, relative } = best;
+  const { point, direction } = projectOnDirection(anchor, target, angle);
+  return {
+    point,
+    guide: { type: 'angle', origin: { ...anchor }, direction, angle: normalizeDegrees(relative) }
+  };
+};
+
+/**
+ * Infer whether the segment from `anchor` to `target` is meant to be parallel or
+ * perpendicular to one of the reference edges. Within `tolerance` the target is
+ * pulled onto that direction; otherwise it is returned unchanged with no guide.
+ */
+export const inferEdgeAlignment = (
+  anchor: Point3D,
+  target: Point3D,
+  edges: ReferenceEdge[],
+  tolerance: number = INFERENCE_TOLERANCE
+): ConstrainedPoint => {
+  const dx = target.x - anchor.x;
+  const dz = target.z - anchor.z;
+  if (Math.hypot(dx, dz) < 1e-9) return { point: { ...target }, guide: null };
+
+  const targetAngle = Math.atan2(dz, dx);
+  let best: { edge: ReferenceEdge; type: 'parallel' | 'perpendicular'; edgeAngle: number; deviation: number } | null = null;
+
+  for (const edge of edges) {
+    if (Math.hypot(edge.end.x - edge.start.x, edge.end.z - edge.start.z) < 1e-9) continue;
+    const edgeAngle = Math.atan2(edge.end.z - edge.start.z, edge.end.x - edge.start.x);
+
+    const parallel = lineAngleDifference(targetAngle, edgeAngle);
+    const perpendicular = lineAngleDifference(targetAngle, edgeAngle + Math.PI / 2);
+    const [type, deviation] = parallel <= perpendicular
+      ? ['parallel' as const, parallel]
+      : ['perpendicular' as const, perpendicular];
+
+    if (deviation <= tolerance && (!best || deviation < best.deviation)) {
+      best = { edge, type, edgeAngle, deviation };
+    }
+  }
+
+  if (!best) return { point: { ...target }, guide: null };
+
+  const { edge, type, edgeAngle } = best;
+  const lineAngle = type === 'parallel' ? edgeAngle : edgeAngle + Math.PI / 2;
+  // Keep the direction the user is drawing in, not the edge's own orientation
+  const angle = Math.cos(targetAngle - lineAngle) >= 0 ? lineAngle : lineAngle + Math.PI;
+  const { point, direction } = projectOnDirection(anchor, target, angle);
+
+  return {
+    point,
+    guide: {
+      type,
+      origin: { ...anchor },
+      direction,
+      angle: type === 'parallel' ? 0 : 90,
+      edge: { start: { ...edge.start }, end: { ...edge.end } }
+    }
+  };
+};
+
+/**
+ * Round the length of a constrained segment to the grid size, keeping its direction.
+ */
+export const snapSegmentLength = (origin: Point3D, point: Point3D, gridSize: number): Point3D => {
+  const length = Math.hypot(point.x - origin.x, point.z - origin.z);
+  if (length < 1e-9) return { ...point };
+
+  const snapped = Math.round(length / gridSize) * gridSize;
+  const scale = snapped / length;
+  return {
+    x: origin.x + (point.x - origin.x) * scale,
+    y: point.y,
+    z: origin.z + (point.z - origin.z) * scale
+  };
+};
+
+/**
+ * Edges of closed footprints plus the open polyline being drawn, as inference references.
+ */
+export const collectReferenceEdges = (footprints: Point3D[][], polyline: Point3D[] = []): ReferenceEdge[] => {
+  const edges: ReferenceEdge[] = [];
+  footprints.forEach(points => {
+    points.forEach((start, index) => {
+      edges.push({ start, end: points[(index + 1) % points.length] });
+    });
+  });
+  for (let i = 0; i < polyline.length - 1; i++) {
+    edges.push({ start: polyline[i], end: polyline[i + 1] });
+  }
+  return edges;
+};
+
+export interface DimensionInput {
+  length: number;        // Metres
+  angle: number | null;  // Degrees counter-clockwise from east in plan, null to follow the cursor
+}
+
+// Digits, one decimal point, optionally `<` and a signed angle, e.g. "12.5" or "12.5<-90"
+export const DIMENSION_INPUT_PATTERN = /^\d*\.?\d*(<-?\d*\.?\d*)?$/;
+
+/**
+ * Parse typed dimension input of the form `length` or `length<angle`.
+ * Returns null until a positive length has been typed.
+ */
+export const parseDimensionInput = (text: string): DimensionInput | null => {
+  if (!DIMENSION_INPUT_PATTERN.test(text)) return null;
+
+  const [lengthText, angleText] = text.split('<');
+  const length = parseFloat(lengthText);
+  if (!Number.isFinite(length) || length <= 0) return null;
+
+  const angle = angleText !== undefined ? parseFloat(angleText) : NaN;
+  return { length, angle: Number.isFinite(angle) ? angle : null };
+};
+
+// Plan angle of the segment from `from` to `to`, in degrees counter-clockwise from east (north is -Z)
+export const segmentAngle = (from: Point3D, to: Point3D): number =>
+  (Math.atan2(-(to.z - from.z), to.x - from.x) * 180) / Math.PI;
+
+export const pointFromDimension = (anchor: Point3D, length: number, angle: number): Point3D => {
+  const radians = (angle * Math.PI) / 180;
+  return {
+    x: anchor.x + Math.cos(radians) * length,
+    y: anchor.y,
+    z: anchor.z - Math.sin(radians) * length
+  };
+};
+
+/**
+ * Point at the typed length from `anchor`, along the typed angle or, without one,
+ * towards `toward` (the cursor). Falls back to east when there is no direction.
+ */
+export const resolveDimensionPoint = (anchor: Point3D, input: DimensionInput, toward: Point3D | null): Point3D => {
+  const hasDirection = toward !== null && Math.hypot(toward.x - anchor.x, toward.z - anchor.z) > 1e-6;
+  const angle = input.angle ?? (hasDirection ? segmentAngle(anchor, toward) : 0);
+  return pointFromDimension(anchor, input.length, angle);
+};
@@ -1,5 +1,5 @@
 import * as THREE from 'three';
-import { Point3D } from '../types/building';
+import { FloorSetback, Point3D } from '../types/building';
 
 export const calculateCentroid = (points: Point3D[]): Point3D => {
   const sum = points.reduce(
@@ -33,7 +33,7 @@ export const snapToGrid = (point: Point3D, gridSize: number): Point3D => {
   };
 };
 
-export const createShapeFromPoints = (points: Point3D[], centroid: Point3D): THREE.Shape => {
+export const createShapeFromPoints = (points: Point3D[], centroid: Point3D, holes: Point3D[][] = []): THREE.Shape => {
   if (points.length < 3) {
     throw new Error('Need at least 3 points to create a shape');
   }
@@ -54,6 +54,17 @@ export const createShapeFromPoints = (points: Point3D[], centroid: Point3D): THR
   
   // Close the shape
   shape.lineTo(firstX, firstY);
+
+  // Courtyards become holes in the same shape coordinates
+  holes.filter(hole => hole.length >= 3).forEach(hole => {
+    const path = new THREE.Path();
+    path.moveTo(hole[0].x - centroid.x, -(hole[0].z - centroid.z));
+    for (let i = 1; i < hole.length; i++) {
+      path.lineTo(hole[i].x - centroid.x, -(hole[i].z - centroid.z));
+    }
+    path.closePath();
+    shape.holes.push(path);
+  });
   
   return shape;
 };
@@ -165,4 +176,515 @@ export const ensureCounterClockwise = (points: Point3D[]): Point3D[] => {
   
   // Reverse the order to make it counter-clockwise
   return [...points].reverse();
-};
\ No newline at end of file
+};
+
+/**
+ * Ensure polygon points are in clockwise order, the winding used for courtyard
+ * rings so their façade normals point into the courtyard.
+ */
+export const ensureClockwise = (points: Point3D[]): Point3D[] => {
+  if (points.length < 3) return [...points];
+  return isCounterClockwise(points) ? [...points].reverse() : [...points];
+};
+
+/**
+ * The outer ring followed by any courtyard rings of a footprint.
+ */
+export const getFootprintRings = (points: Point3D[], holes: Point3D[][] = []): Point3D[][] => {
+  return [points, ...holes.filter(hole => hole.length >= 3)];
+};
+
+/**
+ * Net footprint area: the outer ring minus its courtyards.
+ */
+export const calculateFootprintArea = (points: Point3D[], holes: Point3D[][] = []): number => {
+  const holeArea = holes.reduce((sum, hole) => sum + Math.abs(calculateSignedArea(hole)), 0);
+  return Math.max(0, Math.abs(calculateSignedArea(points)) - holeArea);
+};
+
+/**
+ * Even-odd point-in-polygon test in the XZ plane.
+ */
+export const isPointInPolygon = (point: Point3D, polygon: Point3D[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.z > point.z) !== (b.z > point.z) &&
+        point.x < ((b.x - a.x) * (point.z - a.z)) / (b.z - a.z) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Calculate the perimeter of a closed polygon in the XZ plane.
+ * The closing edge from the last point back to the first is included.
+ */
+export const calculatePerimeter = (points: Point3D[]): number => {
+  if (points.length < 2) return 0;
+
+  let perimeter = 0;
+  for (let i = 0; i < points.length; i++) {
+    const p1 = points[i];
+    const p2 = points[(i + 1) % points.length];
+    perimeter += Math.hypot(p2.x - p1.x, p2.z - p1.z);
+  }
+
+  return perimeter;
+};
+
+export type CompassDirection = 'N' | 'E' | 'S' | 'W';
+
+/**
+ * Direction each edge of a ring faces, as the azimuth of its outward normal in
+ * degrees clockwise from north (-Z). Edge i runs from point i to point i + 1.
+ */
+export const getEdgeAzimuths = (points: Point3D[]): number[] => {
+  const outwardSign = calculateSignedArea(points) >= 0 ? 1 : -1;
+  return points.map((p, i) => {
+    const q = points[(i + 1) % points.length];
+    const normalX = -(q.z - p.z) * outwardSign;
+    const normalZ = (q.x - p.x) * outwardSign;
+    return ((Math.atan2(normalX, -normalZ) * 180) / Math.PI + 360) % 360;
+  });
+};
+
+/**
+ * Nearest of the four cardinal directions to an azimuth.
+ */
+export const getCompassDirection = (azimuth: number): CompassDirection => {
+  const directions: CompassDirection[] = ['N', 'E', 'S', 'W'];
+  return directions[Math.round((((azimuth % 360) + 360) % 360) / 90) % 4];
+};
+
+/**
+ * Index of the ring edge closest to a point in plan, e.g. the façade under a click.
+ */
+export const getNearestEdgeIndex = (points: Point3D[], target: Point3D): number => {
+  let nearest = -1;
+  let nearestDistance = Infinity;
+  points.forEach((p, i) => {
+    const q = points[(i + 1) % points.length];
+    const dx = q.x - p.x;
+    const dz = q.z - p.z;
+    const lengthSq = dx * dx + dz * dz;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((target.x - p.x) * dx + (target.z - p.z) * dz) / lengthSq)) : 0;
+    const distance = Math.hypot(target.x - (p.x + t * dx), target.z - (p.z + t * dz));
+    if (distance < nearestDistance) {
+      nearest = i;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+};
+
+export interface EnvelopeAreas {
+  footprintArea: number;   // m², also used for roof and ground floor
+  grossFloorArea: number;  // m², floor plates summed over all floors
+  grossWallArea: number;   // m², perimeter × height of each tier
+  windowArea: number;      // m²
+  opaqueWallArea: number;  // m²
+  volume: number;          // m³
+}
+
+/**
+ * Derive the envelope areas of an extruded footprint.
+ * Glazing is taken as the window-to-wall ratio of the gross façade area,
+ * which includes the courtyard façades. Setbacks only move walls inwards,
+ * so the roof and terraces together still cover the footprint in plan.
+ */
+export const calculateEnvelopeAreas = (
+  points: Point3D[],
+  floors: number,
+  floorHeight: number,
+  windowToWallRatio: number,
+  holes: Point3D[][] = [],
+  setbacks: FloorSetback[] = []
+): EnvelopeAreas => {
+  const footprintArea = calculateFootprintArea(points, holes);
+  let grossFloorArea = 0;
+  let grossWallArea = 0;
+  getMassingTiers(points, floors, holes, setbacks).forEach(tier => {
+    const perimeter = getFootprintRings(tier.points, tier.holes).reduce((sum, ring) => sum + calculatePerimeter(ring), 0);
+    grossFloorArea += calculateFootprintArea(tier.points, tier.holes) * tier.floors;
+    grossWallArea += perimeter * tier.floors * floorHeight;
+  });
+  const windowArea = grossWallArea * windowToWallRatio;
+
+  return {
+    footprintArea,
+    grossFloorArea,
+    grossWallArea,
+    windowArea,
+    opaqueWallArea: grossWallArea - windowArea,
+    volume: grossFloorArea * floorHeight
+  };
+};
+
+/**
+ * One stack of identical floor plates in a stepped building.
+ */
+export interface MassingTier {
+  fromFloor: number;  // Lowest floor of the tier, 0 = ground floor
+  floors: number;
+  points: Point3D[];  // Outer ring of the floor plate, same winding and edge order as the footprint
+  holes: Point3D[][]; // Courtyard rings
+}
+
+/**
+ * Move each edge of a ring inwards by its own distance. Corners land where the
+ * moved edges meet, so rectilinear and convex rings keep their shape.
+ */
+export const insetPolygon = (points: Point3D[], distances: number[]): Point3D[] => {
+  const n = points.length;
+  const sign = calculateSignedArea(points) > 0 ? 1 : -1;
+  const lines = points.map((p, i) => {
+    const q = points[(i + 1) % n];
+    const length = Math.hypot(q.x - p.x, q.z - p.z) || 1;
+    const normal = { x: (sign * (q.z - p.z)) / length, z: (-sign * (q.x - p.x)) / length };
+    const distance = distances[i] ?? 0;
+    return { normal, distance, offset: normal.x * p.x + normal.z * p.z + distance };
+  });
+
+  return points.map((p, i) => {
+    const a = lines[(i - 1 + n) % n];
+    const b = lines[i];
+    const det = a.normal.x * b.normal.z - a.normal.z * b.normal.x;
+    if (Math.abs(det) < 1e-9) {
+      // Straight-through vertex: slide along the shared normal
+      return { x: p.x + b.normal.x * b.distance, y: p.y, z: p.z + b.normal.z * b.distance };
+    }
+    return {
+      x: (a.offset * b.normal.z - a.normal.z * b.offset) / det,
+      y: p.y,
+      z: (a.normal.x * b.offset - a.offset * b.normal.x) / det
+    };
+  });
+};
+
+// An inset ring is usable while no edge has collapsed or flipped and the courtyards still fit inside it
+const isUsableInset = (original: Point3D[], inset: Point3D[], holes: Point3D[][]): boolean => {
+  const n = original.length;
+  const keepsEdgeDirections = original.every((p, i) => {
+    const q = original[(i + 1) % n];
+    const a = inset[i];
+    const b = inset[(i + 1) % n];
+    return (q.x - p.x) * (b.x - a.x) + (q.z - p.z) * (b.z - a.z) > 1e-6;
+  });
+  return keepsEdgeDirections &&
+    Math.sign(calculateSignedArea(inset)) === Math.sign(calculateSignedArea(original)) &&
+    findSelfIntersections(inset).length === 0 &&
+    holes.every(hole => hole.every(point => isPointInPolygon(point, inset)));
+};
+
+/**
+ * Split a building into stacked tiers at its setbacks. Setbacks outside the
+ * building's floors, or deep enough to collapse the floor plate, are ignored.
+ */
+export const getMassingTiers = (
+  points: Point3D[],
+  floors: number,
+  holes: Point3D[][] = [],
+  setbacks: FloorSetback[] = []
+): MassingTier[] => {
+  const tiers: MassingTier[] = [{ fromFloor: 0, floors, points, holes }];
+  const levels = [...new Set(setbacks.map(setback => Math.round(setback.fromFloor)))]
+    .filter(level => level > 0 && level < floors)
+    .sort((a, b) => a - b);
+
+  let distances = points.map(() => 0);
+  for (const level of levels) {
+    const next = [...distances];
+    setbacks
+      .filter(setback => Math.round(setback.fromFloor) === level)
+      .forEach(setback => points.forEach((_, i) => {
+        if (!setback.edges || setback.edges.includes(i)) next[i] += Math.max(0, setback.distance);
+      }));
+    if (next.every((distance, i) => distance === distances[i])) continue;
+
+    const inset = insetPolygon(points, next);
+    if (!isUsableInset(points, inset, holes)) continue;
+
+    distances = next;
+    const below = tiers[tiers.length - 1];
+    below.floors = level - below.fromFloor;
+    tiers.push({ fromFloor: level, floors: floors - level, points: inset, holes });
+  }
+
+  return tiers;
+};
+
+/**
+ * Gross floor area over all floors, following any setbacks.
+ */
+export const calculateGrossFloorArea = (
+  points: Point3D[],
+  floors: number,
+  holes: Point3D[][] = [],
+  setbacks: FloorSetback[] = []
+): number => getMassingTiers(points, floors, holes, setbacks)
+  .reduce((sum, tier) => sum + calculateFootprintArea(tier.points, tier.holes) * tier.floors, 0);
+
+export type FootprintIssueType =
+  | 'too-few-points'
+  | 'duplicate-vertex'
+  | 'collinear-vertex'
+  | 'sliver-edge'
+  | 'self-intersection'
+  | 'overlap';
+
+export interface FootprintIssue {
+  type: FootprintIssueType;
+  severity: 'error' | 'warning'; // Errors break extrusion or the window solver
+  message: string;
+  point?: Point3D;                // Where to mark the issue in the scene
+  buildingId?: string;            // Overlapped building
+}
+
+export interface FootprintNeighbour {
+  id: string;
+  name?: string;
+  points: Point3D[];
+}
+
+export const FOOTPRINT_TOLERANCES = {
+  duplicateDistance: 0.01, // m, vertices closer than this coincide
+  collinearAngle: 1,       // degrees off a straight line
+  sliverLength: 0.3        // m, shorter edges are slivers
+};
+
+type FootprintTolerances = typeof FOOTPRINT_TOLERANCES;
+
+const cross = (o: Point3D, a: Point3D, b: Point3D): number =>
+  (a.x - o.x) * (b.z - o.z) - (a.z - o.z) * (b.x - o.x);
+
+const distanceXZ = (a: Point3D, b: Point3D): number => Math.hypot(b.x - a.x, b.z - a.z);
+
+const distanceToSegment = (point: Point3D, a: Point3D, b: Point3D): number => {
+  const dx = b.x - a.x;
+  const dz = b.z - a.z;
+  const lengthSq = dx * dx + dz * dz;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.z - a.z) * dz) / lengthSq)) : 0;
+  return Math.hypot(point.x - (a.x + t * dx), point.z - (a.z + t * dz));
+};
+
+/**
+ * Whether two segments cross or overlap. Touching at an endpoint only counts
+ * when `includeTouching` is set.
+ */
+export const segmentsIntersect = (
+  a1: Point3D,
+  a2: Point3D,
+  b1: Point3D,
+  b2: Point3D,
+  includeTouching: boolean = false,
+  epsilon: number = 1e-9
+): boolean => {
+  const d1 = cross(b1, b2, a1);
+  const d2 = cross(b1, b2, a2);
+  const d3 = cross(a1, a2, b1);
+  const d4 = cross(a1, a2, b2);
+
+  if (((d1 > epsilon && d2 < -epsilon) || (d1 < -epsilon && d2 > epsilon)) &&
+      ((d3 > epsilon && d4 < -epsilon) || (d3 < -epsilon && d4 > epsilon))) {
+    return true;
+  }
+
+  // Collinear segments intersect when they share more than a single point
+  if (Math.abs(d1) <= epsilon && Math.abs(d2) <= epsilon) {
+    const dx = a2.x - a1.x;
+    const dz = a2.z - a1.z;
+    const lengthSq = dx * dx + dz * dz;
+    if (lengthSq === 0) return false;
+    const t1 = ((b1.x - a1.x) * dx + (b1.z - a1.z) * dz) / lengthSq;
+    const t2 = ((b2.x - a1.x) * dx + (b2.z - a1.z) * dz) / lengthSq;
+    const overlap = Math.min(1, Math.max(t1, t2)) - Math.max(0, Math.min(t1, t2));
+    return includeTouching ? overlap >= 0 : overlap > epsilon;
+  }
+
+  if (!includeTouching) return false;
+  return distanceToSegment(a1, b1, b2) <= epsilon || distanceToSegment(a2, b1, b2) <= epsilon ||
+    distanceToSegment(b1, a1, a2) <= epsilon || distanceToSegment(b2, a1, a2) <= epsilon;
+};
+
+/**
+ * Pairs of edge indices that cross; edge i runs from point i to point i + 1.
+ * Adjacent edges only count when they fold back over each other.
+ */
+export const findSelfIntersections = (points: Point3D[]): Array<[number, number]> => {
+  const n = points.length;
+  const pairs: Array<[number, number]> = [];
+  if (n < 4) return pairs;
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const adjacent = j === i + 1 || (i === 0 && j === n - 1);
+      const crosses = adjacent
+        ? segmentsIntersect(points[i], points[(i + 1) % n], points[j], points[(j + 1) % n])
+        : segmentsIntersect(points[i], points[(i + 1) % n], points[j], points[(j + 1) % n], true);
+      if (crosses) pairs.push([i, j]);
+    }
+  }
+  return pairs;
+};
+
+/**
+ * Whether two footprints share interior area. Buildings that only share a wall
+ * or a corner do not overlap.
+ */
+export const footprintsOverlap = (a: Point3D[], b: Point3D[], tolerance: number = FOOTPRINT_TOLERANCES.duplicateDistance): boolean => {
+  if (a.length < 3 || b.length < 3) return false;
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) {
+      if (segmentsIntersect(a[i], a[(i + 1) % a.length], b[j], b[(j + 1) % b.length])) {
+        // Crossing edges overlap unless they are merely collinear along a shared wall
+        const d1 = cross(b[j], b[(j + 1) % b.length], a[i]);
+        const d2 = cross(b[j], b[(j + 1) % b.length], a[(i + 1) % a.length]);
+        if (Math.abs(d1) > 1e-9 || Math.abs(d2) > 1e-9) return true;
+      }
+    }
+  }
+
+  // No crossings: one footprint may still sit inside the other
+  const isStrictlyInside = (point: Point3D, polygon: Point3D[]) =>
+    isPointInPolygon(point, polygon) &&
+    polygon.every((p, i) => distanceToSegment(point, p, polygon[(i + 1) % polygon.length]) > tolerance);
+  const probes = (ring: Point3D[]) => [
+    ...ring,
+    ...ring.map((p, i) => ({ x: (p.x + ring[(i + 1) % ring.length].x) / 2, y: 0, z: (p.z + ring[(i + 1) % ring.length].z) / 2 }))
+  ];
+
+  return probes(a).some(point => isStrictlyInside(point, b)) || probes(b).some(point => isStrictlyInside(point, a));
+};
+
+/**
+ * Check a footprint for geometry that breaks extrusion or window placement,
+ * and for overlaps with neighbouring buildings.
+ */
+export const validateFootprint = (
+  points: Point3D[],
+  neighbours: FootprintNeighbour[] = [],
+  tolerances: FootprintTolerances = FOOTPRINT_TOLERANCES
+): FootprintIssue[] => {
+  const issues: FootprintIssue[] = [];
+  const n = points.length;
+
+  if (n < 3) {
+    return [{ type: 'too-few-points', severity: 'error', message: 'A footprint needs at least 3 points' }];
+  }
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (distanceXZ(points[i], points[j]) < tolerances.duplicateDistance) {
+        issues.push({ type: 'duplicate-vertex', severity: 'error', message: `Points ${i + 1} and ${j + 1} coincide`, point: points[i] });
+      }
+    }
+  }
+
+  for (let i = 0; i < n; i++) {
+    const prev = points[(i - 1 + n) % n];
+    const point = points[i];
+    const next = points[(i + 1) % n];
+    const edgeLength = distanceXZ(point, next);
+
+    if (edgeLength >= tolerances.duplicateDistance && edgeLength < tolerances.sliverLength) {
+      issues.push({
+        type: 'sliver-edge',
+        severity: 'warning',
+        message: `Edge ${i + 1} is only ${edgeLength.toFixed(2)} m long`,
+        point: { x: (point.x + next.x) / 2, y: 0, z: (point.z + next.z) / 2 }
+      });
+    }
+
+    if (distanceXZ(prev, point) < tolerances.duplicateDistance || edgeLength < tolerances.duplicateDistance) continue;
+    const turn = Math.atan2(cross(prev, point, next), (point.x - prev.x) * (next.x - point.x) + (point.z - prev.z) * (next.z - point.z));
+    if (Math.abs(turn) * 180 / Math.PI < tolerances.collinearAngle) {
+      issues.push({ type: 'collinear-vertex', severity: 'warning', message: `Point ${i + 1} lies on a straight edge`, point });
+    }
+  }
+
+  // Coincident vertices already touch; check crossings once they are resolved
+  const hasDuplicates = issues.some(issue => issue.type === 'duplicate-vertex');
+  (hasDuplicates ? [] : findSelfIntersections(points)).forEach(([i, j]) => {
+    issues.push({
+      type: 'self-intersection',
+      severity: 'error',
+      message: `Edges ${i + 1} and ${j + 1} cross`,
+      point: { x: (points[j].x + points[(j + 1) % n].x) / 2, y: 0, z: (points[j].z + points[(j + 1) % n].z) / 2 }
+    });
+  });
+
+  neighbours.forEach(neighbour => {
+    if (footprintsOverlap(points, neighbour.points, tolerances.duplicateDistance)) {
+      issues.push({
+        type: 'overlap',
+        severity: 'warning',
+        message: `Overlaps ${neighbour.name || neighbour.id}`,
+        point: calculateCentroid(neighbour.points),
+        buildingId: neighbour.id
+      });
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Repair what can be repaired automatically: merge duplicate vertices and
+ * sliver edges, drop collinear vertices and untangle crossing edges.
+ * Overlaps with neighbours are left alone.
+ */
+export const repairFootprint = (points: Point3D[], tolerances: FootprintTolerances = FOOTPRINT_TOLERANCES): Point3D[] => {
+  let ring = points.map(point => ({ ...point }));
+
+  // Merge coincident and sliver edges into their midpoint
+  let merged = true;
+  while (merged && ring.length > 3) {
+    merged = false;
+    for (let i = 0; i < ring.length; i++) {
+      const next = (i + 1) % ring.length;
+      if (distanceXZ(ring[i], ring[next]) < tolerances.sliverLength) {
+        ring[i] = { x: (ring[i].x + ring[next].x) / 2, y: ring[i].y, z: (ring[i].z + ring[next].z) / 2 };
+        ring.splice(next, 1);
+        merged = true;
+        break;
+      }
+    }
+  }
+
+  // Reverse the run between two crossing edges until none cross (2-opt)
+  for (let pass = 0; pass < ring.length * ring.length; pass++) {
+    const crossing = findSelfIntersections(ring)[0];
+    if (!crossing) break;
+    const [i, j] = crossing;
+    if (j === i + 1) {
+      ring.splice(j, 1); // Spike folding back on itself
+    } else if (i === 0 && j === ring.length - 1) {
+      ring.splice(0, 1);
+    } else {
+      ring = [...ring.slice(0, i + 1), ...ring.slice(i + 1, j + 1).reverse(), ...ring.slice(j + 1)];
+    }
+    if (ring.length < 3) break;
+  }
+
+  // Drop vertices that do not turn the outline
+  let removed = true;
+  while (removed && ring.length > 3) {
+    removed = false;
+    for (let i = 0; i < ring.length; i++) {
+      const prev = ring[(i - 1 + ring.length) % ring.length];
+      const next = ring[(i + 1) % ring.length];
+      const turn = Math.atan2(cross(prev, ring[i], next), (ring[i].x - prev.x) * (next.x - ring[i].x) + (ring[i].z - prev.z) * (next.z - ring[i].z));
+      if (Math.abs(turn) * 180 / Math.PI < tolerances.collinearAngle) {
+        ring.splice(i, 1);
+        removed = true;
+        break;
+      }
+    }
+  }
+
+  return ring;
+};
@@ -0,0 +1,160 @@
+import * as THREE from 'three';
+import { Point3D } from '../types/building';
+import { ReferenceEdge } from './drawingConstraints';
+
+export const OBJECT_SNAP_DISTANCE = 1.5; // World units around the cursor
+const CONTEXT_EDGE_ANGLE = 30;           // Degrees between faces before an edge counts as a feature edge
+
+export type ObjectSnapType = 'vertex' | 'midpoint' | 'edge';
+
+export interface ObjectSnap {
+  point: Point3D;
+  type: ObjectSnapType;
+  edge: ReferenceEdge;
+}
+
+const SNAP_PRIORITY: Record<ObjectSnapType, number> = { vertex: 0, midpoint: 1, edge: 2 };
+
+const planarDistance = (a: Point3D, b: Point3D): number => Math.hypot(a.x - b.x, a.z - b.z);
+
+// Closest point to `target` on the segment, in the XZ plane
+const closestPointOnEdge = (target: Point3D, edge: ReferenceEdge): Point3D => {
+  const dx = edge.end.x - edge.start.x;
+  const dz = edge.end.z - edge.start.z;
+  const lengthSq = dx * dx + dz * dz;
+  if (lengthSq < 1e-12) return { x: edge.start.x, y: target.y, z: edge.start.z };
+
+  const t = THREE.MathUtils.clamp(((target.x - edge.start.x) * dx + (target.z - edge.start.z) * dz) / lengthSq, 0, 1);
+  return { x: edge.start.x + dx * t, y: target.y, z: edge.start.z + dz * t };
+};
+
+/**
+ * Find the best object snap near `target`. Vertices win over midpoints, which
+ * win over plain edge hits; within a type the nearest candidate wins.
+ */
+export const findObjectSnap = (
+  target: Point3D,
+  edges: ReferenceEdge[],
+  tolerance: number = OBJECT_SNAP_DISTANCE
+): ObjectSnap | null => {
+  const candidates: ObjectSnap[] = [];
+
+  for (const edge of edges) {
+    // Cheap reject before looking at individual candidates
+    if (Math.min(edge.start.x, edge.end.x) - tolerance > target.x ||
+        Math.max(edge.start.x, edge.end.x) + tolerance < target.x ||
+        Math.min(edge.start.z, edge.end.z) - tolerance > target.z ||
+        Math.max(edge.start.z, edge.end.z) + tolerance < target.z) {
+      continue;
+    }
+
+    candidates.push({ point: edge.start, type: 'vertex', edge }, { point: edge.end, type: 'vertex', edge });
+    if (planarDistance(edge.start, edge.end) > 1e-6) {
+      candidates.push(
+        { point: { x: (edge.start.x + edge.end.x) / 2, y: 0, z: (edge.start.z + edge.end.z) / 2 }, type: 'midpoint', edge },
+        { point: closestPointOnEdge(target, edge), type: 'edge', edge }
+      );
+    }
+  }
+
+  let best: ObjectSnap | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = planarDistance(candidate.point, target);
+    if (distance > tolerance) continue;
+    if (!best || SNAP_PRIORITY[candidate.type] < SNAP_PRIORITY[best.type] ||
+        (candidate.type === best.type && distance < bestDistance)) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best ? { ...best, point: { x: best.point.x, y: target.y, z: best.point.z } } : null;
+};
+
+/**
+ * Where the ray from `origin` along `direction` crosses one of the edges within
+ * `tolerance` of `target`. Used to keep an angle-locked segment on its ray while
+ * still landing on a neighbouring wall.
+ */
+export const findRayEdgeSnap = (
+  origin: Point3D,
+  direction: { x: number; z: number },
+  target: Point3D,
+  edges: ReferenceEdge[],
+  tolerance: number = OBJECT_SNAP_DISTANCE
+): ObjectSnap | null => {
+  let best: ObjectSnap | null = null;
+  let bestDistance = Infinity;
+
+  for (const edge of edges) {
+    const ex = edge.end.x - edge.start.x;
+    const ez = edge.end.z - edge.start.z;
+    const denominator = direction.x * ez - direction.z * ex;
+    if (Math.abs(denominator) < 1e-9) continue; // Parallel to the ray
+
+    const ox = edge.start.x - origin.x;
+    const oz = edge.start.z - origin.z;
+    const t = (ox * ez - oz * ex) / denominator;   // Along the ray
+    const u = (ox * direction.z - oz * direction.x) / denominator; // Along the edge
+    if (t <= 1e-6 || u < 0 || u > 1) continue;
+
+    const point = { x: origin.x + direction.x * t, y: target.y, z: origin.z + direction.z * t };
+    const distance = planarDistance(point, target);
+    if (distance <= tolerance && distance < bestDistance) {
+      best = { point, type: 'edge', edge };
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+};
+
+// Feature edges are cached per mesh; context models are static once loaded
+const contextEdgeCache = new WeakMap<THREE.Mesh, ReferenceEdge[]>();
+
+/**
+ * Feature edges of the loaded context model, flattened onto the ground plane.
+ * Vertical edges collapse to a single point and act as corner snaps.
+ */
+export const collectContextEdges = (scene: THREE.Scene): ReferenceEdge[] => {
+  const edges: ReferenceEdge[] = [];
+
+  scene.traverse(object => {
+    if (!(object instanceof THREE.Mesh) || !object.userData.isContextMesh || !object.geometry) return;
+
+    let meshEdges = contextEdgeCache.get(object);
+    if (!meshEdges) {
+      meshEdges = [];
+      object.updateWorldMatrix(true, false);
+      const edgesGeometry = new THREE.EdgesGeometry(object.geometry, CONTEXT_EDGE_ANGLE);
+      const position = edgesGeometry.attributes.position;
+      const start = new THREE.Vector3();
+      const end = new THREE.Vector3();
+      const seen = new Set<string>();
+
+      for (let i = 0; i < position.count; i += 2) {
+        start.fromBufferAttribute(position, i).applyMatrix4(object.matrixWorld);
+        end.fromBufferAttribute(position, i + 1).applyMatrix4(object.matrixWorld);
+
+        // Walls and roofs repeat the same outline at different heights
+        const a = `${start.x.toFixed(2)},${start.z.toFixed(2)}`;
+        const b = `${end.x.toFixed(2)},${end.z.toFixed(2)}`;
+        const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        meshEdges.push({
+          start: { x: start.x, y: 0, z: start.z },
+          end: { x: end.x, y: 0, z: end.z }
+        });
+      }
+
+      edgesGeometry.dispose();
+      contextEdgeCache.set(object, meshEdges);
+    }
+    meshEdges.forEach(edge => edges.push(edge)); // Spreading can overflow the stack on large models
+  });
+
+  return edges;
+};
@@ -0,0 +1,278 @@
+// Roof forms on top of an extruded footprint: mono-pitch, gable and hip (straight skeleton)
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { BuildingConfig, Point3D, RoofType } from '../types/building';
+import { calculateCentroid, createShapeFromPoints, MassingTier } from './geometry';
+import { computeStraightSkeleton } from './straightSkeleton';
+
+export const DEFAULT_ROOF_PITCH = 30; // degrees
+export const MAX_ROOF_PITCH = 75;     // degrees
+
+export interface RoofOptions {
+  type: RoofType;
+  pitch: number;           // Degrees from horizontal
+  ridgeDirection?: number; // Degrees clockwise from north
+}
+
+export interface RoofSurfaces {
+  roof: Point3D[][];  // Triangles of the sloped surfaces
+  walls: Point3D[][]; // Triangles of the gable and mono-pitch end walls above the eaves
+}
+
+interface Vec {
+  x: number;
+  z: number;
+}
+
+const dot = (a: Vec, b: Vec): number => a.x * b.x + a.z * b.z;
+
+export const getRoofOptions = (
+  config: Pick<BuildingConfig, 'roof_type' | 'roof_pitch' | 'roof_ridge_direction'>
+): RoofOptions => ({
+  type: config.roof_type ?? 'flat',
+  pitch: Math.min(MAX_ROOF_PITCH, Math.max(0, config.roof_pitch ?? DEFAULT_ROOF_PITCH)),
+  ridgeDirection: config.roof_ridge_direction
+});
+
+// Longest edge of the outer ring, the default ridge line and mono-pitch eave
+const getLongestEdge = (points: Point3D[]): { start: Point3D; end: Point3D } => {
+  let longest = { start: points[0], end: points[1 % points.length], length: -1 };
+  points.forEach((start, i) => {
+    const end = points[(i + 1) % points.length];
+    const length = Math.hypot(end.x - start.x, end.z - start.z);
+    if (length > longest.length) longest = { start, end, length };
+  });
+  return longest;
+};
+
+// Unit vector along the ridge in plan; azimuth 0 runs north (-Z), 90 east (+X)
+const getRidgeAxis = (points: Point3D[], ridgeDirection?: number): Vec => {
+  if (ridgeDirection !== undefined) {
+    const azimuth = (ridgeDirection * Math.PI) / 180;
+    return { x: Math.sin(azimuth), z: -Math.cos(azimuth) };
+  }
+  const { start, end } = getLongestEdge(points);
+  const length = Math.hypot(end.x - start.x, end.z - start.z) || 1;
+  return { x: (end.x - start.x) / length, z: (end.z - start.z) / length };
+};
+
+// Up-slope direction of a mono-pitch roof; it falls to the right of the ridge direction
+const getMonoPitchSlope = (points: Point3D[], ridgeDirection?: number): Vec => {
+  if (ridgeDirection !== undefined) {
+    const azimuth = (ridgeDirection * Math.PI) / 180;
+    return { x: -Math.cos(azimuth), z: -Math.sin(azimuth) };
+  }
+  // Rise away from the longest edge
+  const { start, end } = getLongestEdge(points);
+  const length = Math.hypot(end.x - start.x, end.z - start.z) || 1;
+  const normal = { x: -(end.z - start.z) / length, z: (end.x - start.x) / length };
+  const centroid = calculateCentroid(points);
+  const inward = dot(normal, { x: centroid.x - start.x, z: centroid.z - start.z }) >= 0;
+  return inward ? normal : { x: -normal.x, z: -normal.z };
+};
+
+// Sutherland–Hodgman clip of a ring to the side where dot(axis, p) is on the kept side of `offset`
+const clipRing = (ring: Point3D[], axis: Vec, offset: number, keepBelow: boolean): Point3D[] => {
+  const inside = (p: Point3D) => (keepBelow ? dot(axis, p) <= offset : dot(axis, p) >= offset);
+  const clipped: Point3D[] = [];
+  ring.forEach((current, i) => {
+    const next = ring[(i + 1) % ring.length];
+    if (inside(current)) clipped.push(current);
+    if (inside(current) !== inside(next)) {
+      const t = (offset - dot(axis, current)) / (dot(axis, next) - dot(axis, current));
+      clipped.push({ x: current.x + (next.x - current.x) * t, y: 0, z: current.z + (next.z - current.z) * t });
+    }
+  });
+  return clipped;
+};
+
+// Triangulate a plan polygon (with optional holes) and lift it onto the roof
+const triangulate = (ring: Point3D[], holes: Point3D[][], heightAt: (p: Point3D) => number): Point3D[][] => {
+  if (ring.length < 3) return [];
+  const all = [ring, ...holes].flat();
+  const toVector = (p: Point3D) => new THREE.Vector2(p.x, p.z);
+  return THREE.ShapeUtils.triangulateShape(ring.map(toVector), holes.map(hole => hole.map(toVector)))
+    .map(triangle => triangle.map(index => ({ x: all[index].x, y: heightAt(all[index]), z: all[index].z })));
+};
+
+// Vertical wall between the eaves and the roof line along one footprint edge
+const wallTriangles = (a: Point3D, b: Point3D, eaveHeight: number, heightAt: (p: Point3D) => number): Point3D[][] => {
+  const topA = heightAt(a);
+  const topB = heightAt(b);
+  const triangles: Point3D[][] = [];
+  if (topB - eaveHeight > 1e-6) {
+    triangles.push([{ x: a.x, y: eaveHeight, z: a.z }, { x: b.x, y: eaveHeight, z: b.z }, { x: b.x, y: topB, z: b.z }]);
+  }
+  if (topA - eaveHeight > 1e-6) {
+    triangles.push([{ x: a.x, y: eaveHeight, z: a.z }, { x: b.x, y: topB, z: b.z }, { x: a.x, y: topA, z: a.z }]);
+  }
+  return triangles;
+};
+
+/**
+ * Roof surfaces for a footprint whose walls stop at `eaveHeight`. Gables over
+ * courtyard footprints are built as hips, since a single ridge cannot span the ring.
+ */
+export const createRoofSurfaces = (
+  points: Point3D[],
+  eaveHeight: number,
+  roof: RoofOptions,
+  holes: Point3D[][] = []
+): RoofSurfaces => {
+  const slope = Math.tan((roof.pitch * Math.PI) / 180);
+  if (roof.type === 'flat' || points.length < 3 || slope <= 0) return { roof: [], walls: [] };
+
+  const rings = [points, ...holes.filter(hole => hole.length >= 3)];
+
+  if (roof.type === 'mono-pitch') {
+    const upSlope = getMonoPitchSlope(points, roof.ridgeDirection);
+    const low = Math.min(...points.map(p => dot(upSlope, p)));
+    const heightAt = (p: Point3D) => eaveHeight + (dot(upSlope, p) - low) * slope;
+    return {
+      roof: triangulate(points, rings.slice(1), heightAt),
+      walls: rings.flatMap(ring => ring.flatMap((p, i) => wallTriangles(p, ring[(i + 1) % ring.length], eaveHeight, heightAt)))
+    };
+  }
+
+  if (roof.type === 'gable' && rings.length === 1) {
+    const ridge = getRidgeAxis(points, roof.ridgeDirection);
+    const across = { x: -ridge.z, z: ridge.x };
+    const offsets = points.map(p => dot(across, p));
+    const min = Math.min(...offsets);
+    const max = Math.max(...offsets);
+    const middle = (min + max) / 2;
+    const heightAt = (p: Point3D) => eaveHeight + ((max - min) / 2 - Math.abs(dot(across, p) - middle)) * slope;
+
+    // Split the outline at the ridge so each half is one plane, and the end walls get a peak
+    const walls = points.flatMap((a, i) => {
+      const b = points[(i + 1) % points.length];
+      const da = dot(across, a) - middle;
+      const db = dot(across, b) - middle;
+      if (da * db >= 0) return wallTriangles(a, b, eaveHeight, heightAt);
+      const t = da / (da - db);
+      const peak = { x: a.x + (b.x - a.x) * t, y: 0, z: a.z + (b.z - a.z) * t };
+      return [...wallTriangles(a, peak, eaveHeight, heightAt), ...wallTriangles(peak, b, eaveHeight, heightAt)];
+    });
+
+    return {
+      roof: [
+        ...triangulate(clipRing(points, across, middle, true), [], heightAt),
+        ...triangulate(clipRing(points, across, middle, false), [], heightAt)
+      ],
+      walls
+    };
+  }
+
+  // Hip: every eave rises at the same pitch, meeting along the straight skeleton
+  const faces = computeStraightSkeleton(points, rings.slice(1));
+  return {
+    roof: faces.flatMap(face => {
+      const nodes = face.polygon.map(node => ({ x: node.x, y: eaveHeight + node.time * slope, z: node.z }));
+      return triangulate(nodes, [], p => p.y);
+    }),
+    walls: []
+  };
+};
+
+/**
+ * Highest point of the roof above the eaves.
+ */
+export const calculateRoofRise = (points: Point3D[], roof: RoofOptions, holes: Point3D[][] = []): number => {
+  const { roof: triangles, walls } = createRoofSurfaces(points, 0, roof, holes);
+  return [...triangles, ...walls].flat().reduce((rise, p) => Math.max(rise, p.y), 0);
+};
+
+// Flat-shaded triangles relative to the centroid, facing up or outwards
+const createTriangleGeometry = (triangles: Point3D[][], centroid: Point3D): THREE.BufferGeometry => {
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const uvs: number[] = [];
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+
+  triangles.forEach(triangle => {
+    const p0 = triangle[0];
+    let [, p1, p2] = triangle;
+    a.set(p0.x, p0.y, p0.z);
+    b.set(p1.x, p1.y, p1.z);
+    c.set(p2.x, p2.y, p2.z);
+    normal.subVectors(c, b).cross(a.clone().sub(b)).normalize();
+
+    // Roof faces point up; end walls point away from the footprint centre
+    const mid = { x: (p0.x + p1.x + p2.x) / 3 - centroid.x, z: (p0.z + p1.z + p2.z) / 3 - centroid.z };
+    const outward = Math.abs(normal.y) > 1e-6 ? normal.y : normal.x * mid.x + normal.z * mid.z;
+    if (outward < 0) {
+      [p1, p2] = [p2, p1];
+      normal.negate();
+    }
+
+    [p0, p1, p2].forEach(p => {
+      positions.push(p.x - centroid.x, p.y, p.z - centroid.z);
+      normals.push(normal.x, normal.y, normal.z);
+      uvs.push(p.x, p.z);
+    });
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+  geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+  return geometry;
+};
+
+/**
+ * Building massing: the footprint extruded to the eaves plus its roof, positioned
+ * relative to the centroid like the extrusions it replaces.
+ */
+export const createMassingGeometry = (
+  points: Point3D[],
+  centroid: Point3D,
+  eaveHeight: number,
+  roof: RoofOptions,
+  holes: Point3D[][] = []
+): THREE.BufferGeometry => {
+  const extrusion = new THREE.ExtrudeGeometry(createShapeFromPoints(points, centroid, holes), {
+    depth: eaveHeight,
+    bevelEnabled: false,
+    steps: 1
+  });
+  extrusion.rotateX(-Math.PI / 2);
+
+  const surfaces = createRoofSurfaces(points, eaveHeight, roof, holes);
+  if (surfaces.roof.length === 0) return extrusion;
+
+  const roofGeometry = createTriangleGeometry([...surfaces.roof, ...surfaces.walls], centroid);
+  const merged = mergeGeometries([extrusion, roofGeometry]);
+  if (!merged) return extrusion;
+
+  extrusion.dispose();
+  roofGeometry.dispose();
+  return merged;
+};
+
+/**
+ * Stepped massing: each setback tier stacked on the one below. Only the top tier
+ * carries the roof; the others end in flat terraces.
+ */
+export const createTieredMassingGeometry = (
+  tiers: MassingTier[],
+  centroid: Point3D,
+  floorHeight: number,
+  roof: RoofOptions
+): THREE.BufferGeometry => {
+  const parts = tiers.map((tier, i) => {
+    const tierRoof: RoofOptions = i === tiers.length - 1 ? roof : { type: 'flat', pitch: 0 };
+    const geometry = createMassingGeometry(tier.points, centroid, tier.floors * floorHeight, tierRoof, tier.holes);
+    geometry.translate(0, tier.fromFloor * floorHeight, 0);
+    return geometry;
+  });
+  if (parts.length === 1) return parts[0];
+
+  const merged = mergeGeometries(parts);
+  if (!merged) return parts[0];
+
+  parts.forEach(part => part.dispose());
+  return merged;
+};
@@ -0,0 +1,49 @@
+import { Point3D } from '../types/building';
+import { calculateCentroid } from './geometry';
+
+export interface ScreenRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export interface SharedValue<T> {
+  value: T;      // The first building's value when mixed
+  mixed: boolean;
+}
+
+/**
+ * Rectangle spanned by two corners of a drag, whichever way it was dragged.
+ */
+export const getScreenRect = (start: { x: number; y: number }, end: { x: number; y: number }): ScreenRect => ({
+  left: Math.min(start.x, end.x),
+  top: Math.min(start.y, end.y),
+  right: Math.max(start.x, end.x),
+  bottom: Math.max(start.y, end.y)
+});
+
+/**
+ * Buildings whose centre, halfway up, projects into the rectangle. `project`
+ * returns null for points behind the camera.
+ */
+export const getBuildingsInScreenRect = <T extends { points: Point3D[]; floors: number; floorHeight: number }>(
+  buildings: T[],
+  rect: ScreenRect,
+  project: (point: Point3D) => { x: number; y: number } | null
+): T[] => buildings.filter(building => {
+  if (building.points.length === 0) return false;
+  const centroid = calculateCentroid(building.points);
+  const screen = project({ x: centroid.x, y: (building.floors * building.floorHeight) / 2, z: centroid.z });
+  return screen !== null &&
+    screen.x >= rect.left && screen.x <= rect.right &&
+    screen.y >= rect.top && screen.y <= rect.bottom;
+});
+
+/**
+ * Common value of a field across a multi-selection, for showing "mixed" in bulk editors.
+ */
+export const getSharedValue = <T>(values: T[]): SharedValue<T> => ({
+  value: values[0],
+  mixed: values.some(value => value !== values[0])
+});
@@ -0,0 +1,289 @@
+// Straight skeleton of a footprint by simulating its inward-moving wavefront.
+// Each footprint edge sweeps out one roof face; the time at which the wavefront
+// reaches a point is its distance from the eaves, so a hip roof is height = time × tan(pitch).
+import { Point3D } from '../types/building';
+
+export interface SkeletonNode {
+  x: number;
+  z: number;
+  time: number; // Inward offset distance at which the wavefront passes the node
+}
+
+export interface SkeletonFace {
+  edge: number;           // Index of the edge in the concatenated rings
+  polygon: SkeletonNode[]; // Starts with the edge's endpoints, interior on the left
+}
+
+interface Vec {
+  x: number;
+  z: number;
+}
+
+interface WavefrontEdge {
+  start: Vec;
+  direction: Vec;
+  normal: Vec;  // Inward unit normal
+  offset: number; // normal · p for points on the edge at time 0
+}
+
+interface WavefrontVertex {
+  base: Vec;      // Position extrapolated back to time 0
+  velocity: Vec;
+  origin: SkeletonNode;
+  inEdge: number;
+  outEdge: number;
+  prev: WavefrontVertex;
+  next: WavefrontVertex;
+  active: boolean;
+}
+
+interface SkeletonArc {
+  from: SkeletonNode;
+  to: SkeletonNode;
+  left: number;  // Faces on either side of the arc
+  right: number;
+}
+
+type SkeletonEvent =
+  | { type: 'edge'; time: number; vertex: WavefrontVertex; point: Vec }
+  | { type: 'split'; time: number; vertex: WavefrontVertex; edgeStart: WavefrontVertex; point: Vec };
+
+const EPSILON = 1e-7;
+
+const dot = (a: Vec, b: Vec): number => a.x * b.x + a.z * b.z;
+const cross = (a: Vec, b: Vec): number => a.x * b.z - a.z * b.x;
+
+// Shoelace area in plain x/z axes, positive when the interior is left of each edge
+const orientedArea = (ring: Vec[]): number =>
+  ring.reduce((sum, p, i) => {
+    const q = ring[(i + 1) % ring.length];
+    return sum + (p.x * q.z - q.x * p.z);
+  }, 0) / 2;
+
+const positionAt = (vertex: WavefrontVertex, time: number): Vec => ({
+  x: vertex.base.x + vertex.velocity.x * time,
+  z: vertex.base.z + vertex.velocity.z * time
+});
+
+// Moving along the velocity keeps the vertex on both offset edges
+const bisectorVelocity = (a: WavefrontEdge, b: WavefrontEdge): Vec => {
+  const denominator = 1 + dot(a.normal, b.normal);
+  // Opposite edges meeting head on: the wavefront between them has closed
+  if (denominator < EPSILON) return { x: 0, z: 0 };
+  return { x: (a.normal.x + b.normal.x) / denominator, z: (a.normal.z + b.normal.z) / denominator };
+};
+
+const isReflex = (vertex: WavefrontVertex, edges: WavefrontEdge[]): boolean =>
+  cross(edges[vertex.inEdge].direction, edges[vertex.outEdge].direction) < -EPSILON;
+
+/**
+ * Compute the roof faces of a footprint's straight skeleton. The outer ring and
+ * any courtyard rings may have either winding; edges are numbered through the
+ * outer ring first, then each courtyard in turn.
+ */
+export const computeStraightSkeleton = (outer: Point3D[], holes: Point3D[][] = []): SkeletonFace[] => {
+  const rings: Vec[][] = [outer, ...holes.filter(hole => hole.length >= 3)].map((ring, ringIndex) => {
+    const plain = ring.map(p => ({ x: p.x, z: p.z }));
+    // Interior on the left: outer ring positive, courtyards negative
+    const area = orientedArea(plain);
+    return (ringIndex === 0 ? area < 0 : area > 0) ? plain.reverse() : plain;
+  });
+
+  const edges: WavefrontEdge[] = [];
+  const vertices: WavefrontVertex[] = [];
+  const arcs: SkeletonArc[] = [];
+  const corners: SkeletonNode[][] = [];
+
+  rings.forEach(ring => {
+    const firstEdge = edges.length;
+    ring.forEach((start, i) => {
+      const end = ring[(i + 1) % ring.length];
+      const length = Math.hypot(end.x - start.x, end.z - start.z) || 1;
+      const direction = { x: (end.x - start.x) / length, z: (end.z - start.z) / length };
+      const normal = { x: -direction.z, z: direction.x };
+      edges.push({ start, direction, normal, offset: dot(normal, start) });
+    });
+
+    const ringNodes = ring.map(p => ({ x: p.x, z: p.z, time: 0 }));
+    corners.push(ringNodes);
+    const ringVertices = ring.map((p, i): WavefrontVertex => {
+      const inEdge = firstEdge + (i - 1 + ring.length) % ring.length;
+      const outEdge = firstEdge + i;
+      return {
+        base: { ...p },
+        velocity: bisectorVelocity(edges[inEdge], edges[outEdge]),
+        origin: ringNodes[i],
+        inEdge,
+        outEdge,
+        prev: null as unknown as WavefrontVertex,
+        next: null as unknown as WavefrontVertex,
+        active: true
+      };
+    });
+    ringVertices.forEach((vertex, i) => {
+      vertex.prev = ringVertices[(i - 1 + ringVertices.length) % ringVertices.length];
+      vertex.next = ringVertices[(i + 1) % ringVertices.length];
+    });
+    vertices.push(...ringVertices);
+  });
+
+  const createVertex = (point: Vec, time: number, inEdge: number, outEdge: number, origin?: SkeletonNode): WavefrontVertex => {
+    const velocity = bisectorVelocity(edges[inEdge], edges[outEdge]);
+    const vertex: WavefrontVertex = {
+      base: { x: point.x - velocity.x * time, z: point.z - velocity.z * time },
+      velocity,
+      origin: origin ?? { x: point.x, z: point.z, time },
+      inEdge,
+      outEdge,
+      prev: null as unknown as WavefrontVertex,
+      next: null as unknown as WavefrontVertex,
+      active: true
+    };
+    vertices.push(vertex);
+    return vertex;
+  };
+
+  const addArc = (vertex: WavefrontVertex, to: SkeletonNode) => {
+    arcs.push({ from: vertex.origin, to, left: vertex.inEdge, right: vertex.outEdge });
+  };
+
+  // Two vertices left in a loop are joined by a ridge; fewer means the loop is done
+  const closeDegenerateLoop = (vertex: WavefrontVertex) => {
+    if (vertex.next === vertex) {
+      vertex.active = false;
+    } else if (vertex.next.next === vertex) {
+      arcs.push({ from: vertex.origin, to: vertex.next.origin, left: vertex.inEdge, right: vertex.outEdge });
+      vertex.active = false;
+      vertex.next.active = false;
+    }
+  };
+
+  const findNextEvent = (now: number): SkeletonEvent | null => {
+    let best: SkeletonEvent | null = null;
+    const active = vertices.filter(v => v.active);
+
+    for (const vertex of active) {
+      // Edge event: the edge to the next vertex shrinks to nothing
+      const next = vertex.next;
+      const direction = edges[vertex.outEdge].direction;
+      const rate = dot({ x: next.velocity.x - vertex.velocity.x, z: next.velocity.z - vertex.velocity.z }, direction);
+      if (rate < -EPSILON) {
+        const length = dot({ x: next.base.x - vertex.base.x, z: next.base.z - vertex.base.z }, direction);
+        const time = -length / rate;
+        if (time >= now - EPSILON && (!best || time < best.time - EPSILON)) {
+          const a = positionAt(vertex, time);
+          const b = positionAt(next, time);
+          best = { type: 'edge', time, vertex, point: { x: (a.x + b.x) / 2, z: (a.z + b.z) / 2 } };
+        }
+      }
+
+      // Split event: a reflex vertex runs into another part of the wavefront
+      if (!isReflex(vertex, edges)) continue;
+      for (const edgeStart of active) {
+        const edgeEnd = edgeStart.next;
+        if (edgeStart === vertex || edgeEnd === vertex) continue;
+
+        const edge = edges[edgeStart.outEdge];
+        const approach = dot(edge.normal, vertex.velocity) - 1;
+        if (approach > -EPSILON) continue;
+        const time = (edge.offset - dot(edge.normal, vertex.base)) / approach;
+        if (time < now - EPSILON || (best && time >= best.time - EPSILON)) continue;
+
+        // The vertex must start on the inside of the edge and land within its current extent
+        const current = positionAt(vertex, now);
+        if (dot(edge.normal, current) - edge.offset - now < -EPSILON) continue;
+        const point = positionAt(vertex, time);
+        const start = positionAt(edgeStart, time);
+        const end = positionAt(edgeEnd, time);
+        const along = dot({ x: point.x - start.x, z: point.z - start.z }, edge.direction);
+        const extent = dot({ x: end.x - start.x, z: end.z - start.z }, edge.direction);
+        if (along < -EPSILON || along > extent + EPSILON) continue;
+
+        best = { type: 'split', time, vertex, edgeStart, point };
+      }
+    }
+
+    return best;
+  };
+
+  let now = 0;
+  const maxEvents = vertices.length * vertices.length + 16;
+  for (let count = 0; count < maxEvents; count++) {
+    const event = findNextEvent(now);
+    if (!event) break;
+    now = Math.max(now, event.time);
+    const node: SkeletonNode = { x: event.point.x, z: event.point.z, time: now };
+
+    if (event.type === 'edge') {
+      const a = event.vertex;
+      const b = a.next;
+      addArc(a, node);
+      addArc(b, node);
+      a.active = false;
+      b.active = false;
+
+      if (b.next === a) continue; // The loop collapsed onto this point
+
+      const merged = createVertex(event.point, now, a.inEdge, b.outEdge, node);
+      merged.prev = a.prev;
+      merged.next = b.next;
+      a.prev.next = merged;
+      b.next.prev = merged;
+      closeDegenerateLoop(merged);
+    } else {
+      const r = event.vertex;
+      const u = event.edgeStart;
+      const w = u.next;
+      addArc(r, node);
+      r.active = false;
+
+      // The reflex vertex cuts the wavefront in two (or joins a courtyard loop to the outer one)
+      const left = createVertex(event.point, now, r.inEdge, u.outEdge, node);
+      const right = createVertex(event.point, now, u.outEdge, r.outEdge, node);
+      left.prev = r.prev;
+      left.next = w;
+      r.prev.next = left;
+      w.prev = left;
+      right.prev = u;
+      right.next = r.next;
+      u.next = right;
+      r.next.prev = right;
+      closeDegenerateLoop(left);
+      if (right.active) closeDegenerateLoop(right);
+    }
+  }
+
+  // Each face runs along its edge, then back through the skeleton arcs on that edge's side
+  const faces: SkeletonFace[] = [];
+  let edgeIndex = 0;
+
+  corners.forEach(ringNodes => {
+    ringNodes.forEach((startNode, i) => {
+      const face = edgeIndex++;
+      const endNode = ringNodes[(i + 1) % ringNodes.length];
+      const faceArcs = arcs.filter(arc => arc.left === face || arc.right === face);
+
+      const polygon: SkeletonNode[] = [startNode, endNode];
+      const used = new Set<SkeletonArc>();
+      let current = endNode;
+      while (current !== startNode && used.size < faceArcs.length) {
+        const arc = faceArcs.find(candidate => !used.has(candidate) && (candidate.from === current || candidate.to === current));
+        if (!arc) break;
+        used.add(arc);
+        current = arc.from === current ? arc.to : arc.from;
+        if (current !== startNode) polygon.push(current);
+      }
+
+      if (current !== startNode) return; // Skeleton did not close around this edge
+
+      // Simultaneous events leave zero-length arcs behind
+      const distinct = polygon.filter((node, j) => {
+        const previous = polygon[(j - 1 + polygon.length) % polygon.length];
+        return j === 0 || Math.hypot(node.x - previous.x, node.z - previous.z) > 1e-6;
+      });
+      if (distinct.length >= 3) faces.push({ edge: face, polygon: distinct });
+    });
+  });
+
+  return faces;
+};
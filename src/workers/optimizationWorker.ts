@@ -0,0 +1,31 @@
+// Runs the genetic optimiser off the main thread so the render loop keeps running
+import type { BuildingSnapshot } from '../types/building';
+import { runGeneticOptimization, OptimizationIndividual, OptimizationSettings } from '../services/GeneticOptimizer';
+import { evaluateDesignMetrics, MetricsWeatherData } from '../services/DesignMetricsEvaluator';
+
+export interface OptimizationWorkerRequest {
+  buildings: BuildingSnapshot[];
+  settings: OptimizationSettings;
+  weatherData: MetricsWeatherData | null;
+}
+
+export type OptimizationWorkerResponse =
+  | { type: 'generation'; index: number; offspring: OptimizationIndividual[] }
+  | { type: 'complete' }
+  | { type: 'error'; message: string };
+
+const post = (response: OptimizationWorkerResponse) => self.postMessage(response);
+
+self.addEventListener('message', (event: MessageEvent<OptimizationWorkerRequest>) => {
+  const { buildings, settings, weatherData } = event.data;
+
+  try {
+    runGeneticOptimization(buildings, settings, {
+      evaluate: candidate => evaluateDesignMetrics(candidate, weatherData),
+      onGeneration: ({ index, offspring }) => post({ type: 'generation', index, offspring })
+    });
+    post({ type: 'complete' });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});